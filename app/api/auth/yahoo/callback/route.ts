@@ -404,9 +404,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.redirect(redirectUrl);
     }
     
-    // Redirect to leagues page - it will auto-redirect to the first league's trade page
-    const redirectUrl = `${protocol}://${host}/leagues`;
-    console.log("[Yahoo Callback] Redirecting to leagues page (will auto-redirect to trade):", redirectUrl);
+    // Redirect to the dashboard - it opens the default league's trade page (or the league picker)
+    const redirectUrl = `${protocol}://${host}/dashboard`;
+    console.log("[Yahoo Callback] Redirecting to dashboard (opens the default league):", redirectUrl);
     return NextResponse.redirect(redirectUrl);
   } catch (error) {
     console.error("Yahoo OAuth callback error:", error);
@@ -18,6 +18,7 @@ export async function GET() {
       select: {
         yahooUserId: true,
         expiresAt: true,
+        refreshToken: true,
         createdAt: true,
       },
     });
@@ -34,6 +35,7 @@ export async function GET() {
       authenticated: true,
       yahooUserId: yahooAccount.yahooUserId,
       expiresAt: yahooAccount.expiresAt?.toISOString() || null,
+      autoRefresh: Boolean(yahooAccount.refreshToken),
       linkedAt: yahooAccount.createdAt.toISOString(),
     });
   } catch (error) {
@@ -4,6 +4,8 @@ import prisma from "@/lib/prisma";
 import { loadTeamProfiles } from "@/lib/ai/teamProfile";
 import { analyzeTrades, type PlayerForAI, type TeamForAI } from "@/lib/ai/cleanTradeAnalyzer";
 import { calculateKeeperBonus } from "@/lib/keeper/types";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export async function POST(
   request: NextRequest,
@@ -20,18 +22,7 @@ export async function POST(
     console.log("[AI V2] Starting for league:", leagueKey);
 
     // Find league
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
@@ -66,6 +57,7 @@ export async function POST(
       orderBy: { round: 'asc' }
     });
     const pickValueMap = new Map(draftPickValues.map(pv => [pv.round, pv.score]));
+    const keeperRules = await getLeagueKeeperRules(league.id);
 
     // Fetch all teams with rosters
     const teams = await prisma.team.findMany({
@@ -116,7 +108,7 @@ export async function POST(
         let keeperValue = baseValue;
         if (entry.isKeeper && entry.originalDraftRound && entry.yearsRemaining !== null) {
           const draftRoundAvg = pickValueMap.get(entry.originalDraftRound) ?? 100;
-          const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining);
+          const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining, keeperRules);
           keeperValue = baseValue + bonus;
         }
         // For non-keepers, keeperValue = baseValue (no keeper bonus)
@@ -184,7 +176,7 @@ export async function POST(
     const myTeamForAI = teamsForAI.find(t => t.id === myTeam.id)!;
 
     console.log("[AI V2] Calling AI with", teamsForAI.length, "teams");
-    const suggestions = await analyzeTrades(myTeamForAI, teamsForAI);
+    const suggestions = await analyzeTrades(myTeamForAI, teamsForAI, keeperRules);
     console.log("[AI V2] Received", suggestions.length, "suggestions");
 
     return NextResponse.json({
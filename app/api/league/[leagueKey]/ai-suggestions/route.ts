@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
 import { analyzeTrades, type TeamForAI, type PlayerForAI } from "@/lib/ai/tradeAnalyzer";
+import { getLeagueScoringConfig } from "@/lib/yahoo/scoringConfig";
+import { countOpenIrSlots, getInjuryOutlook } from "@/lib/injuries/availability";
+import { getLeagueInjuryOverrides, withInjuryOverride } from "@/lib/injuries/overrides";
+import { seasonEndDate } from "@/lib/projections/restOfSeason";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export async function POST(
   request: NextRequest,
@@ -18,18 +23,7 @@ export async function POST(
     console.log("[AI Suggestions] Starting analysis for league:", leagueKey);
 
     // Find the league - shared across all users
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' }, // Use the oldest record (primary league)
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json(
@@ -92,6 +86,8 @@ export async function POST(
       orderBy: { round: 'asc' }
     });
     const pickValueMap = new Map(draftPickValues.map(pv => [pv.round, pv.score]));
+    const seasonEnd = seasonEndDate(league.season);
+    const injuryOverrides = await getLeagueInjuryOverrides(league.id);
 
     // Transform data for AI
     const teamsForAI: TeamForAI[] = teams.map(team => {
@@ -212,6 +208,8 @@ export async function POST(
           stats: statsObj,
           rawStats: stats.map(s => ({ statName: s.statName, value: s.value })), // Full stats for category analysis
           status: player.status || undefined,
+          isInjuredList: entry.isInjuredList,
+          gamesMissed: getInjuryOutlook(withInjuryOverride(player, injuryOverrides.get(player.id)), seasonEnd)?.gamesMissed,
           // Keeper data
           isKeeper: entry.isKeeper || false,
           originalDraftRound: entry.isKeeper ? (entry.originalDraftRound ?? undefined) : undefined,
@@ -231,13 +229,15 @@ export async function POST(
         roster,
         draftPicks: team.draftPicks.map(dp => dp.round),
         totalValue,
+        openIrSlots: countOpenIrSlots(league.irSlots, team.rosterEntries),
       };
     });
 
     const myTeamForAI = teamsForAI.find(t => t.isOwner)!;
+    const scoringConfig = await getLeagueScoringConfig(league.id);
     
-    console.log("[AI Suggestions] Calling DeepSeek AI...");
-    const suggestions = await analyzeTrades(myTeamForAI, teamsForAI);
+    console.log("[AI Suggestions] Calling AI...");
+    const suggestions = await analyzeTrades(myTeamForAI, teamsForAI, pickValueMap, scoringConfig);
     console.log("[AI Suggestions] Received", suggestions.length, "suggestions");
 
     return NextResponse.json({
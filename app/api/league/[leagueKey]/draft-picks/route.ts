@@ -6,6 +6,7 @@ import {
   YahooTokenExpiredError,
   YahooFantasyError,
 } from "@/lib/yahoo/fantasyClient";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 /**
  * GET: Get draft picks for a team
@@ -36,20 +37,7 @@ export async function GET(
       );
     }
 
-    // Normalize league key
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json(
@@ -118,20 +106,7 @@ export async function POST(
       (r: number) => typeof r === "number" && r >= 1 && r <= 16
     );
 
-    // Normalize league key
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json(
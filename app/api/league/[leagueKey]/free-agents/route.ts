@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import prisma from "@/lib/prisma";
+import { buildTeamDashboard, getCategoryValue } from "@/lib/dashboard/builder";
+import { getLeagueScoringConfig } from "@/lib/yahoo/scoringConfig";
+import { getNeedCategories, rankFreeAgents, suggestAddDrops } from "@/lib/freeAgents/analyzer";
+import type { DropCandidate, FreeAgentCandidate, FreeAgentReport } from "@/lib/freeAgents/types";
+import { findLeagueByKey, findLeagueMembership } from "@/lib/leagues/resolve";
+import { getLeagueInjuryOverrides } from "@/lib/injuries/overrides";
+
+/**
+ * Eligible skater positions ("C/LW"), or "G"
+ */
+function formatPositions(positions: string | null, isGoalie: boolean): string {
+  if (isGoalie) return "G";
+  try {
+    const parsed = positions ? JSON.parse(positions) : [];
+    const actual = Array.isArray(parsed) ? parsed.filter((p: string) => ["C", "LW", "RW", "D"].includes(p)) : [];
+    return actual.join("/") || "?";
+  } catch {
+    return "?";
+  }
+}
+
+/**
+ * GET: Free agents ranked by value and by fit with a team's weak categories, with
+ * suggested add/drop pairs. Defaults to the logged-in user's team; ?teamId= picks another.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    // Default to the user's own team
+    const teamId = request.nextUrl.searchParams.get("teamId")
+      ?? (await findLeagueMembership(session.userId, league.id))?.teamId
+      ?? "";
+    const team = await prisma.team.findFirst({
+      where: { id: teamId, leagueId: league.id },
+      include: {
+        rosterEntries: {
+          include: { player: { include: { playerValues: { where: { leagueId: league.id } } } } },
+        },
+      },
+    });
+    if (!team) {
+      return NextResponse.json({ ok: false, error: "Team not found in this league" }, { status: 404 });
+    }
+
+    const [dashboard, scoringConfig] = await Promise.all([
+      buildTeamDashboard(league.id, league.leagueKey, team.id),
+      getLeagueScoringConfig(league.id),
+    ]);
+    const needs = getNeedCategories(dashboard.categorySummary, [
+      ...scoringConfig.skaterCategories,
+      ...scoringConfig.goalieCategories,
+    ]);
+
+    // Free agents: players with stats in the league and no roster spot in it
+    const players = await prisma.player.findMany({
+      where: {
+        playerStats: { some: { leagueId: league.id } },
+        rosterEntries: { none: { leagueId: league.id } },
+      },
+      include: {
+        playerStats: { where: { leagueId: league.id } },
+        playerValues: { where: { leagueId: league.id } },
+      },
+    });
+
+    const injuryOverrides = await getLeagueInjuryOverrides(league.id);
+    const candidates: FreeAgentCandidate[] = players.map(player => {
+      const isGoalie = player.primaryPosition === "G";
+      const categories = isGoalie ? scoringConfig.goalieCategories : scoringConfig.skaterCategories;
+      return {
+        playerId: player.id,
+        name: player.name,
+        pos: formatPositions(player.positions, isGoalie),
+        nhlTeam: player.teamAbbr || "?",
+        positionType: isGoalie ? "G" : "P",
+        status: player.status || null,
+        expectedReturn: (injuryOverrides.get(player.id)?.expectedReturn ?? player.expectedReturn)?.toISOString().slice(0, 10) ?? null,
+        value: player.playerValues[0]?.score ?? 0,
+        perGameValue: player.playerValues[0]?.perGameScore ?? null,
+        stats: Object.fromEntries(categories.map(cat => [cat.abbrev, getCategoryValue(player.playerStats, cat)])),
+      };
+    });
+
+    const roster: DropCandidate[] = team.rosterEntries.map(entry => {
+      const isGoalie = entry.player.primaryPosition === "G";
+      return {
+        playerId: entry.player.id,
+        name: entry.player.name,
+        pos: formatPositions(entry.player.positions, isGoalie),
+        positionType: isGoalie ? "G" : "P",
+        value: entry.player.playerValues[0]?.score ?? 0,
+        isKeeper: entry.isKeeper,
+        isInjuredList: entry.isInjuredList,
+      };
+    });
+
+    const freeAgents = rankFreeAgents(candidates, needs);
+    const lastSynced = players
+      .flatMap(player => player.playerStats.map(stat => stat.updatedAt.getTime()))
+      .reduce((latest, time) => Math.max(latest, time), 0);
+
+    const report: FreeAgentReport = {
+      teamId: team.id,
+      teamName: team.name,
+      needs,
+      freeAgents,
+      addDrops: suggestAddDrops(freeAgents, roster),
+      lastSyncedAt: lastSynced > 0 ? new Date(lastSynced).toISOString() : null,
+    };
+
+    return NextResponse.json({ ok: true, leagueName: league.name, report });
+  } catch (error) {
+    console.error("[FreeAgents] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load free agents" },
+      { status: 500 }
+    );
+  }
+}
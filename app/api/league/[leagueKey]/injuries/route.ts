@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { isLeagueCommissioner } from "@/lib/auth/commissioner";
+import prisma from "@/lib/prisma";
+import { countOpenIrSlots, getInjuryOutlook } from "@/lib/injuries/availability";
+import { getLeagueInjuryOverrides, setLeagueInjuryOverride, withInjuryOverride } from "@/lib/injuries/overrides";
+import { seasonEndDate } from "@/lib/projections/restOfSeason";
+import { ensureLeaguePlayerValues } from "@/lib/yahoo/playerValues";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+function toDateString(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * GET: Injured rostered players with expected return dates and games missed
+ * PUT: Set (or clear) a player's expected return date for this league (commissioner only),
+ * then recalculate values
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const teams = await prisma.team.findMany({
+      where: { leagueId: league.id },
+      include: { rosterEntries: { include: { player: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    const seasonEnd = seasonEndDate(league.season);
+    const overrides = await getLeagueInjuryOverrides(league.id);
+    const players = teams.flatMap(team =>
+      team.rosterEntries
+        .map(entry => ({ entry, player: withInjuryOverride(entry.player, overrides.get(entry.playerId)) }))
+        .filter(({ entry, player }) => player.status || player.expectedReturn || entry.isInjuredList)
+        .map(({ entry, player }) => {
+          const outlook = getInjuryOutlook(player, seasonEnd);
+          return {
+            playerId: player.id,
+            name: player.name,
+            teamName: team.name,
+            status: player.status,
+            isInjuredList: entry.isInjuredList,
+            expectedReturn: toDateString(player.expectedReturn),
+            injuryNote: player.injuryNote,
+            injurySource: player.injurySource,
+            estimatedReturn: outlook?.returnDate ?? null,
+            gamesMissed: outlook?.gamesMissed ?? 0,
+            valueFactor: outlook?.valueFactor ?? 1,
+          };
+        })
+    );
+
+    return NextResponse.json({
+      ok: true,
+      irSlots: league.irSlots,
+      teams: teams.map(team => ({
+        name: team.name,
+        openIrSlots: countOpenIrSlots(league.irSlots, team.rosterEntries),
+      })),
+      players,
+      canEdit: await isLeagueCommissioner(session.userId, league.id),
+    });
+  } catch (error) {
+    console.error("[Injuries] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load injuries" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can set expected return dates" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const playerId: string | undefined = body.playerId;
+    const expectedReturn: string | null = body.expectedReturn ?? null;
+    const note: string | null = typeof body.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+    // Impossible dates either fail to parse or roll over ("2025-02-30" becomes March 2)
+    const returnDate = expectedReturn !== null ? new Date(`${expectedReturn}T00:00:00Z`) : null;
+    if (returnDate && (isNaN(returnDate.getTime()) || toDateString(returnDate) !== expectedReturn)) {
+      return NextResponse.json(
+        { ok: false, error: "expectedReturn must be a YYYY-MM-DD date or null" },
+        { status: 400 }
+      );
+    }
+
+    const entry = playerId
+      ? await prisma.rosterEntry.findFirst({ where: { leagueId: league.id, playerId } })
+      : null;
+    if (!entry) {
+      return NextResponse.json({ ok: false, error: "Player is not rostered in this league" }, { status: 404 });
+    }
+
+    // Only this league sees the date; clearing hands the player back to the NHL injury report
+    await setLeagueInjuryOverride(
+      league.id,
+      entry.playerId,
+      returnDate ? { expectedReturn: returnDate, note } : null
+    );
+
+    console.log(`[Injuries] ${league.leagueKey}: expected return for player ${entry.playerId} set to ${expectedReturn ?? "none"}, recalculating values...`);
+    await ensureLeaguePlayerValues(league.id);
+
+    return NextResponse.json({ ok: true, playerId: entry.playerId, expectedReturn });
+  } catch (error) {
+    console.error("[Injuries] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to save expected return" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { isLeagueCommissioner } from "@/lib/auth/commissioner";
+import {
+  getLeagueKeeperRules,
+  resetLeagueKeeperRules,
+  saveLeagueKeeperRules,
+  validateKeeperRules,
+} from "@/lib/keeper/rules";
+import { DEFAULT_KEEPER_RULES, type KeeperRules } from "@/lib/keeper/types";
+import { populateKeeperData } from "@/lib/keeper/populate";
+import { buildAllTeamProfiles, storeTeamProfiles } from "@/lib/ai/teamProfile";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+/**
+ * Re-derive stored keeper years/rounds and cached AI profiles after a rule change
+ */
+async function applyKeeperRuleChange(leagueId: string): Promise<void> {
+  await populateKeeperData(leagueId);
+  try {
+    const profiles = await buildAllTeamProfiles(leagueId);
+    await storeTeamProfiles(leagueId, profiles);
+  } catch (error) {
+    console.error("[Keeper Rules] Team profile rebuild failed:", error);
+    // Profiles are rebuilt on the next sync
+  }
+}
+
+/**
+ * GET: League keeper rules (defaults if none are stored)
+ * PUT: Save commissioner keeper rules
+ * DELETE: Reset the league to the default keeper rules
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const keeperRules = await getLeagueKeeperRules(league.id);
+    const canEdit = await isLeagueCommissioner(session.userId, league.id);
+
+    return NextResponse.json({
+      ok: true,
+      keeperRules,
+      isDefault: keeperRules === DEFAULT_KEEPER_RULES,
+      canEdit,
+    });
+  } catch (error) {
+    console.error("[Keeper Rules] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load keeper rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can change keeper rules" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const keeperRules: KeeperRules = body.keeperRules;
+
+    const validationError = validateKeeperRules(keeperRules);
+    if (validationError) {
+      return NextResponse.json({ ok: false, error: validationError }, { status: 400 });
+    }
+
+    await saveLeagueKeeperRules(league.id, keeperRules);
+    console.log(`[Keeper Rules] Saved keeper rules for ${league.leagueKey}, updating keeper data...`);
+    await applyKeeperRuleChange(league.id);
+
+    return NextResponse.json({
+      ok: true,
+      keeperRules: await getLeagueKeeperRules(league.id),
+      isDefault: false,
+      canEdit: true,
+    });
+  } catch (error) {
+    console.error("[Keeper Rules] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to save keeper rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can change keeper rules" },
+        { status: 403 }
+      );
+    }
+
+    await resetLeagueKeeperRules(league.id);
+    console.log(`[Keeper Rules] Reset ${league.leagueKey} to default keeper rules, updating keeper data...`);
+    await applyKeeperRuleChange(league.id);
+
+    return NextResponse.json({
+      ok: true,
+      keeperRules: DEFAULT_KEEPER_RULES,
+      isDefault: true,
+      canEdit: true,
+    });
+  } catch (error) {
+    console.error("[Keeper Rules] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to reset keeper rules" },
+      { status: 500 }
+    );
+  }
+}
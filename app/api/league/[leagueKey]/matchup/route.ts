@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import prisma from "@/lib/prisma";
+import { syncLeagueMatchups } from "@/lib/yahoo/matchups";
+import { projectMatchup } from "@/lib/matchup/projector";
+import {
+  YahooNotLinkedError,
+  YahooTokenExpiredError,
+} from "@/lib/yahoo/fantasyClient";
+import { getYahooAuthRedirectUrl } from "@/lib/yahoo/tokenExpiration";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+// Week-to-date stats change during games - resync if older than this
+const MATCHUP_STALE_MS = 30 * 60 * 1000;
+
+/**
+ * GET ?teamId=: This week's matchup projection for a team.
+ * Resyncs the scoreboard from Yahoo first if it is stale; a failed sync falls back to stored data.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const teamId = request.nextUrl.searchParams.get("teamId");
+    if (!teamId) {
+      return NextResponse.json({ ok: false, error: "teamId is required" }, { status: 400 });
+    }
+
+    const latest = await prisma.matchup.findFirst({
+      where: { leagueId: league.id },
+      orderBy: { updatedAt: "desc" },
+      select: { updatedAt: true },
+    });
+    if (!latest || Date.now() - latest.updatedAt.getTime() > MATCHUP_STALE_MS) {
+      try {
+        await syncLeagueMatchups(session.userId, league.leagueKey, league.id);
+      } catch (syncError) {
+        console.warn("[Matchup] Sync failed, using stored matchups:", syncError instanceof Error ? syncError.message : syncError);
+      }
+    }
+
+    const projection = await projectMatchup(league.id, teamId);
+
+    return NextResponse.json({ ok: true, projection });
+  } catch (error) {
+    console.error("[Matchup] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to project matchup" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST ?teamId=: Sync matchups from Yahoo, then return the team's projection
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const teamId = request.nextUrl.searchParams.get("teamId");
+    if (!teamId) {
+      return NextResponse.json({ ok: false, error: "teamId is required" }, { status: 400 });
+    }
+
+    await syncLeagueMatchups(session.userId, league.leagueKey, league.id);
+    const projection = await projectMatchup(league.id, teamId);
+
+    return NextResponse.json({ ok: true, projection });
+  } catch (error) {
+    console.error("[Matchup] Error:", error);
+
+    if (error instanceof YahooNotLinkedError) {
+      return NextResponse.json(
+        { ok: false, error: "Yahoo account not linked" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof YahooTokenExpiredError) {
+      const teamId = request.nextUrl.searchParams.get("teamId") || "";
+      const returnTo = `/league/${encodeURIComponent(leagueKey)}/team/${encodeURIComponent(teamId)}`;
+      const redirectUrl = getYahooAuthRedirectUrl(returnTo);
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Yahoo access token expired",
+          redirectUrl,
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to sync matchups" },
+      { status: 500 }
+    );
+  }
+}
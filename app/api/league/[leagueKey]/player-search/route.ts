@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 /**
  * Player Search API
@@ -48,16 +49,7 @@ export async function GET(
       );
     }
 
-    // Normalize league key
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, ".l.");
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: leagueKey.replace(/\.l\./g, ".1.") },
-        ],
-      },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json(
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import prisma from "@/lib/prisma";
+import { getLeagueScoringConfig } from "@/lib/yahoo/scoringConfig";
+import { parseValueBreakdown } from "@/lib/yahoo/playerValues";
+import { getLeagueRestOfSeasonProjections } from "@/lib/projections/restOfSeason";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+const MAX_SEARCH_RESULTS = 10;
+
+/**
+ * GET ?playerId=: A player's value with its category/adjustment breakdown
+ * GET ?q=: Players in the league matching a name, for picking one to explain
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const playerId = searchParams.get("playerId");
+    const query = searchParams.get("q")?.trim();
+
+    if (playerId) {
+      const playerValue = await prisma.playerValue.findUnique({
+        where: { playerId_leagueId: { playerId, leagueId: league.id } },
+        include: { player: { select: { name: true, teamAbbr: true, primaryPosition: true } } },
+      });
+      if (!playerValue) {
+        return NextResponse.json({ ok: false, error: "No value calculated for this player" }, { status: 404 });
+      }
+
+      // Category labels for display (breakdowns store stat IDs and abbreviations)
+      const scoringConfig = await getLeagueScoringConfig(league.id);
+      const categoryLabels = Object.fromEntries(
+        [...scoringConfig.skaterCategories, ...scoringConfig.goalieCategories].map(c => [c.statId, c.label])
+      );
+
+      // Rest-of-season projection for the player's categories (best effort - needs the NHL schedule)
+      let projection = null;
+      try {
+        const projections = await getLeagueRestOfSeasonProjections(league.id, [playerId]);
+        const playerProjection = projections.players.get(playerId);
+        if (playerProjection) {
+          const categories = playerValue.player.primaryPosition === "G"
+            ? scoringConfig.goalieCategories
+            : scoringConfig.skaterCategories;
+          projection = {
+            gamesPlayed: playerProjection.gamesPlayed,
+            remainingGames: playerProjection.remainingGames,
+            historyShare: playerProjection.historyShare,
+            scheduleSource: projections.scheduleSource,
+            categories: categories
+              .filter(c => playerProjection.totals[c.name] !== undefined)
+              .map(c => ({
+                statId: c.statId,
+                abbrev: c.abbrev,
+                perGame: playerProjection.perGame[c.name],
+                total: playerProjection.totals[c.name],
+              })),
+          };
+        }
+      } catch (error) {
+        console.error("[Player Value] Projection failed:", error);
+      }
+
+      return NextResponse.json({
+        ok: true,
+        player: {
+          id: playerId,
+          name: playerValue.player.name,
+          nhlTeam: playerValue.player.teamAbbr,
+          position: playerValue.player.primaryPosition,
+        },
+        value: playerValue.score,
+        breakdown: parseValueBreakdown(playerValue.breakdown),
+        categoryLabels,
+        projection,
+        updatedAt: playerValue.updatedAt.toISOString(),
+      });
+    }
+
+    if (!query || query.length < 2) {
+      return NextResponse.json(
+        { ok: false, error: "playerId or a search query of at least 2 characters is required" },
+        { status: 400 }
+      );
+    }
+
+    const matches = await prisma.playerValue.findMany({
+      where: {
+        leagueId: league.id,
+        player: { name: { contains: query, mode: "insensitive" } },
+      },
+      include: { player: { select: { name: true, teamAbbr: true, primaryPosition: true } } },
+      orderBy: { score: "desc" },
+      take: MAX_SEARCH_RESULTS,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      results: matches.map(m => ({
+        playerId: m.playerId,
+        name: m.player.name,
+        nhlTeam: m.player.teamAbbr,
+        position: m.player.primaryPosition,
+        value: m.score,
+      })),
+    });
+  } catch (error) {
+    console.error("[Player Value] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load player value" },
+      { status: 500 }
+    );
+  }
+}
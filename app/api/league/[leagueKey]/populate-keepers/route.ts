@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
-import prisma from "@/lib/prisma";
 import { populateKeeperData } from "@/lib/keeper/populate";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
+import { syncLeagueDraftHistory } from "@/lib/yahoo/draftResults";
+import {
+  YahooNotLinkedError,
+  YahooTokenExpiredError,
+} from "@/lib/yahoo/fantasyClient";
+import { getYahooAuthRedirectUrl } from "@/lib/yahoo/tokenExpiration";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export async function POST(
   request: NextRequest,
@@ -18,33 +25,44 @@ export async function POST(
     console.log("[Populate Keepers] Starting for league:", leagueKey);
     
     // Find the league
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-    
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
     
     if (!league) {
       return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
     }
     
-    // Use shared populate function
+    // Import this season's and prior seasons' draft results, then derive keepers from them
+    const keeperRules = await getLeagueKeeperRules(league.id);
+    const picks = await syncLeagueDraftHistory(session.userId, league.id, keeperRules.maxKeeperYears);
     const updated = await populateKeeperData(league.id);
     
     return NextResponse.json({ 
       ok: true, 
-      message: `Successfully populated ${updated} keeper records`
+      message: `Imported ${picks} draft picks and populated ${updated} keeper records`
     });
   } catch (error) {
     console.error("[Populate Keepers] Error:", error);
+
+    if (error instanceof YahooNotLinkedError) {
+      return NextResponse.json(
+        { ok: false, error: "Yahoo account not linked" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof YahooTokenExpiredError) {
+      const returnTo = `/league/${encodeURIComponent(leagueKey)}/trade`;
+      const redirectUrl = getYahooAuthRedirectUrl(returnTo);
+      return NextResponse.json(
+        { 
+          ok: false, 
+          error: "Yahoo access token expired",
+          redirectUrl,
+        },
+        { status: 401 }
+      );
+    }
+
     return NextResponse.json(
       { ok: false, error: error instanceof Error ? error.message : "Failed to populate keepers" },
       { status: 500 }
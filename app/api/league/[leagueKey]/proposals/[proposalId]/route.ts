@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+import { TradeProposalError, getTradeProposal, respondToTradeProposal } from "@/lib/proposals/proposals";
+
+/**
+ * GET: One proposal the user's team is part of (loaded into the trade builder to counter it)
+ * PATCH: Accept or reject a proposal sent to the user's team - body { action: "accept" | "reject" }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string; proposalId: string }> }
+) {
+  const { leagueKey, proposalId } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const proposal = await getTradeProposal(league.id, session.userId, proposalId);
+    if (!proposal) {
+      return NextResponse.json({ ok: false, error: "Proposal not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, proposal });
+  } catch (error) {
+    if (error instanceof TradeProposalError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    console.error("[Trade Proposals] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load trade proposal" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string; proposalId: string }> }
+) {
+  const { leagueKey, proposalId } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (body.action !== "accept" && body.action !== "reject") {
+      return NextResponse.json({ ok: false, error: 'action must be "accept" or "reject"' }, { status: 400 });
+    }
+
+    const status = await respondToTradeProposal(league.id, session.userId, proposalId, body.action);
+
+    return NextResponse.json({ ok: true, status });
+  } catch (error) {
+    if (error instanceof TradeProposalError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    console.error("[Trade Proposals] Error responding to proposal:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to respond to trade proposal" },
+      { status: 500 }
+    );
+  }
+}
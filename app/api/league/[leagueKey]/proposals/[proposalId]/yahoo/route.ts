@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+import { TradeProposalError } from "@/lib/proposals/proposals";
+import { refreshYahooTradeStatus, submitTradeProposalToYahoo } from "@/lib/proposals/yahooSubmission";
+import {
+  YahooFantasyError,
+  YahooNotLinkedError,
+  YahooTokenExpiredError,
+} from "@/lib/yahoo/fantasyClient";
+import { getYahooAuthRedirectUrl } from "@/lib/yahoo/tokenExpiration";
+
+function errorResponse(error: unknown, leagueKey: string, fallback: string): NextResponse {
+  if (error instanceof TradeProposalError) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+  }
+
+  console.error("[Trade Proposals] Yahoo error:", error);
+
+  if (error instanceof YahooNotLinkedError) {
+    return NextResponse.json({ ok: false, error: "Yahoo account not linked" }, { status: 400 });
+  }
+
+  if (error instanceof YahooTokenExpiredError) {
+    const returnTo = `/league/${encodeURIComponent(leagueKey)}/proposals`;
+    return NextResponse.json(
+      { ok: false, error: "Yahoo access token expired", redirectUrl: getYahooAuthRedirectUrl(returnTo) },
+      { status: 401 }
+    );
+  }
+
+  // Yahoo refuses trades that break its rules (roster changed, trade deadline passed, ...)
+  if (error instanceof YahooFantasyError && error.status >= 400 && error.status < 500) {
+    return NextResponse.json({ ok: false, error: `Yahoo refused the request: ${error.message}` }, { status: 502 });
+  }
+
+  return NextResponse.json(
+    { ok: false, error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * POST: Submit an accepted proposal the user's team sent to Yahoo as a pending trade
+ * PUT: Read the submitted trade's status from Yahoo (re-syncs rosters once it goes through)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string; proposalId: string }> }
+) {
+  const { leagueKey, proposalId } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const yahoo = await submitTradeProposalToYahoo(league.id, session.userId, proposalId);
+
+    return NextResponse.json({ ok: true, yahoo });
+  } catch (error) {
+    return errorResponse(error, leagueKey, "Failed to submit trade to Yahoo");
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string; proposalId: string }> }
+) {
+  const { leagueKey, proposalId } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const yahoo = await refreshYahooTradeStatus(league.id, session.userId, proposalId);
+
+    return NextResponse.json({ ok: true, yahoo });
+  } catch (error) {
+    return errorResponse(error, leagueKey, "Failed to check the trade on Yahoo");
+  }
+}
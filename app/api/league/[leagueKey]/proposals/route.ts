@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+import { TradeProposalError, createTradeProposal, getProposalInbox } from "@/lib/proposals/proposals";
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function toRoundList(value: unknown): number[] {
+  return Array.isArray(value) ? value.map(Number).filter(n => Number.isInteger(n) && n > 0) : [];
+}
+
+/**
+ * GET: The user's trade proposal inbox (sent and received) for the league
+ * POST: Send a trade from the user's team to another manager, or counter a proposal
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const inbox = await getProposalInbox(league.id, session.userId);
+
+    return NextResponse.json({ ok: true, leagueName: league.name, inbox });
+  } catch (error) {
+    console.error("[Trade Proposals] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load trade proposals" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    if (typeof body.fromTeamId !== "string" || typeof body.toTeamId !== "string") {
+      return NextResponse.json({ ok: false, error: "fromTeamId and toTeamId are required" }, { status: 400 });
+    }
+
+    const proposalId = await createTradeProposal(league.id, session.userId, {
+      fromTeamId: body.fromTeamId,
+      toTeamId: body.toTeamId,
+      fromPlayerIds: toStringList(body.fromPlayerIds),
+      fromPicks: toRoundList(body.fromPicks),
+      toPlayerIds: toStringList(body.toPlayerIds),
+      toPicks: toRoundList(body.toPicks),
+      message: typeof body.message === "string" ? body.message : null,
+      counterOfId: typeof body.counterOfId === "string" ? body.counterOfId : null,
+    });
+
+    return NextResponse.json({ ok: true, proposalId });
+  } catch (error) {
+    if (error instanceof TradeProposalError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+    }
+    console.error("[Trade Proposals] Error sending proposal:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to send trade proposal" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export async function POST(
   request: NextRequest,
@@ -29,18 +30,7 @@ export async function POST(
     } = body;
 
     // Find the league - shared across all users
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
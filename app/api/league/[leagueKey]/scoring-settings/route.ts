@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { isLeagueCommissioner } from "@/lib/auth/commissioner";
+import prisma from "@/lib/prisma";
+import { getLeagueScoringConfig } from "@/lib/yahoo/scoringConfig";
+import { syncLeagueStatCategories } from "@/lib/yahoo/leagueSettings";
+import { ensureLeaguePlayerValues } from "@/lib/yahoo/playerValues";
+import {
+  YahooNotLinkedError,
+  YahooTokenExpiredError,
+} from "@/lib/yahoo/fantasyClient";
+import { getYahooAuthRedirectUrl } from "@/lib/yahoo/tokenExpiration";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+const MAX_CATEGORY_WEIGHT = 5;
+
+/**
+ * GET: League scoring categories and effective weights
+ * PUT: Save commissioner weight overrides and recalculate player values
+ * POST: Import scoring categories from Yahoo league settings
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const scoringConfig = await getLeagueScoringConfig(league.id);
+    const canEdit = await isLeagueCommissioner(session.userId, league.id);
+
+    return NextResponse.json({
+      ok: true,
+      leagueName: league.name,
+      scoringConfig,
+      canEdit,
+    });
+  } catch (error) {
+    console.error("[Scoring Settings] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load scoring settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can change scoring weights" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const weights: Array<{ statId: string; weight: number | null }> = body.weights;
+
+    if (!Array.isArray(weights)) {
+      return NextResponse.json(
+        { ok: false, error: "weights array is required" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = weights.find(w =>
+      typeof w.statId !== "string" ||
+      (w.weight !== null && (typeof w.weight !== "number" || !Number.isFinite(w.weight) || w.weight < 0 || w.weight > MAX_CATEGORY_WEIGHT))
+    );
+    if (invalid) {
+      return NextResponse.json(
+        { ok: false, error: `Weights must be between 0 and ${MAX_CATEGORY_WEIGHT} (or null to reset)` },
+        { status: 400 }
+      );
+    }
+
+    // Overrides are stored on imported categories, so make sure the league has them
+    const storedCount = await prisma.leagueStatCategory.count({ where: { leagueId: league.id } });
+    if (storedCount === 0) {
+      await syncLeagueStatCategories(session.userId, league.leagueKey, league.id);
+    }
+
+    for (const { statId, weight } of weights) {
+      await prisma.leagueStatCategory.updateMany({
+        where: { leagueId: league.id, statId },
+        data: { weight },
+      });
+    }
+
+    console.log(`[Scoring Settings] Saved ${weights.length} weight overrides for ${league.leagueKey}, recalculating values...`);
+    await ensureLeaguePlayerValues(league.id);
+
+    const scoringConfig = await getLeagueScoringConfig(league.id);
+
+    return NextResponse.json({ ok: true, scoringConfig, canEdit: true });
+  } catch (error) {
+    console.error("[Scoring Settings] Error:", error);
+    return handleYahooError(error, leagueKey, "Failed to save scoring weights");
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can re-import scoring categories" },
+        { status: 403 }
+      );
+    }
+
+    const count = await syncLeagueStatCategories(session.userId, league.leagueKey, league.id);
+    await ensureLeaguePlayerValues(league.id);
+
+    const scoringConfig = await getLeagueScoringConfig(league.id);
+
+    return NextResponse.json({
+      ok: true,
+      message: `Imported ${count} scoring categories from Yahoo`,
+      scoringConfig,
+      canEdit: true,
+    });
+  } catch (error) {
+    console.error("[Scoring Settings] Error:", error);
+    return handleYahooError(error, leagueKey, "Failed to import scoring categories");
+  }
+}
+
+function handleYahooError(error: unknown, leagueKey: string, fallbackMessage: string) {
+  if (error instanceof YahooNotLinkedError) {
+    return NextResponse.json(
+      { ok: false, error: "Yahoo account not linked" },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof YahooTokenExpiredError) {
+    const returnTo = `/league/${encodeURIComponent(leagueKey)}/settings`;
+    const redirectUrl = getYahooAuthRedirectUrl(returnTo);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Yahoo access token expired",
+        redirectUrl,
+      },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json(
+    { ok: false, error: error instanceof Error ? error.message : fallbackMessage },
+    { status: 500 }
+  );
+}
@@ -3,6 +3,7 @@ import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
 import { findNHLPlayerIdByName } from "@/lib/nhl/playerLookup";
 import { fetchNHLPlayerSeasonStats, getLastTwoSeasons } from "@/lib/nhl/historicalStats";
+import { findLeagueByKey, findLeagueMembership } from "@/lib/leagues/resolve";
 
 /**
  * Sync historical stats (last 2 seasons) for all players in a league
@@ -22,23 +23,11 @@ export async function POST(
 
     const { leagueKey } = await params;
 
-    // Get league - use same query pattern as trade-data route (handle league key variations)
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-    
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-        userId: session.userId,
-      },
-      orderBy: { createdAt: 'asc' }, // Use the oldest record (primary league)
-    });
+    // Only members of the league can pull its history
+    const league = await findLeagueByKey(leagueKey);
+    const membership = league ? await findLeagueMembership(session.userId, league.id) : null;
 
-    if (!league) {
+    if (!league || !membership) {
       return NextResponse.json({ error: "League not found" }, { status: 404 });
     }
 
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import prisma from "@/lib/prisma";
+import { getDatasetFreshness, listSyncRuns } from "@/lib/sync/runs";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+const MAX_RUNS = 50;
+
+/**
+ * GET ?limit=: Past sync runs (newest first), when each dataset last changed,
+ * and the next scheduled background sync
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get("limit") || "20", 10);
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), MAX_RUNS) : 20;
+
+    const [runs, datasets, syncJob] = await Promise.all([
+      listSyncRuns(league.id, limit),
+      getDatasetFreshness(league.id),
+      prisma.syncJob.findUnique({ where: { leagueId: league.id }, select: { nextRunAt: true } }),
+    ]);
+
+    return NextResponse.json({
+      ok: true,
+      league: { name: league.name, leagueKey: league.leagueKey },
+      nextScheduledSync: syncJob?.nextRunAt.toISOString() ?? null,
+      runs,
+      datasets,
+    });
+  } catch (error) {
+    console.error("[Sync History] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load sync history" },
+      { status: 500 }
+    );
+  }
+}
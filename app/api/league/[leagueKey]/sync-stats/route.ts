@@ -9,6 +9,7 @@ import {
 import { syncLeaguePlayerStats } from "@/lib/yahoo/playerStats";
 import { ensureLeaguePlayerValues } from "@/lib/yahoo/playerValues";
 import { buildAllTeamProfiles, storeTeamProfiles } from "@/lib/ai/teamProfile";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export async function POST(
   request: NextRequest,
@@ -44,20 +45,7 @@ export async function POST(
       );
     }
 
-    // Normalize league key first to find league
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json(
@@ -70,7 +58,7 @@ export async function POST(
     let statsSuccess = false;
     try {
       console.log("[Sync Stats] Starting player stats sync for league:", leagueKey);
-      await syncLeaguePlayerStats(request, leagueKey);
+      await syncLeaguePlayerStats(session.userId, leagueKey);
       console.log("[Sync Stats] Player stats sync completed successfully");
       statsSuccess = true;
       
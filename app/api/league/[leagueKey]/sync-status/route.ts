@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { getLatestSyncRun } from "@/lib/sync/runs";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+/**
+ * GET: The league's most recent sync run with per-step state.
+ * Polled by the Refresh Teams progress bar while force-sync is running.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const run = await getLatestSyncRun(league.id);
+
+    return NextResponse.json({ ok: true, run });
+  } catch (error) {
+    console.error("[Sync Status] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load sync status" },
+      { status: 500 }
+    );
+  }
+}
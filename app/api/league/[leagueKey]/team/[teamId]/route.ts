@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
-import prisma from "@/lib/prisma";
 import { buildTeamDashboard } from "@/lib/dashboard/builder";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export async function GET(
   request: NextRequest,
@@ -18,18 +18,7 @@ export async function GET(
     console.log("[Team Dashboard] Request for team:", teamId, "in league:", leagueKey);
 
     // Find league
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    const league = await findLeagueByKey(leagueKey);
 
     if (!league) {
       return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
@@ -10,6 +10,10 @@ import { ensureLeaguePlayerValues } from "@/lib/yahoo/playerValues";
 import { syncLeaguePlayerStats } from "@/lib/yahoo/playerStats";
 import { syncLeagueRosters } from "@/lib/yahoo/roster";
 import { getYahooAuthRedirectUrl } from "@/lib/yahoo/tokenExpiration";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
+import type { KeeperRules } from "@/lib/keeper/types";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+import { getLeagueInjuryOverrides, withInjuryOverride } from "@/lib/injuries/overrides";
 
 export type TradeData = {
   leagueKey: string;
@@ -30,7 +34,10 @@ export type TradeData = {
       position: string | null;
       positions: string | null; // All eligible positions (e.g., "C,RW" or "LW,RW")
       status: string | null; // Injury status (IR, IR+, DTD, O, etc.)
+      expectedReturn: string | null; // YYYY-MM-DD, league override or from the NHL injury report
+      injuryNote: string | null;
       valueScore: number;
+      perGameValueScore: number | null; // Value with missed games factored out (null without games played)
       stats: {
         statName: string;
         value: number;
@@ -48,6 +55,7 @@ export type TradeData = {
     round: number;
     score: number;
   }[];
+  keeperRules: KeeperRules; // League keeper rules for keeper bonus calculation
 };
 
 export async function GET(
@@ -88,44 +96,20 @@ export async function GET(
       );
     }
 
-    // Normalize league key
-    const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-    const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-
-    // Find the league - look for ANY league with this key (shared across all users)
-    // This is the correct behavior since we hardcoded everyone to the same league
-    let league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-      orderBy: { createdAt: 'asc' }, // Use the oldest record (primary league)
-    });
+    // The league is shared by everyone in it
+    let league = await findLeagueByKey(leagueKey);
 
     // If league not found, sync leagues from Yahoo and try again
     if (!league) {
       console.log("[Trade Data] League not in database, syncing leagues from Yahoo...");
       const { syncUserLeagues } = await import("@/lib/yahoo/leagues");
-      await syncUserLeagues(request);
-      
-      league = await prisma.league.findFirst({
-        where: {
-          OR: [
-            { leagueKey: normalizedLeagueKey },
-            { leagueKey: reverseNormalizedKey },
-            { leagueKey: leagueKey },
-          ],
-        },
-        orderBy: { createdAt: 'asc' },
-      });
+      await syncUserLeagues(session.userId);
+      league = await findLeagueByKey(leagueKey);
     }
 
     if (!league) {
       return NextResponse.json(
-        { ok: false, error: `You are not a member of league ${leagueKey}. This app is for the atfh2 league only.` },
+        { ok: false, error: `You are not a member of league ${leagueKey}.` },
         { status: 404 }
       );
     }
@@ -149,7 +133,7 @@ export async function GET(
       // Sync rosters (teams and players)
       try {
         console.log("[Trade Data] Starting roster sync for league:", leagueKey);
-        await syncLeagueRosters(request, leagueKey);
+        await syncLeagueRosters(session.userId, leagueKey);
         console.log("[Trade Data] Roster sync completed");
       } catch (error) {
         console.error("[Trade Data] Error syncing rosters:", error);
@@ -175,7 +159,7 @@ export async function GET(
       let statsSuccess = false;
       try {
         console.log("[Trade Data] Starting player stats sync for league:", leagueKey);
-        await syncLeaguePlayerStats(request, leagueKey);
+        await syncLeaguePlayerStats(session.userId, leagueKey);
         console.log("[Trade Data] Player stats sync completed successfully");
         statsSuccess = true;
         
@@ -236,7 +220,15 @@ export async function GET(
       console.log("[Trade Data] Found", keeperCount, "keepers in database");
       
       if (keeperCount === 0) {
-        console.log("[Trade Data] No keepers found, auto-populating from hardcoded list...");
+        console.log("[Trade Data] No keepers found, auto-populating from draft history...");
+        const historyCount = await prisma.draftHistoryPick.count({
+          where: { leagueId: league.id }
+        });
+        if (historyCount === 0) {
+          const { syncLeagueDraftHistory } = await import("@/lib/yahoo/draftResults");
+          const keeperRules = await getLeagueKeeperRules(league.id);
+          await syncLeagueDraftHistory(session.userId, league.id, keeperRules.maxKeeperYears);
+        }
         const { populateKeeperData } = await import("@/lib/keeper/populate");
         await populateKeeperData(league.id);
         console.log("[Trade Data] Keeper data auto-populated");
@@ -288,6 +280,7 @@ export async function GET(
     // Build team roster data with player values and stats
     // Determine ownership dynamically based on current user's Yahoo ID
     const currentUserYahooId = yahooAccount.yahooUserId;
+    const injuryOverrides = await getLeagueInjuryOverrides(league.id);
     
     const teamsData = await Promise.all(
       teams.map(async (team: any) => {
@@ -317,6 +310,8 @@ export async function GET(
               },
             });
 
+            const injury = withInjuryOverride(entry.player, injuryOverrides.get(entry.playerId));
+
             return {
               playerId: entry.playerId,
               yahooPlayerId: entry.player.playerKey,
@@ -325,7 +320,10 @@ export async function GET(
               position: entry.player.primaryPosition,
               positions: entry.player.positions, // All eligible positions
               status: entry.player.status, // Injury status (IR, IR+, DTD, etc.)
+              expectedReturn: injury.expectedReturn?.toISOString().slice(0, 10) ?? null,
+              injuryNote: injury.injuryNote,
               valueScore: playerValue?.score ?? 0,
+              perGameValueScore: playerValue?.perGameScore ?? null,
               stats: playerStats,
               // Keeper data
               isKeeper: entry.isKeeper || false,
@@ -383,6 +381,7 @@ export async function GET(
       lastUpdated: league.updatedAt.toISOString(),
       teams: teamsData,
       draftPickValues: draftPickValues,
+      keeperRules: await getLeagueKeeperRules(league.id),
     };
 
     console.log("[Trade Data] User's team:", myTeam ? `${myTeam.name} (${myTeam.id})` : "Not identified");
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { simulateTradeImpact } from "@/lib/matchup/tradeSimulator";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+function toIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * POST: Simulate a proposed trade's effect on both teams' expected weekly category wins
+ * Body: { teamAId, teamBId, teamAPlayerIds, teamBPlayerIds, iterations? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { teamAId, teamBId, iterations } = body;
+    if (typeof teamAId !== "string" || typeof teamBId !== "string") {
+      return NextResponse.json({ ok: false, error: "teamAId and teamBId are required" }, { status: 400 });
+    }
+
+    const impact = await simulateTradeImpact(
+      league.id,
+      {
+        teamAId,
+        teamBId,
+        teamAPlayerIds: toIdList(body.teamAPlayerIds),
+        teamBPlayerIds: toIdList(body.teamBPlayerIds),
+      },
+      { iterations: typeof iterations === "number" ? iterations : undefined }
+    );
+
+    return NextResponse.json({ ok: true, impact });
+  } catch (error) {
+    console.error("[Trade Impact] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to simulate trade" },
+      { status: 500 }
+    );
+  }
+}
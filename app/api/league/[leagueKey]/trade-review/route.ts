@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { isLeagueCommissioner } from "@/lib/auth/commissioner";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+import { buildTradeReviewReport } from "@/lib/tradeReview/review";
+
+/**
+ * GET: Fairness and veto-risk review of every open proposal and completed trade (commissioner only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can review trades" },
+        { status: 403 }
+      );
+    }
+
+    const report = await buildTradeReviewReport(league.id);
+
+    return NextResponse.json({ ok: true, leagueName: league.name, report });
+  } catch (error) {
+    console.error("[Trade Review] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to build trade review" },
+      { status: 500 }
+    );
+  }
+}
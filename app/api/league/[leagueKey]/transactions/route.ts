@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { syncLeagueTransactions } from "@/lib/yahoo/transactions";
+import { buildTradeLedger } from "@/lib/transactions/ledger";
+import {
+  YahooNotLinkedError,
+  YahooTokenExpiredError,
+} from "@/lib/yahoo/fantasyClient";
+import { getYahooAuthRedirectUrl } from "@/lib/yahoo/tokenExpiration";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+/**
+ * GET: Trade history ledger from stored transactions
+ * POST: Sync transactions from Yahoo, then return the ledger
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const ledger = await buildTradeLedger(league.id);
+
+    return NextResponse.json({ ok: true, leagueName: league.name, ledger });
+  } catch (error) {
+    console.error("[Transactions] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load trade history" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const created = await syncLeagueTransactions(session.userId, league.leagueKey, league.id);
+    const ledger = await buildTradeLedger(league.id);
+
+    return NextResponse.json({
+      ok: true,
+      message: `Synced ${created} new transactions from Yahoo`,
+      leagueName: league.name,
+      ledger,
+    });
+  } catch (error) {
+    console.error("[Transactions] Error:", error);
+
+    if (error instanceof YahooNotLinkedError) {
+      return NextResponse.json(
+        { ok: false, error: "Yahoo account not linked" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof YahooTokenExpiredError) {
+      const returnTo = `/league/${encodeURIComponent(leagueKey)}/trades`;
+      const redirectUrl = getYahooAuthRedirectUrl(returnTo);
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Yahoo access token expired",
+          redirectUrl,
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to sync transactions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { isLeagueCommissioner } from "@/lib/auth/commissioner";
+import prisma from "@/lib/prisma";
+import {
+  VALUE_BASES,
+  ensureLeaguePlayerValues,
+  getLeagueValueBasis,
+  type ValueBasis,
+} from "@/lib/yahoo/playerValues";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+/**
+ * GET: What the league's player values are built from
+ * PUT: Switch between season-to-date stats and rest-of-season projections, then recalculate values
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      valueBasis: await getLeagueValueBasis(league.id),
+      canEdit: await isLeagueCommissioner(session.userId, league.id),
+    });
+  } catch (error) {
+    console.error("[Value Basis] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load value basis" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    if (!(await isLeagueCommissioner(session.userId, league.id))) {
+      return NextResponse.json(
+        { ok: false, error: "Only the league commissioner can change the value basis" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const valueBasis: ValueBasis = body.valueBasis;
+
+    if (!VALUE_BASES.includes(valueBasis)) {
+      return NextResponse.json(
+        { ok: false, error: `valueBasis must be one of: ${VALUE_BASES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    await prisma.league.update({ where: { id: league.id }, data: { valueBasis } });
+
+    console.log(`[Value Basis] ${league.leagueKey} now values players on "${valueBasis}", recalculating values...`);
+    await ensureLeaguePlayerValues(league.id);
+
+    return NextResponse.json({ ok: true, valueBasis, canEdit: true });
+  } catch (error) {
+    console.error("[Value Basis] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to save value basis" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { getPlayerValueHistory, getValueMovers } from "@/lib/yahoo/valueHistory";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
+
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 365;
+const MOVERS_DAYS = 7;
+
+/**
+ * GET: Daily player value history and this week's biggest risers/fallers
+ * Query: playerIds (comma-separated, optional - defaults to all players), days (default 30)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ leagueKey: string }> }
+) {
+  const { leagueKey } = await params;
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const league = await findLeagueByKey(leagueKey);
+    if (!league) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const playerIdsParam = searchParams.get("playerIds");
+    const playerIds = playerIdsParam ? playerIdsParam.split(",").filter(Boolean) : null;
+    const requestedDays = parseInt(searchParams.get("days") || "", 10);
+    const days = Number.isFinite(requestedDays) && requestedDays > 0
+      ? Math.min(requestedDays, MAX_HISTORY_DAYS)
+      : DEFAULT_HISTORY_DAYS;
+
+    const history = await getPlayerValueHistory(league.id, playerIds, days);
+    const movers = await getValueMovers(league.id, MOVERS_DAYS);
+
+    return NextResponse.json({ ok: true, days, history, movers });
+  } catch (error) {
+    console.error("[Value History] Error:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to load value history" },
+      { status: 500 }
+    );
+  }
+}
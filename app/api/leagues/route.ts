@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import prisma from "@/lib/prisma";
+import { YahooTokenExpiredError } from "@/lib/yahoo/fantasyClient";
+import { syncUserLeagues } from "@/lib/yahoo/leagues";
+import { listUserLeagues, setDefaultLeagueKey } from "@/lib/leagues/userLeagues";
+
+function yahooErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof YahooTokenExpiredError) {
+    return NextResponse.json({ ok: false, error: "Yahoo access token expired" }, { status: 401 });
+  }
+  return NextResponse.json(
+    { ok: false, error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET: The user's stored NHL leagues (discovered from Yahoo on first use)
+ * POST: Re-discover leagues from Yahoo
+ * PUT: Remember a league as the user's default
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    let leagues = await listUserLeagues(session.userId);
+    if (leagues.length === 0) {
+      const yahooAccount = await prisma.yahooAccount.findUnique({ where: { userId: session.userId } });
+      if (yahooAccount) {
+        await syncUserLeagues(session.userId);
+        leagues = await listUserLeagues(session.userId);
+      }
+    }
+
+    return NextResponse.json({ ok: true, leagues });
+  } catch (error) {
+    console.error("[Leagues] Error:", error);
+    return yahooErrorResponse(error, "Failed to load leagues");
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    await syncUserLeagues(session.userId);
+    const leagues = await listUserLeagues(session.userId);
+
+    return NextResponse.json({ ok: true, leagues, message: `Found ${leagues.length} NHL leagues` });
+  } catch (error) {
+    console.error("[Leagues] Error refreshing from Yahoo:", error);
+    return yahooErrorResponse(error, "Failed to refresh leagues");
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ ok: false, error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const leagueKey: string | undefined = body.leagueKey;
+    if (!leagueKey || !(await setDefaultLeagueKey(session.userId, leagueKey))) {
+      return NextResponse.json({ ok: false, error: "League not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, defaultLeagueKey: leagueKey });
+  } catch (error) {
+    console.error("[Leagues] Error setting default league:", error);
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Failed to set default league" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
 import {
@@ -8,7 +8,7 @@ import {
 } from "@/lib/yahoo/fantasyClient";
 import { syncUserLeagues } from "@/lib/yahoo/leagues";
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
     const session = await getSession();
 
@@ -30,7 +30,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const leagues = await syncUserLeagues(request);
+    const leagues = await syncUserLeagues(session.userId);
 
     return NextResponse.json({
       ok: true,
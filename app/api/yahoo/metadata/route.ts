@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
 import { getYahooGameKey } from "@/lib/yahoo/config";
@@ -10,7 +10,7 @@ import {
 import { getSeasonForCurrentGame } from "@/lib/yahoo/season";
 import { getStatDefinitionsForCurrentGame } from "@/lib/yahoo/statDefinitions";
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
     const session = await getSession();
 
@@ -40,8 +40,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const season = await getSeasonForCurrentGame(request);
-    const statDefinitions = await getStatDefinitionsForCurrentGame(request);
+    const season = await getSeasonForCurrentGame(session.userId);
+    const statDefinitions = await getStatDefinitionsForCurrentGame(session.userId);
 
     const sample = statDefinitions.stats.slice(0, 5).map((stat) => ({
       stat_id: stat.stat_id,
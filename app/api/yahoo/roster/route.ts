@@ -40,7 +40,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const rosters = await syncLeagueRosters(request, leagueKey);
+    const rosters = await syncLeagueRosters(session.userId, leagueKey);
 
     return NextResponse.json({
       ok: true,
@@ -40,7 +40,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const standings = await syncLeagueStandings(request, leagueKey);
+    const standings = await syncLeagueStandings(session.userId, leagueKey);
 
     return NextResponse.json({
       ok: true,
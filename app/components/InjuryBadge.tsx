@@ -0,0 +1,44 @@
+"use client";
+
+interface InjuryBadgeProps {
+  status: string | null | undefined;
+  expectedReturn?: string | null; // YYYY-MM-DD
+  note?: string | null;
+}
+
+function formatReturn(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Injury status badge. "O" (out) players are flagged loudest - they sit in active
+ * roster spots but won't play.
+ */
+export function InjuryBadge({ status, expectedReturn, note }: InjuryBadgeProps) {
+  if (!status || !(status === "O" || status === "DTD" || status.startsWith("IR"))) {
+    return null;
+  }
+
+  const back = expectedReturn ? `back ~${formatReturn(expectedReturn)}` : null;
+  const title = [status === "O" ? "Out" : status, back, note].filter(Boolean).join(" · ");
+
+  if (status === "O") {
+    return (
+      <span
+        className="inline-block rounded border-2 border-red-700 bg-red-600 px-1.5 py-0.5 text-xs font-extrabold text-white"
+        title={title}
+      >
+        OUT{back ? ` · ${back}` : ""}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-block rounded px-1.5 py-0.5 text-xs font-bold text-white ${status === "DTD" ? "bg-yellow-600" : "bg-red-600"}`}
+      title={title}
+    >
+      {status}{back && status !== "DTD" ? ` · ${back}` : ""}
+    </span>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { UserLeagueSummary } from "@/lib/leagues/userLeagues";
+import { handleTokenExpiration } from "@/lib/yahoo/client";
+
+function formatSyncTime(iso: string | null): string {
+  if (!iso) return "Not synced yet";
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+/**
+ * The user's NHL leagues with a remembered default (opened from the home page)
+ */
+export function LeaguePicker() {
+  const [leagues, setLeagues] = useState<UserLeagueSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function loadLeagues(method: "GET" | "POST") {
+    const response = await fetch("/api/leagues", { method });
+    const result = await response.json();
+
+    if (!result.ok) {
+      if (handleTokenExpiration(result, "/leagues")) {
+        return;
+      }
+      setMessage("❌ " + (result.error || "Failed to load leagues"));
+      return;
+    }
+
+    setLeagues(result.leagues);
+    if (result.message) setMessage("✅ " + result.message);
+  }
+
+  useEffect(() => {
+    loadLeagues("GET")
+      .catch(err => setMessage("❌ " + (err instanceof Error ? err.message : "Failed to load leagues")))
+      .finally(() => setLoading(false));
+  }, []);
+
+  async function refreshFromYahoo() {
+    setRefreshing(true);
+    setMessage(null);
+    try {
+      await loadLeagues("POST");
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Failed to refresh leagues"));
+    } finally {
+      setRefreshing(false);
+    }
+  }
+
+  async function makeDefault(leagueKey: string) {
+    const response = await fetch("/api/leagues", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ leagueKey }),
+    });
+    const result = await response.json();
+    if (!result.ok) {
+      setMessage("❌ " + (result.error || "Failed to set default league"));
+      return;
+    }
+    setLeagues(prev => prev.map(l => ({ ...l, isDefault: l.leagueKey === leagueKey })));
+  }
+
+  if (loading) {
+    return <p className="text-sm theme-text-secondary">Loading leagues...</p>;
+  }
+
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm theme-text-secondary">
+          ⭐ marks your default league - the one AiTradr opens when you sign in.
+        </p>
+        <button
+          onClick={refreshFromYahoo}
+          disabled={refreshing}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {refreshing ? "Refreshing..." : "🔄 Refresh from Yahoo"}
+        </button>
+      </div>
+
+      {message && <p className="mb-4 text-sm theme-text-primary">{message}</p>}
+
+      {leagues.length === 0 ? (
+        <p className="text-sm theme-text-secondary">No NHL leagues found for your Yahoo account.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-300 theme-bg-primary">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="px-4 py-2 text-left font-semibold theme-text-primary">League</th>
+                <th className="px-4 py-2 text-left font-semibold theme-text-primary">Season</th>
+                <th className="px-4 py-2 text-right font-semibold theme-text-primary">Teams</th>
+                <th className="px-4 py-2 text-left font-semibold theme-text-primary">Your Team</th>
+                <th className="px-4 py-2 text-left font-semibold theme-text-primary">Last Sync</th>
+                <th className="px-4 py-2 text-right font-semibold theme-text-primary">Default</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leagues.map(league => (
+                <tr key={league.leagueKey} className="border-b border-gray-200 dark:border-gray-700">
+                  <td className="px-4 py-2">
+                    <Link
+                      href={`/league/${league.leagueKey}/trade`}
+                      className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      {league.name}
+                    </Link>
+                    <span className="ml-2 text-xs theme-text-secondary">{league.leagueKey}</span>
+                  </td>
+                  <td className="px-4 py-2 theme-text-secondary">{league.season}</td>
+                  <td className="px-4 py-2 text-right theme-text-secondary">{league.teamCount ?? "—"}</td>
+                  <td className="px-4 py-2 theme-text-primary">{league.myTeamName ?? "—"}</td>
+                  <td className="px-4 py-2 theme-text-secondary">{formatSyncTime(league.lastSyncedAt)}</td>
+                  <td className="px-4 py-2 text-right">
+                    {league.isDefault ? (
+                      <span title="Default league">⭐</span>
+                    ) : (
+                      <button
+                        onClick={() => makeDefault(league.leagueKey)}
+                        className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        Make default
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
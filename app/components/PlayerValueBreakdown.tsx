@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PlayerValueBreakdown } from "@/lib/yahoo/playerValues";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+
+interface PlayerValueDetails {
+  player: {
+    id: string;
+    name: string;
+    nhlTeam: string | null;
+    position: string | null;
+  };
+  value: number;
+  breakdown: PlayerValueBreakdown | null;
+  categoryLabels: Record<string, string>;
+  projection?: PlayerProjectionDetails | null;
+}
+
+interface PlayerProjectionDetails {
+  gamesPlayed: number;
+  remainingGames: number;
+  historyShare: number;
+  scheduleSource: string;
+  categories: Array<{ statId: string; abbrev: string; perGame: number; total: number }>;
+}
+
+interface PlayerSearchResult {
+  playerId: string;
+  name: string;
+  nhlTeam: string | null;
+  position: string | null;
+  value: number;
+}
+
+function signed(value: number, decimals: number): string {
+  return `${value >= 0 ? "+" : ""}${toFixedSafe(value, decimals)}`;
+}
+
+/**
+ * "Why is this player worth X": category z-scores, the base value they add up to,
+ * and each market adjustment in the order it was applied
+ */
+export function PlayerValueBreakdownView({ details }: { details: PlayerValueDetails }) {
+  const { breakdown, categoryLabels, projection } = details;
+
+  if (!breakdown) {
+    return (
+      <p className="text-sm theme-text-secondary">
+        No breakdown stored for this value yet. Refresh the league to recalculate values.
+      </p>
+    );
+  }
+
+  const zTotal = breakdown.categories.reduce((sum, c) => sum + c.contribution, 0);
+  const isProjected = breakdown.basis === "ros";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="mb-2 text-sm font-semibold theme-text-primary">Category z-scores</h4>
+        {isProjected && (
+          <p className="mb-2 text-xs theme-text-secondary">
+            Valued on rest-of-season projections, scaled to games played so far.
+          </p>
+        )}
+        {breakdown.categories.length === 0 ? (
+          <p className="text-sm theme-text-secondary">No stats in this league yet - default value.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-300 theme-text-secondary">
+                  <th className="px-2 py-1 text-left font-semibold">Category</th>
+                  <th className="px-2 py-1 text-right font-semibold">{isProjected ? "Proj." : "Current"}</th>
+                  <th className="px-2 py-1 text-right font-semibold">Hist.</th>
+                  <th className="px-2 py-1 text-right font-semibold">Blend</th>
+                  <th className="px-2 py-1 text-right font-semibold">z</th>
+                  <th className="px-2 py-1 text-right font-semibold">Weight</th>
+                  <th className="px-2 py-1 text-right font-semibold">Contrib.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {breakdown.categories.map(cat => (
+                  <tr key={cat.statId} className="border-b border-gray-200 dark:border-gray-700">
+                    <td className="px-2 py-1 theme-text-primary" title={categoryLabels[cat.statId]}>{cat.abbrev}</td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-secondary">{toFixedSafe(cat.current, 2)}</td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-secondary">
+                      {cat.historical === null ? "—" : toFixedSafe(cat.historical, 2)}
+                    </td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-secondary">{toFixedSafe(cat.blended, 2)}</td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-primary">{signed(cat.z, 2)}</td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-secondary">{toFixedSafe(cat.weight, 1)}</td>
+                    <td className={`px-2 py-1 text-right font-mono font-bold ${cat.contribution >= 0 ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"}`}>
+                      {signed(cat.contribution, 2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {projection && projection.categories.length > 0 && (
+        <div>
+          <h4 className="mb-1 text-sm font-semibold theme-text-primary">Rest-of-season projection</h4>
+          <p className="mb-2 text-xs theme-text-secondary">
+            {toFixedSafe(projection.remainingGames, 1)} games left after {toFixedSafe(projection.gamesPlayed, 0)} played;
+            rates are {toFixedSafe(projection.historyShare * 100, 0)}% history
+            {projection.scheduleSource === "estimate" ? " (average schedule)" : ""}.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-300 theme-text-secondary">
+                  <th className="px-2 py-1 text-left font-semibold">Category</th>
+                  <th className="px-2 py-1 text-right font-semibold">Per game</th>
+                  <th className="px-2 py-1 text-right font-semibold">ROS total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projection.categories.map(cat => (
+                  <tr key={cat.statId} className="border-b border-gray-200 dark:border-gray-700">
+                    <td className="px-2 py-1 theme-text-primary" title={categoryLabels[cat.statId]}>{cat.abbrev}</td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-secondary">{toFixedSafe(cat.perGame, 3)}</td>
+                    <td className="px-2 py-1 text-right font-mono theme-text-primary">{toFixedSafe(cat.total, 1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded theme-bg-secondary p-3 text-sm">
+        <div className="flex justify-between theme-text-primary">
+          <span>Base value (100 + 8 × {toFixedSafe(zTotal, 2)})</span>
+          <span className="font-mono font-bold">{toFixedSafe(breakdown.baseValue, 1)}</span>
+        </div>
+        {breakdown.adjustments.map((adj, i) => (
+          <div key={`${adj.label}-${i}`} className="flex justify-between theme-text-secondary">
+            <span>{adj.label}</span>
+            <span className="font-mono">
+              {signed(adj.after - adj.before, 1)} → {toFixedSafe(adj.after, 1)}
+            </span>
+          </div>
+        ))}
+        <div className="mt-1 flex justify-between border-t border-gray-300 pt-1 font-bold theme-text-primary">
+          <span>Value</span>
+          <span className="font-mono">{toFixedSafe(breakdown.value, 1)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+async function fetchPlayerValueDetails(leagueKey: string, playerId: string): Promise<PlayerValueDetails> {
+  const response = await fetch(`/api/league/${leagueKey}/player-value?playerId=${encodeURIComponent(playerId)}`);
+  const result = await response.json();
+  if (!result.ok) {
+    throw new Error(result.error || "Failed to load value breakdown");
+  }
+  return result;
+}
+
+interface PlayerValueBreakdownModalProps {
+  leagueKey: string;
+  playerId: string | null;
+  onClose: () => void;
+}
+
+export function PlayerValueBreakdownModal({ leagueKey, playerId, onClose }: PlayerValueBreakdownModalProps) {
+  // Keyed by player so a previous player's breakdown never shows while the next one loads
+  const [loaded, setLoaded] = useState<{
+    playerId: string;
+    details: PlayerValueDetails | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!playerId) return;
+    fetchPlayerValueDetails(leagueKey, playerId)
+      .then(details => setLoaded({ playerId, details, error: null }))
+      .catch(err => setLoaded({
+        playerId,
+        details: null,
+        error: err instanceof Error ? err.message : "Failed to load value breakdown",
+      }));
+  }, [leagueKey, playerId]);
+
+  if (!playerId) return null;
+
+  const current = loaded?.playerId === playerId ? loaded : null;
+  const details = current?.details ?? null;
+  const error = current?.error ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="max-h-[90vh] w-full max-w-2xl overflow-auto rounded-lg theme-bg-primary shadow-xl"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between border-b-2 border-gray-200 dark:border-gray-700 p-4">
+          <h2 className="font-mono text-xl font-bold theme-text-primary">
+            {details
+              ? `Why is ${details.player.name} worth ${toFixedSafe(details.value, 1)}?`
+              : "Value Breakdown"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-2xl theme-text-secondary hover:theme-text-primary"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : details ? (
+            <PlayerValueBreakdownView details={details} />
+          ) : (
+            <p className="py-8 text-center theme-text-secondary">Loading...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Search for any league player and explain their value (formula page)
+ */
+export function PlayerValueExplorer({ leagueKey }: { leagueKey: string }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PlayerSearchResult[]>([]);
+  const [details, setDetails] = useState<PlayerValueDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  async function search() {
+    if (query.trim().length < 2) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/player-value?q=${encodeURIComponent(query.trim())}`);
+      const result = await response.json();
+      if (!result.ok) {
+        setError(result.error || "Search failed");
+        return;
+      }
+      setResults(result.results);
+      if (result.results.length === 0) {
+        setError("No players found");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  async function selectPlayer(playerId: string) {
+    setError(null);
+    try {
+      setDetails(await fetchPlayerValueDetails(leagueKey, playerId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load value breakdown");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => { if (e.key === "Enter") search(); }}
+          placeholder="Player name (e.g. McDavid)"
+          className="flex-1 rounded border border-gray-300 px-3 py-2 text-sm theme-bg-primary theme-text-primary"
+        />
+        <button
+          onClick={search}
+          disabled={searching || query.trim().length < 2}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {searching ? "Searching..." : "🔍 Explain"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {results.map(r => (
+            <button
+              key={r.playerId}
+              onClick={() => selectPlayer(r.playerId)}
+              className={`rounded border px-2 py-1 text-xs ${details?.player.id === r.playerId ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30" : "border-gray-300"} theme-text-primary`}
+            >
+              {r.name} <span className="theme-text-secondary">({r.position}, {toFixedSafe(r.value, 1)})</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {details && (
+        <div>
+          <h4 className="mb-3 font-semibold theme-text-primary">
+            Why is {details.player.name} worth {toFixedSafe(details.value, 1)}?
+          </h4>
+          <PlayerValueBreakdownView details={details} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SyncRunSummary, SyncStepState } from "@/lib/sync/types";
+
+interface SyncProgressProps {
+  leagueKey: string;
+  attempt: number | null; // Increments on every Refresh Teams click; null when no sync is running
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+function stepColor(status: SyncStepState["status"]): string {
+  switch (status) {
+    case "success": return "bg-green-500";
+    case "failed": return "bg-red-500";
+    case "running": return "bg-yellow-400 animate-pulse";
+    case "skipped": return "bg-gray-400";
+    default: return "bg-gray-200 dark:bg-gray-700";
+  }
+}
+
+/**
+ * Step-by-step progress of a running force-sync, polled from the league's latest sync run
+ */
+export function SyncProgress({ leagueKey, attempt }: SyncProgressProps) {
+  // Keyed by attempt so a previous sync's progress never shows for the current one
+  const [loaded, setLoaded] = useState<{ attempt: number; run: SyncRunSummary } | null>(null);
+
+  useEffect(() => {
+    if (attempt === null) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/sync-status`);
+        const result = await response.json();
+        const run: SyncRunSummary | null = result.ok ? result.run : null;
+        if (cancelled || !run) return;
+
+        // Until this sync's run shows up, the latest run is the previous (finished) one
+        setLoaded(prev => {
+          const tracked = prev?.attempt === attempt ? prev.run : null;
+          if (run.status === "running" || run.id === tracked?.id) {
+            return { attempt, run };
+          }
+          return prev;
+        });
+      } catch (error) {
+        console.error("[Sync Progress] Poll failed:", error);
+      }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [leagueKey, attempt]);
+
+  if (attempt === null) return null;
+
+  const run = loaded?.attempt === attempt ? loaded.run : null;
+  const steps = run?.steps || [];
+  const finished = steps.filter(s => s.status !== "pending" && s.status !== "running").length;
+  const current = steps.find(s => s.status === "running");
+  const failed = steps.filter(s => s.status === "failed");
+
+  return (
+    <div className="mx-auto mt-4 max-w-2xl rounded-lg theme-bg-secondary p-4 shadow">
+      <div className="mb-2 flex items-center justify-between text-xs font-mono theme-text-primary">
+        <span>{current ? `⏳ ${current.label}...` : run ? "⏳ Finishing up..." : "⏳ Starting sync..."}</span>
+        {steps.length > 0 && <span>{finished}/{steps.length} steps</span>}
+      </div>
+
+      <div className="flex gap-1">
+        {(steps.length > 0 ? steps : Array.from({ length: 10 }, () => null)).map((step, index) => (
+          <div
+            key={step?.step ?? index}
+            className={`h-3 flex-1 rounded ${step ? stepColor(step.status) : stepColor("pending")}`}
+            title={step ? `${step.label}: ${step.status}${step.error ? ` - ${step.error}` : ""}` : undefined}
+          />
+        ))}
+      </div>
+
+      {failed.length > 0 && (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">
+          {failed.map(s => (
+            <div key={s.step}>✗ {s.label}: {s.error || "failed"}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
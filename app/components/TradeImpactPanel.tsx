@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { TradeImpact } from "@/lib/matchup/types";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+
+interface TradeImpactPanelProps {
+  leagueKey: string;
+  teamAId: string | null;
+  teamBId: string | null;
+  teamAPlayerIds: string[];
+  teamBPlayerIds: string[];
+}
+
+// Wait for the user to stop adding players before simulating
+const SIMULATE_DELAY_MS = 600;
+
+function signed(value: number, decimals: number): string {
+  return `${value >= 0 ? "+" : ""}${toFixedSafe(value, decimals)}`;
+}
+
+function changeColor(change: number): string {
+  if (change > 0.05) return "text-green-600 dark:text-green-400";
+  if (change < -0.05) return "text-red-600 dark:text-red-400";
+  return "theme-text-secondary";
+}
+
+/**
+ * Monte Carlo estimate of how a trade changes each side's expected weekly category wins
+ */
+export function TradeImpactPanel({ leagueKey, teamAId, teamBId, teamAPlayerIds, teamBPlayerIds }: TradeImpactPanelProps) {
+  // Keyed by trade so a previous trade's result never shows for the current one
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    impact: TradeImpact | null;
+    error: string | null;
+  } | null>(null);
+
+  const hasTrade = Boolean(teamAId && teamBId && (teamAPlayerIds.length > 0 || teamBPlayerIds.length > 0));
+  // The request body doubles as the key: it changes exactly when the selections do
+  const tradeKey = JSON.stringify({ teamAId, teamBId, teamAPlayerIds, teamBPlayerIds });
+
+  useEffect(() => {
+    if (!hasTrade) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/trade-impact`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: tradeKey,
+        });
+        const result = await response.json();
+        setLoaded({
+          key: tradeKey,
+          impact: result.ok ? result.impact : null,
+          error: result.ok ? null : result.error || "Simulation failed",
+        });
+      } catch (err) {
+        setLoaded({ key: tradeKey, impact: null, error: err instanceof Error ? err.message : "Simulation failed" });
+      }
+    }, SIMULATE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [leagueKey, tradeKey, hasTrade]);
+
+  if (!hasTrade) return null;
+
+  const current = loaded?.key === tradeKey ? loaded : null;
+
+  return (
+    <div className="mt-4 rounded-lg theme-bg-primary p-4 shadow">
+      <h4 className="mb-1 text-center text-sm font-bold theme-text-primary">🎲 Weekly Category Wins</h4>
+      <p className="mb-3 text-center text-xs theme-text-secondary">
+        Expected categories won per week against every other team
+        {current?.impact && ` (${current.impact.categoryCount} categories, ${current.impact.iterations.toLocaleString()} simulated weeks)`}
+      </p>
+
+      {current?.error ? (
+        <p className="text-center text-sm text-red-600">{current.error}</p>
+      ) : !current?.impact ? (
+        <p className="animate-pulse text-center text-sm theme-text-secondary">Simulating...</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {current.impact.teams.map(team => {
+            const movedCategories = team.categories
+              .map(c => ({ ...c, change: c.after - c.before }))
+              .filter(c => Math.abs(c.change) >= 0.03)
+              .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+            return (
+              <div key={team.teamId} className="rounded border border-gray-200 dark:border-gray-700 p-3">
+                <div className="mb-2 text-center text-sm font-semibold theme-text-primary">{team.name}</div>
+                <div className="mb-2 text-center">
+                  <span className="font-mono text-lg theme-text-secondary">{toFixedSafe(team.before, 1)}</span>
+                  <span className="mx-2 theme-text-secondary">→</span>
+                  <span className="font-mono text-lg font-bold theme-text-primary">{toFixedSafe(team.after, 1)}</span>
+                  <span className={`ml-2 font-mono text-sm font-bold ${changeColor(team.change)}`}>
+                    ({signed(team.change, 2)})
+                  </span>
+                </div>
+
+                {movedCategories.length > 0 && (
+                  <div className="mb-2 flex flex-wrap justify-center gap-1">
+                    {movedCategories.map(c => (
+                      <span
+                        key={c.statId}
+                        className={`rounded px-1.5 py-0.5 text-xs font-semibold ${c.change > 0 ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"}`}
+                        title={`Won ${toFixedSafe(c.before * 100, 0)}% → ${toFixedSafe(c.after * 100, 0)}% of weeks`}
+                      >
+                        {c.abbrev} {signed(c.change * 100, 0)}%
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-center theme-text-secondary">By opponent</summary>
+                  <table className="mt-2 w-full">
+                    <tbody>
+                      {team.opponents.map(o => (
+                        <tr key={o.teamId} className="border-b border-gray-200 dark:border-gray-700">
+                          <td className="py-1 theme-text-primary">{o.name}</td>
+                          <td className="py-1 text-right font-mono theme-text-secondary">
+                            {toFixedSafe(o.before, 1)} → {toFixedSafe(o.after, 1)}
+                          </td>
+                          <td className={`py-1 text-right font-mono ${changeColor(o.after - o.before)}`}>
+                            {signed(o.after - o.before, 2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import type { ValuePoint } from "@/lib/yahoo/valueHistory";
+
+interface ValueSparklineProps {
+  points: ValuePoint[] | undefined;
+  width?: number;
+  height?: number;
+}
+
+export function ValueSparkline({ points, width = 60, height = 16 }: ValueSparklineProps) {
+  // Need at least two days of history to show a trend
+  if (!points || points.length < 2) {
+    return null;
+  }
+
+  const scores = points.map(p => p.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const range = max - min || 1;
+
+  const path = scores
+    .map((score, i) => {
+      const x = (i / (scores.length - 1)) * width;
+      const y = height - 1 - ((score - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const change = scores[scores.length - 1] - scores[0];
+  const color = change > 0.5 ? "#16a34a" : change < -0.5 ? "#dc2626" : "#6b7280";
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className="inline-block"
+    >
+      <title>{`${points[0].date}: ${scores[0].toFixed(1)} → ${points[points.length - 1].date}: ${scores[scores.length - 1].toFixed(1)} (${change >= 0 ? "+" : ""}${change.toFixed(1)})`}</title>
+      <polyline points={path} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+}
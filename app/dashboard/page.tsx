@@ -1,9 +1,7 @@
 import { redirect } from "next/navigation";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
-
-// Hardcoded league key for atfh2
-const ATFH2_LEAGUE_KEY = "465.l.9080";
+import { getDefaultLeagueKey } from "@/lib/leagues/userLeagues";
 
 export default async function DashboardPage() {
   const session = await getSession();
@@ -22,7 +20,7 @@ export default async function DashboardPage() {
     redirect("/api/auth/yahoo/start");
   }
 
-  // Redirect directly to atfh2 trade builder
-  redirect(`/league/${ATFH2_LEAGUE_KEY}/trade`);
+  // Open the default league's trade builder, or the league picker if none is stored yet
+  const leagueKey = await getDefaultLeagueKey(session.userId);
+  redirect(leagueKey ? `/league/${leagueKey}/trade` : "/leagues");
 }
-
@@ -1,4 +1,5 @@
 import Link from "next/link";
+import { PlayerValueExplorer } from "@/app/components/PlayerValueBreakdown";
 
 export default async function FormulaPage({
   params,
@@ -100,6 +101,15 @@ export default async function FormulaPage({
           </div>
         </div>
 
+        {/* Player Value Drill-Down */}
+        <div className="mb-8 rounded-lg border-2 border-blue-500 dark:border-blue-400 theme-bg-primary p-6">
+          <h3 className="mb-2 text-lg font-semibold theme-text-primary">Why Is This Player Worth X?</h3>
+          <p className="mb-4 text-sm theme-text-secondary">
+            See the z-score behind every category, the historical blend, and each adjustment below applied to a real player.
+          </p>
+          <PlayerValueExplorer leagueKey={leagueKey} />
+        </div>
+
         {/* Skaters Section */}
         <div className="mb-8">
           <h3 className="mb-4 text-xl font-semibold theme-text-primary">Skaters</h3>
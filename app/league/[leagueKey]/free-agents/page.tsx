@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import type { FreeAgentReport } from "@/lib/freeAgents/types";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { InjuryBadge } from "@/app/components/InjuryBadge";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+
+type SortMode = "value" | "fit";
+type PositionFilter = "all" | "P" | "G";
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+export default function FreeAgentsPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const leagueKey = params.leagueKey as string;
+  const teamId = searchParams.get("teamId");
+
+  const [report, setReport] = useState<FreeAgentReport | null>(null);
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sortMode, setSortMode] = useState<SortMode>("value");
+  const [positionFilter, setPositionFilter] = useState<PositionFilter>("all");
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const query = teamId ? `?teamId=${encodeURIComponent(teamId)}` : "";
+        const response = await fetch(`/api/league/${leagueKey}/free-agents${query}`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load free agents");
+          return;
+        }
+
+        setLeagueName(result.leagueName);
+        setReport(result.report);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load free agents");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReport();
+  }, [leagueKey, teamId]);
+
+  const freeAgents = useMemo(() => {
+    if (!report) return [];
+    return report.freeAgents
+      .filter(fa => positionFilter === "all" || fa.positionType === positionFilter)
+      .sort((a, b) => sortMode === "fit" ? b.fitScore - a.fitScore || b.value - a.value : b.value - a.value);
+  }, [report, sortMode, positionFilter]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center theme-bg-secondary">
+        <div className="text-center">
+          <div className="mb-4 text-2xl font-bold theme-text-primary">Loading Free Agents...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+            <p className="text-red-600">{error || "Failed to load free agents"}</p>
+            <Link href={`/league/${leagueKey}/trade`} className="mt-4 inline-block text-blue-600 hover:underline">
+              ← Back to Trade Builder
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const columnCategories = report.needs.filter(need => positionFilter === "all" || need.positionType === positionFilter);
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold theme-text-primary">Free Agents</h1>
+              <p className="text-sm theme-text-secondary">{leagueName} · for {report.teamName}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href={`/league/${leagueKey}/trade`}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Back to Trade Builder
+            </Link>
+            <span className="text-xs theme-text-secondary">
+              {report.lastSyncedAt
+                ? `Free agents last imported ${formatDate(report.lastSyncedAt)}`
+                : "No free agents imported yet - run a league sync"}
+            </span>
+          </div>
+
+          {/* Needs */}
+          <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+            <h2 className="mb-1 text-xl font-semibold theme-text-primary">Team Needs</h2>
+            <p className="mb-3 text-xs theme-text-secondary">
+              Weak categories from your team dashboard. Fit scores weight them by how far behind the league you are.
+            </p>
+            {report.needs.length === 0 ? (
+              <p className="text-sm theme-text-secondary">No weak categories - rank free agents by value.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {report.needs.map(need => (
+                  <span
+                    key={need.abbrev}
+                    className="rounded bg-red-100 px-2 py-1 text-sm text-red-800 dark:bg-red-900 dark:text-red-200"
+                    title={`z-score ${toFixedSafe(need.zScore, 2)}`}
+                  >
+                    {need.label} · rank {need.rank} · {toFixedSafe(need.weight * 100, 0)}%
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Add / drop suggestions */}
+          <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+            <h2 className="mb-1 text-xl font-semibold theme-text-primary">Suggested Adds & Drops</h2>
+            <p className="mb-3 text-xs theme-text-secondary">
+              Best available players against your weakest skaters and goalies. Keepers and IR players are never dropped.
+            </p>
+            {report.addDrops.length === 0 ? (
+              <p className="text-sm theme-text-secondary">No free agent is worth more than your weakest players.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="px-4 py-2 text-left font-semibold theme-text-primary">Add</th>
+                    <th className="px-4 py-2 text-left font-semibold theme-text-primary">Drop</th>
+                    <th className="px-4 py-2 text-right font-semibold theme-text-primary">Gain</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.addDrops.map(pair => (
+                    <tr key={`${pair.add.playerId}-${pair.drop.playerId}`} className="border-b border-gray-200 dark:border-gray-700">
+                      <td className="px-4 py-2 theme-text-primary">
+                        ➕ {pair.add.name} <span className="theme-text-secondary">({pair.add.pos}, {toFixedSafe(pair.add.value, 1)})</span>
+                        {pair.add.helps.length > 0 && (
+                          <span className="ml-2 text-xs text-green-600">helps {pair.add.helps.join(", ")}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 theme-text-primary">
+                        ➖ {pair.drop.name} <span className="theme-text-secondary">({pair.drop.pos}, {toFixedSafe(pair.drop.value, 1)})</span>
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono font-bold text-green-600">+{toFixedSafe(pair.valueGain, 1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Free agent list */}
+          <div className="rounded-lg border border-gray-300 theme-bg-primary p-6">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-xl font-semibold theme-text-primary">Available Players</h2>
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(["all", "P", "G"] as const).map(filter => (
+                  <button
+                    key={filter}
+                    onClick={() => setPositionFilter(filter)}
+                    className={`rounded px-3 py-1 ${positionFilter === filter ? "bg-blue-600 text-white" : "theme-bg-secondary theme-text-primary"}`}
+                  >
+                    {filter === "all" ? "All" : filter === "P" ? "Skaters" : "Goalies"}
+                  </button>
+                ))}
+                <span className="mx-1 theme-text-secondary">|</span>
+                {(["value", "fit"] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSortMode(mode)}
+                    className={`rounded px-3 py-1 ${sortMode === mode ? "bg-blue-600 text-white" : "theme-bg-secondary theme-text-primary"}`}
+                  >
+                    {mode === "value" ? "By value" : "By fit"}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {freeAgents.length === 0 ? (
+              <p className="text-sm theme-text-secondary">No free agents to show.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="px-3 py-2 text-left font-semibold theme-text-primary">Player</th>
+                      <th className="px-3 py-2 text-left font-semibold theme-text-primary">Pos</th>
+                      <th className="px-3 py-2 text-right font-semibold theme-text-primary">Value</th>
+                      <th className="px-3 py-2 text-right font-semibold theme-text-primary">Per game</th>
+                      <th className="px-3 py-2 text-right font-semibold theme-text-primary">Fit</th>
+                      {columnCategories.map(need => (
+                        <th key={need.abbrev} className="px-3 py-2 text-right font-semibold theme-text-primary">{need.abbrev}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {freeAgents.map(fa => (
+                      <tr key={fa.playerId} className="border-b border-gray-200 dark:border-gray-700">
+                        <td className="px-3 py-2 theme-text-primary">
+                          <span className="font-medium">{fa.name}</span>
+                          <span className="ml-1 text-xs theme-text-secondary">{fa.nhlTeam}</span>
+                          <span className="ml-2"><InjuryBadge status={fa.status} expectedReturn={fa.expectedReturn} /></span>
+                        </td>
+                        <td className="px-3 py-2 theme-text-secondary">{fa.pos}</td>
+                        <td className="px-3 py-2 text-right font-mono font-bold theme-text-primary">{toFixedSafe(fa.value, 1)}</td>
+                        <td className="px-3 py-2 text-right font-mono theme-text-secondary">
+                          {fa.perGameValue === null ? "—" : toFixedSafe(fa.perGameValue, 1)}
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono theme-text-primary">
+                          {report.needs.length > 0 ? `${toFixedSafe(fa.fitScore * 100, 0)}%` : "—"}
+                        </td>
+                        {columnCategories.map(need => (
+                          <td
+                            key={need.abbrev}
+                            className={`px-3 py-2 text-right font-mono ${fa.helps.includes(need.abbrev) ? "font-bold text-green-600" : "theme-text-secondary"}`}
+                          >
+                            {fa.stats[need.abbrev] === undefined ? "—" : toFixedSafe(fa.stats[need.abbrev], need.decimals)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import type {
+  ProposalInbox,
+  ProposalStatus,
+  TradeProposalSide,
+  TradeProposalSummary,
+  YahooTradeSubmission,
+} from "@/lib/proposals/types";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+import { handleTokenExpiration } from "@/lib/yahoo/client";
+
+const STATUS_STYLES: Record<ProposalStatus, string> = {
+  proposed: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  countered: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  accepted: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  expired: "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+};
+
+// What each Yahoo pending trade status means for the managers
+const YAHOO_STATUS_LABELS: Record<string, string> = {
+  proposed: "waiting for the other manager to accept on Yahoo",
+  accepted: "accepted, in league review",
+  successful: "processed - rosters updated",
+  vetoed: "vetoed by the league",
+  rejected: "rejected on Yahoo",
+  cancelled: "cancelled on Yahoo",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function SideList({ title, side }: { title: string; side: TradeProposalSide }) {
+  return (
+    <div className="flex-1">
+      <h4 className="mb-1 text-sm font-semibold theme-text-primary">
+        {title} <span className="font-normal theme-text-secondary">· {toFixedSafe(side.totalValue, 1)}</span>
+      </h4>
+      <ul className="space-y-0.5 text-sm">
+        {side.assets.map(asset => (
+          <li key={asset.playerId ?? `pick-${asset.round}`} className="flex justify-between gap-4">
+            <span className="theme-text-primary">{asset.name}</span>
+            <span className="theme-text-secondary">{toFixedSafe(asset.value, 1)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function YahooTradeStatus({ yahoo, incoming }: { yahoo: YahooTradeSubmission; incoming: boolean }) {
+  const label = yahoo.transactionKey
+    ? YAHOO_STATUS_LABELS[yahoo.status] ?? yahoo.status
+    : "submitted, waiting for Yahoo to confirm";
+  return (
+    <span className="theme-text-primary">
+      🏒 On Yahoo: <span className="font-semibold">{label}</span>
+      {incoming && yahoo.status === "proposed" && " - accept it in the Yahoo app to finish the trade"}
+      {yahoo.checkedAt && <span className="ml-2 text-xs theme-text-secondary">checked {formatDate(yahoo.checkedAt)}</span>}
+    </span>
+  );
+}
+
+function ProposalCard({
+  proposal,
+  leagueKey,
+  busy,
+  onRespond,
+  onYahoo,
+}: {
+  proposal: TradeProposalSummary;
+  leagueKey: string;
+  busy: boolean;
+  onRespond: (proposalId: string, action: "accept" | "reject") => void;
+  onYahoo: (proposalId: string, action: "submit" | "refresh") => void;
+}) {
+  const incoming = proposal.direction === "incoming";
+  const diff = proposal.toSide.totalValue - proposal.fromSide.totalValue;
+
+  return (
+    <div className="rounded-lg border border-gray-300 theme-bg-primary p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="font-semibold theme-text-primary">
+          {proposal.fromTeam.name} → {proposal.toTeam.name}
+          {proposal.counterOfId && <span className="ml-2 text-xs font-normal theme-text-secondary">counter-offer</span>}
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="theme-text-secondary">
+            Sent {formatDate(proposal.createdAt)}
+            {proposal.status === "proposed" && ` · expires ${formatDate(proposal.expiresAt)}`}
+          </span>
+          <span className={`rounded px-2 py-0.5 font-semibold ${STATUS_STYLES[proposal.status]}`}>{proposal.status}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 md:flex-row">
+        <SideList title={`${proposal.fromTeam.name} sends`} side={proposal.fromSide} />
+        <SideList title={`${proposal.toTeam.name} sends`} side={proposal.toSide} />
+      </div>
+
+      <p className="mt-3 text-xs theme-text-secondary">
+        Values when sent: {Math.abs(diff) < 0.05
+          ? "even"
+          : `${diff > 0 ? proposal.fromTeam.name : proposal.toTeam.name} gains ${toFixedSafe(Math.abs(diff), 1)}`}
+      </p>
+
+      {proposal.message && (
+        <p className="mt-2 rounded bg-gray-100 p-2 text-sm italic theme-text-primary dark:bg-gray-800">“{proposal.message}”</p>
+      )}
+
+      {incoming && proposal.canRespond && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            onClick={() => onRespond(proposal.id, "accept")}
+            disabled={busy}
+            className="rounded-lg bg-green-600 px-4 py-2 text-sm font-bold text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            ✅ Accept
+          </button>
+          <button
+            onClick={() => onRespond(proposal.id, "reject")}
+            disabled={busy}
+            className="rounded-lg bg-red-600 px-4 py-2 text-sm font-bold text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            ❌ Reject
+          </button>
+          <Link
+            href={`/league/${leagueKey}/trade?counter=${proposal.id}`}
+            className="rounded-lg bg-purple-600 px-4 py-2 text-sm font-bold text-white hover:bg-purple-700"
+          >
+            ↔️ Counter in Trade Builder
+          </Link>
+        </div>
+      )}
+
+      {proposal.status === "accepted" && (
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          {proposal.yahoo ? (
+            <>
+              <YahooTradeStatus yahoo={proposal.yahoo} incoming={incoming} />
+              {!proposal.yahoo.final && (
+                <button
+                  onClick={() => onYahoo(proposal.id, "refresh")}
+                  disabled={busy}
+                  className="rounded-lg bg-gray-600 px-3 py-1 text-xs font-bold text-white hover:bg-gray-700 disabled:opacity-50"
+                >
+                  🔄 Check Yahoo
+                </button>
+              )}
+            </>
+          ) : proposal.canSubmitToYahoo ? (
+            <button
+              onClick={() => onYahoo(proposal.id, "submit")}
+              disabled={busy}
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-bold text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              🏒 Submit to Yahoo
+            </button>
+          ) : (
+            <span className="theme-text-secondary">
+              {incoming
+                ? `Waiting for ${proposal.fromTeam.name} to submit the trade to Yahoo`
+                : "Submitting to Yahoo..."}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function TradeProposalsPage() {
+  const params = useParams();
+  const leagueKey = params.leagueKey as string;
+
+  const [inbox, setInbox] = useState<ProposalInbox | null>(null);
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchInbox = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/proposals`);
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error || "Failed to load trade proposals");
+        return;
+      }
+
+      setLeagueName(result.leagueName);
+      setInbox(result.inbox);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load trade proposals");
+    } finally {
+      setLoading(false);
+    }
+  }, [leagueKey]);
+
+  useEffect(() => {
+    fetchInbox();
+  }, [fetchInbox]);
+
+  async function respond(proposalId: string, action: "accept" | "reject") {
+    setBusyId(proposalId);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/proposals/${proposalId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      setMessage(result.ok ? `✅ Proposal ${result.status}` : "❌ " + (result.error || "Failed to respond"));
+      await fetchInbox();
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Failed to respond"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function yahooAction(proposalId: string, action: "submit" | "refresh") {
+    setBusyId(proposalId);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/proposals/${proposalId}/yahoo`, {
+        method: action === "submit" ? "POST" : "PUT",
+      });
+      const result = await response.json();
+
+      if (handleTokenExpiration(result, `/league/${leagueKey}/proposals`)) {
+        return;
+      }
+
+      if (result.ok) {
+        const label = YAHOO_STATUS_LABELS[result.yahoo.status] ?? result.yahoo.status;
+        setMessage(action === "submit" ? `✅ Trade submitted to Yahoo - ${label}` : `✅ Yahoo status: ${label}`);
+      } else {
+        setMessage("❌ " + (result.error || "Yahoo request failed"));
+      }
+      await fetchInbox();
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Yahoo request failed"));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center theme-bg-secondary">
+        <div className="text-center">
+          <div className="mb-4 text-2xl font-bold theme-text-primary">Loading Trade Proposals...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !inbox) {
+    return (
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+            <p className="text-red-600">{error || "Failed to load trade proposals"}</p>
+            <Link href={`/league/${leagueKey}/trade`} className="mt-4 inline-block text-blue-600 hover:underline">
+              ← Back to Trade Builder
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const awaitingMe = inbox.proposals.filter(p => p.canRespond);
+  const awaitingThem = inbox.proposals.filter(p => p.direction === "outgoing" && p.status === "proposed");
+  const history = inbox.proposals.filter(p => p.status !== "proposed");
+
+  const sections: Array<{ title: string; empty: string; proposals: TradeProposalSummary[] }> = [
+    { title: "Needs Your Response", empty: "No proposals waiting on you.", proposals: awaitingMe },
+    { title: "Sent", empty: "No open proposals sent from your team.", proposals: awaitingThem },
+    { title: "History", empty: "No answered or expired proposals yet.", proposals: history },
+  ];
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold theme-text-primary">Trade Proposals</h1>
+              <p className="text-sm theme-text-secondary">{leagueName}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href={`/league/${leagueKey}/trade`}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Back to Trade Builder
+            </Link>
+            <span className="text-xs theme-text-secondary">
+              Build a trade with your team on the left, then use &quot;Propose Trade&quot; to send it.
+            </span>
+          </div>
+
+          {message && <p className="mb-4 text-sm theme-text-primary">{message}</p>}
+
+          {!inbox.myTeamId ? (
+            <p className="text-sm theme-text-secondary">
+              Your team in this league isn&apos;t linked yet - refresh the league from the trade builder.
+            </p>
+          ) : (
+            sections.map(section => (
+              <div key={section.title} className="mb-8">
+                <h2 className="mb-3 text-xl font-semibold theme-text-primary">
+                  {section.title} ({section.proposals.length})
+                </h2>
+                {section.proposals.length === 0 ? (
+                  <p className="text-sm theme-text-secondary">{section.empty}</p>
+                ) : (
+                  <div className="space-y-4">
+                    {section.proposals.map(proposal => (
+                      <ProposalCard
+                        key={proposal.id}
+                        proposal={proposal}
+                        leagueKey={leagueKey}
+                        busy={busyId === proposal.id}
+                        onRespond={respond}
+                        onYahoo={yahooAction}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
@@ -0,0 +1,983 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import type { LeagueScoringConfig, ScoringCategory } from "@/lib/yahoo/scoringConfig";
+import type { KeeperRules, PlayerTier } from "@/lib/keeper/types";
+import type { ValueBasis } from "@/lib/yahoo/playerValues";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { handleTokenExpiration } from "@/lib/yahoo/client";
+import { InjuryBadge } from "@/app/components/InjuryBadge";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+
+export default function LeagueSettingsPage() {
+  const params = useParams();
+  const leagueKey = params.leagueKey as string;
+
+  const [scoringConfig, setScoringConfig] = useState<LeagueScoringConfig | null>(null);
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [canEdit, setCanEdit] = useState(false);
+  // Weight inputs keyed by statId; empty string means "use default"
+  const [weightInputs, setWeightInputs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function applyConfig(config: LeagueScoringConfig) {
+    setScoringConfig(config);
+    const inputs: Record<string, string> = {};
+    for (const cat of [...config.skaterCategories, ...config.goalieCategories]) {
+      inputs[cat.statId] = cat.isOverridden ? cat.weight.toString() : "";
+    }
+    setWeightInputs(inputs);
+  }
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/scoring-settings`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load league settings");
+          return;
+        }
+
+        setLeagueName(result.leagueName);
+        setCanEdit(result.canEdit);
+        applyConfig(result.scoringConfig);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load league settings");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSettings();
+  }, [leagueKey]);
+
+  async function importFromYahoo() {
+    setImporting(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/scoring-settings`, { method: "POST" });
+      const result = await response.json();
+
+      if (!result.ok) {
+        if (handleTokenExpiration(result, `/league/${leagueKey}/settings`)) {
+          return;
+        }
+        setMessage("❌ " + result.error);
+        return;
+      }
+
+      setCanEdit(result.canEdit);
+      applyConfig(result.scoringConfig);
+      setMessage("✅ " + result.message);
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Import failed"));
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function saveWeights() {
+    if (!scoringConfig) return;
+
+    const weights: Array<{ statId: string; weight: number | null }> = [];
+    for (const cat of [...scoringConfig.skaterCategories, ...scoringConfig.goalieCategories]) {
+      const input = weightInputs[cat.statId]?.trim() ?? "";
+      if (input === "") {
+        weights.push({ statId: cat.statId, weight: null });
+        continue;
+      }
+      const weight = parseFloat(input);
+      if (isNaN(weight)) {
+        setMessage(`❌ Invalid weight for ${cat.label}`);
+        return;
+      }
+      weights.push({ statId: cat.statId, weight });
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/scoring-settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weights }),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        if (handleTokenExpiration(result, `/league/${leagueKey}/settings`)) {
+          return;
+        }
+        setMessage("❌ " + result.error);
+        return;
+      }
+
+      applyConfig(result.scoringConfig);
+      setMessage("✅ Weights saved and player values recalculated");
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Save failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function renderCategoryRows(categories: ScoringCategory[]) {
+    return categories.map(cat => (
+      <tr key={cat.statId} className="border-b border-gray-200 dark:border-gray-700">
+        <td className="px-4 py-2 font-medium theme-text-primary">{cat.label}</td>
+        <td className="px-4 py-2 font-mono theme-text-secondary">{cat.abbrev}</td>
+        <td className="px-4 py-2 text-center theme-text-secondary">{cat.isNegative ? "Lower" : "Higher"}</td>
+        <td className="px-4 py-2 text-right font-mono theme-text-secondary">{cat.defaultWeight.toFixed(1)}</td>
+        <td className="px-4 py-2 text-right">
+          {canEdit ? (
+            <input
+              type="number"
+              min={0}
+              max={5}
+              step={0.1}
+              value={weightInputs[cat.statId] ?? ""}
+              placeholder={cat.defaultWeight.toFixed(1)}
+              onChange={(e) => setWeightInputs(prev => ({ ...prev, [cat.statId]: e.target.value }))}
+              className="w-20 rounded border border-gray-300 px-2 py-1 text-right font-mono theme-bg-primary theme-text-primary"
+            />
+          ) : (
+            <span className={`font-mono ${cat.isOverridden ? "font-bold text-purple-700 dark:text-purple-300" : "theme-text-primary"}`}>
+              {cat.weight.toFixed(1)}
+            </span>
+          )}
+        </td>
+      </tr>
+    ));
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center theme-bg-secondary">
+        <div className="text-center">
+          <div className="mb-4 text-2xl font-bold theme-text-primary">Loading Settings...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !scoringConfig) {
+    return (
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+            <p className="text-red-600">{error || "Failed to load league settings"}</p>
+            <Link href={`/league/${leagueKey}/trade`} className="mt-4 inline-block text-blue-600 hover:underline">
+              ← Back to Trade Builder
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold theme-text-primary">League Settings</h1>
+              <p className="text-sm theme-text-secondary">{leagueName}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href={`/league/${leagueKey}/trade`}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Back to Trade Builder
+            </Link>
+            {canEdit && (
+              <Link
+                href={`/league/${leagueKey}/trade-review`}
+                className="rounded-lg bg-gray-700 px-4 py-2 text-sm font-bold text-white hover:bg-gray-800"
+              >
+                🛡️ Commissioner Trade Review
+              </Link>
+            )}
+          </div>
+
+          {/* Scoring Categories */}
+          <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold theme-text-primary">Scoring Categories & Weights</h2>
+                <p className="text-sm theme-text-secondary">
+                  {scoringConfig.source === "yahoo"
+                    ? "Categories imported from your Yahoo league settings."
+                    : "Using the default 12 skater + 5 goalie format. Import from Yahoo to match your league."}
+                </p>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={importFromYahoo}
+                  disabled={importing}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {importing ? "Importing..." : "🔄 Import from Yahoo"}
+                </button>
+              )}
+            </div>
+
+            <p className="mb-4 text-xs theme-text-secondary">
+              Weights scale each category&apos;s z-score in player values. A weight of 0 ignores the category.
+              {canEdit
+                ? " As commissioner you can override weights; leave a field blank to use the default."
+                : " Only the league commissioner can change weights."}
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="px-4 py-2 text-left font-semibold theme-text-primary">Category</th>
+                    <th className="px-4 py-2 text-left font-semibold theme-text-primary">Abbrev</th>
+                    <th className="px-4 py-2 text-center font-semibold theme-text-primary">Better</th>
+                    <th className="px-4 py-2 text-right font-semibold theme-text-primary">Default</th>
+                    <th className="px-4 py-2 text-right font-semibold theme-text-primary">Weight</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td colSpan={5} className="px-4 pt-3 pb-1 text-xs font-bold uppercase theme-text-secondary">Skaters</td>
+                  </tr>
+                  {renderCategoryRows(scoringConfig.skaterCategories)}
+                  <tr>
+                    <td colSpan={5} className="px-4 pt-3 pb-1 text-xs font-bold uppercase theme-text-secondary">Goalies</td>
+                  </tr>
+                  {renderCategoryRows(scoringConfig.goalieCategories)}
+                </tbody>
+              </table>
+            </div>
+
+            {canEdit && (
+              <div className="mt-4 flex gap-3">
+                <button
+                  onClick={saveWeights}
+                  disabled={saving}
+                  className="rounded-lg bg-green-600 px-4 py-2 text-sm font-bold text-white hover:bg-green-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving & recalculating..." : "💾 Save Weights"}
+                </button>
+                <button
+                  onClick={() => setWeightInputs(prev => Object.fromEntries(Object.keys(prev).map(k => [k, ""])))}
+                  disabled={saving}
+                  className="rounded-lg bg-gray-600 px-4 py-2 text-sm font-bold text-white hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Reset to Defaults
+                </button>
+              </div>
+            )}
+
+            {message && (
+              <p className="mt-4 text-sm theme-text-primary">{message}</p>
+            )}
+          </div>
+
+          <ValueBasisSection leagueKey={leagueKey} />
+
+          <InjuriesSection leagueKey={leagueKey} />
+
+          <KeeperRulesSection leagueKey={leagueKey} />
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
+
+const VALUE_BASIS_OPTIONS: Array<{ basis: ValueBasis; label: string; description: string }> = [
+  {
+    basis: "season",
+    label: "Season to date",
+    description: "Accumulated stats this season, blended 70/30 with the last two seasons.",
+  },
+  {
+    basis: "ros",
+    label: "Rest of season",
+    description: "Per-game rates (small samples regressed toward history) × games left on each team's schedule. Extra games played so far don't add value.",
+  },
+];
+
+/**
+ * Value basis section - what trade values are built from
+ */
+function ValueBasisSection({ leagueKey }: { leagueKey: string }) {
+  const [valueBasis, setValueBasis] = useState<ValueBasis | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchValueBasis() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/value-basis`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load value basis");
+          return;
+        }
+
+        setValueBasis(result.valueBasis);
+        setCanEdit(result.canEdit);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load value basis");
+      }
+    }
+
+    fetchValueBasis();
+  }, [leagueKey]);
+
+  async function save(basis: ValueBasis) {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/value-basis`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ valueBasis: basis }),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setMessage("❌ " + result.error);
+        return;
+      }
+
+      setValueBasis(result.valueBasis);
+      setMessage("✅ Value basis saved and player values recalculated");
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Save failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-6">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (!valueBasis) {
+    return (
+      <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+        <p className="animate-pulse theme-text-secondary">Loading value basis...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+      <h2 className="text-xl font-semibold theme-text-primary">Trade Value Basis</h2>
+      <p className="mb-4 text-sm theme-text-secondary">
+        What player values (and every trade built on them) are calculated from.
+        {canEdit ? "" : " Only the league commissioner can change the value basis."}
+      </p>
+
+      <div className="space-y-3">
+        {VALUE_BASIS_OPTIONS.map(option => (
+          <label key={option.basis} className="flex items-start gap-3 text-sm">
+            <input
+              type="radio"
+              name="value-basis"
+              checked={valueBasis === option.basis}
+              disabled={!canEdit || saving}
+              onChange={() => save(option.basis)}
+              className="mt-1 h-4 w-4"
+            />
+            <span>
+              <span className="font-medium theme-text-primary">{option.label}</span>
+              <span className="block text-xs theme-text-secondary">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {saving && (
+        <p className="mt-4 animate-pulse text-sm theme-text-secondary">Recalculating player values...</p>
+      )}
+      {message && (
+        <p className="mt-4 text-sm theme-text-primary">{message}</p>
+      )}
+    </div>
+  );
+}
+
+const PLAYER_TIERS: PlayerTier[] = ["Generational", "Franchise", "Star", "Core", "Normal"];
+
+// Comma-separated number lists are edited as text (e.g. "0, 0.45, 0.75, 1")
+interface InjuredPlayer {
+  playerId: string;
+  name: string;
+  teamName: string;
+  status: string | null;
+  isInjuredList: boolean;
+  expectedReturn: string | null;
+  injuryNote: string | null;
+  injurySource: string | null;
+  estimatedReturn: string | null;
+  gamesMissed: number;
+  valueFactor: number;
+}
+
+/**
+ * Injuries section - expected return dates behind the injury value discount
+ */
+function InjuriesSection({ leagueKey }: { leagueKey: string }) {
+  const [players, setPlayers] = useState<InjuredPlayer[] | null>(null);
+  const [irSlots, setIrSlots] = useState<number | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchInjuries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/injuries`);
+      const result = await response.json();
+
+      if (!result.ok) {
+        setError(result.error || "Failed to load injuries");
+        return;
+      }
+
+      setPlayers(result.players);
+      setIrSlots(result.irSlots);
+      setCanEdit(result.canEdit);
+      setDrafts(Object.fromEntries(
+        (result.players as InjuredPlayer[]).map(p => [p.playerId, p.expectedReturn ?? ""])
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load injuries");
+    }
+  }, [leagueKey]);
+
+  useEffect(() => {
+    fetchInjuries();
+  }, [fetchInjuries]);
+
+  async function save(player: InjuredPlayer, expectedReturn: string | null) {
+    setSavingId(player.playerId);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/injuries`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ playerId: player.playerId, expectedReturn, note: player.injuryNote }),
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setMessage("❌ " + result.error);
+        return;
+      }
+
+      setMessage(`✅ ${player.name}: ${expectedReturn ? `expected back ${expectedReturn}` : "manual date cleared"}, player values recalculated`);
+      await fetchInjuries();
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Save failed"));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-6">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (!players) {
+    return (
+      <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+        <p className="animate-pulse theme-text-secondary">Loading injuries...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+      <h2 className="text-xl font-semibold theme-text-primary">Injuries</h2>
+      <p className="mb-4 text-sm theme-text-secondary">
+        Player values are discounted by the games each injured player is expected to miss.
+        Return dates come from the NHL injury report on every sync; a date the commissioner sets here overrides it for this league until cleared.
+        {irSlots !== null ? ` This league has ${irSlots} IR slot${irSlots === 1 ? "" : "s"} per team.` : ""}
+      </p>
+
+      {players.length === 0 ? (
+        <p className="text-sm theme-text-secondary">No injured players on any roster.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="theme-bg-secondary">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold theme-text-primary">Player</th>
+                <th className="px-3 py-2 text-left font-semibold theme-text-primary">Status</th>
+                <th className="px-3 py-2 text-left font-semibold theme-text-primary">Expected return</th>
+                <th className="px-3 py-2 text-center font-semibold theme-text-primary">Games missed</th>
+                <th className="px-3 py-2 text-center font-semibold theme-text-primary">Value</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {players.map(player => (
+                <tr key={player.playerId} className="border-t border-gray-200">
+                  <td className="px-3 py-2">
+                    <span className="font-medium theme-text-primary">{player.name}</span>
+                    <span className="block text-xs theme-text-secondary">
+                      {player.teamName}{player.isInjuredList ? " · in IR slot" : ""}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <InjuryBadge status={player.status} note={player.injuryNote} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="date"
+                      value={drafts[player.playerId] ?? ""}
+                      onChange={e => setDrafts({ ...drafts, [player.playerId]: e.target.value })}
+                      disabled={!canEdit}
+                      className="rounded border border-gray-300 theme-bg-primary px-2 py-1 text-sm"
+                    />
+                    <span className="block text-xs theme-text-secondary">
+                      {player.injurySource === "manual" ? "Set manually"
+                        : player.injurySource === "nhl" ? "NHL injury report"
+                        : player.estimatedReturn ? `Estimated from status (${player.estimatedReturn})` : "No return date"}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-center theme-text-primary">{toFixedSafe(player.gamesMissed, 0)}</td>
+                  <td className="px-3 py-2 text-center theme-text-primary">{player.valueFactor.toFixed(2)}x</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {canEdit && (
+                      <button
+                        onClick={() => save(player, drafts[player.playerId] || null)}
+                        disabled={savingId !== null || !drafts[player.playerId]}
+                        className="rounded bg-blue-600 px-3 py-1 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    )}
+                    {canEdit && player.injurySource === "manual" && (
+                      <button
+                        onClick={() => save(player, null)}
+                        disabled={savingId !== null}
+                        className="ml-2 rounded border border-gray-300 px-3 py-1 text-xs font-semibold theme-text-primary disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {savingId && (
+        <p className="mt-4 animate-pulse text-sm theme-text-secondary">Recalculating player values...</p>
+      )}
+      {message && (
+        <p className="mt-4 text-sm theme-text-primary">{message}</p>
+      )}
+    </div>
+  );
+}
+
+function formatNumberList(values: number[]): string {
+  return values.join(", ");
+}
+
+function parseNumberList(text: string): number[] | null {
+  const values = text.split(",").map(v => v.trim()).filter(v => v !== "").map(Number);
+  return values.some(v => isNaN(v)) ? null : values;
+}
+
+/**
+ * Keeper rules section - round limits, tiers and keeper bonus tables
+ */
+function KeeperRulesSection({ leagueKey }: { leagueKey: string }) {
+  const [rules, setRules] = useState<KeeperRules | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [canEdit, setCanEdit] = useState(false);
+  const [surplusWeightsInput, setSurplusWeightsInput] = useState("");
+  const [controlPremiumInputs, setControlPremiumInputs] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  function applyRules(result: { keeperRules: KeeperRules; isDefault: boolean; canEdit: boolean }) {
+    setRules(result.keeperRules);
+    setIsDefault(result.isDefault);
+    setCanEdit(result.canEdit);
+    setSurplusWeightsInput(formatNumberList(result.keeperRules.bonus.surplusWeights));
+    setControlPremiumInputs(Object.fromEntries(
+      PLAYER_TIERS.map(tier => [tier, formatNumberList(result.keeperRules.bonus.controlPremium[tier] ?? [])])
+    ));
+  }
+
+  useEffect(() => {
+    async function fetchRules() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/keeper-rules`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load keeper rules");
+          return;
+        }
+
+        applyRules(result);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load keeper rules");
+      }
+    }
+
+    fetchRules();
+  }, [leagueKey]);
+
+  function updateRules(update: Partial<KeeperRules>) {
+    setRules(prev => prev ? { ...prev, ...update } : prev);
+  }
+
+  function updateBonus(update: Partial<KeeperRules["bonus"]>) {
+    setRules(prev => prev ? { ...prev, bonus: { ...prev.bonus, ...update } } : prev);
+  }
+
+  function updateTier(index: number, update: Partial<KeeperRules["tiers"][0]>) {
+    setRules(prev => prev
+      ? { ...prev, tiers: prev.tiers.map((tier, i) => i === index ? { ...tier, ...update } : tier) }
+      : prev);
+  }
+
+  async function submit(method: "PUT" | "DELETE") {
+    if (!rules) return;
+
+    let body: string | undefined;
+    if (method === "PUT") {
+      const surplusWeights = parseNumberList(surplusWeightsInput);
+      if (!surplusWeights) {
+        setMessage("❌ Surplus weights must be a comma-separated list of numbers");
+        return;
+      }
+      const controlPremium = {} as KeeperRules["bonus"]["controlPremium"];
+      for (const tier of PLAYER_TIERS) {
+        const values = parseNumberList(controlPremiumInputs[tier] ?? "");
+        if (!values) {
+          setMessage(`❌ Control premium for ${tier} must be a comma-separated list of numbers`);
+          return;
+        }
+        controlPremium[tier] = values;
+      }
+      body = JSON.stringify({
+        keeperRules: { ...rules, bonus: { ...rules.bonus, surplusWeights, controlPremium } },
+      });
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/keeper-rules`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body,
+      });
+      const result = await response.json();
+
+      if (!result.ok) {
+        setMessage("❌ " + result.error);
+        return;
+      }
+
+      applyRules(result);
+      setMessage(method === "PUT" ? "✅ Keeper rules saved and keeper data updated" : "✅ Keeper rules reset to defaults");
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Save failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-6">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (!rules) {
+    return (
+      <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+        <p className="animate-pulse theme-text-secondary">Loading keeper rules...</p>
+      </div>
+    );
+  }
+
+  const inputClass = "w-20 rounded border border-gray-300 px-2 py-1 text-right font-mono theme-bg-primary theme-text-primary disabled:opacity-70";
+  const listInputClass = "w-48 rounded border border-gray-300 px-2 py-1 font-mono theme-bg-primary theme-text-primary disabled:opacity-70";
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+      <h2 className="text-xl font-semibold theme-text-primary">Keeper Rules</h2>
+      <p className="mb-4 text-sm theme-text-secondary">
+        {isDefault ? "Using the default keeper rules." : "Custom keeper rules for this league."}
+        {canEdit ? "" : " Only the league commissioner can change keeper rules."}
+      </p>
+
+      {/* Round limits */}
+      <div className="mb-6 grid grid-cols-1 gap-4 text-sm md:grid-cols-4">
+        <label className="flex flex-col gap-1 theme-text-secondary">
+          Max keeper years
+          <input
+            type="number"
+            min={1}
+            value={rules.maxKeeperYears}
+            disabled={!canEdit}
+            onChange={(e) => updateRules({ maxKeeperYears: parseInt(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 theme-text-secondary">
+          Earliest keeper round
+          <input
+            type="number"
+            min={1}
+            value={rules.minKeeperRound}
+            disabled={!canEdit}
+            onChange={(e) => updateRules({ minKeeperRound: parseInt(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 theme-text-secondary">
+          Draft rounds
+          <input
+            type="number"
+            min={1}
+            value={rules.maxKeeperRound}
+            disabled={!canEdit}
+            onChange={(e) => updateRules({ maxKeeperRound: parseInt(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 theme-text-secondary">
+          <input
+            type="checkbox"
+            checked={rules.tierLocked}
+            disabled={!canEdit}
+            onChange={(e) => updateRules({ tierLocked: e.target.checked })}
+            className="h-4 w-4"
+          />
+          Keepers stay in their draft tier
+        </label>
+      </div>
+
+      {/* Round tiers */}
+      <h3 className="mb-2 font-semibold theme-text-primary">Round Tiers</h3>
+      <table className="mb-2 text-sm">
+        <thead>
+          <tr className="border-b-2 border-gray-300">
+            <th className="px-4 py-2 text-left font-semibold theme-text-primary">Tier</th>
+            <th className="px-4 py-2 text-right font-semibold theme-text-primary">First Round</th>
+            <th className="px-4 py-2 text-right font-semibold theme-text-primary">Last Round</th>
+            {canEdit && <th />}
+          </tr>
+        </thead>
+        <tbody>
+          {rules.tiers.map((tier, index) => (
+            <tr key={index} className="border-b border-gray-200 dark:border-gray-700">
+              <td className="px-4 py-2">
+                <input
+                  type="text"
+                  value={tier.name}
+                  disabled={!canEdit}
+                  onChange={(e) => updateTier(index, { name: e.target.value })}
+                  className="w-16 rounded border border-gray-300 px-2 py-1 font-mono theme-bg-primary theme-text-primary disabled:opacity-70"
+                />
+              </td>
+              <td className="px-4 py-2 text-right">
+                <input
+                  type="number"
+                  min={1}
+                  value={tier.minRound}
+                  disabled={!canEdit}
+                  onChange={(e) => updateTier(index, { minRound: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </td>
+              <td className="px-4 py-2 text-right">
+                <input
+                  type="number"
+                  min={1}
+                  value={tier.maxRound}
+                  disabled={!canEdit}
+                  onChange={(e) => updateTier(index, { maxRound: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </td>
+              {canEdit && (
+                <td className="px-4 py-2">
+                  <button
+                    onClick={() => updateRules({ tiers: rules.tiers.filter((_, i) => i !== index) })}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {canEdit && (
+        <button
+          onClick={() => {
+            const lastRound = rules.tiers[rules.tiers.length - 1]?.maxRound ?? 0;
+            updateRules({
+              tiers: [...rules.tiers, { name: String.fromCharCode(65 + rules.tiers.length), minRound: lastRound + 1, maxRound: rules.maxKeeperRound }],
+            });
+          }}
+          className="mb-6 text-sm text-blue-600 hover:underline dark:text-blue-400"
+        >
+          + Add Tier
+        </button>
+      )}
+
+      {/* Keeper bonus */}
+      <h3 className="mt-4 mb-2 font-semibold theme-text-primary">Keeper Bonus</h3>
+      <p className="mb-3 text-xs theme-text-secondary">
+        Lists are by years remaining, starting at 0 (e.g. &quot;0, 0.45, 0.75, 1&quot;).
+        Surplus is value above the draft round average; control premium is a flat bonus for elite players.
+      </p>
+      <div className="mb-4 flex flex-wrap gap-6 text-sm">
+        <label className="flex flex-col gap-1 theme-text-secondary">
+          Surplus weights
+          <input
+            type="text"
+            value={surplusWeightsInput}
+            disabled={!canEdit}
+            onChange={(e) => setSurplusWeightsInput(e.target.value)}
+            className={listInputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 theme-text-secondary">
+          Trade weight (share of bonus)
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={rules.bonus.tradeBonusWeight}
+            disabled={!canEdit}
+            onChange={(e) => updateBonus({ tradeBonusWeight: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <table className="mb-4 text-sm">
+        <thead>
+          <tr className="border-b-2 border-gray-300">
+            <th className="px-4 py-2 text-left font-semibold theme-text-primary">Player Tier</th>
+            <th className="px-4 py-2 text-right font-semibold theme-text-primary">Min Value</th>
+            <th className="px-4 py-2 text-right font-semibold theme-text-primary">Surplus Cap</th>
+            <th className="px-4 py-2 text-left font-semibold theme-text-primary">Control Premium</th>
+          </tr>
+        </thead>
+        <tbody>
+          {PLAYER_TIERS.map(tier => (
+            <tr key={tier} className="border-b border-gray-200 dark:border-gray-700">
+              <td className="px-4 py-2 font-medium theme-text-primary">{tier}</td>
+              <td className="px-4 py-2 text-right">
+                {tier === "Normal" ? (
+                  <span className="theme-text-secondary">—</span>
+                ) : (
+                  <input
+                    type="number"
+                    value={rules.bonus.playerTierThresholds[tier]}
+                    disabled={!canEdit}
+                    onChange={(e) => updateBonus({
+                      playerTierThresholds: { ...rules.bonus.playerTierThresholds, [tier]: parseFloat(e.target.value) || 0 },
+                    })}
+                    className={inputClass}
+                  />
+                )}
+              </td>
+              <td className="px-4 py-2 text-right">
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.bonus.surplusCaps[tier]}
+                  disabled={!canEdit}
+                  onChange={(e) => updateBonus({
+                    surplusCaps: { ...rules.bonus.surplusCaps, [tier]: parseFloat(e.target.value) || 0 },
+                  })}
+                  className={inputClass}
+                />
+              </td>
+              <td className="px-4 py-2">
+                <input
+                  type="text"
+                  value={controlPremiumInputs[tier] ?? ""}
+                  disabled={!canEdit}
+                  onChange={(e) => setControlPremiumInputs(prev => ({ ...prev, [tier]: e.target.value }))}
+                  className={listInputClass}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {canEdit && (
+        <div className="flex gap-3">
+          <button
+            onClick={() => submit("PUT")}
+            disabled={saving}
+            className="rounded-lg bg-green-600 px-4 py-2 text-sm font-bold text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "💾 Save Keeper Rules"}
+          </button>
+          <button
+            onClick={() => submit("DELETE")}
+            disabled={saving || isDefault}
+            className="rounded-lg bg-gray-600 px-4 py-2 text-sm font-bold text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className="mt-4 text-sm theme-text-primary">{message}</p>
+      )}
+    </div>
+  );
+}
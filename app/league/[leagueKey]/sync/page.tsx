@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import type { DatasetFreshness, SyncRunSummary } from "@/lib/sync/types";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+
+// Datasets older than these are shown as stale
+const FRESH_HOURS = 24;
+const STALE_HOURS = 72;
+
+interface SyncHistory {
+  league: { name: string; leagueKey: string };
+  nextScheduledSync: string | null;
+  runs: SyncRunSummary[];
+  datasets: DatasetFreshness[];
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${toFixedSafe(ms / 1000, 1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatAge(hours: number | null): string {
+  if (hours === null) return "Never synced";
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min ago`;
+  if (hours < 48) return `${Math.round(hours)} hours ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+function ageColor(hours: number | null): string {
+  if (hours === null || hours >= STALE_HOURS) return "text-red-600 dark:text-red-400";
+  if (hours >= FRESH_HOURS) return "text-yellow-600 dark:text-yellow-400";
+  return "text-green-600 dark:text-green-400";
+}
+
+const STATUS_BADGES: Record<SyncRunSummary["status"], { label: string; className: string }> = {
+  running: { label: "⏳ Running", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300" },
+  success: { label: "✅ Success", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300" },
+  partial: { label: "⚠️ Partial", className: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300" },
+  failed: { label: "❌ Failed", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300" },
+};
+
+const STEP_ICONS: Record<SyncRunSummary["steps"][number]["status"], string> = {
+  pending: "·",
+  running: "⏳",
+  success: "✓",
+  failed: "✗",
+  skipped: "–",
+};
+
+function RunRow({ run }: { run: SyncRunSummary }) {
+  const badge = STATUS_BADGES[run.status];
+  const failedSteps = run.steps.filter(s => s.status === "failed");
+
+  return (
+    <details className="rounded-lg border border-gray-300 theme-bg-primary p-4">
+      <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2">
+        <span className="text-sm theme-text-primary">
+          {formatDateTime(run.startedAt)}
+          <span className="ml-2 text-xs theme-text-secondary">
+            {run.trigger === "scheduled" ? "🕒 Nightly" : "🔄 Refresh Teams"}
+          </span>
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="font-mono text-xs theme-text-secondary">{formatDuration(run.durationMs)}</span>
+          <span className={`rounded px-2 py-0.5 text-xs font-semibold ${badge.className}`}>{badge.label}</span>
+        </span>
+      </summary>
+
+      {(run.error || failedSteps.length > 0) && (
+        <div className="mt-2 text-xs text-red-600 dark:text-red-400">
+          {run.error && <div>{run.error}</div>}
+          {failedSteps.filter(s => s.error !== run.error).map(s => (
+            <div key={s.step}>✗ {s.label}: {s.error || "failed"}</div>
+          ))}
+        </div>
+      )}
+
+      <table className="mt-3 w-full text-xs">
+        <tbody>
+          {run.steps.map(step => (
+            <tr key={step.step} className="border-t border-gray-200 dark:border-gray-700">
+              <td className="w-6 py-1 font-mono theme-text-primary">{STEP_ICONS[step.status]}</td>
+              <td className="py-1 theme-text-primary">{step.label}</td>
+              <td className="py-1 text-right font-mono theme-text-secondary">{formatDuration(step.durationMs)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+export default function SyncHistoryPage() {
+  const params = useParams();
+  const leagueKey = params.leagueKey as string;
+
+  const [history, setHistory] = useState<SyncHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/sync-history`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load sync history");
+          return;
+        }
+
+        setHistory(result);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load sync history");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [leagueKey]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center theme-bg-secondary">
+        <div className="text-center">
+          <div className="mb-4 text-2xl font-bold theme-text-primary">Loading Sync History...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !history) {
+    return (
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+            <p className="text-red-600">{error || "Failed to load sync history"}</p>
+            <Link href={`/league/${leagueKey}/trade`} className="mt-4 inline-block text-blue-600 hover:underline">
+              ← Back to Trade Builder
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold theme-text-primary">Sync History</h1>
+              <p className="text-sm theme-text-secondary">{history.league.name}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href={`/league/${leagueKey}/trade`}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Back to Trade Builder
+            </Link>
+            <span className="text-xs theme-text-secondary">
+              {history.nextScheduledSync
+                ? `Next nightly sync ${formatDateTime(history.nextScheduledSync)}`
+                : "Nightly sync not scheduled yet"}
+            </span>
+          </div>
+
+          {/* Dataset freshness */}
+          <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+            <h2 className="mb-1 text-xl font-semibold theme-text-primary">Data Freshness</h2>
+            <p className="mb-4 text-xs theme-text-secondary">
+              When each dataset last changed. Data that hasn&apos;t changed may still be current (e.g. no new trades).
+            </p>
+            <table className="w-full text-sm">
+              <tbody>
+                {history.datasets.map(dataset => (
+                  <tr key={dataset.step} className="border-b border-gray-200 dark:border-gray-700">
+                    <td className="px-4 py-2 font-medium theme-text-primary">{dataset.label}</td>
+                    <td className="px-4 py-2 text-right theme-text-secondary">
+                      {dataset.updatedAt ? formatDateTime(dataset.updatedAt) : "—"}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-semibold ${ageColor(dataset.ageHours)}`}>
+                      {formatAge(dataset.ageHours)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Runs */}
+          <div className="mb-6">
+            <h2 className="mb-3 text-xl font-semibold theme-text-primary">Past Syncs</h2>
+            {history.runs.length === 0 ? (
+              <p className="text-sm theme-text-secondary">No syncs recorded yet. Use 🔄 Refresh Teams on the trade page to run one.</p>
+            ) : (
+              <div className="space-y-3">
+                {history.runs.map(run => (
+                  <RunRow key={run.id} run={run} />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
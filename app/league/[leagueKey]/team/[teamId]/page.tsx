@@ -7,6 +7,11 @@ import type { TeamDashboard, CategorySummary } from "@/lib/dashboard/types";
 import { ThemeProvider } from "@/app/components/ThemeProvider";
 import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
 import { SignOutButton } from "@/app/components/SignOutButton";
+import { ValueSparkline } from "@/app/components/ValueSparkline";
+import { InjuryBadge } from "@/app/components/InjuryBadge";
+import type { ValueMovers, ValuePoint } from "@/lib/yahoo/valueHistory";
+import type { MatchupProjection } from "@/lib/matchup/types";
+import { handleTokenExpiration } from "@/lib/yahoo/client";
 import { toFixedSafe } from "@/lib/utils/numberFormat";
 
 export default function TeamDashboardPage() {
@@ -18,6 +23,11 @@ export default function TeamDashboardPage() {
   const [dashboard, setDashboard] = useState<TeamDashboard | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [valueHistory, setValueHistory] = useState<Record<string, ValuePoint[]>>({});
+  const [valueMovers, setValueMovers] = useState<ValueMovers | null>(null);
+  const [matchup, setMatchup] = useState<MatchupProjection | null>(null);
+  const [matchupMessage, setMatchupMessage] = useState<string | null>(null);
+  const [syncingMatchup, setSyncingMatchup] = useState(false);
 
   useEffect(() => {
     async function fetchDashboard() {
@@ -41,6 +51,68 @@ export default function TeamDashboardPage() {
     fetchDashboard();
   }, [leagueKey, teamId]);
 
+  // Value trends are optional - the dashboard works without them
+  useEffect(() => {
+    if (!dashboard) return;
+
+    async function fetchValueHistory(playerIds: string[]) {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/value-history?playerIds=${playerIds.join(",")}`);
+        const result = await response.json();
+
+        if (result.ok) {
+          setValueHistory(result.history);
+          setValueMovers(result.movers);
+        }
+      } catch (err) {
+        console.error("[Team Dashboard] Failed to load value history:", err);
+      }
+    }
+
+    fetchValueHistory([...dashboard.skaters, ...dashboard.goalies].map(p => p.id));
+  }, [leagueKey, dashboard]);
+
+  // Matchup projection is optional too - leagues without head-to-head weeks have none
+  useEffect(() => {
+    async function fetchMatchup() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/matchup?teamId=${teamId}`);
+        const result = await response.json();
+
+        if (result.ok) {
+          setMatchup(result.projection);
+        }
+      } catch (err) {
+        console.error("[Team Dashboard] Failed to load matchup projection:", err);
+      }
+    }
+
+    fetchMatchup();
+  }, [leagueKey, teamId]);
+
+  async function refreshMatchup() {
+    setSyncingMatchup(true);
+    setMatchupMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/matchup?teamId=${teamId}`, { method: "POST" });
+      const result = await response.json();
+
+      if (!result.ok) {
+        if (handleTokenExpiration(result, `/league/${leagueKey}/team/${teamId}`)) {
+          return;
+        }
+        setMatchupMessage("❌ " + result.error);
+        return;
+      }
+
+      setMatchup(result.projection);
+    } catch (err) {
+      setMatchupMessage("❌ " + (err instanceof Error ? err.message : "Sync failed"));
+    } finally {
+      setSyncingMatchup(false);
+    }
+  }
+
   // Helper to get background color for category strength
   const getCategoryBgColor = (strength: CategorySummary["strength"]): string => {
     switch (strength) {
@@ -192,7 +264,7 @@ export default function TeamDashboardPage() {
                   {Object.entries(dashboard.categorySummary).map(([code, cat]) => (
                     <tr key={code} className={`border-b border-gray-200 ${getCategoryBgColor(cat.strength)}`}>
                       <td className="px-4 py-3 font-medium">{cat.label}</td>
-                      <td className="px-4 py-3 text-right">{toFixedSafe(cat.value, code === "GAA" || code === "SVPCT" ? 2 : 0)}</td>
+                      <td className="px-4 py-3 text-right">{toFixedSafe(cat.value, cat.decimals)}</td>
                       <td className="px-4 py-3 text-right font-semibold">{cat.rank} / {cat.teams}</td>
                       <td className="px-4 py-3 text-right font-mono">
                         {cat.zScore > 0 ? "+" : ""}{toFixedSafe(cat.zScore, 2)}
@@ -211,6 +283,86 @@ export default function TeamDashboardPage() {
             </div>
           </div>
 
+          {/* Weekly Matchup Projection */}
+          {matchup && (
+            <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+              <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-xl font-semibold theme-text-primary">
+                    ⚔️ Week {matchup.week} Matchup{matchup.opponent ? ` vs ${matchup.opponent.name}` : ""}
+                  </h2>
+                  <p className="text-sm theme-text-secondary">
+                    {matchup.weekStart} – {matchup.weekEnd} • Games left: {toFixedSafe(matchup.remainingGames.mine, 0)} vs {toFixedSafe(matchup.remainingGames.opponent, 0)}
+                    {matchup.scheduleSource === "fixture" && " • Offline NHL schedule"}
+                    {matchup.scheduleSource === "estimate" && " • Estimated NHL schedule"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="text-right">
+                    <div className="text-xs uppercase theme-text-secondary">Projected categories</div>
+                    <div className="text-2xl font-bold theme-text-primary">
+                      {toFixedSafe(matchup.expectedCategoryWins, 1)} – {toFixedSafe(matchup.categories.length - matchup.expectedCategoryWins, 1)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={refreshMatchup}
+                    disabled={syncingMatchup}
+                    className="rounded-lg bg-gray-600 px-3 py-2 text-sm font-bold text-white hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    {syncingMatchup ? "Syncing..." : "🔄 Refresh"}
+                  </button>
+                </div>
+              </div>
+
+              {matchupMessage && <p className="mb-3 text-sm text-red-600">{matchupMessage}</p>}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="px-2 py-2 text-left font-semibold theme-text-primary">Category</th>
+                      <th className="px-2 py-2 text-right font-semibold theme-text-primary">Now</th>
+                      <th className="px-2 py-2 text-right font-semibold theme-text-primary">Projected</th>
+                      <th className="px-2 py-2 text-right font-semibold theme-text-primary">Opponent</th>
+                      <th className="px-2 py-2 text-left font-semibold theme-text-primary">Win Probability</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matchup.categories.map(cat => {
+                      const decimals = cat.isRatio ? (cat.abbrev.includes("%") ? 3 : 2) : 0;
+                      const pct = Math.round(cat.winProbability * 100);
+                      const barColor = pct >= 60 ? "bg-emerald-500" : pct <= 40 ? "bg-rose-500" : "bg-slate-400";
+                      return (
+                        <tr key={cat.statId} className="border-b border-gray-200 dark:border-gray-700">
+                          <td className="px-2 py-2 font-medium theme-text-primary" title={cat.label}>{cat.abbrev}</td>
+                          <td className="px-2 py-2 text-right font-mono theme-text-secondary">
+                            {cat.current.mine === null ? "—" : toFixedSafe(cat.current.mine, decimals)}
+                            {" – "}
+                            {cat.current.opponent === null ? "—" : toFixedSafe(cat.current.opponent, decimals)}
+                          </td>
+                          <td className="px-2 py-2 text-right font-mono font-semibold theme-text-primary">
+                            {toFixedSafe(cat.projected.mine, cat.isRatio ? decimals : 1)}
+                          </td>
+                          <td className="px-2 py-2 text-right font-mono theme-text-secondary">
+                            {toFixedSafe(cat.projected.opponent, cat.isRatio ? decimals : 1)}
+                          </td>
+                          <td className="px-2 py-2">
+                            <div className="flex items-center gap-2">
+                              <div className="h-2 w-32 overflow-hidden rounded bg-gray-200 dark:bg-gray-700">
+                                <div className={`h-full ${barColor}`} style={{ width: `${pct}%` }} />
+                              </div>
+                              <span className="w-10 text-right font-mono text-xs theme-text-primary">{pct}%</span>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Skaters Table */}
           <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
             <h2 className="mb-4 text-xl font-semibold theme-text-primary">Skaters</h2>
@@ -242,11 +394,7 @@ export default function TeamDashboardPage() {
                       <td className="px-2 py-2 font-medium">
                         <div className="flex items-center gap-2">
                           <span>{player.name}</span>
-                          {player.status && (player.status === "IR" || player.status === "IR+") && (
-                            <span className="inline-block px-1.5 py-0.5 text-xs font-bold text-white bg-red-600 rounded">
-                              {player.status}
-                            </span>
-                          )}
+                          <InjuryBadge status={player.status} expectedReturn={player.expectedReturn} />
                         </div>
                       </td>
                       <td className="px-2 py-2 text-xs theme-text-secondary">{player.pos}</td>
@@ -263,6 +411,7 @@ export default function TeamDashboardPage() {
                       <td className="px-2 py-2 text-center theme-text-primary">{player.stats.FOW}</td>
                       <td className={`px-2 py-2 text-center font-bold ${getValueColor(player.keeper?.totalValue ?? player.value)}`}>
                         {toFixedSafe(player.value, 1)}
+                        <div><ValueSparkline points={valueHistory[player.id]} /></div>
                         {player.keeper && player.keeper.bonus > 0 && (
                           <div className="text-xs text-purple-600 dark:text-purple-400">+{toFixedSafe(player.keeper.bonus, 0)}</div>
                         )}
@@ -314,11 +463,7 @@ export default function TeamDashboardPage() {
                         <td className="px-2 py-2 font-medium">
                           <div className="flex items-center gap-2">
                             <span>{goalie.name}</span>
-                            {goalie.status && (goalie.status === "IR" || goalie.status === "IR+") && (
-                              <span className="inline-block px-1.5 py-0.5 text-xs font-bold text-white bg-red-600 rounded">
-                                {goalie.status}
-                              </span>
-                            )}
+                            <InjuryBadge status={goalie.status} expectedReturn={goalie.expectedReturn} />
                           </div>
                         </td>
                         <td className="px-2 py-2 text-xs theme-text-secondary">{goalie.nhlTeam}</td>
@@ -330,6 +475,7 @@ export default function TeamDashboardPage() {
                         <td className="px-2 py-2 text-center theme-text-primary">{goalie.stats.SHO}</td>
                         <td className={`px-2 py-2 text-center font-bold ${getValueColor(goalie.keeper?.totalValue ?? goalie.value)}`}>
                           {toFixedSafe(goalie.value, 1)}
+                          <div><ValueSparkline points={valueHistory[goalie.id]} /></div>
                           {goalie.keeper && goalie.keeper.bonus > 0 && (
                             <div className="text-xs text-purple-600 dark:text-purple-400">+{toFixedSafe(goalie.keeper.bonus, 0)}</div>
                           )}
@@ -355,6 +501,47 @@ export default function TeamDashboardPage() {
             </div>
           )}
 
+          {/* Value Movers */}
+          {valueMovers && (valueMovers.risers.length > 0 || valueMovers.fallers.length > 0) && (
+            <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+              <h2 className="mb-4 text-xl font-semibold theme-text-primary">📈 Biggest Risers & Fallers This Week</h2>
+
+              <div className="grid gap-6 md:grid-cols-2">
+                {([
+                  { title: "Risers", movers: valueMovers.risers, color: "text-green-700 dark:text-green-400" },
+                  { title: "Fallers", movers: valueMovers.fallers, color: "text-red-700 dark:text-red-400" },
+                ] as const).map(({ title, movers, color }) => (
+                  <div key={title}>
+                    <h3 className={`mb-2 font-semibold ${color}`}>{title}</h3>
+                    {movers.length === 0 ? (
+                      <p className="text-sm theme-text-secondary">None this week</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {movers.map(mover => (
+                            <tr key={mover.playerId} className="border-b border-gray-200 dark:border-gray-700">
+                              <td className="py-1 font-medium theme-text-primary">
+                                {mover.name}
+                                <span className="ml-1 text-xs theme-text-secondary">{mover.position}</span>
+                              </td>
+                              <td className="py-1 text-xs theme-text-secondary">{mover.teamName ?? "FA"}</td>
+                              <td className="py-1 text-right font-mono theme-text-secondary">
+                                {toFixedSafe(mover.from, 1)} → {toFixedSafe(mover.to, 1)}
+                              </td>
+                              <td className={`py-1 text-right font-mono font-bold ${color}`}>
+                                {mover.change > 0 ? "+" : ""}{toFixedSafe(mover.change, 1)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Trade Guidance */}
           <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
             <h2 className="mb-4 text-xl font-semibold theme-text-primary">💡 Trade Guidance</h2>
@@ -398,13 +585,12 @@ export default function TeamDashboardPage() {
               <p className="mb-4 text-sm theme-text-secondary">
                 Players across the league who excel in your weak categories:{" "}
                 {Object.entries(dashboard.categorySummary)
-                  .filter(([code, cat]) => {
-                    // Only show skater categories (exclude goalie-only: W, GAA, SV, SVPCT, SHO)
-                    const goalieCategoryCodes = ["W", "GAA", "SV", "SVPCT", "SHO"];
+                  .filter(([_, cat]) => {
+                    // Only show skater categories (exclude goalie-only categories)
                     // Include if z-score < -0.4 OR rank in bottom 30% (matches recommendation logic)
                     const isWeakByZScore = cat.zScore < -0.4;
                     const isWeakByRank = cat.rank > (cat.teams * 0.7);
-                    return (isWeakByZScore || isWeakByRank) && !goalieCategoryCodes.includes(code);
+                    return (isWeakByZScore || isWeakByRank) && cat.positionType !== "G";
                   })
                   .map(([_, cat]) => cat.abbrev)
                   .join(", ")}
@@ -444,7 +630,7 @@ export default function TeamDashboardPage() {
                           return (
                             <div key={cat} className="flex items-center gap-1">
                               <span className="text-gray-600 dark:text-gray-300">{catInfo.abbrev}:</span>
-                              <span className="font-semibold text-gray-900 dark:text-gray-100">{toFixedSafe(value, cat === "GAA" || cat === "SVPCT" ? 2 : 0)}</span>
+                              <span className="font-semibold text-gray-900 dark:text-gray-100">{toFixedSafe(value, catInfo.decimals)}</span>
                             </div>
                           );
                         })}
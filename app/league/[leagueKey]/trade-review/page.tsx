@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import type { ReviewedTrade, ReviewStage, TradeReviewReport, VetoRiskLevel } from "@/lib/tradeReview/types";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+
+const RISK_STYLES: Record<VetoRiskLevel, string> = {
+  Low: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  Medium: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  High: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+const STAGE_LABELS: Record<ReviewStage, string> = {
+  proposed: "📨 Proposed",
+  accepted: "🤝 Accepted, not yet processed",
+  completed: "✅ Completed on Yahoo",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? "+" : ""}${toFixedSafe(value, 1)}`;
+}
+
+function ReviewCard({ trade }: { trade: ReviewedTrade }) {
+  const favoredName = trade.sides.find(s => s.teamKey === trade.favoredTeamKey)?.teamName;
+  const historyFavoredName = trade.sides.find(s => s.teamKey === trade.history.favoredTeamKey)?.teamName;
+
+  return (
+    <div className={`rounded-lg border theme-bg-primary p-4 ${trade.risk.flagged ? "border-red-500" : "border-gray-300"}`}>
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm theme-text-secondary">
+          {STAGE_LABELS[trade.stage]} · {formatDate(trade.date)}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-semibold theme-text-primary">
+            {favoredName ? `${favoredName} gains ${toFixedSafe(trade.valueGap, 1)}` : "⚖️ Even"}
+          </span>
+          <span className={`rounded px-2 py-0.5 text-xs font-semibold ${RISK_STYLES[trade.risk.level]}`}>
+            {trade.risk.level} veto risk ({Math.round(trade.risk.score * 100)}%)
+          </span>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {trade.sides.map(side => (
+          <div
+            key={side.teamKey}
+            className={`rounded border p-3 ${side.teamKey === trade.favoredTeamKey ? "border-green-500" : "border-gray-200 dark:border-gray-700"}`}
+          >
+            <div className="mb-2 flex items-baseline justify-between gap-2">
+              <span className="font-semibold theme-text-primary">{side.teamName} receives</span>
+              <span className="text-xs theme-text-secondary">
+                {side.rank !== null ? `#${side.rank}` : "unranked"}
+                {side.record && ` · ${side.record}`}
+              </span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs theme-text-secondary">
+                  <th className="text-left font-normal">Asset</th>
+                  <th className="text-right font-normal">Value</th>
+                  <th className="text-right font-normal">Keeper surplus</th>
+                </tr>
+              </thead>
+              <tbody>
+                {side.received.map((asset, i) => (
+                  <tr key={`${asset.name}-${i}`}>
+                    <td className="py-0.5 theme-text-primary">{asset.kind === "pick" ? `📋 ${asset.name}` : asset.name}</td>
+                    <td className="py-0.5 text-right font-mono theme-text-primary">{toFixedSafe(asset.value, 1)}</td>
+                    <td className="py-0.5 text-right font-mono theme-text-secondary">
+                      {asset.keeperSurplus > 0 ? toFixedSafe(asset.keeperSurplus, 1) : "—"}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t border-gray-200 font-bold dark:border-gray-700">
+                  <td className="pt-1 theme-text-primary">Total</td>
+                  <td className="pt-1 text-right font-mono theme-text-primary">{toFixedSafe(side.valueReceived, 1)}</td>
+                  <td className="pt-1 text-right font-mono theme-text-secondary">{toFixedSafe(side.keeperSurplusReceived, 1)}</td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="mt-2 flex justify-between text-xs theme-text-secondary">
+              <span>Pick capital received: {toFixedSafe(side.pickCapitalReceived, 1)}</span>
+              <span className={`font-bold ${side.netValue >= 0 ? "text-green-600" : "text-red-600"}`}>
+                Net {formatSigned(side.netValue)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 space-y-1 text-xs theme-text-secondary">
+        <p>
+          {trade.history.trades === 0
+            ? "No earlier trades between these teams."
+            : `${trade.history.trades} earlier trade${trade.history.trades === 1 ? "" : "s"} between these teams` +
+              (trade.history.lastTradeAt ? `, last on ${formatDate(trade.history.lastTradeAt)}` : "") +
+              (historyFavoredName ? ` - all favored ${historyFavoredName}.` : ".")}
+        </p>
+        {trade.risk.reasons.length > 0 && (
+          <p className="font-semibold text-red-600 dark:text-red-400">⚠️ {trade.risk.reasons.join(" · ")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TradeReviewPage() {
+  const params = useParams();
+  const leagueKey = params.leagueKey as string;
+
+  const [report, setReport] = useState<TradeReviewReport | null>(null);
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/trade-review`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load trade review");
+          return;
+        }
+
+        setLeagueName(result.leagueName);
+        setReport(result.report);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load trade review");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReport();
+  }, [leagueKey]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center theme-bg-secondary">
+        <div className="text-center">
+          <div className="mb-4 text-2xl font-bold theme-text-primary">Loading Trade Review...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+            <p className="text-red-600">{error || "Failed to load trade review"}</p>
+            <Link href={`/league/${leagueKey}/trade`} className="mt-4 inline-block text-blue-600 hover:underline">
+              ← Back to Trade Builder
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const open = report.trades.filter(t => t.stage !== "completed" && (!flaggedOnly || t.risk.flagged));
+  const completed = report.trades.filter(t => t.stage === "completed" && (!flaggedOnly || t.risk.flagged));
+
+  const sections = [
+    { title: "Pending Trades", empty: "No open or accepted proposals.", trades: open },
+    { title: "Completed Trades", empty: "No completed trades. Sync transactions from the Trade History page.", trades: completed },
+  ];
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold theme-text-primary">Commissioner Trade Review</h1>
+              <p className="text-sm theme-text-secondary">{leagueName}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href={`/league/${leagueKey}/settings`}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Back to League Settings
+            </Link>
+            <label className="flex items-center gap-2 text-sm theme-text-primary">
+              <input type="checkbox" checked={flaggedOnly} onChange={e => setFlaggedOnly(e.target.checked)} />
+              Flagged only ({report.flaggedCount})
+            </label>
+          </div>
+
+          <p className="mb-6 text-xs theme-text-secondary">
+            Net value counts players and picks received minus sent, with keeper surplus at its trade weight.
+            Pending trades use today&apos;s values; completed trades use the values captured when they were synced.
+            Veto risk grows with the value gap and rises further when keeper surplus moves one way, a contender
+            gains from a team at the bottom of the standings, or earlier trades between the same teams went the same way.
+          </p>
+
+          {sections.map(section => (
+            <div key={section.title} className="mb-8">
+              <h2 className="mb-3 text-xl font-semibold theme-text-primary">
+                {section.title} ({section.trades.length})
+              </h2>
+              {section.trades.length === 0 ? (
+                <p className="text-sm theme-text-secondary">{section.empty}</p>
+              ) : (
+                <div className="space-y-4">
+                  {section.trades.map(trade => (
+                    <ReviewCard key={trade.id} trade={trade} />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
@@ -11,10 +11,17 @@ import { SignOutButton } from "@/app/components/SignOutButton";
 import { AISuggestionsModal } from "@/app/components/AISuggestionsModal";
 import { SavedTradesModal } from "@/app/components/SavedTradesModal";
 import { PlayerSearch } from "@/app/components/PlayerSearch";
+import { ValueSparkline } from "@/app/components/ValueSparkline";
+import { InjuryBadge } from "@/app/components/InjuryBadge";
+import { PlayerValueBreakdownModal } from "@/app/components/PlayerValueBreakdown";
+import { TradeImpactPanel } from "@/app/components/TradeImpactPanel";
+import { SyncProgress } from "@/app/components/SyncProgress";
+import type { ValuePoint } from "@/lib/yahoo/valueHistory";
 import type { TradeSuggestion } from "@/lib/ai/cleanTradeAnalyzer";
+import type { TradeProposalSummary } from "@/lib/proposals/types";
 import { handleTokenExpiration } from "@/lib/yahoo/client";
 import { toFixedSafe } from "@/lib/utils/numberFormat";
-import { calculateKeeperBonus } from "@/lib/keeper/types";
+import { calculateKeeperBonus, DEFAULT_KEEPER_RULES } from "@/lib/keeper/types";
 
 type TradeSide = {
   teamId: string | null;
@@ -113,6 +120,8 @@ export default function TradeBuilderPage() {
   const [tradeData, setTradeData] = useState<TradeData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [valueHistory, setValueHistory] = useState<Record<string, ValuePoint[]>>({});
+  const [breakdownPlayerId, setBreakdownPlayerId] = useState<string | null>(null);
   const isInitialLoadRef = useRef(true);
   const [sideA, setSideA] = useState<TradeSide>({
     teamId: null,
@@ -126,6 +135,7 @@ export default function TradeBuilderPage() {
   const [hasSyncIssues, setHasSyncIssues] = useState(false);
   const [showSavedTradesModal, setShowSavedTradesModal] = useState(false);
   const [refreshLoading, setRefreshLoading] = useState(false);
+  const [syncAttempt, setSyncAttempt] = useState<number | null>(null);
   const [sideB, setSideB] = useState<TradeSide>({
     teamId: null,
     playerIds: [],
@@ -136,6 +146,12 @@ export default function TradeBuilderPage() {
     B: string[];
   }>({ A: [], B: [] });
   const [urlParamsProcessed, setUrlParamsProcessed] = useState(false);
+  // Proposal being countered (?counter=<proposalId> from the proposals inbox)
+  const [counterProposal, setCounterProposal] = useState<TradeProposalSummary | null>(null);
+  const [proposalSending, setProposalSending] = useState(false);
+  
+  // Total season value, or per-game value (missed games don't count against a player)
+  const [valueMode, setValueMode] = useState<"total" | "perGame">("total");
   
   // Sorting state
   const [sortConfig, setSortConfig] = useState<{
@@ -248,6 +264,33 @@ export default function TradeBuilderPage() {
     }
   };
 
+  // Full Yahoo sync (rosters, stats, values, profiles) with step-by-step progress
+  const refreshTeams = async () => {
+    setRefreshLoading(true);
+    setSyncAttempt(prev => (prev ?? 0) + 1);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/force-sync`, { method: 'POST' });
+      const data = await response.json();
+      if (data.ok) {
+        alert("✅ " + data.message + "\n\nPage will reload now.");
+        window.location.reload();
+      } else {
+        // Handle token expiration automatically - redirect instead of showing error
+        if (handleTokenExpiration(data, `/league/${leagueKey}/trade`)) {
+          return; // Redirect will happen, don't set loading to false
+        }
+        alert("❌ Refresh failed: " + data.error);
+        setRefreshLoading(false);
+        setSyncAttempt(null);
+      }
+    } catch (error) {
+      console.error("Refresh failed:", error);
+      alert("❌ Refresh failed. Check console for details.");
+      setRefreshLoading(false);
+      setSyncAttempt(null);
+    }
+  };
+
   useEffect(() => {
     // Check if we're coming back from token refresh
     const autoRefresh = searchParams.get('autoRefresh');
@@ -269,6 +312,30 @@ export default function TradeBuilderPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [leagueKey, searchParams]); // Depend on searchParams to detect autoRefresh
 
+  // Load value trends for the two rosters on screen whenever they change or the league data
+  // is re-synced (optional - sparklines only)
+  const tradeDataLastUpdated = tradeData?.lastUpdated;
+  const shownPlayerIds = [sideA.teamId, sideB.teamId]
+    .flatMap(teamId => tradeData?.teams.find(t => t.id === teamId)?.roster.map(p => p.playerId) ?? [])
+    .join(",");
+  useEffect(() => {
+    if (!tradeDataLastUpdated || !shownPlayerIds) return;
+
+    async function fetchValueHistory() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/value-history?playerIds=${shownPlayerIds}`);
+        const result = await response.json();
+        if (result.ok) {
+          setValueHistory(prev => ({ ...prev, ...result.history }));
+        }
+      } catch (err) {
+        console.error("[Trade Page] Failed to load value history:", err);
+      }
+    }
+
+    fetchValueHistory();
+  }, [leagueKey, tradeDataLastUpdated, shownPlayerIds]);
+
   // Handle URL parameters for pre-selecting team and player
   useEffect(() => {
     if (!tradeData || urlParamsProcessed) return;
@@ -302,6 +369,39 @@ export default function TradeBuilderPage() {
     setUrlParamsProcessed(true);
   }, [tradeData, searchParams, urlParamsProcessed]);
 
+  // Load a received proposal into the builder to edit it as a counter-offer
+  const counterId = searchParams.get('counter');
+  const hasTradeData = tradeData !== null;
+  useEffect(() => {
+    if (!counterId || !hasTradeData) return;
+
+    async function loadCounterProposal() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/proposals/${counterId}`);
+        const result = await response.json();
+        if (!result.ok) {
+          alert("Could not load the proposal to counter: " + result.error);
+          return;
+        }
+
+        const proposal: TradeProposalSummary = result.proposal;
+        if (!proposal.canRespond) {
+          alert(`This proposal is ${proposal.status} and can no longer be countered`);
+          return;
+        }
+
+        // Your team (the one that received it) on the left
+        setSideA({ teamId: proposal.toTeam.id, playerIds: proposal.toSide.playerIds, picks: proposal.toSide.picks });
+        setSideB({ teamId: proposal.fromTeam.id, playerIds: proposal.fromSide.playerIds, picks: proposal.fromSide.picks });
+        setCounterProposal(proposal);
+      } catch (err) {
+        console.error("[Trade Page] Failed to load proposal to counter:", err);
+      }
+    }
+
+    loadCounterProposal();
+  }, [leagueKey, counterId, hasTradeData]);
+
   // ALL HOOKS MUST BE CALLED BEFORE ANY CONDITIONAL RETURNS
   // Memoize normalized trade data to prevent re-computation on every render
   const normalizedTradeData: TradeData = useMemo(() => {
@@ -338,11 +438,25 @@ export default function TradeBuilderPage() {
     return map;
   }, [normalizedTradeData.draftPickValues]);
 
+  // League keeper rules (older cached responses may not include them)
+  const keeperRules = useMemo(
+    () => normalizedTradeData.keeperRules ?? DEFAULT_KEEPER_RULES,
+    [normalizedTradeData.keeperRules]
+  );
+
+  // Helper: The value shown for a player under the current value mode.
+  // Players without games played (and older cached responses) fall back to total value.
+  const getDisplayedValue = useCallback((player: TradeData["teams"][0]["roster"][0]): number => {
+    return valueMode === "perGame"
+      ? player.perGameValueScore ?? player.valueScore
+      : player.valueScore;
+  }, [valueMode]);
+
   // Helper: Calculate keeper-adjusted value using shared keeper formula
   const getPlayerTradeValue = useCallback((player: TradeData["teams"][0]["roster"][0]): number => {
     try {
       // BULLETPROOF: Ensure all values are valid numbers
-      const baseValue = Number(player.valueScore) || 0;
+      const baseValue = Number(getDisplayedValue(player)) || 0;
       
       // If not a keeper, return base value
       if (!player.isKeeper || !player.originalDraftRound || !player.yearsRemaining) {
@@ -354,16 +468,16 @@ export default function TradeBuilderPage() {
       const yearsRemaining = Number(player.yearsRemaining) || 0;
       
       // Use unified keeper formula
-      const keeperBonus = calculateKeeperBonus(baseValue, draftRound, draftRoundAvg, yearsRemaining);
+      const keeperBonus = calculateKeeperBonus(baseValue, draftRound, draftRoundAvg, yearsRemaining, keeperRules);
       const totalValue = baseValue + keeperBonus;
       
       // Ensure result is a valid number
       return (typeof totalValue === 'number' && !isNaN(totalValue)) ? totalValue : baseValue;
     } catch (err) {
       console.error("[Trade Page] Error calculating trade value for", player.name, err);
-      return Number(player.valueScore) || 0;
+      return Number(getDisplayedValue(player)) || 0;
     }
-  }, [pickValueMap]);
+  }, [pickValueMap, keeperRules, getDisplayedValue]);
 
   // Memoize player value map to prevent re-building on every render
   const playerValueMap = useMemo(() => {
@@ -463,10 +577,10 @@ export default function TradeBuilderPage() {
           <div className="rounded-lg border border-red-200 bg-red-50 p-6">
             <p className="text-red-600 dark:text-red-400">{error || "Failed to load trade data"}</p>
             <Link
-              href={`/league/${leagueKey}`}
+              href="/leagues"
               className="mt-4 inline-block text-blue-600 dark:text-blue-400 hover:text-blue-800"
             >
-              ← Back to League
+              ← Back to Leagues
             </Link>
           </div>
         </div>
@@ -543,8 +657,8 @@ export default function TradeBuilderPage() {
       let bValue: number | string = 0;
       
       if (config.key === 'value') {
-        aValue = a.valueScore;
-        bValue = b.valueScore;
+        aValue = getDisplayedValue(a);
+        bValue = getDisplayedValue(b);
       } else if (config.key === 'name') {
         aValue = a.name;
         bValue = b.name;
@@ -678,18 +792,25 @@ export default function TradeBuilderPage() {
         </td>
         <td className={`px-3 py-2 text-sm font-bold ${isConfirmed ? "text-blue-900 dark:text-blue-100 bg-blue-100 dark:bg-blue-800/60" : "text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30"}`}>
           <div className="flex flex-col items-center">
-            <span>{toFixedSafe(player.valueScore, 1)}</span>
+            <button
+              onClick={() => setBreakdownPlayerId(player.playerId)}
+              className="hover:underline"
+              title="Why is this player worth this?"
+            >
+              {toFixedSafe(getDisplayedValue(player), 1)}
+            </button>
+            <ValueSparkline points={valueHistory[player.playerId]} width={48} height={14} />
             {player.isKeeper && player.originalDraftRound && player.yearsRemaining && player.yearsRemaining > 0 && (
               <span className="text-xs text-purple-600 dark:text-purple-400 dark:text-purple-400 font-semibold">
                 +{(() => {
                   try {
                     // Use unified keeper formula
-                    const baseValue = Number(player.valueScore) || 0;
+                    const baseValue = Number(getDisplayedValue(player)) || 0;
                     const draftRound = Number(player.originalDraftRound) || 1;
                     const draftRoundAvg = pickValueMap.get(draftRound) ?? 100;
                     const yearsRemaining = Number(player.yearsRemaining) || 0;
                     
-                    const keeperBonus = calculateKeeperBonus(baseValue, draftRound, draftRoundAvg, yearsRemaining);
+                    const keeperBonus = calculateKeeperBonus(baseValue, draftRound, draftRoundAvg, yearsRemaining, keeperRules);
                     
                     return toFixedSafe(Math.max(0, keeperBonus), 0);
                   } catch (err) {
@@ -704,11 +825,7 @@ export default function TradeBuilderPage() {
         <td className={`px-2 py-2 text-sm font-medium ${isConfirmed ? "text-gray-900 dark:text-green-50" : "theme-text-primary"}`}>
           <div className="flex items-center gap-2">
             <span>{player.name}</span>
-            {player.status && (player.status === "IR" || player.status === "IR+" || player.status === "O") && (
-              <span className="inline-block px-1.5 py-0.5 text-xs font-bold text-white bg-red-600 rounded">
-                {player.status}
-              </span>
-            )}
+            <InjuryBadge status={player.status} expectedReturn={player.expectedReturn} note={player.injuryNote} />
             {player.isKeeper && (
               <span 
                 className={`inline-block px-1.5 py-0.5 text-xs font-bold text-white rounded ${
@@ -893,6 +1010,48 @@ export default function TradeBuilderPage() {
                 >
                   📊
                 </Link>
+                <Link
+                  href="/leagues"
+                  className="text-xs font-mono text-white hover:text-yellow-300 underline whitespace-nowrap"
+                  title="Switch league"
+                >
+                  🏒
+                </Link>
+                <Link
+                  href={`/league/${leagueKey}/free-agents`}
+                  className="text-xs font-mono text-white hover:text-yellow-300 underline whitespace-nowrap"
+                  title="Free agents"
+                >
+                  🆓
+                </Link>
+                <Link
+                  href={`/league/${leagueKey}/proposals`}
+                  className="text-xs font-mono text-white hover:text-yellow-300 underline whitespace-nowrap"
+                  title="Trade proposals"
+                >
+                  📨
+                </Link>
+                <Link
+                  href={`/league/${leagueKey}/trades`}
+                  className="text-xs font-mono text-white hover:text-yellow-300 underline whitespace-nowrap"
+                  title="Trade history"
+                >
+                  📜
+                </Link>
+                <Link
+                  href={`/league/${leagueKey}/sync`}
+                  className="text-xs font-mono text-white hover:text-yellow-300 underline whitespace-nowrap"
+                  title="Sync history"
+                >
+                  🕒
+                </Link>
+                <Link
+                  href={`/league/${leagueKey}/settings`}
+                  className="text-xs font-mono text-white hover:text-yellow-300 underline whitespace-nowrap"
+                  title="League settings"
+                >
+                  ⚙️
+                </Link>
                 <div className="scale-90 md:scale-100">
                   <ThemeSwitcher />
                 </div>
@@ -1036,28 +1195,7 @@ export default function TradeBuilderPage() {
               {/* Only show Refresh Teams button when there are sync issues */}
               {hasSyncIssues && (
                 <button
-                  onClick={async () => {
-                    setRefreshLoading(true);
-                    try {
-                      const response = await fetch(`/api/league/${leagueKey}/force-sync`, { method: 'POST' });
-                      const data = await response.json();
-                      if (data.ok) {
-                        alert("✅ " + data.message + "\n\nPage will reload now.");
-                        window.location.reload();
-                      } else {
-                        // Handle token expiration automatically - redirect instead of showing error
-                        if (handleTokenExpiration(data, `/league/${leagueKey}/trade`)) {
-                          return; // Redirect will happen, don't set loading to false
-                        }
-                        alert("❌ Refresh failed: " + data.error);
-                        setRefreshLoading(false);
-                      }
-                    } catch (error) {
-                      console.error("Refresh failed:", error);
-                      alert("❌ Refresh failed. Check console for details.");
-                      setRefreshLoading(false);
-                    }
-                  }}
+                  onClick={refreshTeams}
                   disabled={refreshLoading}
                   className="rounded-lg px-6 py-3 font-mono text-sm font-bold shadow-lg disabled:opacity-50 theme-btn-warning"
                   style={{
@@ -1101,6 +1239,23 @@ export default function TradeBuilderPage() {
           </div>
         ) : null}
         
+        {/* Force-sync progress - shown while Refresh Teams is running */}
+        <SyncProgress leagueKey={leagueKey} attempt={syncAttempt} />
+        
+        {counterProposal && (
+          <div className="mb-6 rounded-lg border-2 border-purple-500 bg-purple-50 px-6 py-4 shadow-md dark:border-purple-400 dark:bg-purple-900/20">
+            <p className="text-center text-sm text-purple-900 dark:text-purple-200">
+              ↔️ Countering {counterProposal.fromTeam.name}&apos;s proposal - edit the trade below, then send your counter-offer.
+              <button
+                onClick={() => setCounterProposal(null)}
+                className="ml-2 text-xs underline"
+              >
+                Cancel counter
+              </button>
+            </p>
+          </div>
+        )}
+
         {/* Player Search Tool - Always visible */}
         <div className="mb-6">
           <PlayerSearch />
@@ -1111,28 +1266,7 @@ export default function TradeBuilderPage() {
             <p className="text-center text-sm text-yellow-900 dark:text-yellow-300">
               ⚠️ Your team hasn't been identified yet. 
               <button
-                onClick={async () => {
-                  setRefreshLoading(true);
-                  try {
-                    const response = await fetch(`/api/league/${leagueKey}/force-sync`, { method: 'POST' });
-                    const data = await response.json();
-                    if (data.ok) {
-                      alert("✅ " + data.message + "\n\nPage will reload now.");
-                      window.location.reload();
-                    } else {
-                      // Handle token expiration automatically - redirect instead of showing error
-                      if (handleTokenExpiration(data, `/league/${leagueKey}/trade`)) {
-                        return; // Redirect will happen, don't set loading to false
-                      }
-                      alert("❌ Refresh failed: " + data.error);
-                      setRefreshLoading(false);
-                    }
-                  } catch (error) {
-                    console.error("Refresh failed:", error);
-                    alert("❌ Refresh failed. Check console for details.");
-                    setRefreshLoading(false);
-                  }
-                }}
+                onClick={refreshTeams}
                 disabled={refreshLoading}
                 className="ml-2 rounded bg-yellow-600 px-3 py-1 text-xs font-semibold text-white hover:bg-yellow-700 disabled:opacity-50"
               >
@@ -1196,6 +1330,28 @@ export default function TradeBuilderPage() {
           </div>
         </div>
 
+        {/* Value Mode */}
+        <div className="mb-3 flex items-center justify-end gap-2 text-sm">
+          <span className="theme-text-secondary">Value:</span>
+          {([
+            ["total", "Total", "Season value - games played count"],
+            ["perGame", "Per game", "Value per game played (per start for goalies) - missed games don't count against a player"],
+          ] as const).map(([mode, label, title]) => (
+            <button
+              key={mode}
+              onClick={() => setValueMode(mode)}
+              title={title}
+              className={`rounded px-3 py-1 font-semibold ${
+                valueMode === mode
+                  ? "bg-blue-600 text-white"
+                  : "theme-bg-secondary theme-text-primary hover:bg-gray-200 dark:hover:bg-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         {/* Roster Tables */}
         <div className="mb-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
           {/* Team A */}
@@ -1705,6 +1861,15 @@ export default function TradeBuilderPage() {
                 return null;
               })()}
             </div>
+
+            {/* Weekly category win impact */}
+            <TradeImpactPanel
+              leagueKey={leagueKey}
+              teamAId={sideA.teamId}
+              teamBId={sideB.teamId}
+              teamAPlayerIds={sideA.playerIds}
+              teamBPlayerIds={sideB.playerIds}
+            />
             
             {/* Save Trade Button */}
             {(teamASends.length > 0 || teamBSends.length > 0) && (
@@ -1744,6 +1909,52 @@ export default function TradeBuilderPage() {
                 >
                   💾 SAVE THIS TRADE
                 </button>
+                {teamA?.isOwner && teamB && teamASends.length > 0 && teamBSends.length > 0 && (
+                  <button
+                    onClick={async () => {
+                      const note = prompt(
+                        counterProposal
+                          ? `Counter-offer to ${teamB.name} - add a message (optional):`
+                          : `Propose this trade to ${teamB.name} - add a message (optional):`
+                      );
+                      if (note === null) return;
+
+                      setProposalSending(true);
+                      try {
+                        const response = await fetch(`/api/league/${leagueKey}/proposals`, {
+                          method: 'POST',
+                          headers: { 'Content-Type': 'application/json' },
+                          body: JSON.stringify({
+                            fromTeamId: teamA.id,
+                            toTeamId: teamB.id,
+                            fromPlayerIds: sideA.playerIds,
+                            fromPicks: sideA.picks,
+                            toPlayerIds: sideB.playerIds,
+                            toPicks: sideB.picks,
+                            message: note,
+                            counterOfId: counterProposal?.fromTeam.id === teamB.id ? counterProposal.id : null,
+                          }),
+                        });
+                        const data = await response.json();
+                        if (data.ok) {
+                          setCounterProposal(null);
+                          alert(`✅ Trade proposal sent to ${teamB.name}!`);
+                        } else {
+                          alert("Failed to send: " + data.error);
+                        }
+                      } catch (error) {
+                        console.error("Proposal error:", error);
+                        alert("Failed to send trade proposal");
+                      } finally {
+                        setProposalSending(false);
+                      }
+                    }}
+                    disabled={proposalSending}
+                    className="ml-4 rounded-lg bg-gradient-to-r from-purple-600 to-pink-600 px-8 py-4 font-mono text-lg font-bold text-white shadow-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50"
+                  >
+                    {proposalSending ? "📨 SENDING..." : counterProposal ? "↔️ SEND COUNTER-OFFER" : "📨 PROPOSE TRADE"}
+                  </button>
+                )}
           </div>
             )}
         </div>
@@ -1810,6 +2021,13 @@ export default function TradeBuilderPage() {
         }}
       />
       
+      {/* Player Value Breakdown Modal */}
+      <PlayerValueBreakdownModal
+        leagueKey={leagueKey}
+        playerId={breakdownPlayerId}
+        onClose={() => setBreakdownPlayerId(null)}
+      />
+
       {/* Saved Trades Modal */}
       <SavedTradesModal
         isOpen={showSavedTradesModal}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import type { LedgerTrade, TradeLedger } from "@/lib/transactions/types";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { handleTokenExpiration } from "@/lib/yahoo/client";
+
+function formatValue(value: number | null): string {
+  return value === null ? "—" : value.toFixed(1);
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+function TradeCard({ trade }: { trade: LedgerTrade }) {
+  const winnerNowName = trade.sides.find(s => s.teamKey === trade.winnerNow)?.teamName;
+  const winnerAtTradeName = trade.sides.find(s => s.teamKey === trade.winnerAtTrade)?.teamName;
+
+  return (
+    <div className="rounded-lg border border-gray-300 theme-bg-primary p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm theme-text-secondary">{formatDate(trade.timestamp)}</span>
+        <span className="text-sm font-semibold theme-text-primary">
+          {winnerNowName
+            ? `🏆 Hindsight winner: ${winnerNowName} (+${trade.margin.toFixed(1)})`
+            : "⚖️ Even in hindsight"}
+        </span>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {trade.sides.map(side => (
+          <div
+            key={side.teamKey}
+            className={`rounded border p-3 ${side.teamKey === trade.winnerNow ? "border-green-500" : "border-gray-200 dark:border-gray-700"}`}
+          >
+            <div className="mb-2 font-semibold theme-text-primary">{side.teamName} received</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs theme-text-secondary">
+                  <th className="text-left font-normal">Asset</th>
+                  <th className="text-right font-normal">At trade</th>
+                  <th className="text-right font-normal">Now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {side.received.map((asset, i) => (
+                  <tr key={`${asset.name}-${i}`}>
+                    <td className="py-0.5 theme-text-primary">{asset.kind === "pick" ? `📋 ${asset.name}` : asset.name}</td>
+                    <td className="py-0.5 text-right font-mono theme-text-secondary">{formatValue(asset.valueAtTrade)}</td>
+                    <td className="py-0.5 text-right font-mono theme-text-primary">{formatValue(asset.valueNow)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-gray-200 font-bold dark:border-gray-700">
+                  <td className="pt-1 theme-text-primary">Total</td>
+                  <td className="pt-1 text-right font-mono theme-text-secondary">{side.valueAtTrade.toFixed(1)}</td>
+                  <td className="pt-1 text-right font-mono theme-text-primary">{side.valueNow.toFixed(1)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs theme-text-secondary">
+        {trade.hasTradeTimeValues
+          ? `At the time: ${winnerAtTradeName ? `${winnerAtTradeName} came out ahead` : "an even trade"}.`
+          : "Some values at trade time weren't captured (the trade happened before its first sync)."}
+      </p>
+    </div>
+  );
+}
+
+export default function TradeHistoryPage() {
+  const params = useParams();
+  const leagueKey = params.leagueKey as string;
+
+  const [ledger, setLedger] = useState<TradeLedger | null>(null);
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchLedger() {
+      try {
+        const response = await fetch(`/api/league/${leagueKey}/transactions`);
+        const result = await response.json();
+
+        if (!result.ok) {
+          setError(result.error || "Failed to load trade history");
+          return;
+        }
+
+        setLeagueName(result.leagueName);
+        setLedger(result.ledger);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load trade history");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLedger();
+  }, [leagueKey]);
+
+  async function syncFromYahoo() {
+    setSyncing(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/league/${leagueKey}/transactions`, { method: "POST" });
+      const result = await response.json();
+
+      if (!result.ok) {
+        if (handleTokenExpiration(result, `/league/${leagueKey}/trades`)) {
+          return;
+        }
+        setMessage("❌ " + result.error);
+        return;
+      }
+
+      setLedger(result.ledger);
+      setMessage("✅ " + result.message);
+    } catch (err) {
+      setMessage("❌ " + (err instanceof Error ? err.message : "Sync failed"));
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center theme-bg-secondary">
+        <div className="text-center">
+          <div className="mb-4 text-2xl font-bold theme-text-primary">Loading Trade History...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !ledger) {
+    return (
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="rounded-lg border border-red-200 bg-red-50 p-6">
+            <p className="text-red-600">{error || "Failed to load trade history"}</p>
+            <Link href={`/league/${leagueKey}/trade`} className="mt-4 inline-block text-blue-600 hover:underline">
+              ← Back to Trade Builder
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          {/* Header */}
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold theme-text-primary">Trade History</h1>
+              <p className="text-sm theme-text-secondary">{leagueName}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+            <Link
+              href={`/league/${leagueKey}/trade`}
+              className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              ← Back to Trade Builder
+            </Link>
+            <div className="flex items-center gap-3">
+              {ledger.lastSyncedAt && (
+                <span className="text-xs theme-text-secondary">Last synced {formatDate(ledger.lastSyncedAt)}</span>
+              )}
+              <button
+                onClick={syncFromYahoo}
+                disabled={syncing}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-bold text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {syncing ? "Syncing..." : "🔄 Sync from Yahoo"}
+              </button>
+            </div>
+          </div>
+
+          {message && (
+            <p className="mb-4 text-sm theme-text-primary">{message}</p>
+          )}
+
+          {/* Team summary */}
+          {ledger.teams.length > 0 && (
+            <div className="mb-6 rounded-lg border border-gray-300 theme-bg-primary p-6">
+              <h2 className="mb-1 text-xl font-semibold theme-text-primary">Net Trade Value by Team</h2>
+              <p className="mb-4 text-xs theme-text-secondary">
+                Value received minus value sent across all completed trades.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="px-4 py-2 text-left font-semibold theme-text-primary">Team</th>
+                      <th className="px-4 py-2 text-right font-semibold theme-text-primary">Trades</th>
+                      <th className="px-4 py-2 text-right font-semibold theme-text-primary">Net at Trade</th>
+                      <th className="px-4 py-2 text-right font-semibold theme-text-primary">Net Now</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ledger.teams.map(team => (
+                      <tr key={team.teamKey} className="border-b border-gray-200 dark:border-gray-700">
+                        <td className="px-4 py-2 font-medium theme-text-primary">{team.teamName}</td>
+                        <td className="px-4 py-2 text-right theme-text-secondary">{team.trades}</td>
+                        <td className="px-4 py-2 text-right font-mono theme-text-secondary">{team.netValueAtTrade.toFixed(1)}</td>
+                        <td className={`px-4 py-2 text-right font-mono font-bold ${team.netValueNow >= 0 ? "text-green-600" : "text-red-600"}`}>
+                          {team.netValueNow > 0 ? "+" : ""}{team.netValueNow.toFixed(1)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Trades */}
+          <div className="mb-6">
+            <h2 className="mb-3 text-xl font-semibold theme-text-primary">Completed Trades</h2>
+            {ledger.trades.length === 0 ? (
+              <p className="text-sm theme-text-secondary">No completed trades yet. Sync from Yahoo to pull in league transactions.</p>
+            ) : (
+              <div className="space-y-4">
+                {ledger.trades.map(trade => (
+                  <TradeCard key={trade.transactionKey} trade={trade} />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Adds & drops */}
+          {ledger.moves.length > 0 && (
+            <div className="rounded-lg border border-gray-300 theme-bg-primary p-6">
+              <h2 className="mb-3 text-xl font-semibold theme-text-primary">Adds & Drops</h2>
+              <ul className="space-y-1 text-sm">
+                {ledger.moves.map(move => (
+                  <li key={move.transactionKey} className="theme-text-primary">
+                    <span className="mr-2 theme-text-secondary">{formatDate(move.timestamp)}</span>
+                    {move.players.map((p, i) => (
+                      <span key={`${p.playerName}-${i}`} className="mr-3">
+                        {p.type === "drop" ? "➖" : "➕"} {p.playerName}
+                        {p.teamName && <span className="theme-text-secondary"> ({p.teamName})</span>}
+                      </span>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
@@ -1,8 +1,10 @@
 import { redirect } from "next/navigation";
 import { getSession } from "@/lib/auth/session";
-
-// Hardcoded league key for atfh2
-const ATFH2_LEAGUE_KEY = "465.l.9080";
+import prisma from "@/lib/prisma";
+import { ThemeProvider } from "@/app/components/ThemeProvider";
+import { ThemeSwitcher } from "@/app/components/ThemeSwitcher";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { LeaguePicker } from "@/app/components/LeaguePicker";
 
 export default async function LeaguesPage() {
   const session = await getSession();
@@ -11,7 +13,28 @@ export default async function LeaguesPage() {
     redirect("/login");
   }
 
-  // Always redirect to atfh2 league
-  redirect(`/league/${ATFH2_LEAGUE_KEY}/trade`);
-}
+  const yahooAccount = await prisma.yahooAccount.findUnique({
+    where: { userId: session.userId },
+  });
 
+  if (!yahooAccount) {
+    redirect("/api/auth/yahoo/start");
+  }
+
+  return (
+    <ThemeProvider>
+      <div className="min-h-screen theme-bg-secondary">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-6 flex items-center justify-between">
+            <h1 className="text-3xl font-bold theme-text-primary">Your Leagues</h1>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <SignOutButton />
+            </div>
+          </div>
+          <LeaguePicker />
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
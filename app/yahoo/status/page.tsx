@@ -115,9 +115,15 @@ function YahooStatusContent() {
           <p className="mb-2 text-zinc-600 dark:text-zinc-400">
             Token expires: {expiresAt.toLocaleString()}
             {isExpired && (
-              <span className="ml-2 text-red-600 dark:text-red-400">
-                (Expired)
-              </span>
+              status.autoRefresh ? (
+                <span className="ml-2 text-zinc-500 dark:text-zinc-400">
+                  (Renews automatically)
+                </span>
+              ) : (
+                <span className="ml-2 text-red-600 dark:text-red-400">
+                  (Expired)
+                </span>
+              )
             )}
           </p>
         )}
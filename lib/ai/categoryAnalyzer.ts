@@ -4,43 +4,32 @@
  */
 
 import type { TeamForAI, PlayerForAI } from "./tradeAnalyzer";
+import {
+  getActiveCategories,
+  getDefaultScoringConfig,
+  type LeagueScoringConfig,
+} from "@/lib/yahoo/scoringConfig";
 
-// Skater categories (12 total - Yahoo format) - MUST match Yahoo API stat names (normalized)
-// Yahoo counts G, A, and P as SEPARATE categories
-const SKATER_STATS = [
-  "goals",
-  "assists",
-  "points",                // 12th category - Yahoo counts this separately from G+A
-  "plus/minus",
-  "penalty minutes",
-  "powerplay points",      // Yahoo: "Powerplay Points"
-  "shorthanded points",    // Yahoo: "Shorthanded Points"
-  "game-winning goals",    // Yahoo: "Game-Winning Goals"
-  "shots on goal",
-  "faceoffs won",
-  "hits",
-  "blocks"                 // Yahoo: "Blocks"
-] as const;
+// Categories are normalized Yahoo stat names (e.g. "powerplay points", "blocks")
+// and come from the league's scoring config
+export type AnyStat = string;
 
-// Goalie categories (5 total) - MUST match Yahoo API stat names
-const GOALIE_STATS = [
-  "wins",
-  "goals against average",
-  "saves",
-  "save percentage",
-  "shutouts"
-] as const;
+/**
+ * Stat categories to analyze for a league (weight 0 categories are skipped).
+ * Without a config, uses the default 12 skater + 5 goalie format.
+ */
+export function getCategoryStats(config: LeagueScoringConfig = getDefaultScoringConfig()): AnyStat[] {
+  return getActiveCategories(config).map(c => c.name);
+}
 
-type SkaterStat = typeof SKATER_STATS[number];
-type GoalieStat = typeof GOALIE_STATS[number];
-export type AnyStat = SkaterStat | GoalieStat;
+const DEFAULT_STATS = getCategoryStats();
 
 /**
  * Category volatility factors for strategic priority weighting
  * Higher = more volatile/unpredictable (less reliable to chase)
  * Lower = more stable/grindable (more reliable to fix)
  */
-const CATEGORY_VOLATILITY: Record<AnyStat, number> = {
+const CATEGORY_VOLATILITY: Record<string, number> = {
   // Goalie categories (highly volatile)
   "shutouts": 1.4,
   "save percentage": 1.3,
@@ -80,6 +69,7 @@ export function calculateCategoryPriority(
 
 export interface CategoryProfile {
   teamName: string;
+  categories: AnyStat[]; // League scoring categories this profile covers
   categoryScores: Map<AnyStat, number>; // Ratio vs league average (1.0 = average)
   categoryZScores: Map<AnyStat, number>; // Z-scores for each category
   categoryPriorities: Map<AnyStat, number>; // Strategic priority index
@@ -125,11 +115,14 @@ export function getStatValue(player: PlayerForAI, statKey: AnyStat): number {
 /**
  * Calculate league-wide averages for each category
  */
-export function calculateLeagueAverages(allTeams: TeamForAI[]): Map<AnyStat, number> {
+export function calculateLeagueAverages(
+  allTeams: TeamForAI[],
+  categories: AnyStat[] = DEFAULT_STATS
+): Map<AnyStat, number> {
   const leagueAverages = new Map<AnyStat, number>();
   
   // Calculate totals and averages per team
-  const allStats = [...SKATER_STATS, ...GOALIE_STATS];
+  const allStats = categories;
   
   for (const stat of allStats) {
     let totalValue = 0;
@@ -158,7 +151,7 @@ export function calculateLeagueAverages(allTeams: TeamForAI[]): Map<AnyStat, num
  */
 function calculateCategoryZScores(allTeams: TeamForAI[], leagueAverages: Map<AnyStat, number>): Map<AnyStat, { mean: number; stdDev: number }> {
   const categoryStats = new Map<AnyStat, number[]>();
-  const allStats = [...SKATER_STATS, ...GOALIE_STATS];
+  const allStats = Array.from(leagueAverages.keys());
   
   // Collect all team totals for each category
   for (const stat of allStats) {
@@ -200,7 +193,8 @@ export function buildCategoryProfile(
   const strengths: AnyStat[] = [];
   const weaknesses: AnyStat[] = [];
   
-  const allStats = [...SKATER_STATS, ...GOALIE_STATS];
+  // League categories are the keys of the league averages
+  const allStats = Array.from(leagueAverages.keys());
   
   // Calculate z-score stats if we have all teams data
   let zScoreStats: Map<AnyStat, { mean: number; stdDev: number }> | null = null;
@@ -247,6 +241,7 @@ export function buildCategoryProfile(
   
   return {
     teamName: team.name,
+    categories: allStats,
     categoryScores,
     categoryZScores,
     categoryPriorities,
@@ -258,9 +253,12 @@ export function buildCategoryProfile(
 /**
  * Calculate player's category contributions
  */
-export function getPlayerCategoryContribution(player: PlayerForAI): PlayerCategoryContribution {
+export function getPlayerCategoryContribution(
+  player: PlayerForAI,
+  categories: AnyStat[] = DEFAULT_STATS
+): PlayerCategoryContribution {
   const contributions = new Map<AnyStat, number>();
-  const allStats = [...SKATER_STATS, ...GOALIE_STATS];
+  const allStats = categories;
   
   for (const stat of allStats) {
     const value = getStatValue(player, stat);
@@ -295,8 +293,8 @@ export function calculateCategoryGain(
   const categorySwings = new Map<AnyStat, number>(); // Net z-score change per category
   let totalGain = 0;
   
-  // Calculate net change for ALL categories (not just weaknesses)
-  const allStats = [...SKATER_STATS, ...GOALIE_STATS];
+  // Calculate net change for ALL league categories (not just weaknesses)
+  const allStats = myProfile.categories;
   for (const stat of allStats) {
     const lost = playersOut.reduce((sum, p) => sum + getStatValue(p, stat), 0);
     const gained = playersIn.reduce((sum, p) => sum + getStatValue(p, stat), 0);
@@ -8,6 +8,8 @@
 
 import type { TeamProfile } from "./teamProfile";
 import { computeConfidence, calculateCategoryScore } from "./confidenceScoring";
+import { callLLM } from "./llm";
+import { DEFAULT_KEEPER_RULES, type KeeperRules } from "@/lib/keeper/types";
 
 // ============================================================================
 // TYPES
@@ -330,7 +332,7 @@ Return 5-7 best suggestions with netValue between -15 and +30. Focus on realisti
 // PAYLOAD BUILDER
 // ============================================================================
 
-function buildPayload(myTeam: TeamForAI, allTeams: TeamForAI[]): any {
+function buildPayload(myTeam: TeamForAI, allTeams: TeamForAI[], keeperRules: KeeperRules): any {
   return {
     myTeam: {
       id: myTeam.id,
@@ -378,8 +380,10 @@ function buildPayload(myTeam: TeamForAI, allTeams: TeamForAI[]): any {
         C: 3, LW: 3, RW: 3, D: 4, G: 3,
       },
       keeperRules: {
-        maxYears: 3,
-        tiers: { A: [1, 4], B: [5, 10], C: [11, 16] },
+        maxYears: keeperRules.maxKeeperYears,
+        earliestKeeperRound: keeperRules.minKeeperRound,
+        tierLocked: keeperRules.tierLocked,
+        tiers: Object.fromEntries(keeperRules.tiers.map(t => [t.name, [t.minRound, t.maxRound]])),
       },
     },
   };
@@ -391,9 +395,10 @@ function buildPayload(myTeam: TeamForAI, allTeams: TeamForAI[]): any {
 
 export async function analyzeTrades(
   myTeam: TeamForAI,
-  allTeams: TeamForAI[]
+  allTeams: TeamForAI[],
+  keeperRules: KeeperRules = DEFAULT_KEEPER_RULES
 ): Promise<TradeSuggestion[]> {
-  const payload = buildPayload(myTeam, allTeams);
+  const payload = buildPayload(myTeam, allTeams, keeperRules);
 
   console.log("[Clean AI] Analyzing trades for:", myTeam.name);
   
@@ -410,42 +415,18 @@ export async function analyzeTrades(
   );
 
   try {
-    const apiKey = process.env.DEEPSEEK_API_KEY;
-    if (!apiKey || apiKey.trim() === "") {
-      throw new Error("DEEPSEEK_API_KEY environment variable is not configured. Please set it in Vercel environment variables.");
-    }
-
-    const response = await fetch("https://api.deepseek.com/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey.trim()}`,
+    const content = await callLLM([
+      { role: "system", content: SYSTEM_PROMPT },
+      { 
+        role: "user", 
+        content: `Analyze trade opportunities. Data:\n\n${JSON.stringify(payload, null, 2)}`
       },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { 
-            role: "user", 
-            content: `Analyze trade opportunities. Data:\n\n${JSON.stringify(payload, null, 2)}`
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 4000,
-      }),
+    ], {
+      temperature: 0.7,
+      maxTokens: 4000,
+      task: { kind: "trade-suggestions" },
     });
 
-    if (!response.ok) {
-      throw new Error(`DeepSeek API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("No content in AI response");
-    }
-
     console.log("[Clean AI] Raw response:", content.substring(0, 200));
 
     // Parse JSON from response
@@ -1,69 +0,0 @@
-/**
- * DeepSeek API Client for AI-powered trade analysis
- */
-
-export interface DeepSeekMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
-
-export interface DeepSeekResponse {
-  id: string;
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-export async function callDeepSeek(
-  messages: DeepSeekMessage[],
-  options: {
-    temperature?: number;
-    maxTokens?: number;
-  } = {}
-): Promise<string> {
-  const apiKey = process.env.DEEPSEEK_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error("DEEPSEEK_API_KEY is not configured");
-  }
-
-  const response = await fetch("https://api.deepseek.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey.trim()}`,
-    },
-    body: JSON.stringify({
-      model: "deepseek-chat",
-      messages,
-      temperature: options.temperature ?? 0.7,
-      max_tokens: options.maxTokens ?? 2000,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`DeepSeek API error: ${response.status} - ${errorText}`);
-  }
-
-  const data: DeepSeekResponse = await response.json();
-  
-  if (!data.choices || data.choices.length === 0) {
-    throw new Error("No response from DeepSeek");
-  }
-
-  console.log("[DeepSeek] Tokens used:", data.usage.total_tokens, 
-    `(prompt: ${data.usage.prompt_tokens}, completion: ${data.usage.completion_tokens})`);
-
-  return data.choices[0].message.content;
-}
-
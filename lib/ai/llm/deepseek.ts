@@ -0,0 +1,24 @@
+/**
+ * DeepSeek provider (OpenAI-compatible API)
+ */
+
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import type { LLMProvider } from "./types";
+
+const DEEPSEEK_BASE_URL = "https://api.deepseek.com/v1";
+const DEEPSEEK_DEFAULT_MODEL = "deepseek-chat";
+
+export function createDeepSeekProvider(): LLMProvider {
+  const apiKey = process.env.DEEPSEEK_API_KEY;
+
+  if (!apiKey || apiKey.trim() === "") {
+    throw new Error("DEEPSEEK_API_KEY environment variable is not configured. Please set it in Vercel environment variables.");
+  }
+
+  return createOpenAICompatibleProvider({
+    name: "DeepSeek",
+    baseUrl: DEEPSEEK_BASE_URL,
+    model: process.env.DEEPSEEK_MODEL || DEEPSEEK_DEFAULT_MODEL,
+    apiKey,
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * LLM provider selection.
+ *
+ * LLM_PROVIDER picks the provider: "deepseek", "openai" (any OpenAI-compatible API),
+ * "local" (Ollama-style server) or "template" (offline, deterministic).
+ * Without it, DeepSeek is used when DEEPSEEK_API_KEY is set or in production;
+ * dev and test runs without a key fall back to the template provider.
+ */
+
+import { createDeepSeekProvider } from "./deepseek";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createLocalProvider } from "./local";
+import { createTemplateProvider } from "./template";
+import type { LLMMessage, LLMProvider, LLMRequestOptions } from "./types";
+
+export type { LLMMessage, LLMProvider, LLMRequestOptions, LLMTask, TradeExplanationFacts } from "./types";
+
+export type LLMProviderName = "deepseek" | "openai" | "local" | "template";
+
+const PROVIDER_NAMES: LLMProviderName[] = ["deepseek", "openai", "local", "template"];
+
+function resolveProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    if (!PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+      throw new Error(`Unknown LLM_PROVIDER "${configured}". Use one of: ${PROVIDER_NAMES.join(", ")}`);
+    }
+    return configured as LLMProviderName;
+  }
+
+  if (process.env.DEEPSEEK_API_KEY?.trim() || process.env.NODE_ENV === "production") {
+    return "deepseek";
+  }
+  return "template";
+}
+
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "deepseek":
+      return createDeepSeekProvider();
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey || apiKey.trim() === "") {
+        throw new Error("OPENAI_API_KEY environment variable is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        name: "OpenAI",
+        baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+        apiKey,
+      });
+    }
+    case "local":
+      return createLocalProvider({
+        baseUrl: process.env.LOCAL_LLM_URL || "http://localhost:11434",
+        model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+      });
+    case "template":
+      return createTemplateProvider();
+  }
+}
+
+/**
+ * The provider configured for this environment
+ */
+export function getLLMProvider(): LLMProvider {
+  return createLLMProvider(resolveProviderName());
+}
+
+/**
+ * Send a chat completion to the configured provider
+ */
+export async function callLLM(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+  const provider = getLLMProvider();
+  console.log(`[LLM] Using ${provider.name} provider`);
+  return provider.complete(messages, options);
+}
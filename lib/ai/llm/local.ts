@@ -0,0 +1,58 @@
+/**
+ * Local model provider for Ollama-style HTTP servers (POST /api/chat)
+ */
+
+import type { LLMMessage, LLMProvider, LLMRequestOptions } from "./types";
+
+interface OllamaChatResponse {
+  message?: {
+    role: string;
+    content: string;
+  };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export interface LocalProviderConfig {
+  baseUrl: string;        // e.g. "http://localhost:11434"
+  model: string;          // e.g. "llama3.1"
+}
+
+export function createLocalProvider(config: LocalProviderConfig): LLMProvider {
+  return {
+    name: "Local",
+
+    async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          stream: false,
+          options: {
+            temperature: options.temperature ?? 0.7,
+            num_predict: options.maxTokens ?? 2000,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Local LLM error: ${response.status} - ${errorText}`);
+      }
+
+      const data: OllamaChatResponse = await response.json();
+      const content = data.message?.content;
+
+      if (!content) {
+        throw new Error("No response from local LLM");
+      }
+
+      console.log("[LLM:Local] Tokens used:", (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
+        `(prompt: ${data.prompt_eval_count ?? 0}, completion: ${data.eval_count ?? 0})`);
+
+      return content;
+    },
+  };
+}
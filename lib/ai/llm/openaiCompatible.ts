@@ -0,0 +1,72 @@
+/**
+ * Provider for any OpenAI-compatible chat completions API (OpenAI, DeepSeek, OpenRouter, vLLM...)
+ */
+
+import type { LLMMessage, LLMProvider, LLMRequestOptions } from "./types";
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;        // e.g. "https://api.openai.com/v1"
+  model: string;
+  apiKey?: string;        // Omit for servers without auth
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const label = `[LLM:${config.name}]`;
+
+  return {
+    name: config.name,
+
+    async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) {
+        headers["Authorization"] = `Bearer ${config.apiKey.trim()}`;
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.maxTokens ?? 2000,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${config.name} API error: ${response.status} - ${errorText}`);
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error(`No response from ${config.name}`);
+      }
+
+      if (data.usage) {
+        console.log(`${label} Tokens used:`, data.usage.total_tokens,
+          `(prompt: ${data.usage.prompt_tokens}, completion: ${data.usage.completion_tokens})`);
+      }
+
+      return content;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Deterministic template provider: writes trade explanations from the structured
+ * facts with no network or model, so dev and test runs work offline.
+ */
+
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+import type { LLMMessage, LLMProvider, LLMRequestOptions, TradeExplanationFacts } from "./types";
+
+function formatAssets(
+  players: TradeExplanationFacts["send"],
+  picks: TradeExplanationFacts["sendPicks"]
+): string {
+  const parts = [
+    ...players.map(p => `${p.name} (${p.positions.join("/")}, ${toFixedSafe(p.value, 1)})`),
+    ...picks.map(p => `a round ${p.round} pick (${toFixedSafe(p.value, 1)})`),
+  ];
+  if (parts.length === 0) return "nothing";
+  if (parts.length === 1) return parts[0];
+  return `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+}
+
+function positionsOf(players: TradeExplanationFacts["send"]): Set<string> {
+  return new Set(players.flatMap(p => p.positions));
+}
+
+/**
+ * Two or three factual sentences: what moves, the value balance, and the
+ * position/category effects the numbers support
+ */
+export function writeTradeExplanation(facts: TradeExplanationFacts): { reasoning: string; confidence: number } {
+  const sentences: string[] = [];
+
+  const net = facts.netChange;
+  const balance = Math.abs(net) < 1
+    ? "roughly even in value"
+    : `${net > 0 ? "a gain" : "a loss"} of ${toFixedSafe(Math.abs(net), 1)} value points`;
+  sentences.push(
+    `You send ${formatAssets(facts.send, facts.sendPicks)} to ${facts.partnerTeamName} for ${formatAssets(facts.receive, facts.receivePicks)}, ${balance}.`
+  );
+
+  const incoming = positionsOf(facts.receive);
+  const outgoing = positionsOf(facts.send);
+  const fills = facts.weakPositions.filter(pos => incoming.has(pos) && !outgoing.has(pos));
+  const spends = facts.surplusPositions.filter(pos => outgoing.has(pos) && !incoming.has(pos));
+  if (fills.length > 0 || spends.length > 0) {
+    const clauses = [
+      ...(fills.length > 0 ? [`adds depth at ${fills.join("/")}, where you are thin`] : []),
+      ...(spends.length > 0 ? [`moves surplus from ${spends.join("/")}`] : []),
+    ];
+    sentences.push(`It ${clauses.join(" and ")}.`);
+  }
+
+  const swings = facts.categorySwings
+    .filter(s => Math.abs(s.change) > 0.5)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, 3);
+  if (swings.length > 0) {
+    const formatted = swings.map(s => `${s.change >= 0 ? "+" : ""}${toFixedSafe(s.change, 1)} ${s.stat}`).join(", ");
+    sentences.push(`Biggest category swings: ${formatted}.`);
+  } else if (facts.categoryGain > 0) {
+    sentences.push(`Category improvement score: ${toFixedSafe(facts.categoryGain, 1)}.`);
+  }
+
+  const confidence = Math.round(Math.max(30, Math.min(90, 60 + net * 1.5 + facts.categoryGain * 2)));
+  return { reasoning: sentences.join(" "), confidence };
+}
+
+export function createTemplateProvider(): LLMProvider {
+  return {
+    name: "Template",
+
+    async complete(_messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> {
+      const task = options.task;
+
+      if (task?.kind === "trade-explanation") {
+        return JSON.stringify(writeTradeExplanation(task.facts));
+      }
+
+      throw new Error(
+        "The template LLM provider can only write trade explanations. Set LLM_PROVIDER to deepseek, openai or local for AI trade suggestions."
+      );
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * LLM provider interface shared by every AI feature
+ */
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Structured facts behind a trade explanation. Network providers get these as prompt
+ * text; the template provider writes the explanation straight from them.
+ */
+export interface TradeExplanationFacts {
+  userTeamName: string;
+  partnerTeamName: string;
+  send: Array<{ name: string; positions: string[]; value: number }>;
+  receive: Array<{ name: string; positions: string[]; value: number }>;
+  sendPicks: Array<{ round: number; value: number }>;
+  receivePicks: Array<{ round: number; value: number }>;
+  netChange: number;                                   // User's net value change
+  categoryGain: number;                                // Category improvement score
+  categorySwings: Array<{ stat: string; change: number }>;
+  weakPositions: string[];                             // User's thin positions
+  surplusPositions: string[];                          // User's deep positions
+}
+
+/**
+ * What a request is for, so offline providers can answer without a model
+ */
+export type LLMTask =
+  | { kind: "trade-explanation"; facts: TradeExplanationFacts }
+  | { kind: "trade-suggestions" };
+
+export interface LLMRequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+  task?: LLMTask;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<string>;
+}
@@ -10,6 +10,7 @@
 
 import prisma from "@/lib/prisma";
 import { calculateKeeperBonus, calculateTradeBonus, calculateTradeValue } from "@/lib/keeper/types";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -133,6 +134,7 @@ export async function buildAllTeamProfiles(leagueId: string): Promise<TeamProfil
     orderBy: { round: 'asc' }
   });
   const pickValueMap = new Map(draftPickValues.map(pv => [pv.round, pv.score]));
+  const keeperRules = await getLeagueKeeperRules(leagueId);
 
   // =========================================================================
   // STEP 1: Aggregate league-wide data for z-score calculations
@@ -263,8 +265,8 @@ export async function buildAllTeamProfiles(leagueId: string): Promise<TeamProfil
       let keeperValue = baseValue;
       if (entry.originalDraftRound && entry.yearsRemaining !== null) {
         const draftRoundAvg = pickValueMap.get(entry.originalDraftRound) ?? 100;
-        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining);
-        keeperValue = calculateTradeValue(baseValue, bonus);
+        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining, keeperRules);
+        keeperValue = calculateTradeValue(baseValue, bonus, keeperRules);
       }
       
       if (entry.yearsRemaining === 1) keepers.expiring.push(playerId);
@@ -1,19 +1,20 @@
 /**
- * AI-powered trade analysis using DeepSeek
+ * AI-powered trade analysis
  * All position and CATEGORY analysis computed in TypeScript.
- * DeepSeek is only used to format explanations based on facts we provide.
+ * The LLM provider is only used to format explanations based on facts we provide.
  */
 
-import { callDeepSeek } from "./deepseek";
+import { callLLM, type TradeExplanationFacts } from "./llm";
 import {
   calculateLeagueAverages,
   buildCategoryProfile,
   calculateCategoryGain,
   calculateTradeScore,
-  getStatValue,
+  getCategoryStats,
   type CategoryProfile,
   type AnyStat,
 } from "./categoryAnalyzer";
+import { getDefaultScoringConfig, type LeagueScoringConfig } from "@/lib/yahoo/scoringConfig";
 
 // Import volatility factors for win probability calculation
 // We'll define a simplified version here to avoid circular imports
@@ -37,6 +38,7 @@ const CATEGORY_VOLATILITY: Record<string, number> = {
   "blocks": 0.8,
 } as const;
 import { toFixedSafe } from "@/lib/utils/numberFormat";
+import { activeRosterSpotChange } from "@/lib/injuries/availability";
 
 type Position = "C" | "LW" | "RW" | "D" | "G";
 
@@ -59,6 +61,8 @@ export interface PlayerForAI {
   };
   rawStats?: Array<{ statName: string; value: number }>; // Full stat array for category analysis
   status?: string; // IR, DTD, etc.
+  isInjuredList?: boolean; // In one of the team's IR slots
+  gamesMissed?: number; // Expected games missed while injured (value is already discounted)
   // Keeper data
   isKeeper?: boolean;
   keeperYearIndex?: number;
@@ -74,6 +78,7 @@ export interface TeamForAI {
   roster: PlayerForAI[];
   draftPicks: number[];
   totalValue: number;
+  openIrSlots?: number; // Free IR slots (unknown = none)
 }
 
 export interface TradeAsset {
@@ -179,6 +184,8 @@ interface TradePayload {
   trade: {
     send: Array<{ name: string; positions: Position[]; value: number; status?: string }>;
     receive: Array<{ name: string; positions: Position[]; value: number; status?: string }>;
+    sendPicks: Array<{ round: number; value: number }>;
+    receivePicks: Array<{ round: number; value: number }>;
     netChangeUser: number;
     netChangePartner: number;
   };
@@ -255,215 +262,341 @@ function buildTeamSummary(team: TeamForAI): TeamSummary {
   };
 }
 
+// ============================================================================
+// TRADE PACKAGE SEARCH
+// ============================================================================
+
+const TRADES_PER_PARTNER = 3; // Top N suggestions kept for each trade partner
+const PACKAGE_PLAYER_POOL = 6; // Tradeable players per side fed into package search
+const PACKAGE_PICK_POOL = 3; // Most valuable free picks per side used as sweeteners
+const SHORT_ABSENCE_GAMES = 5; // Injured players back within this many games can be traded
+
+interface TradePick {
+  round: number;
+  value: number;
+}
+
+/**
+ * One side of a trade: 1-2 players, optionally with a draft pick
+ */
+interface TradePackage {
+  players: PlayerForAI[];
+  picks: TradePick[];
+  value: number; // Sum of player and pick values
+}
+
+interface PotentialTrade {
+  partner: TeamForAI;
+  payload: TradePayload;
+  categoryGain: number;
+  tradeScore: number;
+  categorySwings: Map<AnyStat, number>;
+}
+
+/**
+ * Picks a team can trade: owned rounds that are not reserved as keeper costs,
+ * most valuable first
+ */
+function getTradeablePicks(team: TeamForAI, pickValues: Map<number, number>): TradePick[] {
+  const reservedRounds = new Set(
+    team.roster
+      .filter(p => p.isKeeper && p.keeperRoundCost)
+      .map(p => p.keeperRoundCost as number)
+  );
+  
+  return team.draftPicks
+    .filter(round => !reservedRounds.has(round))
+    .map(round => ({ round, value: pickValues.get(round) ?? 0 }))
+    .filter(pick => pick.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, PACKAGE_PICK_POOL);
+}
+
+/**
+ * Build every 1-player, 2-player and player+pick package from a tradeable pool
+ */
+function buildTradePackages(players: PlayerForAI[], picks: TradePick[]): TradePackage[] {
+  const packages: TradePackage[] = [];
+  const pool = players.slice(0, PACKAGE_PLAYER_POOL);
+  
+  const makePackage = (pkgPlayers: PlayerForAI[], pkgPicks: TradePick[]): TradePackage => ({
+    players: pkgPlayers,
+    picks: pkgPicks,
+    value: pkgPlayers.reduce((sum, p) => sum + p.value, 0) + pkgPicks.reduce((sum, p) => sum + p.value, 0),
+  });
+  
+  for (let i = 0; i < pool.length; i++) {
+    packages.push(makePackage([pool[i]], []));
+    for (let j = i + 1; j < pool.length; j++) {
+      packages.push(makePackage([pool[i], pool[j]], []));
+    }
+    for (const pick of picks) {
+      packages.push(makePackage([pool[i]], [pick]));
+    }
+  }
+  
+  return packages;
+}
+
+/**
+ * Value of the weakest rostered player - what a team gains or loses per roster spot
+ * when a trade sends uneven player counts
+ */
+function getReplacementValue(team: TeamForAI): number {
+  const values = team.roster.map(p => p.value).filter(v => v > 0);
+  return values.length > 0 ? Math.min(...values) : 0;
+}
+
+/**
+ * Healthy, day-to-day, or expected back within a few games. Without an expected
+ * return, any other injury status keeps the player out of trade packages.
+ */
+function isShortTermAbsence(player: PlayerForAI): boolean {
+  if (!player.status || player.status === "DTD") return true;
+  return player.gamesMissed !== undefined && player.gamesMissed < SHORT_ABSENCE_GAMES;
+}
+
+/**
+ * Score one package-for-package trade from the user's perspective.
+ * Returns null when the trade breaks a value, keeper or category rule.
+ */
+function scoreTradePackage(
+  myPackage: TradePackage,
+  theirPackage: TradePackage,
+  myProfile: CategoryProfile,
+  myReplacementValue: number,
+  myOpenIrSlots: number
+): { valueDiff: number; categoryGain: number; categorySwings: Map<AnyStat, number>; keeperImpact: number; marketPenalty: number; tradeScore: number } | null {
+  // Uneven active roster spots: the side needing spots drops its weakest, the side
+  // freeing spots picks up a replacement-level player. Injured players go to open IR slots.
+  const rosterSpotAdjustment = activeRosterSpotChange(myPackage.players, theirPackage.players, myOpenIrSlots) * myReplacementValue;
+  const valueDiff = theirPackage.value - myPackage.value + rosterSpotAdjustment;
+  
+  // FIX #4: ELITE PLAYER PROTECTION (tighter threshold)
+  // Elite tier = 150+ value - losing >7% value on an elite player is rejected
+  if (myPackage.players.some(p => p.value >= 150 && valueDiff < -(p.value * 0.07))) {
+    return null;
+  }
+  
+  // Fair value (within ±25 points for non-elite)
+  if (Math.abs(valueDiff) > 25) return null;
+  
+  // Calculate category gain
+  const { gain: categoryGain, categorySwings } = calculateCategoryGain(
+    myProfile,
+    myPackage.players,
+    theirPackage.players
+  );
+  
+  const receivesKeeper = theirPackage.players.some(p => p.isKeeper);
+  
+  // FIX #2: KEEPER ASSET LOCK
+  // Expiring high-surplus keepers CANNOT be traded for non-keepers unless major value gain
+  const sendsExpiringKeeper = myPackage.players.some(p =>
+    p.isKeeper && (p.yearsRemaining ?? 3) === 1 && (p.keeperBonus ?? 0) > 20
+  );
+  if (sendsExpiringKeeper && !receivesKeeper && valueDiff < 15) {
+    return null;
+  }
+  
+  // FIX #3: Bad Trade Hard Blocker (keeper loss)
+  // If losing value AND losing keeper, reject
+  if (valueDiff < -12 && myPackage.players.some(p => p.isKeeper) && !receivesKeeper) {
+    return null;
+  }
+  
+  // Calculate keeper economics impact
+  // HARD RULE: Keeper logic ONLY applies when isKeeper === true
+  let keeperImpact = 0;
+  for (const player of theirPackage.players) {
+    if (player.isKeeper && player.keeperBonus) keeperImpact += player.keeperBonus;
+  }
+  for (const player of myPackage.players) {
+    if (!player.isKeeper) continue;
+    keeperImpact -= player.keeperBonus ?? 0;
+    
+    // Prefer moving expiring keepers (low years remaining)
+    if ((player.yearsRemaining ?? 3) <= 1) keeperImpact += 8;
+    
+    // Protect fresh late-round elite keepers
+    if (player.keeperBonus && player.keeperBonus > 30) keeperImpact -= 12;
+  }
+  
+  // FIX #5: Market Sanity Filter
+  // Downgrade from elite to non-elite requires extra justification
+  const myBest = Math.max(...myPackage.players.map(p => p.value));
+  const theirBest = Math.max(...theirPackage.players.map(p => p.value));
+  const marketPenalty = myBest >= 150 && theirBest < 135 ? 8 : 0;
+  
+  // FIX #6: Position Justification
+  // Mild penalty for each outgoing primary position not replaced by an incoming one
+  const incomingPositions = theirPackage.players.map(p => p.position.split("/")[0]);
+  let positionPenalty = 0;
+  for (const player of myPackage.players) {
+    const index = incomingPositions.indexOf(player.position.split("/")[0]);
+    if (index >= 0) {
+      incomingPositions.splice(index, 1);
+    } else {
+      positionPenalty += 2;
+    }
+  }
+  
+  // Calculate combined trade score
+  const adjustedValueDiff = valueDiff - marketPenalty - positionPenalty;
+  const tradeScore = calculateTradeScore(adjustedValueDiff, categoryGain) + keeperImpact;
+  
+  // CRITICAL FIX: Category gain threshold check
+  // Value wins that don't materially improve categories must be downgraded
+  const REQUIRED_CATEGORY_THRESHOLD = 8; // Minimum category gain for value-only trades
+  if (valueDiff > 0 && categoryGain < REQUIRED_CATEGORY_THRESHOLD) {
+    const categoryPenalty = (REQUIRED_CATEGORY_THRESHOLD - categoryGain) * 2;
+    if (tradeScore - categoryPenalty < 0) return null; // Reject if penalty makes it negative
+  }
+  
+  // Filter logic: skip trades that don't make strategic sense
+  // 1. Skip heavy value losses with no category help
+  if (valueDiff < -15 && categoryGain < 5 && keeperImpact < 5) return null;
+  
+  // 2. Skip sidegrades (cosmetic swaps with no purpose)
+  if (Math.abs(valueDiff) < 6 && categoryGain < 10 && keeperImpact < 5) return null;
+  
+  // 3. BAD TRADE BLOCKER: Net loss >10 requires major category gains
+  if (valueDiff < -10) {
+    if (categoryGain < 15) return null; // Need strong category justification
+    
+    // Cannot trade away elite keeper with years remaining for value loss
+    if (myPackage.players.some(p => p.isKeeper && (p.yearsRemaining ?? 0) > 1 && p.keeperBonus && p.keeperBonus > 25)) {
+      return null; // Protect valuable keepers
+    }
+  }
+  
+  // 4. Only suggest if trade score is positive (net benefit)
+  if (tradeScore < 0) return null;
+  
+  return { valueDiff, categoryGain, categorySwings, keeperImpact, marketPenalty, tradeScore };
+}
+
 /**
  * Generate potential trades using category-aware logic
- * Strategy: Find trades that improve weak categories while maintaining fair value
+ * Strategy: Search 1-for-1, 2-for-1, 2-for-2 and player+pick packages that improve
+ * weak categories while maintaining fair value, keeping the best few per partner
  */
 function generatePotentialTrades(
   myTeam: TeamForAI,
   otherTeams: TeamForAI[],
-  allTeams: TeamForAI[]
-  ): Array<{ partner: TeamForAI; payload: TradePayload; categoryGain: number; tradeScore: number; categorySwings: Map<AnyStat, number> }> {
+  allTeams: TeamForAI[],
+  pickValues: Map<number, number>,
+  categories: AnyStat[]
+): PotentialTrade[] {
   const myTeamSummary = buildTeamSummary(myTeam);
   
   // Calculate league averages and category profiles with strategic priority
-  const leagueAverages = calculateLeagueAverages(allTeams);
+  const leagueAverages = calculateLeagueAverages(allTeams, categories);
   const myProfile = buildCategoryProfile(myTeam, leagueAverages, allTeams, 0.5); // seasonProgress = 0.5 (mid-season)
   
   console.log("[Trade Gen] My team:", myTeamSummary.name);
   console.log("[Trade Gen] Category strengths:", myProfile.strengths.join(", ") || "None");
   console.log("[Trade Gen] Category weaknesses:", myProfile.weaknesses.join(", ") || "None");
   
-  const potentialTrades: Array<{ partner: TeamForAI; payload: TradePayload; categoryGain: number; tradeScore: number; categorySwings: Map<AnyStat, number> }> = [];
+  // Tradeable players (mid-tier, not injured long-term)
+  // ANTI-GARBAGE RULE: Only consider starter-level players (90+ value)
+  const getTradeablePlayers = (team: TeamForAI) => team.roster
+    .filter(p => p.value > 50 && p.value < 180)
+    .filter(isShortTermAbsence)
+    .filter(p => p.value >= 90)
+    .sort((a, b) => b.value - a.value);
+  
+  const myTradeable = getTradeablePlayers(myTeam);
+  const myPicks = getTradeablePicks(myTeam, pickValues);
+  const myPackages = buildTradePackages(myTradeable, myPicks);
+  const myReplacementValue = getReplacementValue(myTeam);
+  
+  console.log(`[Trade Gen] My tradeable: ${myTradeable.length} players (from ${myTeam.roster.length} total), ${myPicks.length} picks, ${myPackages.length} packages`);
+  
+  const potentialTrades: PotentialTrade[] = [];
   
   for (const partnerTeam of otherTeams) {
     const partnerSummary = buildTeamSummary(partnerTeam);
-    const partnerProfile = buildCategoryProfile(partnerTeam, leagueAverages, allTeams, 0.5);
     
     console.log(`[Trade Gen] Checking ${partnerTeam.name}...`);
     
-    // Tradeable players (mid-tier, not injured long-term)
-    // ANTI-GARBAGE RULE: Filter out low-impact players unless they're starters
-    // Simplified: Only consider starter-level players (90+ value)
-    const isStarterLevel = (player: PlayerForAI) => player.value >= 90;
-    
-    const myTradeable = myTeam.roster
-      .filter(p => p.value > 50 && p.value < 180)
-      .filter(p => !p.status || p.status === "DTD")
-      .filter(p => isStarterLevel(p)) // Only starters
-      .sort((a, b) => b.value - a.value);
-    
-    const theirTradeable = partnerTeam.roster
-      .filter(p => p.value > 50 && p.value < 180)
-      .filter(p => !p.status || p.status === "DTD")
-      .filter(p => isStarterLevel(p)) // Only starters
-      .sort((a, b) => b.value - a.value);
-    
-    console.log(`[Trade Gen]   My tradeable: ${myTradeable.length} players (from ${myTeam.roster.length} total)`);
-    console.log(`[Trade Gen]   Their tradeable: ${theirTradeable.length} players (from ${partnerTeam.roster.length} total)`);
-    
-    // Try to find trades that improve categories
-    for (const myPlayer of myTradeable.slice(0, 5)) {
-      for (const theirPlayer of theirTradeable.slice(0, 5)) {
-        const valueDiff = theirPlayer.value - myPlayer.value;
-        
-        // FIX #4: ELITE PLAYER PROTECTION (tighter threshold)
-        // Elite tier = 150+ value (lowered from 155 to be more protective)
-        const isMyPlayerElite = myPlayer.value >= 150;
-        if (isMyPlayerElite && valueDiff < -(myPlayer.value * 0.07)) {
-          // Losing >7% value on elite player - REJECT
-          continue;
-        }
-        
-        // Fair value (within ±25 points for non-elite)
-        if (Math.abs(valueDiff) > 25) continue;
-        
-        // Calculate category gain
-        const { gain: categoryGain, improvements, categorySwings } = calculateCategoryGain(
-          myProfile,
-          [myPlayer],
-          [theirPlayer]
-        );
-        
-        // FIX #2: KEEPER ASSET LOCK
-        // Expiring high-surplus keepers CANNOT be traded for non-keepers unless major value gain
-        if (myPlayer.isKeeper && 
-            (myPlayer.yearsRemaining ?? 3) === 1 && 
-            (myPlayer.keeperBonus ?? 0) > 20) {
-          // This is a valuable expiring keeper
-          if (!theirPlayer.isKeeper && valueDiff < 15) {
-            // Trading keeper for non-keeper without major value gain - BLOCK
-            continue;
-          }
-        }
-        
-        // FIX #3: Bad Trade Hard Blocker (keeper loss)
-        // If losing value AND losing keeper, reject
-        if (valueDiff < -12 && myPlayer.isKeeper && !theirPlayer.isKeeper) {
-          continue;
-        }
-        
-        // Calculate keeper economics impact
-        // HARD RULE: Keeper logic ONLY applies when isKeeper === true
-        let keeperImpact = 0;
-        
-        // Step 1: Gate keeper bonus - must be 0 for non-keepers
-        const myKeeperBonus = (myPlayer.isKeeper && myPlayer.keeperBonus) ? myPlayer.keeperBonus : 0;
-        const theirKeeperBonus = (theirPlayer.isKeeper && theirPlayer.keeperBonus) ? theirPlayer.keeperBonus : 0;
-        keeperImpact = theirKeeperBonus - myKeeperBonus;
-        
-        // Step 2: Disable round effects for non-keepers (already gated by isKeeper checks below)
-        
-        // Step 3: Disable multi-year logic unless active keeper
-        // Prefer moving expiring keepers (low years remaining) - ONLY for keepers
-        if (myPlayer.isKeeper && (myPlayer.yearsRemaining ?? 3) <= 1) {
-          keeperImpact += 8; // Bonus for moving expiring keeper
-        }
-        
-        // Protect fresh late-round elite keepers - ONLY for keepers
-        if (myPlayer.isKeeper && myPlayer.keeperBonus && myPlayer.keeperBonus > 30) {
-          keeperImpact -= 12; // Penalty for trading away elite keeper bargain
-        }
-        
-        // FIX #5: Market Sanity Filter
-        // Downgrade from elite to non-elite requires extra justification
-        let marketPenalty = 0;
-        if (myPlayer.value >= 150 && theirPlayer.value < 135) {
-          // Elite → non-elite downgrade
-          marketPenalty = 8; // Treat as 8 points worse than stated
-        }
-        
-        // FIX #6: Position Justification (track if trade creates holes)
-        // For now, this is a placeholder - full positional analysis would need roster context
-        let positionPenalty = 0;
-        const myPos = myPlayer.position.split("/")[0];
-        const theirPos = theirPlayer.position.split("/")[0];
-        
-        // If trading away primary position for different position, small penalty
-        if (myPos !== theirPos) {
-          positionPenalty = 2; // Mild penalty for position change
-        }
-        
-        // Calculate combined trade score
-        const adjustedValueDiff = valueDiff - marketPenalty - positionPenalty;
-        const tradeScore = calculateTradeScore(adjustedValueDiff, categoryGain) + keeperImpact;
-        
-        // CRITICAL FIX: Category gain threshold check
-        // Value wins that don't materially improve categories must be downgraded
-        const REQUIRED_CATEGORY_THRESHOLD = 8; // Minimum category gain for value-only trades
-        if (valueDiff > 0 && categoryGain < REQUIRED_CATEGORY_THRESHOLD) {
-          // Value gain but insufficient category improvement - downgrade confidence
-          // This will be reflected in the final confidence calculation
-          // For now, we'll add a penalty to the trade score
-          const categoryPenalty = (REQUIRED_CATEGORY_THRESHOLD - categoryGain) * 2;
-          if (tradeScore - categoryPenalty < 0) continue; // Reject if penalty makes it negative
-        }
-        
-        // Filter logic: skip trades that don't make strategic sense
-        // 1. Skip heavy value losses with no category help
-        if (valueDiff < -15 && categoryGain < 5 && keeperImpact < 5) continue;
-        
-        // 2. Skip sidegrades (cosmetic swaps with no purpose)
-        if (Math.abs(valueDiff) < 6 && categoryGain < 10 && keeperImpact < 5) continue;
-        
-        // 3. BAD TRADE BLOCKER: Net loss >10 requires major category gains
-        if (valueDiff < -10) {
-          // Losing 10+ value requires significant category improvement
-          if (categoryGain < 15) continue; // Need strong category justification
-          
-          // Cannot trade away elite keeper with years remaining for value loss
-          // HARD GATE: Only applies to actual keepers
-          if (myPlayer.isKeeper && (myPlayer.yearsRemaining ?? 0) > 1 && myPlayer.keeperBonus && myPlayer.keeperBonus > 25) {
-            continue; // Protect valuable keepers
-          }
-        }
+    const theirTradeable = getTradeablePlayers(partnerTeam);
+    const theirPicks = getTradeablePicks(partnerTeam, pickValues);
+    const theirPackages = buildTradePackages(theirTradeable, theirPicks);
+    const partnerReplacementValue = getReplacementValue(partnerTeam);
+    
+    console.log(`[Trade Gen]   Their tradeable: ${theirTradeable.length} players (from ${partnerTeam.roster.length} total), ${theirPicks.length} picks`);
+    
+    const partnerTrades: PotentialTrade[] = [];
+    
+    for (const myPackage of myPackages) {
+      for (const theirPackage of theirPackages) {
+        // Picks only sweeten one side of a deal
+        if (myPackage.picks.length > 0 && theirPackage.picks.length > 0) continue;
         
-        // 4. Only suggest if trade score is positive (net benefit)
-        if (tradeScore < 0) continue;
+        const scored = scoreTradePackage(myPackage, theirPackage, myProfile, myReplacementValue, myTeam.openIrSlots ?? 0);
+        if (!scored) continue;
         
-        console.log(`[Trade Gen]   ${myPlayer.name}${myPlayer.isKeeper ? ' [K]' : ''} <-> ${theirPlayer.name}${theirPlayer.isKeeper ? ' [K]' : ''}: value=${toFixedSafe(valueDiff, 1)}, cat=${toFixedSafe(categoryGain, 1)}, keeper=${toFixedSafe(keeperImpact, 1)}, market=${marketPenalty}, score=${toFixedSafe(tradeScore, 1)}`);
+        const { valueDiff, categoryGain, categorySwings, tradeScore } = scored;
+        const partnerValueDiff = myPackage.value - theirPackage.value +
+          activeRosterSpotChange(theirPackage.players, myPackage.players, partnerTeam.openIrSlots ?? 0) * partnerReplacementValue;
         
         const payload: TradePayload = {
           userTeam: myTeamSummary,
           partnerTeam: partnerSummary,
           trade: {
-            send: [
-              {
-                name: myPlayer.name,
-                positions: myPlayer.position.split("/") as Position[],
-                value: myPlayer.value,
-                status: myPlayer.status,
-              },
-            ],
-            receive: [
-              {
-                name: theirPlayer.name,
-                positions: theirPlayer.position.split("/") as Position[],
-                value: theirPlayer.value,
-                status: theirPlayer.status,
-              },
-            ],
+            send: myPackage.players.map(p => ({
+              name: p.name,
+              positions: p.position.split("/") as Position[],
+              value: p.value,
+              status: p.status,
+            })),
+            receive: theirPackage.players.map(p => ({
+              name: p.name,
+              positions: p.position.split("/") as Position[],
+              value: p.value,
+              status: p.status,
+            })),
+            sendPicks: myPackage.picks,
+            receivePicks: theirPackage.picks,
             netChangeUser: valueDiff,
-            netChangePartner: -valueDiff,
+            netChangePartner: partnerValueDiff,
           },
           categorySwings,
         };
         
-        potentialTrades.push({ partner: partnerTeam, payload, categoryGain, tradeScore, categorySwings });
-        break; // One trade per partner
+        partnerTrades.push({ partner: partnerTeam, payload, categoryGain, tradeScore, categorySwings });
       }
+    }
+    
+    // Keep the top N per partner, one per player combination (pick variants of the
+    // same player swap collapse into the best-scoring one)
+    partnerTrades.sort((a, b) => b.tradeScore - a.tradeScore);
+    const seenPlayerSets = new Set<string>();
+    let kept = 0;
+    
+    for (const trade of partnerTrades) {
+      if (kept >= TRADES_PER_PARTNER) break;
       
-      if (potentialTrades.some(t => t.partner.name === partnerTeam.name)) {
-        break;
-      }
+      const playerSetKey = `${trade.payload.trade.send.map(p => p.name).sort().join(',')}|${trade.payload.trade.receive.map(p => p.name).sort().join(',')}`;
+      if (seenPlayerSets.has(playerSetKey)) continue;
+      seenPlayerSets.add(playerSetKey);
+      
+      const { send, receive, sendPicks, receivePicks, netChangeUser } = trade.payload.trade;
+      console.log(`[Trade Gen]   ${[...send.map(p => p.name), ...sendPicks.map(p => `R${p.round}`)].join(" + ")} <-> ${[...receive.map(p => p.name), ...receivePicks.map(p => `R${p.round}`)].join(" + ")}: value=${toFixedSafe(netChangeUser, 1)}, cat=${toFixedSafe(trade.categoryGain, 1)}, score=${toFixedSafe(trade.tradeScore, 1)}`);
+      
+      potentialTrades.push(trade);
+      kept++;
     }
+    
+    console.log(`[Trade Gen]   ${partnerTrades.length} candidates passed filters, kept ${kept}`);
   }
   
   console.log(`[Trade Gen] Generated ${potentialTrades.length} total trades`);
   
   if (potentialTrades.length === 0) {
     console.log(`[Trade Gen] No trades found. Possible reasons:`);
-    console.log(`[Trade Gen]   - Not enough tradeable players (need value 50-180, healthy)`);
+    console.log(`[Trade Gen]   - Not enough tradeable players (need value 50-180, healthy or back soon)`);
     console.log(`[Trade Gen]   - No fair value matches (need within ±25 points)`);
     console.log(`[Trade Gen]   - Trade scores too low (value + category gains)`);
   }
@@ -542,7 +675,7 @@ function calculateWinProbability(
 }
 
 /**
- * Ask DeepSeek to explain a trade based on the factual data we provide
+ * Ask the LLM to explain a trade based on the factual data we provide
  * Includes category gain information for richer explanations
  */
 async function explainTrade(
@@ -557,7 +690,7 @@ async function explainTrade(
 
 You receive:
 - Exact position counts for each team
-- A specific trade with player names, positions, and value deltas
+- A specific trade with player names, positions, draft picks, and value deltas
 
 STRICT RULES:
 1. You MUST base positional comments ONLY on the provided positionCounts.
@@ -593,8 +726,14 @@ Weak Positions: ${payload.partnerTeam.weakPositions.join(", ") || "None"}
 Surplus Positions: ${payload.partnerTeam.surplusPositions.join(", ") || "None"}
 
 TRADE:
-You Send: ${payload.trade.send.map(p => `${p.name} [${p.positions.join("/")}] (${toFixedSafe(p.value, 1)})${p.status ? ` [${p.status}]` : ""}`).join(", ")}
-You Receive: ${payload.trade.receive.map(p => `${p.name} [${p.positions.join("/")}] (${toFixedSafe(p.value, 1)})${p.status ? ` [${p.status}]` : ""}`).join(", ")}
+You Send: ${[
+    ...payload.trade.send.map(p => `${p.name} [${p.positions.join("/")}] (${toFixedSafe(p.value, 1)})${p.status ? ` [${p.status}]` : ""}`),
+    ...payload.trade.sendPicks.map(p => `Round ${p.round} Pick (${toFixedSafe(p.value, 1)})`),
+  ].join(", ")}
+You Receive: ${[
+    ...payload.trade.receive.map(p => `${p.name} [${p.positions.join("/")}] (${toFixedSafe(p.value, 1)})${p.status ? ` [${p.status}]` : ""}`),
+    ...payload.trade.receivePicks.map(p => `Round ${p.round} Pick (${toFixedSafe(p.value, 1)})`),
+  ].join(", ")}
 
 Net Value Change: ${payload.trade.netChangeUser >= 0 ? "+" : ""}${toFixedSafe(payload.trade.netChangeUser, 1)} points
 Category Improvement Score: ${toFixedSafe(categoryGain, 1)}${categoryGain > 5 ? " (significant)" : ""}
@@ -602,12 +741,29 @@ ${categorySwings ? formatCategorySwings(categorySwings) : ""}
 
 Explain in 2-3 sentences why this trade makes sense based on position balance, value, and category impact.`;
 
-  const response = await callDeepSeek([
+  const facts: TradeExplanationFacts = {
+    userTeamName: payload.userTeam.name,
+    partnerTeamName: payload.partnerTeam.name,
+    send: payload.trade.send,
+    receive: payload.trade.receive,
+    sendPicks: payload.trade.sendPicks,
+    receivePicks: payload.trade.receivePicks,
+    netChange: payload.trade.netChangeUser,
+    categoryGain,
+    categorySwings: categorySwings
+      ? Array.from(categorySwings.entries()).map(([stat, change]) => ({ stat, change }))
+      : [],
+    weakPositions: payload.userTeam.weakPositions,
+    surplusPositions: payload.userTeam.surplusPositions,
+  };
+
+  const response = await callLLM([
     { role: "system", content: systemPrompt },
     { role: "user", content: userPrompt },
   ], {
     temperature: 0.3,
     maxTokens: 300,
+    task: { kind: "trade-explanation", facts },
   });
   
   // Parse JSON response
@@ -653,9 +809,12 @@ Explain in 2-3 sentences why this trade makes sense based on position balance, v
  */
 export async function analyzeTrades(
   myTeam: TeamForAI,
-  allTeams: TeamForAI[]
+  allTeams: TeamForAI[],
+  pickValues: Map<number, number> = new Map(),
+  scoringConfig: LeagueScoringConfig = getDefaultScoringConfig()
 ): Promise<TradeSuggestion[]> {
   try {
+    const categories = getCategoryStats(scoringConfig);
     const otherTeams = allTeams.filter(t => !t.isOwner);
     
     console.log("[AI] Computing trade opportunities for:", myTeam.name);
@@ -670,7 +829,7 @@ export async function analyzeTrades(
     }
     
     // Step 1: Generate potential trades using category-aware logic
-    const potentialTrades = generatePotentialTrades(myTeam, otherTeams, allTeams);
+    const potentialTrades = generatePotentialTrades(myTeam, otherTeams, allTeams, pickValues, categories);
     
     console.log(`[AI] Found ${potentialTrades.length} potential trades`);
     
@@ -679,7 +838,7 @@ export async function analyzeTrades(
       return [];
     }
   
-    // Step 2: Ask DeepSeek to explain the top 5 trades (already scored and ranked)
+    // Step 2: Ask the LLM provider to explain the top 5 trades (already scored and ranked)
     const suggestions: TradeSuggestion[] = [];
     
     // FIX #7: Deduplicate trades
@@ -688,7 +847,15 @@ export async function analyzeTrades(
     for (const { partner, payload, categoryGain, tradeScore, categorySwings } of potentialTrades.slice(0, 5)) {
       try {
         // Create unique key for this trade
-        const tradeKey = `${payload.trade.send.map(p => p.name).join(',')}|${payload.trade.receive.map(p => p.name).join(',')}|${partner.name}`;
+        const tradeKey = [
+          ...payload.trade.send.map(p => p.name),
+          ...payload.trade.sendPicks.map(p => `R${p.round}`),
+          '|',
+          ...payload.trade.receive.map(p => p.name),
+          ...payload.trade.receivePicks.map(p => `R${p.round}`),
+          '|',
+          partner.name,
+        ].join(',');
         if (seenTrades.has(tradeKey)) {
           continue; // Skip duplicate
         }
@@ -697,7 +864,7 @@ export async function analyzeTrades(
         console.log(`[AI] Explaining trade with ${partner.name} (score: ${toFixedSafe(tradeScore, 1)})...`);
         
         // Calculate win probability based on category swings
-        const leagueAverages = calculateLeagueAverages(allTeams);
+        const leagueAverages = calculateLeagueAverages(allTeams, categories);
         const myProfile = buildCategoryProfile(myTeam, leagueAverages, allTeams, 0.5);
         const winProb = categorySwings ? calculateWinProbability(categorySwings, myProfile) : undefined;
         
@@ -717,16 +884,32 @@ export async function analyzeTrades(
         
         suggestions.push({
           tradeWithTeam: `${partner.name}${partner.managerName ? ` (${partner.managerName})` : ""}`,
-          youGive: payload.trade.send.map(p => ({
-            type: "player" as const,
-            name: p.name,
-            value: p.value,
-          })),
-          youGet: payload.trade.receive.map(p => ({
-            type: "player" as const,
-            name: p.name,
-            value: p.value,
-          })),
+          youGive: [
+            ...payload.trade.send.map(p => ({
+              type: "player" as const,
+              name: p.name,
+              value: p.value,
+            })),
+            ...payload.trade.sendPicks.map(p => ({
+              type: "pick" as const,
+              name: `Round ${p.round} Pick`,
+              value: p.value,
+              round: p.round,
+            })),
+          ],
+          youGet: [
+            ...payload.trade.receive.map(p => ({
+              type: "player" as const,
+              name: p.name,
+              value: p.value,
+            })),
+            ...payload.trade.receivePicks.map(p => ({
+              type: "pick" as const,
+              name: `Round ${p.round} Pick`,
+              value: p.value,
+              round: p.round,
+            })),
+          ],
           netGain: payload.trade.netChangeUser,
           reasoning,
           confidence: riskBasedConfidence,
@@ -0,0 +1,23 @@
+import prisma from "@/lib/prisma";
+
+/**
+ * Whether the logged-in user manages a commissioner team in this league
+ */
+export async function isLeagueCommissioner(userId: string, leagueId: string): Promise<boolean> {
+  const yahooAccount = await prisma.yahooAccount.findUnique({
+    where: { userId },
+    select: { yahooUserId: true },
+  });
+
+  if (!yahooAccount) return false;
+
+  const team = await prisma.team.findFirst({
+    where: {
+      leagueId,
+      yahooManagerId: yahooAccount.yahooUserId,
+      isCommissioner: true,
+    },
+  });
+
+  return team !== null;
+}
@@ -4,7 +4,15 @@
  */
 
 import prisma from "@/lib/prisma";
-import { calculateKeeperBonus, calculateTradeValue, getRoundCost } from "@/lib/keeper/types";
+import { calculateKeeperBonus, calculateTradeValue, getRoundCost, type KeeperRules } from "@/lib/keeper/types";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
+import { getLeagueInjuryOverrides } from "@/lib/injuries/overrides";
+import {
+  getLeagueScoringConfig,
+  normalizeStatName,
+  type LeagueScoringConfig,
+  type ScoringCategory,
+} from "@/lib/yahoo/scoringConfig";
 import type {
   TeamDashboard,
   CategorySummary,
@@ -17,27 +25,12 @@ import type {
   PlayerRecommendation,
 } from "./types";
 
-// Category definitions
-const SKATER_CATEGORIES = [
-  { code: "G", label: "Goals", abbrev: "G" },
-  { code: "A", label: "Assists", abbrev: "A" },
-  { code: "P", label: "Points", abbrev: "P" },
-  { code: "PPP", label: "Power Play Points", abbrev: "PPP" },
-  { code: "SOG", label: "Shots on Goal", abbrev: "SOG" },
-  { code: "plusMinus", label: "Plus/Minus", abbrev: "+/-" },
-  { code: "PIM", label: "Penalty Minutes", abbrev: "PIM" },
-  { code: "HIT", label: "Hits", abbrev: "HIT" },
-  { code: "BLK", label: "Blocks", abbrev: "BLK" },
-  { code: "FOW", label: "Faceoffs Won", abbrev: "FOW" },
-];
-
-const GOALIE_CATEGORIES = [
-  { code: "W", label: "Wins", abbrev: "W" },
-  { code: "GAA", label: "Goals Against Average", abbrev: "GAA" },
-  { code: "SV", label: "Saves", abbrev: "SV" },
-  { code: "SVPCT", label: "Save Percentage", abbrev: "SV%" },
-  { code: "SHO", label: "Shutouts", abbrev: "SHO" },
-];
+// Category groups used for grades (normalized stat names; only those the league scores count)
+const OFFENSE_CATEGORIES = ["goals", "assists", "points", "powerplay points", "shots on goal"];
+const PHYSICAL_CATEGORIES = ["hits", "blocks", "penalty minutes"];
+
+// Rate stats shown with decimals instead of whole numbers
+const RATE_CATEGORIES = ["goals against average", "save percentage"];
 
 /**
  * Helper to get stat value by exact name matching (like trade page)
@@ -85,6 +78,21 @@ function getStatValue(stats: { statName: string; value: number }[], statName: st
   return 0;
 }
 
+/**
+ * Helper to get a league scoring category's value from a player's stats.
+ * Matches on Yahoo stat ID first, then on normalized stat name.
+ */
+export function getCategoryValue(
+  stats: { statId: string; statName: string; value: number }[],
+  category: ScoringCategory
+): number {
+  if (!stats || stats.length === 0) return 0;
+
+  const match = stats.find(s => s.statId === category.statId) ??
+    stats.find(s => normalizeStatName(s.statName) === category.name);
+  return match?.value ?? 0;
+}
+
 /**
  * Helper to calculate z-score
  */
@@ -164,38 +172,29 @@ export async function buildTeamDashboard(
     orderBy: { round: 'asc' }
   });
   const pickValueMap = new Map(draftPickValues.map(pv => [pv.round, pv.score]));
+  const keeperRules = await getLeagueKeeperRules(leagueId);
+  const injuryOverrides = await getLeagueInjuryOverrides(leagueId);
+
+  // League scoring categories (imported from Yahoo settings, or the default format)
+  const scoringConfig = await getLeagueScoringConfig(leagueId);
+  const allCategories = [...scoringConfig.skaterCategories, ...scoringConfig.goalieCategories];
 
-  // Calculate league-wide category totals for each team
+  // Calculate league-wide category totals for each team, keyed by category abbreviation
   const teamCategoryTotals = new Map<string, Record<string, number>>();
   
   for (const team of teams) {
-    const totals: Record<string, number> = {
-      G: 0, A: 0, P: 0, PPP: 0, SOG: 0, plusMinus: 0,
-      PIM: 0, HIT: 0, BLK: 0, FOW: 0,
-      W: 0, GAA: 0, SV: 0, SVPCT: 0, SHO: 0,
-    };
+    const totals: Record<string, number> = {};
+    for (const cat of allCategories) {
+      totals[cat.abbrev] = 0;
+    }
 
     for (const entry of team.rosterEntries) {
       const player = entry.player;
       const isGoalie = player.positions?.includes("G") || player.primaryPosition === "G";
+      const playerCategories = isGoalie ? scoringConfig.goalieCategories : scoringConfig.skaterCategories;
 
-      if (!isGoalie) {
-        totals.G += getStatValue(player.playerStats, "goals");
-        totals.A += getStatValue(player.playerStats, "assists");
-        totals.P += getStatValue(player.playerStats, "points");
-        totals.PPP += getStatValue(player.playerStats, "power play points");
-        totals.SOG += getStatValue(player.playerStats, "shots on goal");
-        totals.plusMinus += getStatValue(player.playerStats, "plus/minus");
-        totals.PIM += getStatValue(player.playerStats, "penalty minutes");
-        totals.HIT += getStatValue(player.playerStats, "hits");
-        totals.BLK += getStatValue(player.playerStats, "blocked shots");
-        totals.FOW += getStatValue(player.playerStats, "faceoffs won");
-      } else {
-        totals.W += getStatValue(player.playerStats, "wins");
-        totals.GAA += getStatValue(player.playerStats, "goals against average");
-        totals.SV += getStatValue(player.playerStats, "saves");
-        totals.SVPCT += getStatValue(player.playerStats, "save percentage");
-        totals.SHO += getStatValue(player.playerStats, "shutouts");
+      for (const cat of playerCategories) {
+        totals[cat.abbrev] += getCategoryValue(player.playerStats, cat);
       }
     }
 
@@ -205,12 +204,12 @@ export async function buildTeamDashboard(
   // Calculate z-scores for each category
   const categorySummary: Record<string, CategorySummary> = {};
   
-  for (const cat of [...SKATER_CATEGORIES, ...GOALIE_CATEGORIES]) {
-    const values = Array.from(teamCategoryTotals.values()).map(t => t[cat.code]);
+  for (const cat of allCategories) {
+    const values = Array.from(teamCategoryTotals.values()).map(t => t[cat.abbrev]);
     const { mean, stdDev } = calculateStats(values);
     
-    const targetValue = teamCategoryTotals.get(teamId)![cat.code];
-    const isNegative = cat.code === "GAA"; // Lower GAA is better
+    const targetValue = teamCategoryTotals.get(teamId)![cat.abbrev];
+    const isNegative = cat.isNegative; // e.g. lower GAA is better
     const zScore = calculateZScore(targetValue, mean, stdDev, isNegative);
     
     // Calculate rank (1 is best)
@@ -219,9 +218,11 @@ export async function buildTeamDashboard(
       : [...values].sort((a, b) => b - a); // Higher is better
     const rank = sorted.indexOf(targetValue) + 1;
     
-    categorySummary[cat.code] = {
+    categorySummary[cat.abbrev] = {
       label: cat.label,
       abbrev: cat.abbrev,
+      positionType: cat.positionType,
+      decimals: RATE_CATEGORIES.includes(cat.name) ? 2 : 0,
       value: targetValue,
       zScore,
       rank,
@@ -230,15 +231,23 @@ export async function buildTeamDashboard(
     };
   }
 
-  // Calculate grades
-  const offenseCategories = ["G", "A", "P", "PPP", "SOG"];
-  const offenseScore = offenseCategories.reduce((sum, cat) => sum + (categorySummary[cat]?.zScore ?? 0), 0) / offenseCategories.length;
+  // Calculate grades from whichever grade-group categories the league scores
+  const averageZScore = (codes: string[]) => codes.length > 0
+    ? codes.reduce((sum, code) => sum + (categorySummary[code]?.zScore ?? 0), 0) / codes.length
+    : 0;
+
+  const offenseCategories = scoringConfig.skaterCategories
+    .filter(c => OFFENSE_CATEGORIES.includes(c.name))
+    .map(c => c.abbrev);
+  const offenseScore = averageZScore(offenseCategories);
   
-  const goalieCategories = ["W", "GAA", "SV", "SVPCT", "SHO"];
-  const goalieScore = goalieCategories.reduce((sum, cat) => sum + (categorySummary[cat]?.zScore ?? 0), 0) / goalieCategories.length;
+  const goalieCategories = scoringConfig.goalieCategories.map(c => c.abbrev);
+  const goalieScore = averageZScore(goalieCategories);
   
-  const physicalCategories = ["HIT", "BLK", "PIM"];
-  const physicalScore = physicalCategories.reduce((sum, cat) => sum + (categorySummary[cat]?.zScore ?? 0), 0) / physicalCategories.length;
+  const physicalCategories = scoringConfig.skaterCategories
+    .filter(c => PHYSICAL_CATEGORIES.includes(c.name))
+    .map(c => c.abbrev);
+  const physicalScore = averageZScore(physicalCategories);
   
   // Depth score: count dual-eligible players (only actual positions, exclude IR/IR+/Util)
   const rosterSkaters = targetTeam.rosterEntries.filter(e => !e.player.positions?.includes("G"));
@@ -264,7 +273,7 @@ export async function buildTeamDashboard(
     if (entry.isKeeper && entry.originalDraftRound && entry.yearsRemaining) {
       const baseValue = entry.player.playerValues[0]?.score ?? 0;
       const draftRoundAvg = pickValueMap?.get(entry.originalDraftRound) ?? getRoundCost(entry.originalDraftRound);
-      const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining);
+      const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining, keeperRules);
       totalKeeperSurplus += bonus;
     }
   }
@@ -332,13 +341,13 @@ export async function buildTeamDashboard(
       // Keeper info
       let keeper = undefined;
       if (entry.isKeeper && entry.originalDraftRound && entry.yearsRemaining !== null) {
-        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, pickValueMap.get(entry.originalDraftRound) ?? 100, entry.yearsRemaining);
+        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, pickValueMap.get(entry.originalDraftRound) ?? 100, entry.yearsRemaining, keeperRules);
         keeper = {
           round: entry.originalDraftRound,
           yearsHeld: entry.keeperYearIndex ?? 0,
           yearsRemaining: entry.yearsRemaining,
           bonus,
-          totalValue: calculateTradeValue(baseValue, bonus),
+          totalValue: calculateTradeValue(baseValue, bonus, keeperRules),
         };
       }
 
@@ -348,6 +357,7 @@ export async function buildTeamDashboard(
         pos: posStr,
         nhlTeam: player.teamAbbr || "?",
         status: player.status || null,
+        expectedReturn: (injuryOverrides.get(player.id)?.expectedReturn ?? player.expectedReturn)?.toISOString().slice(0, 10) ?? null,
         stats,
         value: baseValue,
         keeper,
@@ -375,13 +385,13 @@ export async function buildTeamDashboard(
       // Keeper info
       let keeper = undefined;
       if (entry.isKeeper && entry.originalDraftRound && entry.yearsRemaining !== null) {
-        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, pickValueMap.get(entry.originalDraftRound) ?? 100, entry.yearsRemaining);
+        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, pickValueMap.get(entry.originalDraftRound) ?? 100, entry.yearsRemaining, keeperRules);
         keeper = {
           round: entry.originalDraftRound,
           yearsHeld: entry.keeperYearIndex ?? 0,
           yearsRemaining: entry.yearsRemaining,
           bonus,
-          totalValue: calculateTradeValue(baseValue, bonus),
+          totalValue: calculateTradeValue(baseValue, bonus, keeperRules),
         };
       }
 
@@ -390,6 +400,7 @@ export async function buildTeamDashboard(
         name: player.name,
         nhlTeam: player.teamAbbr || "?",
         status: player.status || null,
+        expectedReturn: (injuryOverrides.get(player.id)?.expectedReturn ?? player.expectedReturn)?.toISOString().slice(0, 10) ?? null,
         stats,
         value: baseValue,
         keeper,
@@ -406,7 +417,9 @@ export async function buildTeamDashboard(
     teamId,
     categorySummary,
     teams,
-    pickValueMap
+    pickValueMap,
+    scoringConfig,
+    keeperRules
   );
 
   return {
@@ -458,7 +471,9 @@ async function generatePlayerRecommendations(
   currentTeamId: string,
   categorySummary: Record<string, CategorySummary>,
   allTeams: any[],
-  pickValueMap: Map<number, number>
+  pickValueMap: Map<number, number>,
+  scoringConfig: LeagueScoringConfig,
+  keeperRules: KeeperRules
 ): Promise<PlayerRecommendation[]> {
   // Identify weak categories (z-score < -0.4 or rank in bottom 30% of league)
   // Lower threshold to catch categories like plus/minus that might be exactly -0.5
@@ -472,8 +487,7 @@ async function generatePlayerRecommendations(
     .map(([code, _]) => code);
 
   // Filter out goalie-only categories since we only recommend skaters
-  // Goalie categories: W, GAA, SV, SVPCT, SHO
-  const goalieCategoryCodes = ["W", "GAA", "SV", "SVPCT", "SHO"];
+  const goalieCategoryCodes = scoringConfig.goalieCategories.map(c => c.abbrev);
   const weakCategories = allWeakCategories.filter(
     cat => !goalieCategoryCodes.includes(cat)
   );
@@ -520,18 +534,10 @@ async function generatePlayerRecommendations(
       if (isGoalie) continue;
 
       const baseValue = player.playerValues[0]?.score ?? 0;
-      const stats: Record<string, number> = {
-        G: getStatValue(player.playerStats, "goals"),
-        A: getStatValue(player.playerStats, "assists"),
-        P: getStatValue(player.playerStats, "points"),
-        PPP: getStatValue(player.playerStats, "power play points"),
-        SOG: getStatValue(player.playerStats, "shots on goal"),
-        plusMinus: getStatValue(player.playerStats, "plus/minus"),
-        PIM: getStatValue(player.playerStats, "penalty minutes"),
-        HIT: getStatValue(player.playerStats, "hits"),
-        BLK: getStatValue(player.playerStats, "blocked shots"),
-        FOW: getStatValue(player.playerStats, "faceoffs won"),
-      };
+      const stats: Record<string, number> = {};
+      for (const cat of scoringConfig.skaterCategories) {
+        stats[cat.abbrev] = getCategoryValue(player.playerStats, cat);
+      }
 
       // Parse positions
       const actualPositions = ["C", "LW", "RW", "D"];
@@ -546,13 +552,13 @@ async function generatePlayerRecommendations(
       // Keeper info
       let keeper = undefined;
       if (entry.isKeeper && entry.originalDraftRound && entry.yearsRemaining !== null) {
-        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, pickValueMap.get(entry.originalDraftRound) ?? 100, entry.yearsRemaining);
+        const bonus = calculateKeeperBonus(baseValue, entry.originalDraftRound, pickValueMap.get(entry.originalDraftRound) ?? 100, entry.yearsRemaining, keeperRules);
         keeper = {
           round: entry.originalDraftRound,
           yearsHeld: entry.keeperYearIndex ?? 0,
           yearsRemaining: entry.yearsRemaining,
           bonus,
-          totalValue: calculateTradeValue(baseValue, bonus),
+          totalValue: calculateTradeValue(baseValue, bonus, keeperRules),
         };
       }
 
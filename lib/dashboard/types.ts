@@ -6,6 +6,8 @@
 export interface CategorySummary {
   label: string;          // "Goals"
   abbrev: string;         // "G"
+  positionType: "P" | "G"; // Skater or goalie category
+  decimals: number;       // Display precision (2 for rate stats like GAA)
   value: number;          // Team total or per game
   zScore: number;         // Z-score relative to league
   rank: number;           // 1 is best
@@ -55,6 +57,7 @@ export interface DashboardSkater {
   pos: string;            // "C", "LW/RW", etc (no IR/IR+/Util)
   nhlTeam: string;
   status: string | null;  // "IR", "IR+", "O", etc
+  expectedReturn: string | null; // YYYY-MM-DD when known
   stats: PlayerStats;
   value: number;
   keeper?: KeeperInfo;
@@ -65,6 +68,7 @@ export interface DashboardGoalie {
   name: string;
   nhlTeam: string;
   status: string | null;  // "IR", "IR+", "O", etc
+  expectedReturn: string | null; // YYYY-MM-DD when known
   stats: GoalieStats;
   value: number;
   keeper?: KeeperInfo;
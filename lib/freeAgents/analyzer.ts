@@ -0,0 +1,143 @@
+/**
+ * Free agent analyzer.
+ *
+ * Ranks the league's available players by value and by how well they cover the team's
+ * weak categories (from the team dashboard's CategorySummary), and pairs the best of
+ * them with the team's weakest droppable players.
+ */
+
+import type { CategorySummary } from "@/lib/dashboard/types";
+import type { ScoringCategory } from "@/lib/yahoo/scoringConfig";
+import type {
+  AddDropSuggestion,
+  DropCandidate,
+  FreeAgentCandidate,
+  NeedCategory,
+  RankedFreeAgent,
+} from "./types";
+
+// ===== CONSTANTS =====
+
+// Same weak-category rule as the team dashboard's trade targets
+const WEAK_Z_SCORE = -0.4;
+const WEAK_RANK_SHARE = 0.7;          // Ranked in the bottom 30% of the league
+
+// Percentile among free agents that counts as helping a weak category
+const HELPS_PERCENTILE = 0.6;
+
+const MAX_ADD_DROP_SUGGESTIONS = 5;
+
+// ===== NEEDS =====
+
+/**
+ * The team's weak categories, weighted by how far below the league they are
+ */
+export function getNeedCategories(
+  categorySummary: Record<string, CategorySummary>,
+  categories: ScoringCategory[]
+): NeedCategory[] {
+  const weak = categories.filter(cat => {
+    const summary = categorySummary[cat.abbrev];
+    return summary && (summary.zScore < WEAK_Z_SCORE || summary.rank > summary.teams * WEAK_RANK_SHARE);
+  });
+
+  const totalZ = weak.reduce((sum, cat) => sum + Math.abs(categorySummary[cat.abbrev].zScore), 0);
+
+  return weak
+    .map(cat => {
+      const summary = categorySummary[cat.abbrev];
+      return {
+        abbrev: cat.abbrev,
+        label: cat.label,
+        positionType: cat.positionType,
+        isNegative: cat.isNegative,
+        decimals: summary.decimals,
+        zScore: summary.zScore,
+        rank: summary.rank,
+        weight: totalZ > 0 ? Math.abs(summary.zScore) / totalZ : 1 / weak.length,
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+// ===== RANKING =====
+
+/**
+ * Share of the pool a value is at least as good as (1 = best). A zero in a lower-is-better
+ * category means no games, not a perfect GAA, so it ranks last.
+ */
+function percentile(value: number, pool: number[], isNegative: boolean): number {
+  if (pool.length === 0) return 0;
+  if (isNegative && value === 0) return 0;
+
+  const better = pool.filter(other => isNegative
+    ? other !== 0 && other < value
+    : other > value
+  ).length;
+  return 1 - better / pool.length;
+}
+
+/**
+ * Score each free agent's fit with the team's needs, compared against the other free
+ * agents at the same position type. Returned sorted by value.
+ */
+export function rankFreeAgents(
+  freeAgents: FreeAgentCandidate[],
+  needs: NeedCategory[]
+): RankedFreeAgent[] {
+  const pools = new Map<string, number[]>();
+  for (const need of needs) {
+    pools.set(need.abbrev, freeAgents
+      .filter(fa => fa.positionType === need.positionType)
+      .map(fa => fa.stats[need.abbrev] ?? 0));
+  }
+
+  return freeAgents
+    .map(fa => {
+      let fitScore = 0;
+      const helps: string[] = [];
+
+      for (const need of needs) {
+        if (need.positionType !== fa.positionType) continue;
+
+        const pct = percentile(fa.stats[need.abbrev] ?? 0, pools.get(need.abbrev)!, need.isNegative);
+        fitScore += pct * need.weight;
+        if (pct >= HELPS_PERCENTILE) helps.push(need.abbrev);
+      }
+
+      return { ...fa, fitScore, helps };
+    })
+    .sort((a, b) => b.value - a.value);
+}
+
+// ===== ADD / DROP =====
+
+/**
+ * Pair the most valuable free agents with the team's weakest players at the same
+ * position type (skater for skater, goalie for goalie). Keepers and players in IR slots
+ * are never dropped; each player appears in at most one pair.
+ */
+export function suggestAddDrops(
+  freeAgents: RankedFreeAgent[],
+  roster: DropCandidate[]
+): AddDropSuggestion[] {
+  const suggestions: AddDropSuggestion[] = [];
+
+  for (const positionType of ["P", "G"] as const) {
+    const drops = roster
+      .filter(p => p.positionType === positionType && !p.isKeeper && !p.isInjuredList)
+      .sort((a, b) => a.value - b.value);
+    const adds = freeAgents
+      .filter(fa => fa.positionType === positionType)
+      .sort((a, b) => b.value - a.value);
+
+    for (let i = 0; i < Math.min(drops.length, adds.length); i++) {
+      if (adds[i].value <= drops[i].value) break;
+      suggestions.push({ add: adds[i], drop: drops[i], valueGain: adds[i].value - drops[i].value });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.valueGain - a.valueGain)
+    .slice(0, MAX_ADD_DROP_SUGGESTIONS);
+}
@@ -0,0 +1,58 @@
+/**
+ * Free agent analyzer data structures
+ * Available players ranked by value and by fit with a team's weak categories
+ */
+
+export interface NeedCategory {
+  abbrev: string;               // "HIT"
+  label: string;                // "Hits"
+  positionType: "P" | "G";      // Skater or goalie category
+  isNegative: boolean;          // Lower is better (e.g. GAA)
+  decimals: number;             // Display precision
+  zScore: number;               // Team's z-score in the category
+  rank: number;                 // Team's league rank (1 is best)
+  weight: number;               // Share of the team's total need (weights sum to 1)
+}
+
+export interface FreeAgentCandidate {
+  playerId: string;
+  name: string;
+  pos: string;                  // "C", "LW/RW", "G"
+  nhlTeam: string;
+  positionType: "P" | "G";
+  status: string | null;        // Yahoo injury status
+  expectedReturn: string | null; // YYYY-MM-DD when known
+  value: number;
+  perGameValue: number | null;
+  stats: Record<string, number>; // Category abbrev -> season-to-date value
+}
+
+export interface RankedFreeAgent extends FreeAgentCandidate {
+  fitScore: number;             // 0-1: weighted percentile in the team's weak categories
+  helps: string[];              // Weak categories the player is strong in
+}
+
+export interface DropCandidate {
+  playerId: string;
+  name: string;
+  pos: string;
+  positionType: "P" | "G";
+  value: number;
+  isKeeper: boolean;
+  isInjuredList: boolean;       // Sitting in an IR slot
+}
+
+export interface AddDropSuggestion {
+  add: RankedFreeAgent;
+  drop: DropCandidate;
+  valueGain: number;            // add.value - drop.value
+}
+
+export interface FreeAgentReport {
+  teamId: string;
+  teamName: string;
+  needs: NeedCategory[];
+  freeAgents: RankedFreeAgent[]; // Sorted by value
+  addDrops: AddDropSuggestion[];
+  lastSyncedAt: string | null;   // When free agent stats were last imported
+}
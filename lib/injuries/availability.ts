@@ -0,0 +1,120 @@
+/**
+ * Injury availability: how many games an injured player is expected to miss, what that
+ * does to their value, and how injured-list (IR) slots change roster fit in trades.
+ *
+ * Expected return dates come from the NHL injury report on Player (lib/injuries/report.ts),
+ * or a league's commissioner override (lib/injuries/overrides.ts). Without a return date, the Yahoo status gives a default
+ * estimate. Games missed use the average NHL schedule.
+ */
+
+import { addDays, daysInRange, estimateGamesInDays } from "@/lib/nhl/schedule";
+
+// ===== CONSTANTS =====
+
+// Days out assumed for an injury status when no return date is known
+const DEFAULT_DAYS_OUT: Record<string, number> = {
+  DTD: 2,
+  O: 7,
+  SUSP: 7,
+  IR: 14,
+  "IR+": 14,
+  "IR-NR": 14,
+  "IR-LT": 45,
+};
+
+// Statuses Yahoo lets a player sit in an IR slot with
+const IR_ELIGIBLE_STATUSES = new Set(["IR", "IR+", "IR-LT", "IR-NR", "O"]);
+
+// A season-ending injury still leaves keeper and next-season value
+const MAX_INJURY_DISCOUNT = 0.75;
+
+// ===== TYPES =====
+
+export interface PlayerInjury {
+  status: string | null;          // Yahoo status: "DTD", "O", "IR", "IR-LT", ...
+  expectedReturn: Date | null;
+}
+
+export interface InjuryOutlook {
+  returnDate: string;             // YYYY-MM-DD
+  estimated: boolean;             // No return date known - estimated from the status
+  gamesMissed: number;            // Expected team games missed before returning
+  seasonShare: number;            // Share of the team's remaining games missed (0-1)
+  valueFactor: number;            // Multiplier applied to the player's value
+}
+
+export interface RosterSlotPlayer {
+  status?: string | null;
+  isInjuredList?: boolean;        // Currently in one of the team's IR slots
+}
+
+// ===== OUTLOOK =====
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Expected games missed and value discount for an injured player.
+ * Null for healthy players, and after the regular season ends.
+ */
+export function getInjuryOutlook(
+  injury: PlayerInjury,
+  seasonEnd: string,
+  now: Date = new Date()
+): InjuryOutlook | null {
+  const today = toDateString(now);
+  if (today > seasonEnd) return null;
+
+  // A return date that has passed no longer says anything - fall back to the status
+  const knownReturn = injury.expectedReturn && toDateString(injury.expectedReturn) > today
+    ? toDateString(injury.expectedReturn)
+    : null;
+  const defaultDays = injury.status ? DEFAULT_DAYS_OUT[injury.status] : undefined;
+
+  if (!knownReturn && defaultDays === undefined) return null;
+
+  const returnDate = knownReturn ?? addDays(today, defaultDays!);
+  const lastDayOut = addDays(returnDate, -1) < seasonEnd ? addDays(returnDate, -1) : seasonEnd;
+  const daysOut = daysInRange(today, lastDayOut);
+  const daysLeft = daysInRange(today, seasonEnd);
+  const seasonShare = daysLeft > 0 ? daysOut / daysLeft : 0;
+
+  return {
+    returnDate,
+    estimated: !knownReturn,
+    gamesMissed: estimateGamesInDays(daysOut),
+    seasonShare,
+    valueFactor: 1 - Math.min(MAX_INJURY_DISCOUNT, seasonShare),
+  };
+}
+
+// ===== ROSTER SLOTS =====
+
+export function isIrEligible(status: string | null | undefined): boolean {
+  return !!status && IR_ELIGIBLE_STATUSES.has(status);
+}
+
+/**
+ * IR slots a team has free (unknown league settings count as no IR slots)
+ */
+export function countOpenIrSlots(irSlots: number | null | undefined, roster: RosterSlotPlayer[]): number {
+  const used = roster.filter(p => p.isInjuredList).length;
+  return Math.max(0, (irSlots ?? 0) - used);
+}
+
+/**
+ * Active roster spots a team frees (+) or needs (-) after a trade. Incoming IR-eligible
+ * players fill open IR slots (including ones freed by outgoing IR players) before they
+ * take an active spot; outgoing IR players never free an active spot.
+ */
+export function activeRosterSpotChange(
+  sent: RosterSlotPlayer[],
+  received: RosterSlotPlayer[],
+  openIrSlots: number
+): number {
+  const sentActive = sent.filter(p => !p.isInjuredList).length;
+  const irCapacity = openIrSlots + (sent.length - sentActive);
+  const receivedToIr = Math.min(irCapacity, received.filter(p => isIrEligible(p.status)).length);
+  return sentActive - (received.length - receivedToIr);
+}
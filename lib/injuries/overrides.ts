@@ -0,0 +1,63 @@
+/**
+ * League injury overrides: a commissioner's expected return date for a player in their league.
+ * Overrides only apply to the league that set them and win over the NHL injury report there;
+ * the shared Player row keeps the report's data for every other league.
+ */
+
+import prisma from "@/lib/prisma";
+
+// ===== TYPES =====
+
+export interface InjuryOverride {
+  expectedReturn: Date;
+  note: string | null;
+}
+
+interface PlayerInjuryFields {
+  expectedReturn: Date | null;
+  injuryNote: string | null;
+  injurySource: string | null;
+}
+
+// ===== OVERRIDES =====
+
+/**
+ * A league's overrides keyed by player ID
+ */
+export async function getLeagueInjuryOverrides(leagueId: string): Promise<Map<string, InjuryOverride>> {
+  const overrides = await prisma.leagueInjuryOverride.findMany({
+    where: { leagueId },
+    select: { playerId: true, expectedReturn: true, note: true },
+  });
+  return new Map(overrides.map(o => [o.playerId, { expectedReturn: o.expectedReturn, note: o.note }]));
+}
+
+/**
+ * The player as the league sees them: the override's date and note replace the report's
+ */
+export function withInjuryOverride<T extends PlayerInjuryFields>(player: T, override: InjuryOverride | undefined): T {
+  if (!override) {
+    return player;
+  }
+  return { ...player, expectedReturn: override.expectedReturn, injuryNote: override.note, injurySource: "manual" };
+}
+
+/**
+ * Set a player's expected return for one league, or clear it (null) to use the NHL report again
+ */
+export async function setLeagueInjuryOverride(
+  leagueId: string,
+  playerId: string,
+  override: InjuryOverride | null
+): Promise<void> {
+  if (!override) {
+    await prisma.leagueInjuryOverride.deleteMany({ where: { leagueId, playerId } });
+    return;
+  }
+
+  await prisma.leagueInjuryOverride.upsert({
+    where: { leagueId_playerId: { leagueId, playerId } },
+    update: override,
+    create: { leagueId, playerId, ...override },
+  });
+}
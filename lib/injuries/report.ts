@@ -0,0 +1,121 @@
+/**
+ * NHL injury report import.
+ *
+ * The NHL's own APIs don't publish injuries, so expected return dates come from ESPN's
+ * public NHL injury report. Report entries are matched to league players by name and
+ * stored on Player with source "nhl"; a league's own dates live in LeagueInjuryOverride and
+ * are never touched here. Players who drop off the report have their imported return date cleared.
+ */
+
+import prisma from "@/lib/prisma";
+
+// ===== TYPES =====
+
+export interface NhlInjuryReportEntry {
+  name: string;
+  status: string;                 // "Out", "Day-To-Day", "Injured Reserve", ...
+  returnDate: string | null;      // YYYY-MM-DD when the report has one
+  note: string | null;            // e.g. "Upper body - expected to miss 2-3 weeks"
+}
+
+// ===== CONSTANTS =====
+
+const NHL_INJURIES_URL = "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl/injuries";
+
+// ===== REPORT =====
+
+/**
+ * Lowercase, accent- and punctuation-free name for matching across sources
+ */
+export function normalizePlayerName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.'-]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Flatten the injury report response (one list per NHL team)
+ */
+export function parseNhlInjuryReport(data: unknown): NhlInjuryReportEntry[] {
+  const teams: Array<{ injuries?: unknown[] }> = (data as { injuries?: Array<{ injuries?: unknown[] }> })?.injuries || [];
+  const entries: NhlInjuryReportEntry[] = [];
+
+  for (const team of teams) {
+    for (const raw of team.injuries || []) {
+      const injury = raw as {
+        status?: string;
+        shortComment?: string;
+        athlete?: { displayName?: string };
+        details?: { type?: string; returnDate?: string };
+      };
+      const name = injury.athlete?.displayName;
+      if (!name) continue;
+
+      const returnDate = injury.details?.returnDate?.slice(0, 10);
+      const note = [injury.details?.type, injury.shortComment].filter(Boolean).join(" - ");
+
+      entries.push({
+        name,
+        status: injury.status || "",
+        returnDate: returnDate && /^\d{4}-\d{2}-\d{2}$/.test(returnDate) ? returnDate : null,
+        note: note || null,
+      });
+    }
+  }
+
+  return entries;
+}
+
+export async function fetchNhlInjuryReport(): Promise<NhlInjuryReportEntry[]> {
+  const response = await fetch(NHL_INJURIES_URL, {
+    headers: { "User-Agent": "AiTradr/1.0" },
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return parseNhlInjuryReport(await response.json());
+}
+
+// ===== IMPORT =====
+
+/**
+ * Import expected return dates for every rostered player and imported free agent in a league.
+ * Returns the number of players whose injury record changed.
+ */
+export async function syncLeagueInjuryReport(leagueId: string): Promise<number> {
+  const report = await fetchNhlInjuryReport();
+  const byName = new Map(report.map(entry => [normalizePlayerName(entry.name), entry]));
+
+  const players = await prisma.player.findMany({
+    where: { OR: [{ rosterEntries: { some: { leagueId } } }, { playerStats: { some: { leagueId } } }] },
+    select: { id: true, name: true, expectedReturn: true, injuryNote: true, injurySource: true },
+  });
+
+  let updated = 0;
+  for (const player of players) {
+    const entry = byName.get(normalizePlayerName(player.name));
+    if (entry) {
+      const expectedReturn = entry.returnDate ? new Date(`${entry.returnDate}T00:00:00Z`) : null;
+      if (expectedReturn?.getTime() === player.expectedReturn?.getTime() && entry.note === player.injuryNote) continue;
+
+      await prisma.player.update({
+        where: { id: player.id },
+        data: { expectedReturn, injuryNote: entry.note, injurySource: "nhl" },
+      });
+      updated++;
+    } else if (player.injurySource === "nhl") {
+      await prisma.player.update({
+        where: { id: player.id },
+        data: { expectedReturn: null, injuryNote: null, injurySource: null },
+      });
+      updated++;
+    }
+  }
+
+  console.log(`[Injuries] NHL injury report: ${report.length} injuries, ${updated} league players updated`);
+  return updated;
+}
@@ -1,117 +0,0 @@
-/**
- * 2025 Keeper data extracted from Yahoo draft results
- * Players with ⠀ marker next to their name
- * ONLY includes players with the keeper symbol - NOT all drafted players
- */
-
-export const KEEPERS_2025 = [
-  // Round 1
-  { player: "Cale Makar", team: "Bye week", round: 1 },
-  { player: "Connor McDavid", team: "Smok'n Pipes", round: 1 },
-  { player: "Rasmus Dahlin", team: "Bye week", round: 1 },  // ADDED from Yahoo page
-  
-  // Round 2
-  { player: "Kirill Kaprizov", team: "The Brain Re", round: 2 },
-  { player: "Brady Tkachuk", team: "mismanagewhome?", round: 2 },
-  { player: "Quinn Hughes", team: "Zoey", round: 2 },
-  { player: "David Pastrnak", team: "Inglorious B", round: 2 },
-  
-  // Round 3
-  { player: "Kyle Connor", team: "Ike and Ike", round: 3 },
-  
-  // Round 5
-  { player: "Wyatt Johnston", team: "Inglorious B", round: 5 },
-  { player: "Robert Thomas", team: "The Brain Re", round: 5 },
-  
-  // Round 6
-  { player: "Adin Hill", team: "Goon Squad", round: 6 },
-  
-  // Round 7
-  { player: "John Tavares", team: "Zoey", round: 7 },
-  
-  // Round 8
-  { player: "Tom Wilson", team: "mismanagewhome?", round: 8 },
-  
-  // Round 9
-  { player: "Sam Reinhart", team: "Goon Squad", round: 9 },  // Correct - currently on Goon Squad
-  { player: "Jason Robertson", team: "The Brain Re", round: 9 },
-  
-  // Round 10
-  { player: "Logan Thompson", team: "Smok'n Pipes", round: 10 },
-  { player: "Jack Eichel", team: "Ike and Ike", round: 10 },
-  { player: "Darcy Kuemper", team: "Inglorious B", round: 10 },
-  
-  // Round 11
-  { player: "Sergei Bobrovsky", team: "Ike and Ike", round: 11 },
-  
-  // Round 13
-  { player: "Juraj Slafkovský", team: "Bye week", round: 13 },
-  { player: "Tage Thompson", team: "Mooninites", round: 13 },
-  { player: "Samuel Montembeault", team: "Coming 4 Da", round: 13 },
-  
-  // Round 14
-  { player: "Zach Werenski", team: "Coming 4 Da", round: 14 },
-  { player: "Macklin Celebrini", team: "Mooninites", round: 14 },
-  { player: "Anthony Stolarz", team: "Smok'n Pipes", round: 14 },
-  
-  // Round 16
-  { player: "Filip Forsberg", team: "Coming 4 Da", round: 16 },
-  { player: "Dustin Wolf", team: "mismanagewhome?", round: 16 },
-  { player: "Mackenzie Blackwood", team: "Goon Squad", round: 16 },
-  { player: "Zach Hyman", team: "Zoey", round: 16 },
-] as const;
-
-export const KEEPERS_2024 = [
-  // Round 1
-  { player: "Connor McDavid", team: "Smok'n Pipes", round: 1 },
-  { player: "Cale Makar", team: "Bye week", round: 1 },
-  
-  // Round 2
-  { player: "Brady Tkachuk", team: "mismanagewhome?", round: 2 },
-  { player: "Kirill Kaprizov", team: "Emery's Boys", round: 2 },
-  { player: "Quinn Hughes", team: "Zoey", round: 2 },
-  { player: "David Pastrnak", team: "Inglorious B", round: 2 },
-  
-  // Round 3
-  { player: "Kyle Connor", team: "Ike and Ike", round: 3 },
-  
-  // Round 5
-  { player: "Wyatt Johnston", team: "Inglorious B", round: 5 },
-  { player: "Robert Thomas", team: "The Brain Re", round: 5 },
-  
-  // Round 6
-  { player: "Adin Hill", team: "Smok'n Pipes", round: 6 },
-  
-  // Round 7
-  { player: "John Tavares", team: "Zoey", round: 7 },
-  
-  // Round 8
-  { player: "Tom Wilson", team: "mismanagewhome?", round: 8 },
-  
-  // Round 9
-  { player: "Jason Robertson", team: "Smok'n Pipes", round: 9 },
-  { player: "Sam Reinhart", team: "Mooninites", round: 9 },
-  
-  // Round 10
-  { player: "Darcy Kuemper", team: "Inglorious B", round: 10 },
-  { player: "Logan Thompson", team: "Mooninites", round: 10 },
-  { player: "Jack Eichel", team: "Ike and Ike", round: 10 },
-  
-  // Round 11
-  { player: "Sergei Bobrovsky", team: "Ike and Ike", round: 11 },
-  
-  // Round 13
-  { player: "Samuel Montembeault", team: "Coming 4 Da", round: 13 },
-  { player: "Tage Thompson", team: "Mooninites", round: 13 },
-  { player: "Juraj Slafkovský", team: "Zoey", round: 13 },
-  
-  // Round 14
-  { player: "Macklin Celebrini", team: "Mooninites", round: 14 },
-  { player: "Anthony Stolarz", team: "Smok'n Pipes", round: 14 },
-  { player: "Zach Werenski", team: "Coming 4 Da", round: 14 },
-  
-  // Round 16
-  { player: "Zach Hyman", team: "Zoey", round: 16 },
-  { player: "Filip Forsberg", team: "Coming 4 Da", round: 16 },
-] as const;
-
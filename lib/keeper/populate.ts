@@ -1,19 +1,32 @@
 /**
- * Keeper data population from hardcoded 2024-2025 draft history
+ * Keeper data population from stored Yahoo draft history
  * Automatically populates keeper flags, years remaining, etc.
  */
 
 import prisma from "@/lib/prisma";
-import { KEEPERS_2024, KEEPERS_2025 } from "./keeperData2025";
-import { calculateYearsRemaining, calculateKeeperRound } from "./types";
+import { calculateYearsRemaining } from "./types";
+import { getLeagueKeeperRules } from "./rules";
+
+type HistoryPick = {
+  season: string;
+  round: number;
+  yahooPlayerId: string;
+  isKeeper: boolean;
+};
 
 /**
- * Populate keeper data for a league from hardcoded keeper list
- * Can be called from API endpoints or during sync
+ * Populate keeper data for a league from its stored draft history
+ * (see syncLeagueDraftHistory). Can be called from API endpoints or during sync.
  */
 export async function populateKeeperData(leagueId: string): Promise<number> {
   console.log("[Populate Keepers] Starting for league:", leagueId);
-  
+
+  const keeperRules = await getLeagueKeeperRules(leagueId);
+  const history = await prisma.draftHistoryPick.findMany({
+    where: { leagueId },
+    select: { season: true, round: true, yahooPlayerId: true, isKeeper: true },
+  });
+
   // Clear all existing keeper flags
   await prisma.rosterEntry.updateMany({
     where: { leagueId },
@@ -25,74 +38,90 @@ export async function populateKeeperData(leagueId: string): Promise<number> {
       keeperRoundCost: null,
     }
   });
-  
+
   console.log("[Populate Keepers] Cleared all keeper flags");
-  
-  // Find which players were kept in both years
-  const keptInBothYears = new Set<string>();
-  for (const keeper2024 of KEEPERS_2024) {
-    const alsoIn2025 = KEEPERS_2025.find(k => k.player === keeper2024.player);
-    if (alsoIn2025) {
-      keptInBothYears.add(keeper2024.player);
-    }
+
+  if (history.length === 0) {
+    console.warn("[Populate Keepers] No draft history stored - sync draft results first");
+    return 0;
+  }
+
+  // Index picks by season (newest first) and player
+  const seasons = Array.from(new Set(history.map(p => p.season))).sort((a, b) => b.localeCompare(a));
+  const picksBySeason = new Map<string, Map<string, HistoryPick>>();
+  for (const season of seasons) {
+    picksBySeason.set(season, new Map());
   }
-  
-  console.log(`[Populate Keepers] Players kept in both years: ${keptInBothYears.size}`);
-  
+  for (const pick of history) {
+    picksBySeason.get(pick.season)!.set(pick.yahooPlayerId, pick);
+  }
+
+  const currentSeason = seasons[0];
+  const currentKeepers = Array.from(picksBySeason.get(currentSeason)!.values()).filter(p => p.isKeeper);
+
+  console.log(`[Populate Keepers] ${currentKeepers.length} keeper picks in ${currentSeason} draft`);
+
   let updated = 0;
-  
-  for (const keeper of KEEPERS_2025) {
-    // Determine keeper year
-    const isSecondYear = keptInBothYears.has(keeper.player);
-    const keeperYearIndex = isSecondYear ? 1 : 0;
-    const yearsRemaining = calculateYearsRemaining(keeperYearIndex);
-    
-    // Find the player by FULL name
+
+  for (const keeper of currentKeepers) {
+    // Walk back through prior seasons while the player kept being kept
+    let keeperYearIndex = 0;
+    let earliestKeeperPick = keeper;
+    let seasonIndex = 1;
+    while (seasonIndex < seasons.length) {
+      const priorPick = picksBySeason.get(seasons[seasonIndex])!.get(keeper.yahooPlayerId);
+      if (!priorPick?.isKeeper) break;
+      keeperYearIndex++;
+      earliestKeeperPick = priorPick;
+      seasonIndex++;
+    }
+
+    // Original round is the draft pick the keeper chain started from.
+    // FA pickups (or history that doesn't go back far enough) use the first keeper round.
+    const originalPick = seasonIndex < seasons.length
+      ? picksBySeason.get(seasons[seasonIndex])!.get(keeper.yahooPlayerId)
+      : undefined;
+    const originalDraftRound = originalPick?.round ?? earliestKeeperPick.round;
+    const yearsRemaining = calculateYearsRemaining(keeperYearIndex, keeperRules);
+
+    // Match the player by Yahoo player ID (player keys change prefix every season, so
+    // only the row rostered in this league is the current one)
     const player = await prisma.player.findFirst({
-      where: { 
-        name: { contains: keeper.player, mode: 'insensitive' }
+      where: {
+        playerKey: { endsWith: `.p.${keeper.yahooPlayerId}` },
+        rosterEntries: { some: { leagueId } },
       },
       include: {
         rosterEntries: {
           where: { leagueId },
-          include: { team: true }
         }
       }
     });
-    
+
     if (!player) {
-      console.warn(`[Populate Keepers] Player not found: ${keeper.player}`);
+      console.warn(`[Populate Keepers] Yahoo ID ${keeper.yahooPlayerId} not on any roster`);
       continue;
     }
-    
-    if (player.rosterEntries.length === 0) {
-      console.warn(`[Populate Keepers] ${keeper.player} not on any roster`);
-      continue;
-    }
-    
+
     // Use CURRENT team (not draft team, since players get traded)
     const rosterEntry = player.rosterEntries[0];
-    
-    const allPicks = Array.from({ length: 16 }, (_, i) => i + 1);
-    const keeperRoundCost = calculateKeeperRound(keeper.round, allPicks) ?? keeper.round;
-    
-    // Update keeper status
+
+    // Update keeper status - the round forfeited is the round Yahoo slotted the keeper into
     await prisma.rosterEntry.update({
       where: { id: rosterEntry.id },
       data: {
         isKeeper: true,
-        originalDraftRound: keeper.round,
-        keeperYearIndex: keeperYearIndex,
-        yearsRemaining: yearsRemaining,
-        keeperRoundCost: keeperRoundCost,
+        originalDraftRound,
+        keeperYearIndex,
+        yearsRemaining,
+        keeperRoundCost: keeper.round,
       }
     });
-    
+
     updated++;
-    console.log(`[Populate Keepers] ✅ ${keeper.player} (R${keeper.round}, Year ${keeperYearIndex + 1}, ${yearsRemaining} yrs)`);
+    console.log(`[Populate Keepers] ✅ ${player.name} (R${originalDraftRound}, kept in R${keeper.round}, Year ${keeperYearIndex + 1}, ${yearsRemaining} yrs)`);
   }
-  
+
   console.log(`[Populate Keepers] Successfully updated ${updated} keeper records`);
   return updated;
 }
-
@@ -0,0 +1,128 @@
+/**
+ * Per-league keeper rule sets.
+ * Leagues without a stored rule set use DEFAULT_KEEPER_RULES.
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import {
+  DEFAULT_KEEPER_RULES,
+  type KeeperBonusRules,
+  type KeeperRoundTier,
+  type KeeperRules,
+  type PlayerTier,
+} from "./types";
+
+const PLAYER_TIERS: PlayerTier[] = ['Generational', 'Franchise', 'Star', 'Core', 'Normal'];
+
+/**
+ * Load a league's keeper rules, falling back to the defaults
+ */
+export async function getLeagueKeeperRules(leagueId: string): Promise<KeeperRules> {
+  const ruleSet = await prisma.keeperRuleSet.findUnique({
+    where: { leagueId },
+  });
+
+  if (!ruleSet) {
+    return DEFAULT_KEEPER_RULES;
+  }
+
+  return {
+    maxKeeperYears: ruleSet.maxKeeperYears,
+    minKeeperRound: ruleSet.minKeeperRound,
+    maxKeeperRound: ruleSet.maxKeeperRound,
+    tierLocked: ruleSet.tierLocked,
+    tiers: ruleSet.tiers as unknown as KeeperRoundTier[],
+    // Merge over defaults so rule sets saved before a table was added stay valid
+    bonus: { ...DEFAULT_KEEPER_RULES.bonus, ...(ruleSet.bonusRules as unknown as Partial<KeeperBonusRules>) },
+  };
+}
+
+/**
+ * Save a league's keeper rules (call validateKeeperRules first)
+ */
+export async function saveLeagueKeeperRules(leagueId: string, rules: KeeperRules): Promise<void> {
+  const data = {
+    maxKeeperYears: rules.maxKeeperYears,
+    minKeeperRound: rules.minKeeperRound,
+    maxKeeperRound: rules.maxKeeperRound,
+    tierLocked: rules.tierLocked,
+    tiers: rules.tiers as unknown as Prisma.InputJsonValue,
+    bonusRules: rules.bonus as unknown as Prisma.InputJsonValue,
+  };
+
+  await prisma.keeperRuleSet.upsert({
+    where: { leagueId },
+    update: data,
+    create: { leagueId, ...data },
+  });
+}
+
+/**
+ * Remove a league's custom rules so it uses the defaults again
+ */
+export async function resetLeagueKeeperRules(leagueId: string): Promise<void> {
+  await prisma.keeperRuleSet.deleteMany({ where: { leagueId } });
+}
+
+function isNonNegativeNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(v => typeof v === "number" && Number.isFinite(v) && v >= 0);
+}
+
+/**
+ * Validate keeper rules submitted from the settings page.
+ * Returns an error message, or null if the rules are usable.
+ */
+export function validateKeeperRules(rules: KeeperRules): string | null {
+  if (!rules || typeof rules !== "object") return "Keeper rules are required";
+
+  const { maxKeeperYears, minKeeperRound, maxKeeperRound, tiers, bonus } = rules;
+
+  if (!Number.isInteger(maxKeeperYears) || maxKeeperYears < 1 || maxKeeperYears > 10) {
+    return "Max keeper years must be between 1 and 10";
+  }
+  if (!Number.isInteger(maxKeeperRound) || maxKeeperRound < 1 || maxKeeperRound > 30) {
+    return "Number of draft rounds must be between 1 and 30";
+  }
+  if (!Number.isInteger(minKeeperRound) || minKeeperRound < 1 || minKeeperRound > maxKeeperRound) {
+    return "Earliest keeper round must be between 1 and the last round";
+  }
+  if (typeof rules.tierLocked !== "boolean") {
+    return "tierLocked must be true or false";
+  }
+
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return "At least one round tier is required";
+  }
+  const sortedTiers = [...tiers].sort((a, b) => a.minRound - b.minRound);
+  for (const [index, tier] of sortedTiers.entries()) {
+    if (!tier.name || !Number.isInteger(tier.minRound) || !Number.isInteger(tier.maxRound) || tier.minRound > tier.maxRound) {
+      return `Tier ${tier.name || index + 1} has an invalid round range`;
+    }
+    const previous = sortedTiers[index - 1];
+    if (previous && tier.minRound <= previous.maxRound) {
+      return `Tiers ${previous.name} and ${tier.name} overlap`;
+    }
+  }
+
+  if (!bonus || typeof bonus !== "object") return "Keeper bonus rules are required";
+  if (!isNonNegativeNumberArray(bonus.surplusWeights)) {
+    return "Surplus weights must be non-negative numbers";
+  }
+  if (typeof bonus.tradeBonusWeight !== "number" || bonus.tradeBonusWeight < 0 || bonus.tradeBonusWeight > 1) {
+    return "Trade bonus weight must be between 0 and 1";
+  }
+  for (const tier of PLAYER_TIERS) {
+    if (typeof bonus.surplusCaps?.[tier] !== "number" || bonus.surplusCaps[tier] < 0) {
+      return `Surplus cap for ${tier} must be a non-negative number`;
+    }
+    if (!isNonNegativeNumberArray(bonus.controlPremium?.[tier])) {
+      return `Control premium for ${tier} must be non-negative numbers`;
+    }
+    if (tier !== 'Normal' && typeof bonus.playerTierThresholds?.[tier] !== "number") {
+      return `Value threshold for ${tier} is required`;
+    }
+  }
+
+  return null;
+}
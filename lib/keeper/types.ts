@@ -1,5 +1,6 @@
 /**
- * Keeper tracking system for atfh2 league
+ * Keeper tracking system.
+ * Rules are per league (see KeeperRuleSet); DEFAULT_KEEPER_RULES is the original atfh2 league setup.
  */
 
 export interface KeeperData {
@@ -12,53 +13,101 @@ export interface KeeperData {
 }
 
 /**
- * Tier system for keeper restrictions
+ * Round band a keeper is restricted to (e.g. Tier A = Rounds 1-4)
  */
-type KeeperTier = 'A' | 'B' | 'C';
+export interface KeeperRoundTier {
+  name: string;
+  minRound: number;
+  maxRound: number;
+}
+
+export type PlayerTier = 'Generational' | 'Franchise' | 'Star' | 'Core' | 'Normal';
 
-export const TIER_RANGES = {
-  A: { min: 1, max: 4 },   // Tier A: Rounds 1-4
-  B: { min: 5, max: 10 },  // Tier B: Rounds 5-10
-  C: { min: 11, max: 16 }, // Tier C: Rounds 11-16
-} as const;
+/**
+ * Keeper bonus tables. Arrays are indexed by years remaining (index 0 = no years left).
+ */
+export interface KeeperBonusRules {
+  playerTierThresholds: Record<Exclude<PlayerTier, 'Normal'>, number>; // Minimum base value per tier
+  surplusWeights: number[];                     // Share of surplus credited by years remaining
+  surplusCaps: Record<PlayerTier, number>;      // Max surplus counted per player tier
+  controlPremium: Record<PlayerTier, number[]>; // Flat bonus by years remaining
+  tradeBonusWeight: number;                     // Share of keeper bonus applied to trade value
+}
+
+/**
+ * A league's keeper rules (stored per league as a KeeperRuleSet)
+ */
+export interface KeeperRules {
+  maxKeeperYears: number;  // Years a player can be kept
+  minKeeperRound: number;  // Earliest round a keeper can occupy (2 = no Round 1 keepers)
+  maxKeeperRound: number;  // Last draft round; FA pickups count as this round
+  tiers: KeeperRoundTier[];
+  tierLocked: boolean;     // Keepers cannot move out of their original tier
+  bonus: KeeperBonusRules;
+}
 
 /**
- * Keeper eligibility rules for atfh2 league
+ * Default rules (atfh2 league): 3-year keepers, no Round 1 keepers, tier-locked rounds
  */
-export const KEEPER_RULES = {
-  MAX_KEEPER_YEARS: 3,        // Can keep a player for 3 years max
-  MIN_KEEPER_ROUND: 2,        // Can't move into Round 1 (hard block)
-  MAX_KEEPER_ROUND: 16,       // Can't keep players beyond R16
-} as const;
+export const DEFAULT_KEEPER_RULES: KeeperRules = {
+  maxKeeperYears: 3,
+  minKeeperRound: 2,
+  maxKeeperRound: 16,
+  tiers: [
+    { name: 'A', minRound: 1, maxRound: 4 },   // Tier A: Rounds 1-4
+    { name: 'B', minRound: 5, maxRound: 10 },  // Tier B: Rounds 5-10
+    { name: 'C', minRound: 11, maxRound: 16 }, // Tier C: Rounds 11-16
+  ],
+  tierLocked: true,
+  bonus: {
+    playerTierThresholds: {
+      Generational: 165,
+      Franchise: 150,
+      Star: 135,
+      Core: 115,
+    },
+    surplusWeights: [0, 0.45, 0.75, 1.00],
+    surplusCaps: {
+      Generational: 25,
+      Franchise: 35,
+      Star: 34,
+      Core: 22,
+      Normal: 15,
+    },
+    controlPremium: {
+      Generational: [0, 0, 20, 45],
+      Franchise: [0, 0, 14, 32],
+      Star: [0, 0, 10, 22],
+      Core: [0, 0, 5, 12],
+      Normal: [0, 0, 0, 0],
+    },
+    tradeBonusWeight: 0.40,
+  },
+};
 
 /**
- * Determine which tier a round belongs to
+ * Determine which tier a round belongs to (rounds outside every tier fall in the last one)
  */
-export function getRoundTier(round: number): KeeperTier {
-  if (round >= TIER_RANGES.A.min && round <= TIER_RANGES.A.max) return 'A';
-  if (round >= TIER_RANGES.B.min && round <= TIER_RANGES.B.max) return 'B';
-  return 'C';
+export function getRoundTier(round: number, rules: KeeperRules = DEFAULT_KEEPER_RULES): string {
+  const tier = rules.tiers.find(t => round >= t.minRound && round <= t.maxRound);
+  return tier?.name ?? rules.tiers[rules.tiers.length - 1]?.name ?? '';
 }
 
 /**
  * Check if a keeper can be moved to a target round (respects tier restrictions)
  */
-export function canMoveToRound(originalRound: number, targetRound: number): boolean {
-  // Hard block: cannot move into Round 1
-  if (targetRound === 1) return false;
-  
-  const originalTier = getRoundTier(originalRound);
-  const targetTier = getRoundTier(targetRound);
-  
-  // Tier A players can only stay in Tier A
-  if (originalTier === 'A' && targetTier !== 'A') return false;
-  
-  // Tier B players can move within B, but not into A
-  if (originalTier === 'B' && targetTier === 'A') return false;
-  if (originalTier === 'B' && targetTier === 'C') return false;
+export function canMoveToRound(
+  originalRound: number,
+  targetRound: number,
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
+): boolean {
+  // Hard block: cannot move ahead of the earliest keeper round (Round 1 by default)
+  if (targetRound < rules.minKeeperRound) return false;
   
-  // Tier C players must stay in C
-  if (originalTier === 'C' && targetTier !== 'C') return false;
+  // Tier-locked leagues: keepers stay within the tier they were drafted in
+  if (rules.tierLocked && getRoundTier(originalRound, rules) !== getRoundTier(targetRound, rules)) {
+    return false;
+  }
   
   return true;
 }
@@ -67,11 +116,13 @@ export function canMoveToRound(originalRound: number, targetRound: number): bool
  * Calculate keeper round (accounting for traded picks and tier restrictions)
  * @param originalRound - Round player was originally drafted
  * @param ownedPicks - Array of round numbers the team currently owns
+ * @param rules - League keeper rules
  * @returns The round this keeper occupies, or null if unkeepable
  */
 export function calculateKeeperRound(
   originalRound: number,
-  ownedPicks: number[]
+  ownedPicks: number[],
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
 ): number | null {
   // Check if team owns the original round
   if (ownedPicks.includes(originalRound)) {
@@ -80,8 +131,8 @@ export function calculateKeeperRound(
   
   // Find nearest earlier owned pick that respects tier restrictions
   const earlierPicks = ownedPicks
-    .filter(pick => pick < originalRound && pick >= KEEPER_RULES.MIN_KEEPER_ROUND)
-    .filter(pick => canMoveToRound(originalRound, pick))
+    .filter(pick => pick < originalRound && pick >= rules.minKeeperRound)
+    .filter(pick => canMoveToRound(originalRound, pick, rules))
     .sort((a, b) => b - a); // Descending (closest to original)
   
   if (earlierPicks.length > 0) {
@@ -95,15 +146,19 @@ export function calculateKeeperRound(
 /**
  * Calculate years remaining
  * @param keeperYearIndex - 0 = first year kept, 1 = second year kept, 2 = third year kept (final)
- * @returns Years remaining (2, 1, or 0 after current year)
+ * @param rules - League keeper rules
+ * @returns Years remaining (2, 1, or 0 after current year with the default 3-year limit)
  * 
  * Example: If keeperYearIndex = 1 (in 2nd year of keeping), yearsRemaining = 1 (can keep once more)
  */
-export function calculateYearsRemaining(keeperYearIndex: number): number {
+export function calculateYearsRemaining(
+  keeperYearIndex: number,
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
+): number {
   // Years remaining = total allowed - (current year)
   // If in year 2 (index 1), they're using year 2, so 1 year left
   const currentYear = keeperYearIndex + 1;
-  return Math.max(0, KEEPER_RULES.MAX_KEEPER_YEARS - currentYear);
+  return Math.max(0, rules.maxKeeperYears - currentYear);
 }
 
 /**
@@ -111,17 +166,19 @@ export function calculateYearsRemaining(keeperYearIndex: number): number {
  * @param originalRoundAvg - Average value in original draft round
  * @param keeperRoundCost - Average value at keeper round cost
  * @param yearsRemaining - Years left to keep (1, 2, or 3)
+ * @param rules - League keeper rules
  * @returns Multiplier between 1.0 and 1.9
  */
 export function calculateKeeperMultiplier(
   originalRoundAvg: number,
   keeperRoundCost: number,
-  yearsRemaining: number
+  yearsRemaining: number,
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
 ): number {
   if (keeperRoundCost <= 0 || originalRoundAvg <= 0) return 1.0;
   
   const valueRetention = originalRoundAvg / keeperRoundCost;
-  const timeFactor = yearsRemaining / KEEPER_RULES.MAX_KEEPER_YEARS;
+  const timeFactor = yearsRemaining / rules.maxKeeperYears;
   
   // Multiplier = 1.0 + (retention - 1) × time factor
   const multiplier = 1.0 + ((valueRetention - 1) * timeFactor);
@@ -168,24 +225,27 @@ export function getRoundCost(round: number): number {
   return ROUND_COST_TABLE[round] ?? 80;
 }
 
-function getKeeperTier(round: number): 'A' | 'B' | 'C' {
-  if (round <= 4) return 'A';   // Rounds 1-4
-  if (round <= 10) return 'B';  // Rounds 5-10
-  return 'C';                   // Rounds 11-16
-}
-
 /**
  * Determine player tier based on base value
  * Used for tier caps and control premium eligibility
  */
-function getPlayerTier(baseValue: number): 'Generational' | 'Franchise' | 'Star' | 'Core' | 'Normal' {
-  if (baseValue >= 165) return 'Generational';
-  if (baseValue >= 150) return 'Franchise';
-  if (baseValue >= 135) return 'Star';
-  if (baseValue >= 115) return 'Core';
+function getPlayerTier(baseValue: number, rules: KeeperRules): PlayerTier {
+  const thresholds = rules.bonus.playerTierThresholds;
+  if (baseValue >= thresholds.Generational) return 'Generational';
+  if (baseValue >= thresholds.Franchise) return 'Franchise';
+  if (baseValue >= thresholds.Star) return 'Star';
+  if (baseValue >= thresholds.Core) return 'Core';
   return 'Normal';
 }
 
+/**
+ * Look up a by-years-remaining table entry (years beyond the table use its last entry)
+ */
+function byYearsRemaining(table: number[], yearsRemaining: number): number {
+  if (yearsRemaining <= 0 || table.length === 0) return 0;
+  return table[Math.min(yearsRemaining, table.length - 1)] ?? 0;
+}
+
 /**
  * CORRECTED Keeper Economics System
  * 
@@ -198,23 +258,25 @@ function getPlayerTier(baseValue: number): 'Generational' | 'Franchise' | 'Star'
  * @param draftRound - Original draft round (1-16, or 16 for FA pickups)
  * @param draftRoundAvg - Average expected value at that draft round
  * @param yearsRemaining - Years of keeper eligibility remaining (1, 2, or 3)
+ * @param rules - League keeper rules (bonus tables, round limits)
  * @returns Object with keeperBonus and tradeBonus (40% of keeper bonus)
  */
 export function calculateKeeperBonus(
   baseValue: number,
   draftRound: number,
   draftRoundAvg: number,
-  yearsRemaining: number
+  yearsRemaining: number,
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
 ): number {
-  // Hard rule: Round 1 cannot be kept
-  if (draftRound === 1) return 0;
+  // Hard rule: rounds ahead of the earliest keeper round (Round 1 by default) cannot be kept
+  if (draftRound < rules.minKeeperRound) return 0;
   
-  // Treat FA pickups as Round 16
-  const effectiveDraftRound = draftRound > 16 ? 16 : draftRound;
+  // Treat FA pickups as the last round
+  const effectiveDraftRound = draftRound > rules.maxKeeperRound ? rules.maxKeeperRound : draftRound;
   const effectiveDraftRoundAvg = draftRoundAvg > 0 ? draftRoundAvg : getRoundCost(effectiveDraftRound);
   
   // Determine player tier
-  const tier = getPlayerTier(baseValue);
+  const tier = getPlayerTier(baseValue, rules);
   
   // Part A: Surplus Bonus
   // Only applies if player outperforms their draft slot
@@ -223,23 +285,9 @@ export function calculateKeeperBonus(
   // If player was drafted where they belong or early → surplus = 0
   let surplusBonus = 0;
   if (surplus > 0) {
-    // Surplus weights by years remaining
-    const surplusWeights: Record<number, number> = {
-      1: 0.45,
-      2: 0.75,
-      3: 1.00,
-    };
-    const weight = surplusWeights[yearsRemaining] || 0;
-    
-    // Tier caps for surplus bonus
-    const tierCaps: Record<string, number> = {
-      'Generational': 25,
-      'Franchise': 35,
-      'Star': 34,
-      'Core': 22,
-      'Normal': 15,
-    };
-    const cap = tierCaps[tier] || 15;
+    // Surplus weight by years remaining, capped per player tier
+    const weight = byYearsRemaining(rules.bonus.surplusWeights, yearsRemaining);
+    const cap = rules.bonus.surplusCaps[tier] ?? 15;
     
     surplusBonus = Math.min(surplus, cap) * weight;
   }
@@ -250,15 +298,7 @@ export function calculateKeeperBonus(
   // For elite players, control can apply even without surplus (multi-year ownership advantage)
   let controlBonus = 0;
   if (tier !== 'Normal') {
-    // Control premium matrix
-    const controlMatrix: Record<string, Record<number, number>> = {
-      'Generational': { 1: 0, 2: 20, 3: 45 },
-      'Franchise': { 1: 0, 2: 14, 3: 32 },
-      'Star': { 1: 0, 2: 10, 3: 22 },
-      'Core': { 1: 0, 2: 5, 3: 12 },
-    };
-    
-    controlBonus = controlMatrix[tier]?.[yearsRemaining] || 0;
+    controlBonus = byYearsRemaining(rules.bonus.controlPremium[tier] ?? [], yearsRemaining);
     
     // Control only applies if:
     // - Player was drafted late (surplus exists), OR
@@ -275,18 +315,24 @@ export function calculateKeeperBonus(
 }
 
 /**
- * Calculate trade bonus (40% of keeper bonus)
+ * Calculate trade bonus (40% of keeper bonus by default)
  * This prevents keeper economics from dominating trades
  */
-export function calculateTradeBonus(keeperBonus: number): number {
-  return keeperBonus * 0.40;
+export function calculateTradeBonus(
+  keeperBonus: number,
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
+): number {
+  return keeperBonus * rules.bonus.tradeBonusWeight;
 }
 
 /**
  * Calculate final trade value including keeper economics
  */
-export function calculateTradeValue(baseValue: number, keeperBonus: number): number {
-  const tradeBonus = calculateTradeBonus(keeperBonus);
+export function calculateTradeValue(
+  baseValue: number,
+  keeperBonus: number,
+  rules: KeeperRules = DEFAULT_KEEPER_RULES
+): number {
+  const tradeBonus = calculateTradeBonus(keeperBonus, rules);
   return baseValue + tradeBonus;
 }
-
@@ -0,0 +1,72 @@
+/**
+ * League resolution shared by every league route.
+ *
+ * There is one League per Yahoo league key, stored in the canonical ".l." spelling; users reach it
+ * through LeagueMembership, which also records their team. Yahoo and old links sometimes use ".1."
+ * in place of ".l.", so keys are normalized before every lookup.
+ */
+
+import prisma from "@/lib/prisma";
+
+// ===== KEYS =====
+
+/**
+ * Canonical spelling of a Yahoo league key ("465.1.9080" -> "465.l.9080")
+ */
+export function normalizeLeagueKey(leagueKey: string): string {
+  return leagueKey.replace(/\.1\./g, '.l.');
+}
+
+// ===== LOOKUP =====
+
+/**
+ * The league for a Yahoo key in either spelling, or null if it hasn't been discovered yet
+ */
+export async function findLeagueByKey(leagueKey: string) {
+  return prisma.league.findUnique({ where: { leagueKey: normalizeLeagueKey(leagueKey) } });
+}
+
+/**
+ * The user's membership in a league (with their team, once rosters are synced)
+ */
+export async function findLeagueMembership(userId: string, leagueId: string) {
+  return prisma.leagueMembership.findUnique({
+    where: { userId_leagueId: { userId, leagueId } },
+    include: { team: true },
+  });
+}
+
+// ===== MEMBERSHIP =====
+
+/**
+ * Record that the user is in the league (discovered from their Yahoo account)
+ */
+export async function ensureLeagueMembership(userId: string, leagueId: string): Promise<void> {
+  await prisma.leagueMembership.upsert({
+    where: { userId_leagueId: { userId, leagueId } },
+    create: { userId, leagueId },
+    update: {},
+  });
+}
+
+/**
+ * Point each member of the league at the team their Yahoo account manages.
+ * Called after rosters sync, since that's when team managers are known.
+ */
+export async function linkLeagueMembershipTeams(leagueId: string): Promise<void> {
+  const [memberships, teams] = await Promise.all([
+    prisma.leagueMembership.findMany({
+      where: { leagueId },
+      include: { user: { select: { yahooAccount: { select: { yahooUserId: true } } } } },
+    }),
+    prisma.team.findMany({ where: { leagueId }, select: { id: true, yahooManagerId: true } }),
+  ]);
+
+  for (const membership of memberships) {
+    const yahooUserId = membership.user.yahooAccount?.yahooUserId;
+    const teamId = teams.find(t => t.yahooManagerId && t.yahooManagerId === yahooUserId)?.id ?? null;
+    if (teamId !== membership.teamId) {
+      await prisma.leagueMembership.update({ where: { id: membership.id }, data: { teamId } });
+    }
+  }
+}
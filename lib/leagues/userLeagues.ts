@@ -0,0 +1,77 @@
+/**
+ * The signed-in user's leagues for the league picker, and their remembered default.
+ *
+ * Leagues are discovered from Yahoo by syncUserLeagues (lib/yahoo/leagues.ts); this module
+ * only reads what is stored. The default league is the one the home page and dashboard
+ * open; without one (or if it's gone), the newest season's most recently synced league.
+ */
+
+import prisma from "@/lib/prisma";
+import { NHL_GAME_CODE } from "@/lib/yahoo/leagues";
+import { findLeagueByKey, findLeagueMembership } from "@/lib/leagues/resolve";
+
+// ===== TYPES =====
+
+export interface UserLeagueSummary {
+  leagueKey: string;
+  name: string;
+  season: string;
+  teamCount: number | null;
+  myTeamName: string | null;    // Null until rosters are synced
+  lastSyncedAt: string | null;  // Null until the first full sync
+  isDefault: boolean;
+}
+
+// ===== LEAGUES =====
+
+/**
+ * Every NHL league stored for the user, newest season first
+ */
+export async function listUserLeagues(userId: string): Promise<UserLeagueSummary[]> {
+  const [user, memberships] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { defaultLeagueKey: true } }),
+    prisma.leagueMembership.findMany({
+      where: { userId, league: { sport: NHL_GAME_CODE } },
+      include: {
+        league: { include: { _count: { select: { teams: true } } } },
+        team: { select: { name: true } },
+      },
+      orderBy: [{ league: { season: 'desc' } }, { league: { updatedAt: 'desc' } }],
+    }),
+  ]);
+  const leagues = memberships.map(m => ({ ...m.league, myTeamName: m.team?.name ?? null }));
+
+  const defaultKey = leagues.some(l => l.leagueKey === user?.defaultLeagueKey)
+    ? user?.defaultLeagueKey
+    : leagues[0]?.leagueKey;
+
+  return leagues.map(league => ({
+    leagueKey: league.leagueKey,
+    name: league.name,
+    season: league.season,
+    teamCount: league.teamCount ?? (league._count.teams || null),
+    myTeamName: league.myTeamName,
+    // Rosters are the first sync step - a league without teams has never been synced
+    lastSyncedAt: league._count.teams > 0 ? league.updatedAt.toISOString() : null,
+    isDefault: league.leagueKey === defaultKey,
+  }));
+}
+
+/**
+ * The league to open for the user, or null if they have none stored
+ */
+export async function getDefaultLeagueKey(userId: string): Promise<string | null> {
+  const leagues = await listUserLeagues(userId);
+  return leagues.find(l => l.isDefault)?.leagueKey ?? null;
+}
+
+/**
+ * Remember a league as the user's default. Returns false if it isn't one of their leagues.
+ */
+export async function setDefaultLeagueKey(userId: string, leagueKey: string): Promise<boolean> {
+  const league = await findLeagueByKey(leagueKey);
+  if (!league || !(await findLeagueMembership(userId, league.id))) return false;
+
+  await prisma.user.update({ where: { id: userId }, data: { defaultLeagueKey: league.leagueKey } });
+  return true;
+}
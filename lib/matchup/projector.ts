@@ -0,0 +1,376 @@
+/**
+ * Weekly head-to-head matchup projector.
+ *
+ * Projects each scoring category to the end of the current week:
+ * week-to-date stats from the Yahoo scoreboard, plus each rostered player's
+ * per-game rate × the games their NHL team has left this week.
+ * Category win probabilities come from a normal approximation of the
+ * projected difference between the two teams.
+ */
+
+import prisma from "@/lib/prisma";
+import {
+  getLeagueScoringConfig,
+  normalizeStatName,
+  type ScoringCategory,
+} from "@/lib/yahoo/scoringConfig";
+import {
+  daysInRange,
+  estimateGamesInDays,
+  gamesForTeam,
+  getScheduleWindow,
+  type ScheduleWindow,
+} from "@/lib/nhl/schedule";
+import type { CategoryProjection, MatchupProjection } from "@/lib/matchup/types";
+
+// ===== CONSTANTS =====
+
+// Roster statuses that won't play this week
+const INACTIVE_STATUSES = new Set(["IR", "IR+", "IR-LT", "IR-NR", "NA", "O", "SUSP"]);
+
+// Regular season opens in early October
+const SEASON_START_MONTH_DAY = "10-07";
+
+// Average events behind a percentage stat, per game (shots faced for SV%)
+const GOALIE_EVENTS_PER_START = 28;
+const SKATER_EVENTS_PER_GAME = 15;
+
+// Plus/minus swings far more than a Poisson count of the same mean
+const PLUS_MINUS_VARIANCE_PER_GAME = 1.5;
+
+// ===== PER-GAME RATES =====
+
+export interface PlayerRates {
+  playerId: string;
+  name: string;
+  nhlTeam: string | null;
+  isGoalie: boolean;
+  games: number;                   // Games played (games started for goalies)
+  startShare: number;              // Share of team games a goalie starts (1 for skaters)
+  perGame: Record<string, number>; // Counting stats per game/start, by stat ID
+  ratios: Record<string, number>;  // Rate stats (GAA, SV%) as-is, by stat ID
+}
+
+/**
+ * Rate stats are averaged across players instead of summed
+ */
+export function isRatioCategory(category: ScoringCategory): boolean {
+  return category.name.includes("average") || category.name.includes("percentage");
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Games each NHL team has played so far this season, assuming an average schedule
+ */
+export function estimateTeamGamesToDate(now: Date = new Date()): number {
+  const year = now.getUTCMonth() >= 8 ? now.getUTCFullYear() : now.getUTCFullYear() - 1;
+  const days = daysInRange(`${year}-${SEASON_START_MONTH_DAY}`, toDateString(now));
+  return Math.min(82, Math.max(1, estimateGamesInDays(days)));
+}
+
+/**
+ * Per-game rates for each player from their stored season stats.
+ * Goalie counting stats are per start; skaters without a games-played stat
+ * are assumed to have played every team game.
+ */
+export async function getPlayerRates(
+  leagueId: string,
+  playerIds: string[],
+  categories: ScoringCategory[],
+  now: Date = new Date()
+): Promise<Map<string, PlayerRates>> {
+  const players = await prisma.player.findMany({
+    where: { id: { in: playerIds } },
+    include: { playerStats: { where: { leagueId } } },
+  });
+
+  const teamGamesToDate = estimateTeamGamesToDate(now);
+  const rates = new Map<string, PlayerRates>();
+
+  for (const player of players) {
+    const isGoalie = player.primaryPosition === "G";
+    const byId = new Map(player.playerStats.map(s => [s.statId, s.value]));
+    const byName = new Map(player.playerStats.map(s => [normalizeStatName(s.statName), s.value]));
+
+    const gamesPlayed = byName.get("games played");
+    const games = isGoalie
+      ? byName.get("games started") ?? gamesPlayed ?? 0
+      : gamesPlayed ?? teamGamesToDate;
+    const startShare = isGoalie ? Math.min(1, games / teamGamesToDate) : 1;
+
+    const perGame: Record<string, number> = {};
+    const ratios: Record<string, number> = {};
+    for (const category of categories) {
+      if ((category.positionType === "G") !== isGoalie) continue;
+      const value = byId.get(category.statId) ?? byName.get(category.name);
+      if (value === undefined) continue;
+
+      if (isRatioCategory(category)) {
+        ratios[category.statId] = value;
+      } else if (games > 0) {
+        perGame[category.statId] = value / games;
+      }
+    }
+
+    rates.set(player.id, {
+      playerId: player.id,
+      name: player.name,
+      nhlTeam: player.teamAbbr,
+      isGoalie,
+      games,
+      startShare,
+      perGame,
+      ratios,
+    });
+  }
+
+  return rates;
+}
+
+/**
+ * Player IDs on each team's roster who are expected to play (not on IR, out or suspended)
+ */
+export async function getActiveRosters(leagueId: string, teamIds?: string[]): Promise<Map<string, string[]>> {
+  const rosterEntries = await prisma.rosterEntry.findMany({
+    where: { leagueId, ...(teamIds ? { teamId: { in: teamIds } } : {}) },
+    select: { teamId: true, playerId: true, isInjuredList: true, player: { select: { status: true } } },
+  });
+
+  const rosters = new Map<string, string[]>();
+  for (const entry of rosterEntries) {
+    if (entry.isInjuredList || INACTIVE_STATUSES.has(entry.player.status || "")) continue;
+    const roster = rosters.get(entry.teamId) || [];
+    roster.push(entry.playerId);
+    rosters.set(entry.teamId, roster);
+  }
+  return rosters;
+}
+
+/**
+ * Rates for a list of player IDs, skipping players with no stored stats
+ */
+export function toRosterRates(playerIds: string[], rates: Map<string, PlayerRates>): PlayerRates[] {
+  return playerIds
+    .map(id => rates.get(id))
+    .filter((r): r is PlayerRates => r !== undefined);
+}
+
+/**
+ * Expected games (starts for goalies) a player has in the schedule window
+ */
+export function expectedGames(rates: PlayerRates, window: ScheduleWindow): number {
+  return gamesForTeam(window, rates.nhlTeam) * rates.startShare;
+}
+
+// ===== PROJECTION =====
+
+export interface CategoryEstimate {
+  mean: number | null; // null when nobody on the roster contributes (e.g. no goalie starts left)
+  variance: number;
+}
+
+/**
+ * Rest-of-week mean and variance of one category for a roster
+ */
+export function estimateRosterCategory(
+  roster: PlayerRates[],
+  window: ScheduleWindow,
+  category: ScoringCategory
+): CategoryEstimate {
+  const contributors = roster.filter(p => (category.positionType === "G") === p.isGoalie);
+
+  if (isRatioCategory(category)) {
+    // Games-weighted average of each player's rate
+    let weighted = 0;
+    let totalGames = 0;
+    for (const player of contributors) {
+      const value = player.ratios[category.statId];
+      const games = expectedGames(player, window);
+      if (value === undefined || games <= 0) continue;
+      weighted += value * games;
+      totalGames += games;
+    }
+    if (totalGames === 0) return { mean: null, variance: 0 };
+
+    const mean = weighted / totalGames;
+    // GAA is an average of per-game goal counts; percentages are binomial proportions
+    const variance = category.name.includes("percentage")
+      ? (mean * (1 - mean)) / ((category.positionType === "G" ? GOALIE_EVENTS_PER_START : SKATER_EVENTS_PER_GAME) * totalGames)
+      : mean / totalGames;
+    return { mean, variance: Math.max(0, variance) };
+  }
+
+  let mean = 0;
+  let variance = 0;
+  for (const player of contributors) {
+    const rate = player.perGame[category.statId];
+    if (rate === undefined) continue;
+    const games = expectedGames(player, window);
+    mean += rate * games;
+    variance += category.name === "plus/minus"
+      ? games * PLUS_MINUS_VARIANCE_PER_GAME
+      : Math.abs(rate) * games; // Poisson
+  }
+  return { mean, variance };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152073) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Probability the first side wins a category (ties count as half a win)
+ */
+export function categoryWinProbability(
+  mine: number,
+  opponent: number,
+  variance: number,
+  isNegative: boolean
+): number {
+  const diff = isNegative ? opponent - mine : mine - opponent;
+  if (variance <= 0) {
+    return diff > 0 ? 1 : diff < 0 ? 0 : 0.5;
+  }
+  return normalCdf(diff / Math.sqrt(variance));
+}
+
+/**
+ * Week-to-date value plus the rest-of-week estimate.
+ * Rate stats blend the two by how much of the week has been played.
+ */
+export function projectCategory(
+  current: number | null,
+  rest: CategoryEstimate,
+  category: ScoringCategory,
+  elapsedFraction: number
+): { value: number; variance: number } {
+  if (rest.mean === null) {
+    return { value: current ?? 0, variance: 0 };
+  }
+
+  if (isRatioCategory(category)) {
+    if (current === null || elapsedFraction <= 0) {
+      return { value: rest.mean, variance: rest.variance };
+    }
+    const restFraction = 1 - elapsedFraction;
+    return {
+      value: current * elapsedFraction + rest.mean * restFraction,
+      variance: rest.variance * restFraction * restFraction,
+    };
+  }
+
+  return { value: (current ?? 0) + rest.mean, variance: rest.variance };
+}
+
+function readStats(stats: unknown): Record<string, number> | null {
+  if (!stats || typeof stats !== "object") return null;
+  return stats as Record<string, number>;
+}
+
+/**
+ * Project a team's current (or next) weekly matchup category by category.
+ * Returns null if no matchups have been synced for the team.
+ */
+export async function projectMatchup(
+  leagueId: string,
+  teamId: string,
+  now: Date = new Date()
+): Promise<MatchupProjection | null> {
+  const team = await prisma.team.findFirst({
+    where: { id: teamId, leagueId },
+    select: { id: true, name: true, teamKey: true },
+  });
+  if (!team) {
+    throw new Error(`Team ${teamId} not found`);
+  }
+
+  const matchups = await prisma.matchup.findMany({
+    where: { leagueId, teamKey: team.teamKey },
+    orderBy: { week: "asc" },
+  });
+  if (matchups.length === 0) return null;
+
+  // This week's matchup, else the next one, else the last one played
+  const matchup =
+    matchups.find(m => m.weekStart <= now && m.weekEnd >= now) ||
+    matchups.find(m => m.weekStart > now) ||
+    matchups[matchups.length - 1];
+
+  const opponentTeam = matchup.opponentTeamKey
+    ? await prisma.team.findFirst({
+        where: { leagueId, teamKey: matchup.opponentTeamKey },
+        select: { id: true, name: true },
+      })
+    : null;
+  const opponentMatchup = matchup.opponentTeamKey
+    ? await prisma.matchup.findUnique({
+        where: { leagueId_week_teamKey: { leagueId, week: matchup.week, teamKey: matchup.opponentTeamKey } },
+      })
+    : null;
+
+  // Remaining schedule: today (or the week's first day) through the end of the week
+  const weekStart = toDateString(matchup.weekStart);
+  const weekEnd = toDateString(matchup.weekEnd);
+  const today = toDateString(now);
+  const restFrom = today > weekStart ? today : weekStart;
+  const window = await getScheduleWindow(restFrom, weekEnd);
+  const totalDays = daysInRange(weekStart, weekEnd);
+  const elapsedFraction = totalDays > 0 ? 1 - daysInRange(restFrom, weekEnd) / totalDays : 1;
+
+  const scoringConfig = await getLeagueScoringConfig(leagueId);
+  const categories = [...scoringConfig.skaterCategories, ...scoringConfig.goalieCategories];
+
+  const teamIds = [team.id, ...(opponentTeam ? [opponentTeam.id] : [])];
+  const activeRosters = await getActiveRosters(leagueId, teamIds);
+  const rates = await getPlayerRates(leagueId, [...activeRosters.values()].flat(), categories, now);
+
+  const myRoster = toRosterRates(activeRosters.get(team.id) || [], rates);
+  const opponentRoster = toRosterRates(opponentTeam ? activeRosters.get(opponentTeam.id) || [] : [], rates);
+
+  const myStats = readStats(matchup.stats);
+  const opponentStats = readStats(opponentMatchup?.stats);
+
+  const projections: CategoryProjection[] = categories.map(category => {
+    const currentMine = myStats?.[category.statId] ?? null;
+    const currentOpponent = opponentStats?.[category.statId] ?? null;
+    const mine = projectCategory(currentMine, estimateRosterCategory(myRoster, window, category), category, elapsedFraction);
+    const opponent = projectCategory(currentOpponent, estimateRosterCategory(opponentRoster, window, category), category, elapsedFraction);
+
+    return {
+      statId: category.statId,
+      label: category.label,
+      abbrev: category.abbrev,
+      positionType: category.positionType,
+      isNegative: category.isNegative,
+      isRatio: isRatioCategory(category),
+      current: { mine: currentMine, opponent: currentOpponent },
+      projected: { mine: mine.value, opponent: opponent.value },
+      winProbability: categoryWinProbability(mine.value, opponent.value, mine.variance + opponent.variance, category.isNegative),
+    };
+  });
+
+  const remainingGames = (roster: PlayerRates[]) =>
+    roster.reduce((sum, p) => sum + expectedGames(p, window), 0);
+
+  return {
+    week: matchup.week,
+    weekStart,
+    weekEnd,
+    status: matchup.status,
+    team: { id: team.id, name: team.name },
+    opponent: opponentTeam,
+    scheduleSource: window.source,
+    remainingGames: { mine: remainingGames(myRoster), opponent: remainingGames(opponentRoster) },
+    categories: projections,
+    expectedCategoryWins: projections.reduce((sum, c) => sum + c.winProbability, 0),
+    syncedAt: matchup.updatedAt.toISOString(),
+  };
+}
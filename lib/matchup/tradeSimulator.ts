@@ -0,0 +1,216 @@
+/**
+ * Trade impact simulator.
+ *
+ * Monte Carlo simulation of an average week against every other team in the league,
+ * before and after a proposed trade. Each team's weekly category totals are built
+ * from its active players' per-game rates, then sampled (Poisson for counting stats,
+ * normal for rate stats and plus/minus) and compared category by category.
+ */
+
+import prisma from "@/lib/prisma";
+import { getLeagueScoringConfig, type ScoringCategory } from "@/lib/yahoo/scoringConfig";
+import { averageScheduleWindow } from "@/lib/nhl/schedule";
+import {
+  estimateRosterCategory,
+  getActiveRosters,
+  getPlayerRates,
+  isRatioCategory,
+  toRosterRates,
+  type CategoryEstimate,
+} from "@/lib/matchup/projector";
+import type { TeamTradeImpact, TradeImpact } from "@/lib/matchup/types";
+
+export interface TradeProposal {
+  teamAId: string;
+  teamBId: string;
+  teamAPlayerIds: string[]; // Players team A sends to team B
+  teamBPlayerIds: string[]; // Players team B sends to team A
+}
+
+const DEFAULT_ITERATIONS = 2000;
+const MAX_ITERATIONS = 10000;
+const DAYS_PER_WEEK = 7;
+
+// Above this mean a Poisson draw is indistinguishable from a rounded normal
+const POISSON_NORMAL_THRESHOLD = 30;
+
+// ===== SAMPLING =====
+
+type Random = () => number;
+
+/**
+ * Small seeded PRNG (mulberry32) so the same trade always simulates the same way
+ */
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(random: Random, mean: number, sd: number): number {
+  // Box-Muller
+  const u = 1 - random();
+  const v = random();
+  return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function samplePoisson(random: Random, mean: number): number {
+  if (mean <= 0) return 0;
+  if (mean > POISSON_NORMAL_THRESHOLD) {
+    return Math.max(0, Math.round(sampleNormal(random, mean, Math.sqrt(mean))));
+  }
+
+  // Knuth
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * One simulated week for a team. NaN marks a category the team can't score
+ * (e.g. GAA with no active goalie) - it loses that category.
+ */
+function sampleWeek(random: Random, estimates: CategoryEstimate[], categories: ScoringCategory[]): number[] {
+  return estimates.map((estimate, i) => {
+    if (estimate.mean === null) return NaN;
+    const category = categories[i];
+    if (isRatioCategory(category) || category.name === "plus/minus") {
+      return sampleNormal(random, estimate.mean, Math.sqrt(estimate.variance));
+    }
+    return samplePoisson(random, estimate.mean);
+  });
+}
+
+/**
+ * Category wins for one side of a simulated matchup (ties count as half)
+ */
+function categoryResult(mine: number, theirs: number, isNegative: boolean): number {
+  if (Number.isNaN(mine)) return Number.isNaN(theirs) ? 0.5 : 0;
+  if (Number.isNaN(theirs)) return 1;
+  if (mine === theirs) return 0.5;
+  return (isNegative ? mine < theirs : mine > theirs) ? 1 : 0;
+}
+
+// ===== SIMULATION =====
+
+/**
+ * Expected weekly category wins for both trading teams, before and after the trade,
+ * against every other team in the league
+ */
+export async function simulateTradeImpact(
+  leagueId: string,
+  trade: TradeProposal,
+  options: { iterations?: number; seed?: number } = {}
+): Promise<TradeImpact> {
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(1, options.iterations ?? DEFAULT_ITERATIONS));
+  const random = createRandom(options.seed ?? 1);
+
+  const teams = await prisma.team.findMany({
+    where: { leagueId },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+  const teamA = teams.find(t => t.id === trade.teamAId);
+  const teamB = teams.find(t => t.id === trade.teamBId);
+  if (!teamA || !teamB) {
+    throw new Error("Both trade teams must belong to this league");
+  }
+  if (teamA.id === teamB.id) {
+    throw new Error("A trade needs two different teams");
+  }
+
+  const scoringConfig = await getLeagueScoringConfig(leagueId);
+  const categories = [...scoringConfig.skaterCategories, ...scoringConfig.goalieCategories];
+
+  // Rosters before and after the players change hands (injured players move but don't play)
+  const before = await getActiveRosters(leagueId);
+  const after = new Map(before);
+  const aSends = new Set(trade.teamAPlayerIds);
+  const bSends = new Set(trade.teamBPlayerIds);
+  const rosterA = before.get(teamA.id) || [];
+  const rosterB = before.get(teamB.id) || [];
+  after.set(teamA.id, [...rosterA.filter(id => !aSends.has(id)), ...rosterB.filter(id => bSends.has(id))]);
+  after.set(teamB.id, [...rosterB.filter(id => !bSends.has(id)), ...rosterA.filter(id => aSends.has(id))]);
+
+  const rates = await getPlayerRates(leagueId, [...before.values()].flat(), categories);
+  const window = averageScheduleWindow(DAYS_PER_WEEK);
+  const estimate = (playerIds: string[]) => {
+    const roster = toRosterRates(playerIds, rates);
+    return categories.map(category => estimateRosterCategory(roster, window, category));
+  };
+
+  const beforeEstimates = new Map(teams.map(t => [t.id, estimate(before.get(t.id) || [])]));
+  const afterEstimates = new Map(beforeEstimates);
+  afterEstimates.set(teamA.id, estimate(after.get(teamA.id) || []));
+  afterEstimates.set(teamB.id, estimate(after.get(teamB.id) || []));
+
+  const sides = [teamA, teamB];
+  const opponentsOf = (teamId: string) => teams.filter(t => t.id !== teamId);
+
+  // wins[side][scenario][opponentId] and categoryWins[side][scenario][categoryIndex]
+  const wins = sides.map(() => [new Map<string, number>(), new Map<string, number>()]);
+  const categoryWins = sides.map(() => [new Array(categories.length).fill(0), new Array(categories.length).fill(0)]);
+
+  for (let i = 0; i < iterations; i++) {
+    const beforeWeek = new Map(teams.map(t => [t.id, sampleWeek(random, beforeEstimates.get(t.id)!, categories)]));
+    const afterWeek = new Map(beforeWeek);
+    afterWeek.set(teamA.id, sampleWeek(random, afterEstimates.get(teamA.id)!, categories));
+    afterWeek.set(teamB.id, sampleWeek(random, afterEstimates.get(teamB.id)!, categories));
+
+    sides.forEach((side, s) => {
+      [beforeWeek, afterWeek].forEach((week, scenario) => {
+        const mine = week.get(side.id)!;
+        for (const opponent of opponentsOf(side.id)) {
+          const theirs = week.get(opponent.id)!;
+          let total = 0;
+          categories.forEach((category, c) => {
+            const result = categoryResult(mine[c], theirs[c], category.isNegative);
+            total += result;
+            categoryWins[s][scenario][c] += result;
+          });
+          const byOpponent = wins[s][scenario];
+          byOpponent.set(opponent.id, (byOpponent.get(opponent.id) || 0) + total);
+        }
+      });
+    });
+  }
+
+  const impacts: TeamTradeImpact[] = sides.map((side, s) => {
+    const opponents = opponentsOf(side.id).map(opponent => ({
+      teamId: opponent.id,
+      name: opponent.name,
+      before: (wins[s][0].get(opponent.id) || 0) / iterations,
+      after: (wins[s][1].get(opponent.id) || 0) / iterations,
+    }));
+    const matchups = Math.max(1, opponents.length) * iterations;
+    const beforeAvg = opponents.reduce((sum, o) => sum + o.before, 0) / Math.max(1, opponents.length);
+    const afterAvg = opponents.reduce((sum, o) => sum + o.after, 0) / Math.max(1, opponents.length);
+
+    return {
+      teamId: side.id,
+      name: side.name,
+      before: beforeAvg,
+      after: afterAvg,
+      change: afterAvg - beforeAvg,
+      opponents,
+      categories: categories.map((category, c) => ({
+        statId: category.statId,
+        abbrev: category.abbrev,
+        before: categoryWins[s][0][c] / matchups,
+        after: categoryWins[s][1][c] / matchups,
+      })),
+    };
+  });
+
+  return { iterations, categoryCount: categories.length, teams: impacts };
+}
@@ -0,0 +1,61 @@
+/**
+ * Weekly head-to-head matchup projection data structures
+ */
+
+import type { ScheduleSource } from "@/lib/nhl/schedule";
+
+export interface CategoryProjection {
+  statId: string;
+  label: string;          // "Goals"
+  abbrev: string;         // "G"
+  positionType: "P" | "G";
+  isNegative: boolean;    // Lower is better (GAA)
+  isRatio: boolean;       // Rate stat (GAA, SV%) - averaged, not summed
+  current: { mine: number | null; opponent: number | null };   // Week-to-date (null before the week starts)
+  projected: { mine: number; opponent: number };               // End of week
+  winProbability: number; // 0-1, ties count as half a win
+}
+
+export interface MatchupProjection {
+  week: number;
+  weekStart: string;      // YYYY-MM-DD
+  weekEnd: string;        // YYYY-MM-DD
+  status: string;         // Yahoo matchup status
+  team: { id: string; name: string };
+  opponent: { id: string; name: string } | null;
+  scheduleSource: ScheduleSource;
+  remainingGames: { mine: number; opponent: number }; // Player-games left this week
+  categories: CategoryProjection[];
+  expectedCategoryWins: number;
+  syncedAt: string;       // When the matchup was last synced from Yahoo
+}
+
+export interface TradeImpactOpponent {
+  teamId: string;
+  name: string;
+  before: number;         // Expected category wins per week against this team
+  after: number;
+}
+
+export interface TradeImpactCategory {
+  statId: string;
+  abbrev: string;
+  before: number;         // Share of weekly matchups this category is won (0-1)
+  after: number;
+}
+
+export interface TeamTradeImpact {
+  teamId: string;
+  name: string;
+  before: number;         // Expected category wins per week, averaged over every other team
+  after: number;
+  change: number;
+  opponents: TradeImpactOpponent[];
+  categories: TradeImpactCategory[];
+}
+
+export interface TradeImpact {
+  iterations: number;
+  categoryCount: number;
+  teams: TeamTradeImpact[]; // The two trading teams
+}
@@ -0,0 +1,217 @@
+/**
+ * NHL schedule lookups: how many games each NHL team plays in a date range.
+ *
+ * Uses the public NHL schedule API. When it can't be reached (offline, rate limited),
+ * falls back to the exported fixture, and finally to an average-schedule estimate.
+ *
+ *   NHL_SCHEDULE_FIXTURE=data/nhl-schedule.json   (default)
+ */
+
+import fs from "fs";
+import path from "path";
+
+// ===== TYPES =====
+
+export type ScheduleSource = "nhl-api" | "fixture" | "estimate";
+
+export interface ScheduledGame {
+  date: string; // YYYY-MM-DD
+  away: string; // NHL tri-code
+  home: string;
+}
+
+export interface ScheduleWindow {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+  source: ScheduleSource;
+  gamesByTeam: Record<string, number>; // NHL tri-code -> games in the window
+  defaultGames: number;                // Used for teams with no schedule entry
+}
+
+interface ScheduleFixture {
+  coverage: { start: string; end: string } | null;
+  games: ScheduledGame[];
+}
+
+// ===== CONSTANTS =====
+
+const NHL_SCHEDULE_URL = "https://api-web.nhle.com/v1/schedule";
+const DEFAULT_FIXTURE_PATH = path.join("data", "nhl-schedule.json");
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// 82 games over a ~186 day regular season
+const AVERAGE_GAMES_PER_DAY = 82 / 186;
+
+// Yahoo uses a few abbreviations that differ from NHL tri-codes
+const YAHOO_TO_NHL_CODE: Record<string, string> = {
+  TB: "TBL",
+  NJ: "NJD",
+  SJ: "SJS",
+  LA: "LAK",
+  MON: "MTL",
+  CLS: "CBJ",
+  WAS: "WSH",
+  UTAH: "UTA",
+  ARI: "UTA",
+};
+
+const windowCache = new Map<string, { window: ScheduleWindow; fetchedAt: number }>();
+let cachedFixture: { path: string; fixture: ScheduleFixture } | null = null;
+
+// ===== HELPERS =====
+
+/**
+ * Map a Yahoo team abbreviation ("TB", "Mon") to an NHL tri-code ("TBL", "MTL")
+ */
+export function toNhlTeamCode(abbr: string | null | undefined): string | null {
+  if (!abbr) return null;
+  const upper = abbr.trim().toUpperCase();
+  if (!upper) return null;
+  return YAHOO_TO_NHL_CODE[upper] || upper;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Number of calendar days in an inclusive date range (0 if the range is empty)
+ */
+export function daysInRange(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime();
+  return Math.max(0, Math.round(ms / 86400000) + 1);
+}
+
+/**
+ * Expected games for a team over a number of days, assuming an average schedule
+ */
+export function estimateGamesInDays(days: number): number {
+  return days * AVERAGE_GAMES_PER_DAY;
+}
+
+/**
+ * A schedule-free window where every team plays an average number of games
+ */
+export function averageScheduleWindow(days: number): ScheduleWindow {
+  return { from: "", to: "", source: "estimate", gamesByTeam: {}, defaultGames: estimateGamesInDays(days) };
+}
+
+/**
+ * Games a team (Yahoo abbreviation) plays in the window
+ */
+export function gamesForTeam(window: ScheduleWindow, teamAbbr: string | null | undefined): number {
+  const code = toNhlTeamCode(teamAbbr);
+  if (!code || window.source === "estimate") return window.defaultGames;
+  // A team missing from a real schedule has no games in the window
+  return window.gamesByTeam[code] ?? 0;
+}
+
+function countGames(games: ScheduledGame[], from: string, to: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const game of games) {
+    if (game.date < from || game.date > to) continue;
+    counts[game.away] = (counts[game.away] || 0) + 1;
+    counts[game.home] = (counts[game.home] || 0) + 1;
+  }
+  return counts;
+}
+
+// ===== SOURCES =====
+
+/**
+ * Fetch all games between two dates from the NHL schedule API (one call per week)
+ */
+export async function fetchNhlSchedule(from: string, to: string): Promise<ScheduledGame[]> {
+  const games: ScheduledGame[] = [];
+  let cursor = from;
+
+  while (cursor <= to) {
+    const response = await fetch(`${NHL_SCHEDULE_URL}/${cursor}`, {
+      headers: { "User-Agent": "AiTradr/1.0" },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const gameWeek: Array<{ date: string; games?: Array<{ awayTeam?: { abbrev?: string }; homeTeam?: { abbrev?: string } }> }> =
+      data.gameWeek || [];
+    if (gameWeek.length === 0) break;
+
+    for (const day of gameWeek) {
+      for (const game of day.games || []) {
+        const away = game.awayTeam?.abbrev;
+        const home = game.homeTeam?.abbrev;
+        if (away && home) {
+          games.push({ date: day.date, away, home });
+        }
+      }
+    }
+
+    cursor = addDays(gameWeek[gameWeek.length - 1].date, 1);
+  }
+
+  return games.filter(g => g.date >= from && g.date <= to);
+}
+
+export function getScheduleFixturePath(): string {
+  return path.resolve(process.cwd(), process.env.NHL_SCHEDULE_FIXTURE || DEFAULT_FIXTURE_PATH);
+}
+
+function loadFixture(): ScheduleFixture | null {
+  const fixturePath = getScheduleFixturePath();
+  if (cachedFixture?.path === fixturePath) return cachedFixture.fixture;
+
+  try {
+    if (!fs.existsSync(fixturePath)) return null;
+    const parsed = JSON.parse(fs.readFileSync(fixturePath, "utf-8")) as ScheduleFixture;
+    const fixture = { coverage: parsed.coverage, games: parsed.games || [] };
+    cachedFixture = { path: fixturePath, fixture };
+    return fixture;
+  } catch (error) {
+    console.error("[NHL Schedule] Error loading schedule fixture:", error);
+    return null;
+  }
+}
+
+// ===== PUBLIC API =====
+
+/**
+ * Games per NHL team between two dates (inclusive)
+ */
+export async function getScheduleWindow(from: string, to: string): Promise<ScheduleWindow> {
+  const days = daysInRange(from, to);
+  const defaultGames = estimateGamesInDays(days);
+
+  if (days === 0) {
+    return { from, to, source: "nhl-api", gamesByTeam: {}, defaultGames: 0 };
+  }
+
+  const cacheKey = `${from}:${to}`;
+  const cached = windowCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.window;
+  }
+
+  try {
+    const games = await fetchNhlSchedule(from, to);
+    const window: ScheduleWindow = { from, to, source: "nhl-api", gamesByTeam: countGames(games, from, to), defaultGames };
+    windowCache.set(cacheKey, { window, fetchedAt: Date.now() });
+    return window;
+  } catch (error) {
+    console.warn("[NHL Schedule] NHL API unavailable, falling back to fixture:", error instanceof Error ? error.message : error);
+  }
+
+  const fixture = loadFixture();
+  if (fixture?.coverage && fixture.coverage.start <= from && fixture.coverage.end >= to) {
+    return { from, to, source: "fixture", gamesByTeam: countGames(fixture.games, from, to), defaultGames };
+  }
+
+  console.warn(`[NHL Schedule] No schedule data for ${from} - ${to}, using average schedule`);
+  return { from, to, source: "estimate", gamesByTeam: {}, defaultGames };
+}
@@ -0,0 +1,271 @@
+/**
+ * Rest-of-season (ROS) projections.
+ *
+ * Turns season-to-date stats (PlayerStat) and past seasons (PlayerSeasonStat) into
+ * per-game rates, regressing small current-season samples toward the player's history,
+ * then multiplies by the games each player's NHL team has left on its schedule.
+ * Leagues valued on "ros" use these totals instead of accumulated stats, so extra games
+ * played so far no longer count as value.
+ */
+
+import prisma from "@/lib/prisma";
+import { normalizeStatName, toCategoryStatName } from "@/lib/yahoo/scoringConfig";
+import { estimateTeamGamesToDate } from "@/lib/matchup/projector";
+import {
+  averageScheduleWindow,
+  gamesForTeam,
+  getScheduleWindow,
+  type ScheduleSource,
+  type ScheduleWindow,
+} from "@/lib/nhl/schedule";
+
+// ===== CONSTANTS =====
+
+// Regular season ends mid-April
+const SEASON_END_MONTH_DAY = "04-16";
+
+const REGULAR_SEASON_GAMES = 82;
+
+// Games of history a current-season rate is regressed with. A skater 20 games in is
+// half this season, half history; by 60 games this season dominates.
+const SKATER_PRIOR_GAMES = 20;
+const GOALIE_PRIOR_STARTS = 10;
+
+// Most recent past season 60%, the one before 40% (same as the historical value blend)
+const HISTORY_SEASON_WEIGHTS = [0.6, 0.4];
+
+// ===== TYPES =====
+
+export interface SeasonLine {
+  season: string;                 // e.g. "20242025"
+  gamesPlayed: number;
+  stats: Map<string, number>;     // Season totals by category stat name
+}
+
+export interface ProjectionInput {
+  isGoalie: boolean;
+  gamesPlayed: number;            // This season (games started for goalies)
+  current: Map<string, number>;   // Season-to-date totals by category stat name
+  history: SeasonLine[];          // Past seasons, any order
+}
+
+export interface RestOfSeasonProjection {
+  gamesPlayed: number;
+  remainingGames: number;         // Expected games (starts for goalies) left this season
+  historyShare: number;           // Share of each rate taken from history (0-1)
+  perGame: Record<string, number>; // Regressed rate per game; rate stats (GAA, SV%) as-is
+  totals: Record<string, number>;  // Projected rest-of-season totals; rate stats as-is
+}
+
+export interface LeagueProjections {
+  teamGamesToDate: number;
+  teamGamesRemaining: number;     // Average across NHL teams
+  scheduleSource: ScheduleSource;
+  players: Map<string, RestOfSeasonProjection>;
+}
+
+// ===== RATES =====
+
+/**
+ * Rate stats are projected as-is instead of per game
+ */
+export function isRateStat(statName: string): boolean {
+  return statName.includes("average") || statName.includes("percentage");
+}
+
+/**
+ * Per-game rates from the two most recent past seasons, weighted 60/40, and the
+ * number of games behind them
+ */
+export function historicalRates(history: SeasonLine[]): { perGame: Map<string, number>; games: number } {
+  const seasons = history
+    .filter(line => line.gamesPlayed > 0)
+    .sort((a, b) => b.season.localeCompare(a.season))
+    .slice(0, HISTORY_SEASON_WEIGHTS.length);
+
+  const weighted = new Map<string, { sum: number; weight: number }>();
+  seasons.forEach((line, index) => {
+    const weight = HISTORY_SEASON_WEIGHTS[index];
+    for (const [stat, value] of line.stats) {
+      const rate = isRateStat(stat) ? value : value / line.gamesPlayed;
+      const entry = weighted.get(stat) || { sum: 0, weight: 0 };
+      entry.sum += rate * weight;
+      entry.weight += weight;
+      weighted.set(stat, entry);
+    }
+  });
+
+  const perGame = new Map<string, number>();
+  for (const [stat, { sum, weight }] of weighted) {
+    perGame.set(stat, sum / weight);
+  }
+
+  return { perGame, games: seasons.reduce((sum, line) => sum + line.gamesPlayed, 0) };
+}
+
+/**
+ * Project one player: regressed per-game rates × their remaining games.
+ * Goalies are expected to keep their share of starts (from history if they have
+ * none yet this season).
+ */
+export function projectRestOfSeason(
+  input: ProjectionInput,
+  teamGamesRemaining: number,
+  teamGamesToDate: number
+): RestOfSeasonProjection {
+  const history = historicalRates(input.history);
+  const gamesPlayed = input.gamesPlayed;
+
+  // A thin history can only pull the rate as far as the games behind it
+  const priorGames = Math.min(input.isGoalie ? GOALIE_PRIOR_STARTS : SKATER_PRIOR_GAMES, history.games);
+
+  let startShare = 1;
+  if (input.isGoalie) {
+    const historySeasons = Math.min(input.history.filter(line => line.gamesPlayed > 0).length, HISTORY_SEASON_WEIGHTS.length);
+    startShare = gamesPlayed > 0
+      ? Math.min(1, gamesPlayed / Math.max(1, teamGamesToDate))
+      : historySeasons > 0 ? Math.min(1, history.games / (historySeasons * REGULAR_SEASON_GAMES)) : 0;
+  }
+  const remainingGames = teamGamesRemaining * startShare;
+
+  const perGame: Record<string, number> = {};
+  const totals: Record<string, number> = {};
+  const stats = new Set([...input.current.keys(), ...history.perGame.keys()]);
+
+  for (const stat of stats) {
+    const isRate = isRateStat(stat);
+    const current = input.current.get(stat);
+    const historical = history.perGame.get(stat);
+
+    let rate: number;
+    if (current === undefined || gamesPlayed === 0) {
+      rate = historical ?? 0;
+    } else {
+      const currentRate = isRate ? current : current / gamesPlayed;
+      rate = historical === undefined
+        ? currentRate
+        : (currentRate * gamesPlayed + historical * priorGames) / (gamesPlayed + priorGames);
+    }
+
+    perGame[stat] = rate;
+    totals[stat] = isRate ? rate : rate * remainingGames;
+  }
+
+  return {
+    gamesPlayed,
+    remainingGames,
+    historyShare: gamesPlayed + priorGames > 0 ? priorGames / (gamesPlayed + priorGames) : 0,
+    perGame,
+    totals,
+  };
+}
+
+/**
+ * Projected totals on the same scale as season-to-date stats (× games to date / games
+ * remaining). The value formula's point and goal thresholds were tuned on to-date
+ * totals; the rescale keeps them meaningful while a lighter or heavier remaining
+ * schedule still moves a player's numbers.
+ */
+export function toSeasonScale(
+  projection: RestOfSeasonProjection,
+  teamGamesToDate: number,
+  teamGamesRemaining: number
+): Map<string, number> {
+  const scale = teamGamesRemaining > 0 ? teamGamesToDate / teamGamesRemaining : 0;
+  const stats = new Map<string, number>();
+  for (const [stat, total] of Object.entries(projection.totals)) {
+    stats.set(stat, isRateStat(stat) ? total : total * scale);
+  }
+  return stats;
+}
+
+// ===== LEAGUE PROJECTIONS =====
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Last day of the regular season (YYYY-MM-DD) for a league season ("2025" -> "2026-04-16")
+ */
+export function seasonEndDate(season: string): string {
+  return `${parseInt(season, 10) + 1}-${SEASON_END_MONTH_DAY}`;
+}
+
+function averageTeamGames(window: ScheduleWindow): number {
+  const counts = Object.values(window.gamesByTeam);
+  if (window.source === "estimate" || counts.length === 0) return window.defaultGames;
+  return counts.reduce((sum, games) => sum + games, 0) / counts.length;
+}
+
+function toSeasonLines(
+  seasonStats: Array<{ season: string; statName: string; value: number; gamesPlayed: number | null }>,
+  seasonYear: number
+): SeasonLine[] {
+  const bySeason = new Map<string, SeasonLine>();
+  for (const stat of seasonStats) {
+    // Only seasons before the league's season - the current one is PlayerStat
+    if (parseInt(stat.season.slice(0, 4), 10) >= seasonYear) continue;
+
+    const line = bySeason.get(stat.season) || { season: stat.season, gamesPlayed: 0, stats: new Map() };
+    line.gamesPlayed = Math.max(line.gamesPlayed, stat.gamesPlayed ?? 0);
+    line.stats.set(toCategoryStatName(stat.statName), stat.value);
+    bySeason.set(stat.season, line);
+  }
+  return Array.from(bySeason.values());
+}
+
+/**
+ * Rest-of-season projections for every player with stats in the league (or just the
+ * given players)
+ */
+export async function getLeagueRestOfSeasonProjections(
+  leagueId: string,
+  playerIds?: string[],
+  now: Date = new Date()
+): Promise<LeagueProjections> {
+  const league = await prisma.league.findUnique({ where: { id: leagueId }, select: { season: true } });
+  if (!league) {
+    throw new Error(`League not found: ${leagueId}`);
+  }
+
+  const seasonYear = parseInt(league.season, 10);
+  const today = toDateString(now);
+  const seasonEnd = seasonEndDate(league.season);
+
+  // After the regular season nobody has games left
+  const window = today > seasonEnd ? averageScheduleWindow(0) : await getScheduleWindow(today, seasonEnd);
+  const teamGamesToDate = estimateTeamGamesToDate(now);
+  const teamGamesRemaining = averageTeamGames(window);
+
+  const leaguePlayers = await prisma.player.findMany({
+    where: {
+      playerStats: { some: { leagueId } },
+      ...(playerIds ? { id: { in: playerIds } } : {}),
+    },
+    include: {
+      playerStats: { where: { leagueId } },
+      seasonStats: true,
+    },
+  });
+
+  const projections = new Map<string, RestOfSeasonProjection>();
+  for (const player of leaguePlayers) {
+    const isGoalie = player.primaryPosition === "G";
+    const current = new Map(player.playerStats.map(s => [normalizeStatName(s.statName), s.value]));
+
+    // Same games rule as the matchup projector
+    const gamesPlayed = current.get("games played");
+    const games = isGoalie
+      ? current.get("games started") ?? gamesPlayed ?? 0
+      : gamesPlayed ?? teamGamesToDate;
+
+    projections.set(player.id, projectRestOfSeason(
+      { isGoalie, gamesPlayed: games, current, history: toSeasonLines(player.seasonStats, seasonYear) },
+      gamesForTeam(window, player.teamAbbr),
+      teamGamesToDate
+    ));
+  }
+
+  return { teamGamesToDate, teamGamesRemaining, scheduleSource: window.source, players: projections };
+}
@@ -0,0 +1,394 @@
+/**
+ * Trade proposals between managers
+ * A manager sends a trade from their own team; the other team's manager accepts, rejects or
+ * counters it before it expires. A counter is a new proposal in the other direction that
+ * closes the one it answers. Both sides are valued from PlayerValue / DraftPickValue when sent.
+ * Accepted proposals are submitted to Yahoo from yahooSubmission.ts.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { findLeagueMembership } from "@/lib/leagues/resolve";
+import { YAHOO_TRADE_COMPLETED_STATUS, isFinalYahooTradeStatus } from "@/lib/yahoo/trades";
+import type {
+  NewTradeProposal,
+  ProposalAsset,
+  ProposalInbox,
+  ProposalResponse,
+  ProposalStatus,
+  TradeProposalSide,
+  TradeProposalSummary,
+  YahooTradeSubmission,
+} from "./types";
+
+// ===== CONSTANTS =====
+
+// Unanswered proposals expire after this many days
+export const PROPOSAL_EXPIRY_DAYS = 7;
+
+const MAX_INBOX_PROPOSALS = 100;
+
+// Only an open proposal can change status; every other status is final
+const NEXT_STATUSES: Record<ProposalStatus, ProposalStatus[]> = {
+  proposed: ["countered", "accepted", "rejected", "expired"],
+  countered: [],
+  accepted: [],
+  rejected: [],
+  expired: [],
+};
+
+// ===== ERRORS =====
+
+export class TradeProposalError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "TradeProposalError";
+  }
+}
+
+// ===== STATUS =====
+
+export function canTransition(from: ProposalStatus, to: ProposalStatus): boolean {
+  return NEXT_STATUSES[from].includes(to);
+}
+
+/**
+ * Status as of now - an unanswered proposal past its expiry is expired even before it's stored as such
+ */
+export function effectiveStatus(status: ProposalStatus, expiresAt: Date, now: Date): ProposalStatus {
+  return status === "proposed" && expiresAt <= now ? "expired" : status;
+}
+
+// ===== VALUES =====
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * One side of a proposal with each asset's current value (0 when it has none)
+ */
+export function buildProposalSide(
+  playerIds: string[],
+  picks: number[],
+  players: Map<string, { name: string; value: number | null }>,
+  pickValues: Map<number, number>
+): TradeProposalSide {
+  const assets: ProposalAsset[] = [
+    ...playerIds.map(playerId => ({
+      kind: "player" as const,
+      playerId,
+      round: null,
+      name: players.get(playerId)?.name ?? "Unknown player",
+      value: round1(players.get(playerId)?.value ?? 0),
+    })),
+    ...picks.map(round => ({
+      kind: "pick" as const,
+      playerId: null,
+      round,
+      name: `Round ${round} pick`,
+      value: round1(pickValues.get(round) ?? 0),
+    })),
+  ];
+
+  return {
+    playerIds,
+    picks,
+    assets,
+    totalValue: round1(assets.reduce((sum, asset) => sum + asset.value, 0)),
+  };
+}
+
+async function valueSides(
+  leagueId: string,
+  fromPlayerIds: string[],
+  fromPicks: number[],
+  toPlayerIds: string[],
+  toPicks: number[]
+): Promise<{ fromSide: TradeProposalSide; toSide: TradeProposalSide }> {
+  const [players, pickValues] = await Promise.all([
+    prisma.player.findMany({
+      where: { id: { in: [...fromPlayerIds, ...toPlayerIds] } },
+      select: { id: true, name: true, playerValues: { where: { leagueId }, select: { score: true } } },
+    }),
+    prisma.draftPickValue.findMany({ where: { leagueId } }),
+  ]);
+
+  const playerMap = new Map(players.map(p => [p.id, { name: p.name, value: p.playerValues[0]?.score ?? null }]));
+  const pickMap = new Map(pickValues.map(v => [v.round, v.score]));
+
+  return {
+    fromSide: buildProposalSide(fromPlayerIds, fromPicks, playerMap, pickMap),
+    toSide: buildProposalSide(toPlayerIds, toPicks, playerMap, pickMap),
+  };
+}
+
+// ===== VALIDATION =====
+
+/**
+ * Fails unless every player is on the team's roster and every pick is the team's
+ */
+async function assertTeamOwns(
+  team: { id: string; name: string; leagueId: string },
+  playerIds: string[],
+  picks: number[]
+): Promise<void> {
+  const [rosterCount, ownedPicks] = await Promise.all([
+    prisma.rosterEntry.count({ where: { teamId: team.id, playerId: { in: playerIds } } }),
+    prisma.teamDraftPick.findMany({
+      where: { teamId: team.id, leagueId: team.leagueId, round: { in: picks } },
+      select: { round: true },
+    }),
+  ]);
+
+  if (rosterCount !== playerIds.length) {
+    throw new TradeProposalError(`Some players are no longer on ${team.name}'s roster`, 400);
+  }
+  const owned = new Set(ownedPicks.map(p => p.round));
+  const missing = picks.filter(round => !owned.has(round));
+  if (missing.length > 0) {
+    throw new TradeProposalError(`${team.name} doesn't own a round ${missing.join(", ")} pick`, 400);
+  }
+}
+
+export async function getMyTeamId(userId: string, leagueId: string): Promise<string> {
+  const membership = await findLeagueMembership(userId, leagueId);
+  if (!membership?.teamId) {
+    throw new TradeProposalError("Your team in this league isn't linked yet - refresh the league first", 403);
+  }
+  return membership.teamId;
+}
+
+// ===== PROPOSALS =====
+
+/**
+ * Send a proposal from the user's team (or counter one sent to it). Returns the new proposal's ID.
+ */
+export async function createTradeProposal(
+  leagueId: string,
+  userId: string,
+  input: NewTradeProposal
+): Promise<string> {
+  const myTeamId = await getMyTeamId(userId, leagueId);
+  if (input.fromTeamId !== myTeamId) {
+    throw new TradeProposalError("You can only propose trades from your own team", 403);
+  }
+  if (input.toTeamId === input.fromTeamId) {
+    throw new TradeProposalError("Pick another team to trade with", 400);
+  }
+
+  const fromPlayerIds = [...new Set(input.fromPlayerIds)];
+  const fromPicks = [...new Set(input.fromPicks)];
+  const toPlayerIds = [...new Set(input.toPlayerIds)];
+  const toPicks = [...new Set(input.toPicks)];
+  if (fromPlayerIds.length + fromPicks.length === 0 || toPlayerIds.length + toPicks.length === 0) {
+    throw new TradeProposalError("Both teams must send at least one player or pick", 400);
+  }
+
+  const teams = await prisma.team.findMany({
+    where: { id: { in: [input.fromTeamId, input.toTeamId] }, leagueId },
+    select: { id: true, name: true, leagueId: true },
+  });
+  const fromTeam = teams.find(t => t.id === input.fromTeamId);
+  const toTeam = teams.find(t => t.id === input.toTeamId);
+  if (!fromTeam || !toTeam) {
+    throw new TradeProposalError("Team not found in this league", 404);
+  }
+
+  await assertTeamOwns(fromTeam, fromPlayerIds, fromPicks);
+  await assertTeamOwns(toTeam, toPlayerIds, toPicks);
+
+  const { fromSide, toSide } = await valueSides(leagueId, fromPlayerIds, fromPicks, toPlayerIds, toPicks);
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    if (input.counterOfId) {
+      // Close the proposal being answered - it must still be open and sent to this team by the other one
+      const { count } = await tx.tradeProposal.updateMany({
+        where: {
+          id: input.counterOfId,
+          leagueId,
+          fromTeamId: toTeam.id,
+          toTeamId: fromTeam.id,
+          status: "proposed",
+          expiresAt: { gt: now },
+        },
+        data: { status: "countered", respondedAt: now },
+      });
+      if (count === 0) {
+        throw new TradeProposalError("That proposal can no longer be countered", 409);
+      }
+    }
+
+    const proposal = await tx.tradeProposal.create({
+      data: {
+        leagueId,
+        fromTeamId: fromTeam.id,
+        toTeamId: toTeam.id,
+        proposedById: userId,
+        status: "proposed",
+        fromSide: fromSide as unknown as Prisma.InputJsonValue,
+        toSide: toSide as unknown as Prisma.InputJsonValue,
+        message: input.message?.trim() || null,
+        counterOfId: input.counterOfId || null,
+        expiresAt: new Date(now.getTime() + PROPOSAL_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    console.log(`[Trade Proposals] ${fromTeam.name} -> ${toTeam.name}: ${proposal.id}${input.counterOfId ? ` (counters ${input.counterOfId})` : ""}`);
+    return proposal.id;
+  });
+}
+
+/**
+ * Accept or reject a proposal sent to the user's team
+ */
+export async function respondToTradeProposal(
+  leagueId: string,
+  userId: string,
+  proposalId: string,
+  response: ProposalResponse
+): Promise<ProposalStatus> {
+  const proposal = await prisma.tradeProposal.findFirst({
+    where: { id: proposalId, leagueId },
+    include: { toTeam: { select: { name: true } } },
+  });
+  if (!proposal) {
+    throw new TradeProposalError("Proposal not found", 404);
+  }
+
+  const myTeamId = await getMyTeamId(userId, leagueId);
+  if (proposal.toTeamId !== myTeamId) {
+    throw new TradeProposalError(`Only ${proposal.toTeam.name}'s manager can respond to this proposal`, 403);
+  }
+
+  const now = new Date();
+  const status: ProposalStatus = response === "accept" ? "accepted" : "rejected";
+  const current = effectiveStatus(proposal.status as ProposalStatus, proposal.expiresAt, now);
+  if (!canTransition(current, status)) {
+    throw new TradeProposalError(`This proposal is already ${current}`, 409);
+  }
+
+  // Guard against a counter or second response landing first
+  const { count } = await prisma.tradeProposal.updateMany({
+    where: { id: proposalId, status: "proposed" },
+    data: { status, respondedAt: now },
+  });
+  if (count === 0) {
+    throw new TradeProposalError("This proposal was answered in the meantime", 409);
+  }
+
+  return status;
+}
+
+/**
+ * Store unanswered proposals past their expiry as expired
+ */
+export async function expireTradeProposals(leagueId: string, now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.tradeProposal.updateMany({
+    where: { leagueId, status: "proposed", expiresAt: { lte: now } },
+    data: { status: "expired" },
+  });
+  return count;
+}
+
+type ProposalWithTeams = Prisma.TradeProposalGetPayload<{
+  include: { fromTeam: { select: { id: true; name: true } }; toTeam: { select: { id: true; name: true } } };
+}>;
+
+/**
+ * Submission details once the proposal is on Yahoo (null before it's submitted)
+ */
+export function toYahooSubmission(proposal: {
+  yahooTransactionKey: string | null;
+  yahooStatus: string | null;
+  yahooSubmittedAt: Date | null;
+  yahooCheckedAt: Date | null;
+}): YahooTradeSubmission | null {
+  if (!proposal.yahooSubmittedAt) {
+    return null;
+  }
+
+  const status = proposal.yahooStatus || "";
+  return {
+    transactionKey: proposal.yahooTransactionKey,
+    status,
+    final: isFinalYahooTradeStatus(status),
+    completed: status === YAHOO_TRADE_COMPLETED_STATUS,
+    submittedAt: proposal.yahooSubmittedAt.toISOString(),
+    checkedAt: proposal.yahooCheckedAt?.toISOString() ?? null,
+  };
+}
+
+function toSummary(proposal: ProposalWithTeams, myTeamId: string, now: Date): TradeProposalSummary {
+  const status = effectiveStatus(proposal.status as ProposalStatus, proposal.expiresAt, now);
+  const direction = proposal.toTeamId === myTeamId ? "incoming" : "outgoing";
+  const yahoo = toYahooSubmission(proposal);
+
+  return {
+    id: proposal.id,
+    status,
+    direction,
+    fromTeam: proposal.fromTeam,
+    toTeam: proposal.toTeam,
+    fromSide: proposal.fromSide as unknown as TradeProposalSide,
+    toSide: proposal.toSide as unknown as TradeProposalSide,
+    message: proposal.message,
+    counterOfId: proposal.counterOfId,
+    expiresAt: proposal.expiresAt.toISOString(),
+    respondedAt: proposal.respondedAt?.toISOString() ?? null,
+    createdAt: proposal.createdAt.toISOString(),
+    canRespond: direction === "incoming" && status === "proposed",
+    yahoo,
+    // Submission claims yahooSubmittedAt before posting, so an in-flight one isn't offered again
+    canSubmitToYahoo: direction === "outgoing" && status === "accepted" && !proposal.yahooSubmittedAt,
+  };
+}
+
+const TEAM_NAMES = {
+  fromTeam: { select: { id: true, name: true } },
+  toTeam: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Proposals sent to or from the user's team, newest first
+ */
+export async function getProposalInbox(leagueId: string, userId: string): Promise<ProposalInbox> {
+  const membership = await findLeagueMembership(userId, leagueId);
+  const myTeamId = membership?.teamId;
+  if (!myTeamId) {
+    return { myTeamId: null, proposals: [] };
+  }
+
+  const now = new Date();
+  await expireTradeProposals(leagueId, now);
+
+  const proposals = await prisma.tradeProposal.findMany({
+    where: { leagueId, OR: [{ fromTeamId: myTeamId }, { toTeamId: myTeamId }] },
+    include: TEAM_NAMES,
+    orderBy: { createdAt: "desc" },
+    take: MAX_INBOX_PROPOSALS,
+  });
+
+  return { myTeamId, proposals: proposals.map(p => toSummary(p, myTeamId, now)) };
+}
+
+/**
+ * A single proposal, if the user's team is on either side of it
+ */
+export async function getTradeProposal(
+  leagueId: string,
+  userId: string,
+  proposalId: string
+): Promise<TradeProposalSummary | null> {
+  const myTeamId = await getMyTeamId(userId, leagueId);
+  const proposal = await prisma.tradeProposal.findFirst({
+    where: { id: proposalId, leagueId, OR: [{ fromTeamId: myTeamId }, { toTeamId: myTeamId }] },
+    include: TEAM_NAMES,
+  });
+
+  return proposal ? toSummary(proposal, myTeamId, new Date()) : null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Trade proposal data structures
+ * Trades sent from the trade builder to another manager, with both sides valued when sent
+ */
+
+export const PROPOSAL_STATUSES = ["proposed", "countered", "accepted", "rejected", "expired"] as const;
+
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number];
+
+export type ProposalResponse = "accept" | "reject";
+
+export interface ProposalAsset {
+  kind: "player" | "pick";
+  playerId: string | null;      // null for picks
+  round: number | null;         // null for players
+  name: string;                 // Player name or "Round 3 pick"
+  value: number;                // PlayerValue / DraftPickValue score when the proposal was sent
+}
+
+export interface TradeProposalSide {
+  playerIds: string[];
+  picks: number[];              // Draft pick rounds
+  assets: ProposalAsset[];
+  totalValue: number;
+}
+
+export interface TradeProposalSummary {
+  id: string;
+  status: ProposalStatus;
+  direction: "incoming" | "outgoing";  // Relative to the viewer's team
+  fromTeam: { id: string; name: string };
+  toTeam: { id: string; name: string };
+  fromSide: TradeProposalSide;  // What the proposing team sends
+  toSide: TradeProposalSide;    // What the proposing team asks for
+  message: string | null;
+  counterOfId: string | null;
+  expiresAt: string;            // ISO date
+  respondedAt: string | null;
+  createdAt: string;
+  canRespond: boolean;          // Viewer can accept, reject or counter
+  yahoo: YahooTradeSubmission | null;  // Set once the accepted trade is submitted to Yahoo
+  canSubmitToYahoo: boolean;    // Viewer proposed it, it's accepted and not yet on Yahoo
+}
+
+export interface YahooTradeSubmission {
+  transactionKey: string | null; // Yahoo's pending trade key, null until Yahoo confirms the submission
+  status: string;               // Yahoo's status: "proposed", "accepted", "successful", "vetoed", ...
+  final: boolean;               // Yahoo won't change the status again
+  completed: boolean;           // The trade went through on Yahoo
+  submittedAt: string;          // ISO date
+  checkedAt: string | null;     // Last time the status was read from Yahoo
+}
+
+export interface ProposalInbox {
+  myTeamId: string | null;      // null until the viewer's team is linked by a roster sync
+  proposals: TradeProposalSummary[];
+}
+
+export interface NewTradeProposal {
+  fromTeamId: string;
+  toTeamId: string;
+  fromPlayerIds: string[];
+  fromPicks: number[];
+  toPlayerIds: string[];
+  toPicks: number[];
+  message?: string | null;
+  counterOfId?: string | null;
+}
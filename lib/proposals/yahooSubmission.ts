@@ -0,0 +1,280 @@
+/**
+ * Submitting accepted trade proposals to Yahoo
+ * Once the other manager accepts in the app, the proposing manager submits the trade to Yahoo
+ * as a pending trade (Yahoo only takes trades from the trader's own account). Yahoo's
+ * acceptance, review and veto then play out there; refreshing the status (from the inbox or
+ * the league sync) follows them and re-syncs rosters when the trade goes through.
+ */
+
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { getYahooFantasyClientForUser, YahooFantasyError } from "@/lib/yahoo/fantasyClient";
+import { syncLeagueRosters } from "@/lib/yahoo/roster";
+import { fetchLeagueTransactions } from "@/lib/yahoo/transactions";
+import {
+  fetchYahooTradeState,
+  findCompletedTrade,
+  isFinalYahooTradeStatus,
+  postYahooPendingTrade,
+  YAHOO_TRADE_COMPLETED_STATUS,
+  YAHOO_TRADE_FINAL_STATUSES,
+  type YahooPendingTrade,
+  type YahooTradeState,
+} from "@/lib/yahoo/trades";
+import { TradeProposalError, getMyTeamId, toYahooSubmission } from "./proposals";
+import type { TradeProposalSide, YahooTradeSubmission } from "./types";
+
+// ===== TRADE =====
+
+/**
+ * The Yahoo pending trade for a proposal: the proposing team sends fromSide and receives toSide
+ */
+export function toYahooPendingTrade(
+  fromTeamKey: string,
+  toTeamKey: string,
+  fromSide: TradeProposalSide,
+  toSide: TradeProposalSide,
+  playerKeys: Map<string, string>,
+  note: string | null
+): YahooPendingTrade {
+  const moves = (side: TradeProposalSide, sourceTeamKey: string, destinationTeamKey: string) => ({
+    players: side.playerIds.map(playerId => {
+      const playerKey = playerKeys.get(playerId);
+      if (!playerKey) {
+        throw new TradeProposalError("A player in this trade is no longer in the player pool - sync the league first", 400);
+      }
+      return { playerKey, sourceTeamKey, destinationTeamKey };
+    }),
+    picks: side.picks.map(round => ({ round, sourceTeamKey, destinationTeamKey })),
+  });
+
+  const sent = moves(fromSide, fromTeamKey, toTeamKey);
+  const received = moves(toSide, toTeamKey, fromTeamKey);
+
+  return {
+    traderTeamKey: fromTeamKey,
+    tradeeTeamKey: toTeamKey,
+    note,
+    players: [...sent.players, ...received.players],
+    picks: [...sent.picks, ...received.picks],
+  };
+}
+
+const PROPOSAL_FOR_YAHOO = {
+  fromTeam: { select: { name: true, teamKey: true } },
+  toTeam: { select: { name: true, teamKey: true } },
+  league: { select: { leagueKey: true } },
+} as const;
+
+type ProposalForYahoo = Prisma.TradeProposalGetPayload<{ include: typeof PROPOSAL_FOR_YAHOO }>;
+
+async function buildPendingTrade(proposal: {
+  fromSide: unknown;
+  toSide: unknown;
+  message: string | null;
+  fromTeam: { teamKey: string };
+  toTeam: { teamKey: string };
+}): Promise<YahooPendingTrade> {
+  const fromSide = proposal.fromSide as TradeProposalSide;
+  const toSide = proposal.toSide as TradeProposalSide;
+
+  const players = await prisma.player.findMany({
+    where: { id: { in: [...fromSide.playerIds, ...toSide.playerIds] } },
+    select: { id: true, playerKey: true },
+  });
+
+  return toYahooPendingTrade(
+    proposal.fromTeam.teamKey,
+    proposal.toTeam.teamKey,
+    fromSide,
+    toSide,
+    new Map(players.map(p => [p.id, p.playerKey])),
+    proposal.message
+  );
+}
+
+// ===== SUBMISSION =====
+
+/**
+ * Submit an accepted proposal the user's team sent to Yahoo as a pending trade
+ */
+export async function submitTradeProposalToYahoo(
+  leagueId: string,
+  userId: string,
+  proposalId: string
+): Promise<YahooTradeSubmission> {
+  const proposal = await prisma.tradeProposal.findFirst({
+    where: { id: proposalId, leagueId },
+    include: PROPOSAL_FOR_YAHOO,
+  });
+  if (!proposal) {
+    throw new TradeProposalError("Proposal not found", 404);
+  }
+
+  const myTeamId = await getMyTeamId(userId, leagueId);
+  if (proposal.fromTeamId !== myTeamId) {
+    throw new TradeProposalError(`Only ${proposal.fromTeam.name}'s manager can submit this trade to Yahoo`, 403);
+  }
+  if (proposal.status !== "accepted") {
+    throw new TradeProposalError(`Only accepted proposals can be submitted - this one is ${proposal.status}`, 409);
+  }
+
+  const trade = await buildPendingTrade(proposal);
+  const client = await getYahooFantasyClientForUser(userId);
+
+  // Claim the submission first so a double click can't propose the trade twice on Yahoo
+  const submittedAt = new Date();
+  const { count } = await prisma.tradeProposal.updateMany({
+    where: { id: proposal.id, yahooSubmittedAt: null },
+    data: { yahooSubmittedAt: submittedAt },
+  });
+  if (count === 0) {
+    throw new TradeProposalError("This trade was already submitted to Yahoo", 409);
+  }
+
+  try {
+    const state = await postYahooPendingTrade(client, proposal.league.leagueKey, trade);
+
+    const updated = await prisma.tradeProposal.update({
+      where: { id: proposal.id },
+      data: {
+        yahooTransactionKey: state.transactionKey,
+        yahooStatus: state.status,
+        yahooCheckedAt: submittedAt,
+      },
+    });
+
+    console.log(`[Trade Proposals] Submitted ${proposal.id} to Yahoo as ${state.transactionKey}`);
+    return toYahooSubmission(updated)!;
+  } catch (error) {
+    // Only a definite refusal allows another attempt. Otherwise the trade may exist on Yahoo,
+    // so the claim stays and the status refresh looks for it.
+    if (error instanceof YahooFantasyError && error.status >= 400 && error.status < 500) {
+      await prisma.tradeProposal.update({
+        where: { id: proposal.id },
+        data: { yahooSubmittedAt: null },
+      });
+    } else {
+      console.error(`[Trade Proposals] Submitting ${proposal.id} to Yahoo may have failed, leaving it claimed:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the submitted trade's status from Yahoo. Rosters are re-synced when the trade goes through.
+ */
+export async function refreshYahooTradeStatus(
+  leagueId: string,
+  userId: string,
+  proposalId: string
+): Promise<YahooTradeSubmission> {
+  const myTeamId = await getMyTeamId(userId, leagueId);
+  const proposal = await prisma.tradeProposal.findFirst({
+    where: { id: proposalId, leagueId, OR: [{ fromTeamId: myTeamId }, { toTeamId: myTeamId }] },
+    include: PROPOSAL_FOR_YAHOO,
+  });
+  if (!proposal) {
+    throw new TradeProposalError("Proposal not found", 404);
+  }
+
+  return refreshSubmittedTrade(userId, proposal);
+}
+
+/**
+ * Refresh every submitted trade in the league that Yahoo hasn't finished with (league sync step).
+ * Returns the number of trades whose status changed; per-trade failures are logged and skipped.
+ */
+export async function refreshLeagueYahooTrades(userId: string, leagueId: string): Promise<number> {
+  const proposals = await prisma.tradeProposal.findMany({
+    where: {
+      leagueId,
+      yahooSubmittedAt: { not: null },
+      OR: [{ yahooStatus: null }, { yahooStatus: { notIn: YAHOO_TRADE_FINAL_STATUSES } }],
+    },
+    include: PROPOSAL_FOR_YAHOO,
+  });
+
+  let changed = 0;
+  for (const proposal of proposals) {
+    try {
+      const refreshed = await refreshSubmittedTrade(userId, proposal);
+      if (refreshed.status !== (proposal.yahooStatus ?? "")) {
+        changed++;
+      }
+    } catch (error) {
+      console.error(`[Trade Proposals] Refreshing Yahoo status of ${proposal.id} failed:`, error);
+    }
+  }
+
+  console.log(`[Trade Proposals] Checked ${proposals.length} open Yahoo trades, ${changed} changed`);
+  return changed;
+}
+
+async function refreshSubmittedTrade(userId: string, proposal: ProposalForYahoo): Promise<YahooTradeSubmission> {
+  const current = toYahooSubmission(proposal);
+  if (!current) {
+    throw new TradeProposalError("This trade hasn't been submitted to Yahoo", 409);
+  }
+  if (current.final) {
+    return current;
+  }
+
+  let state: YahooTradeState | null = null;
+  let lookupError: unknown = null;
+  if (current.transactionKey) {
+    const client = await getYahooFantasyClientForUser(userId);
+    try {
+      state = await fetchYahooTradeState(client, current.transactionKey);
+    } catch (error) {
+      if (!(error instanceof YahooFantasyError) || (error.status !== 400 && error.status !== 404)) {
+        throw error;
+      }
+      lookupError = error;
+    }
+  }
+
+  if (!state) {
+    // Yahoo drops a pending trade once it's processed into a league trade, and a submission
+    // whose response was lost has no key to look up - look for the completed trade instead
+    const transactions = await fetchLeagueTransactions(userId, proposal.league.leagueKey);
+    const completed = findCompletedTrade(transactions, await buildPendingTrade(proposal), new Date(current.submittedAt));
+    if (completed) {
+      state = { transactionKey: current.transactionKey ?? completed.transactionKey, status: completed.status };
+    } else if (lookupError) {
+      throw lookupError;
+    } else {
+      return current;
+    }
+  }
+  const { transactionKey, status } = state;
+
+  // Guard on the previous status so only one refresh reacts to a change
+  const checkedAt = new Date();
+  const { count } = await prisma.tradeProposal.updateMany({
+    where: { id: proposal.id, yahooStatus: proposal.yahooStatus },
+    data: { yahooTransactionKey: transactionKey, yahooStatus: status, yahooCheckedAt: checkedAt },
+  });
+
+  if (count > 0 && status !== proposal.yahooStatus) {
+    console.log(`[Trade Proposals] Yahoo trade ${transactionKey}: ${proposal.yahooStatus} -> ${status}`);
+
+    if (status === YAHOO_TRADE_COMPLETED_STATUS) {
+      try {
+        await syncLeagueRosters(userId, proposal.league.leagueKey);
+      } catch (error) {
+        // The status is stored; the next league sync picks up the rosters
+        console.error(`[Trade Proposals] Roster re-sync after ${transactionKey} failed:`, error);
+      }
+    }
+  }
+
+  return {
+    ...current,
+    transactionKey,
+    status,
+    final: isFinalYahooTradeStatus(status),
+    completed: status === YAHOO_TRADE_COMPLETED_STATUS,
+    checkedAt: checkedAt.toISOString(),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Full league data sync pipeline.
+ *
+ * Runs every import and derived-data step for a league on behalf of a user with a
+ * linked Yahoo account. Used by the force-sync endpoint (logged-in user) and the
+ * background scheduler (league owner, no browser session).
+ */
+
+import prisma from "@/lib/prisma";
+import { syncLeagueRosters } from "@/lib/yahoo/roster";
+import { syncLeaguePlayerStats } from "@/lib/yahoo/playerStats";
+import { syncLeagueFreeAgents } from "@/lib/yahoo/freeAgents";
+import { ensureLeaguePlayerValues } from "@/lib/yahoo/playerValues";
+import { syncLeagueRosterSlots, syncLeagueStatCategories } from "@/lib/yahoo/leagueSettings";
+import { syncLeagueDraftHistory } from "@/lib/yahoo/draftResults";
+import { syncLeagueTransactions } from "@/lib/yahoo/transactions";
+import { syncLeagueMatchups } from "@/lib/yahoo/matchups";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
+import { populateKeeperData } from "@/lib/keeper/populate";
+import { buildAllTeamProfiles, storeTeamProfiles } from "@/lib/ai/teamProfile";
+import { findNHLPlayerIdByName, buildPlayerNameToNHLIdMap } from "@/lib/nhl/playerLookup";
+import { fetchNHLPlayerSeasonStats, getLastTwoSeasons } from "@/lib/nhl/historicalStats";
+import { syncLeagueInjuryReport } from "@/lib/injuries/report";
+import { refreshLeagueYahooTrades } from "@/lib/proposals/yahooSubmission";
+
+// ===== TYPES =====
+
+export type SyncStepName =
+  | "rosters"
+  | "yahoo-trades"
+  | "stats"
+  | "free-agents"
+  | "historical"
+  | "injuries"
+  | "categories"
+  | "values"
+  | "transactions"
+  | "matchups"
+  | "draft-history"
+  | "keepers"
+  | "profiles";
+
+export type SyncStepStatus = "success" | "failed" | "skipped";
+
+export interface SyncStepResult {
+  step: SyncStepName;
+  label: string;
+  status: SyncStepStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface LeagueSyncResult {
+  ok: boolean;                  // False when a required step failed and the sync stopped
+  steps: SyncStepResult[];
+  failedStep?: SyncStepName;    // The required step that stopped the sync
+  error?: unknown;              // Its original error (for Yahoo auth handling)
+}
+
+export interface LeagueSyncOptions {
+  onStepStart?: (step: SyncStepName, label: string) => void | Promise<void>;
+  onStepComplete?: (result: SyncStepResult) => void | Promise<void>;
+}
+
+export interface SyncStepDefinition {
+  name: SyncStepName;
+  label: string;
+  required: boolean;            // A failure stops the sync instead of continuing with stored data
+}
+
+// ===== CONSTANTS =====
+
+export const SYNC_STEPS: SyncStepDefinition[] = [
+  { name: "rosters", label: "Syncing rosters", required: true },
+  { name: "yahoo-trades", label: "Checking trades submitted to Yahoo", required: false },
+  { name: "stats", label: "Syncing player stats", required: false },
+  { name: "free-agents", label: "Importing top free agents", required: false },
+  { name: "historical", label: "Syncing historical stats from NHL API", required: false },
+  { name: "injuries", label: "Importing NHL injury report", required: false },
+  { name: "categories", label: "Importing league scoring categories and roster slots", required: false },
+  { name: "values", label: "Calculating player values", required: true },
+  { name: "transactions", label: "Importing league transactions", required: false },
+  { name: "matchups", label: "Importing matchups", required: false },
+  { name: "draft-history", label: "Importing draft history", required: false },
+  { name: "keepers", label: "Populating keeper data", required: false },
+  { name: "profiles", label: "Building team profiles", required: false },
+];
+
+// ===== STEPS =====
+
+/**
+ * Import the last two seasons of NHL stats for every rostered player.
+ * Optional - the NHL API may rate limit us; per-player failures are logged and skipped.
+ */
+async function syncLeagueHistoricalStats(leagueId: string): Promise<void> {
+  const rosterEntries = await prisma.rosterEntry.findMany({
+    where: { leagueId },
+    include: { player: true },
+  });
+
+  const uniquePlayers = Array.from(
+    new Map(rosterEntries.map(e => [e.player.id, e.player])).values()
+  );
+
+  if (uniquePlayers.length === 0) {
+    return;
+  }
+
+  const historicalSeasons = getLastTwoSeasons();
+  const lookupMap = await buildPlayerNameToNHLIdMap();
+  const batchSize = 10;
+  let playersProcessed = 0;
+
+  // Process in batches to avoid rate limits
+  for (let i = 0; i < uniquePlayers.length; i += batchSize) {
+    const batch = uniquePlayers.slice(i, i + batchSize);
+
+    for (const player of batch) {
+      const nhlId = lookupMap.get(player.name.toLowerCase()) || await findNHLPlayerIdByName(player.name);
+
+      if (!nhlId) {
+        continue;
+      }
+
+      for (const season of historicalSeasons) {
+        try {
+          const stats = await fetchNHLPlayerSeasonStats(nhlId, season);
+
+          for (const stat of stats) {
+            await prisma.playerSeasonStat.upsert({
+              where: {
+                playerId_season_statName: {
+                  playerId: player.id,
+                  season,
+                  statName: stat.statName,
+                },
+              },
+              update: {
+                value: stat.value,
+                gamesPlayed: stat.gamesPlayed,
+              },
+              create: {
+                playerId: player.id,
+                season,
+                statName: stat.statName,
+                value: stat.value,
+                gamesPlayed: stat.gamesPlayed,
+              },
+            });
+          }
+
+          if (stats.length > 0) {
+            playersProcessed++;
+          }
+        } catch (error) {
+          console.error(`[League Sync] Error syncing historical stats for ${player.name}, season ${season}:`, error);
+        }
+      }
+    }
+
+    // Rate limiting between batches
+    if (i + batchSize < uniquePlayers.length) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+
+  console.log(`[League Sync] Historical stats synced for ${playersProcessed} players`);
+}
+
+function buildStepRunners(
+  userId: string,
+  league: { id: string; leagueKey: string }
+): Record<SyncStepName, () => Promise<void>> {
+  return {
+    rosters: async () => {
+      await syncLeagueRosters(userId, league.leagueKey);
+    },
+    // Trades that went through re-sync rosters, before values are recalculated
+    "yahoo-trades": async () => {
+      await refreshLeagueYahooTrades(userId, league.id);
+    },
+    stats: () => syncLeaguePlayerStats(userId, league.leagueKey),
+    // Free agents go through the same value pipeline as rostered players
+    "free-agents": async () => {
+      await syncLeagueFreeAgents(userId, league.leagueKey, league.id);
+    },
+    historical: () => syncLeagueHistoricalStats(league.id),
+    // Expected return dates, so values are discounted for games missed
+    injuries: async () => {
+      await syncLeagueInjuryReport(league.id);
+    },
+    // The league's scoring categories, so values use the league's actual format,
+    // and its IR slots for roster fit in trade suggestions
+    categories: async () => {
+      await syncLeagueStatCategories(userId, league.leagueKey, league.id);
+      await syncLeagueRosterSlots(userId, league.leagueKey, league.id);
+    },
+    values: () => ensureLeaguePlayerValues(league.id),
+    // Record new trades/adds/drops while their values at trade time are current
+    transactions: async () => {
+      await syncLeagueTransactions(userId, league.leagueKey, league.id);
+    },
+    // Non-head-to-head leagues have no scoreboard
+    matchups: async () => {
+      await syncLeagueMatchups(userId, league.leagueKey, league.id);
+    },
+    "draft-history": async () => {
+      const keeperRules = await getLeagueKeeperRules(league.id);
+      await syncLeagueDraftHistory(userId, league.id, keeperRules.maxKeeperYears);
+    },
+    keepers: async () => {
+      await populateKeeperData(league.id);
+    },
+    profiles: async () => {
+      const profiles = await buildAllTeamProfiles(league.id);
+      await storeTeamProfiles(league.id, profiles);
+    },
+  };
+}
+
+// ===== PUBLIC API =====
+
+/**
+ * Run the full sync for a league as the given user. Optional steps that fail are
+ * recorded and the sync continues with previously stored data; a failed required
+ * step (rosters, values) stops the sync and the remaining steps are skipped.
+ */
+export async function runLeagueSync(
+  userId: string,
+  league: { id: string; leagueKey: string },
+  options: LeagueSyncOptions = {}
+): Promise<LeagueSyncResult> {
+  const steps = SYNC_STEPS;
+  const runners = buildStepRunners(userId, league);
+  const results: SyncStepResult[] = [];
+
+  console.log(`[League Sync] Starting full data sync for league ${league.leagueKey}`);
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    console.log(`[League Sync] Step ${i + 1}/${steps.length}: ${step.label}...`);
+    await options.onStepStart?.(step.name, step.label);
+
+    const startedAt = Date.now();
+    let result: SyncStepResult;
+    let stepError: unknown;
+    try {
+      await runners[step.name]();
+      result = { step: step.name, label: step.label, status: "success", durationMs: Date.now() - startedAt };
+    } catch (error) {
+      console.error(`[League Sync] ${step.label} failed:`, error);
+      stepError = error;
+      result = {
+        step: step.name,
+        label: step.label,
+        status: "failed",
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    results.push(result);
+    await options.onStepComplete?.(result);
+
+    if (result.status === "failed" && step.required) {
+      for (const skipped of steps.slice(i + 1)) {
+        const skippedResult: SyncStepResult = { step: skipped.name, label: skipped.label, status: "skipped", durationMs: 0 };
+        results.push(skippedResult);
+        await options.onStepComplete?.(skippedResult);
+      }
+      return { ok: false, steps: results, failedStep: step.name, error: stepError };
+    }
+  }
+
+  // Update league timestamp to mark as fresh
+  await prisma.league.update({
+    where: { id: league.id },
+    data: { updatedAt: new Date() },
+  });
+
+  console.log(`[League Sync] Full sync completed for league ${league.leagueKey}`);
+  return { ok: true, steps: results };
+}
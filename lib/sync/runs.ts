@@ -0,0 +1,203 @@
+/**
+ * Sync run tracking.
+ *
+ * Every league sync is recorded as a SyncRun whose per-step state is written as the
+ * sync progresses, so the trade page can poll it for a progress bar and the sync
+ * history page can show past runs, failures and how stale each dataset is.
+ */
+
+import type { Prisma, SyncRun } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import {
+  runLeagueSync,
+  SYNC_STEPS,
+  type LeagueSyncResult,
+  type SyncStepName,
+  type SyncStepResult,
+} from "@/lib/sync/leagueSync";
+import type {
+  DatasetFreshness,
+  SyncRunStatus,
+  SyncRunSummary,
+  SyncRunTrigger,
+  SyncStepState,
+} from "@/lib/sync/types";
+
+// A run still "running" after this long was killed mid-sync (function timeout, crash)
+const STALE_RUN_MS = 2 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toJson(steps: SyncStepState[]): Prisma.InputJsonValue {
+  return steps as unknown as Prisma.InputJsonValue;
+}
+
+/**
+ * Overall outcome of a finished sync
+ */
+export function syncRunStatus(result: LeagueSyncResult): Exclude<SyncRunStatus, "running"> {
+  if (!result.ok) return "failed";
+  return result.steps.some(s => s.status === "failed") ? "partial" : "success";
+}
+
+/**
+ * Run the full league sync, recording its progress in a new SyncRun
+ */
+export async function runTrackedLeagueSync(
+  userId: string,
+  league: { id: string; leagueKey: string },
+  trigger: SyncRunTrigger
+): Promise<{ runId: string; result: LeagueSyncResult }> {
+  const steps: SyncStepState[] = SYNC_STEPS.map(s => ({
+    step: s.name,
+    label: s.label,
+    status: "pending",
+    durationMs: null,
+  }));
+
+  const run = await prisma.syncRun.create({
+    data: { leagueId: league.id, userId, trigger, status: "running", steps: toJson(steps) },
+  });
+
+  // Progress is best-effort - a failed write must not fail the sync itself
+  const saveProgress = async (currentStep: SyncStepName | null) => {
+    try {
+      await prisma.syncRun.update({
+        where: { id: run.id },
+        data: { currentStep, steps: toJson(steps) },
+      });
+    } catch (error) {
+      console.error("[Sync Run] Failed to record progress:", error);
+    }
+  };
+
+  const updateStep = (step: SyncStepName, state: Partial<SyncStepState>) => {
+    const index = steps.findIndex(s => s.step === step);
+    if (index >= 0) {
+      steps[index] = { ...steps[index], ...state };
+    }
+  };
+
+  let result: LeagueSyncResult;
+  try {
+    result = await runLeagueSync(userId, league, {
+      onStepStart: async (step) => {
+        updateStep(step, { status: "running" });
+        await saveProgress(step);
+      },
+      onStepComplete: async (stepResult: SyncStepResult) => {
+        updateStep(stepResult.step, {
+          status: stepResult.status,
+          durationMs: stepResult.durationMs,
+          error: stepResult.error,
+        });
+        await saveProgress(null);
+      },
+    });
+  } catch (error) {
+    await prisma.syncRun.update({
+      where: { id: run.id },
+      data: {
+        status: "failed",
+        currentStep: null,
+        steps: toJson(steps),
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+
+  const failed = result.steps.find(s => s.step === result.failedStep);
+  await prisma.syncRun.update({
+    where: { id: run.id },
+    data: {
+      status: syncRunStatus(result),
+      currentStep: null,
+      steps: toJson(steps),
+      error: failed?.error ?? null,
+      finishedAt: new Date(),
+    },
+  });
+
+  return { runId: run.id, result };
+}
+
+// ===== QUERIES =====
+
+export function toSyncRunSummary(run: SyncRun, now: number = Date.now()): SyncRunSummary {
+  const interrupted = run.status === "running" && now - run.startedAt.getTime() > STALE_RUN_MS;
+
+  return {
+    id: run.id,
+    trigger: run.trigger as SyncRunTrigger,
+    status: interrupted ? "failed" : (run.status as SyncRunStatus),
+    currentStep: interrupted ? null : (run.currentStep as SyncStepName | null),
+    steps: (run.steps as unknown as SyncStepState[]) || [],
+    error: interrupted ? "Sync was interrupted before it finished" : run.error,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+    durationMs: run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : null,
+  };
+}
+
+/**
+ * Most recent sync run for a league (running or finished)
+ */
+export async function getLatestSyncRun(leagueId: string): Promise<SyncRunSummary | null> {
+  const run = await prisma.syncRun.findFirst({
+    where: { leagueId },
+    orderBy: { startedAt: 'desc' },
+  });
+  return run ? toSyncRunSummary(run) : null;
+}
+
+/**
+ * Past sync runs for a league, newest first
+ */
+export async function listSyncRuns(leagueId: string, limit: number = 20): Promise<SyncRunSummary[]> {
+  const runs = await prisma.syncRun.findMany({
+    where: { leagueId },
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+  const now = Date.now();
+  return runs.map(run => toSyncRunSummary(run, now));
+}
+
+/**
+ * When each synced dataset last changed
+ */
+export async function getDatasetFreshness(leagueId: string): Promise<DatasetFreshness[]> {
+  const [rosters, stats, freeAgents, categories, values, transactions, matchups, draftHistory, profiles] = await Promise.all([
+    prisma.rosterEntry.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.playerStat.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.playerStat.aggregate({ where: { leagueId, player: { rosterEntries: { none: { leagueId } } } }, _max: { updatedAt: true } }),
+    prisma.leagueStatCategory.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.playerValue.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.transaction.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.matchup.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.draftHistoryPick.aggregate({ where: { leagueId }, _max: { updatedAt: true } }),
+    prisma.teamProfile.aggregate({ where: { leagueId }, _max: { lastUpdated: true } }),
+  ]);
+
+  const now = Date.now();
+  const entry = (step: SyncStepName, label: string, updatedAt: Date | null): DatasetFreshness => ({
+    step,
+    label,
+    updatedAt: updatedAt?.toISOString() ?? null,
+    ageHours: updatedAt ? (now - updatedAt.getTime()) / HOUR_MS : null,
+  });
+
+  return [
+    entry("rosters", "Rosters", rosters._max.updatedAt),
+    entry("stats", "Player stats", stats._max.updatedAt),
+    entry("free-agents", "Free agents", freeAgents._max.updatedAt),
+    entry("categories", "Scoring categories", categories._max.updatedAt),
+    entry("values", "Player values", values._max.updatedAt),
+    entry("transactions", "Transactions", transactions._max.updatedAt),
+    entry("matchups", "Matchups", matchups._max.updatedAt),
+    entry("draft-history", "Draft history", draftHistory._max.updatedAt),
+    entry("profiles", "Team profiles", profiles._max.lastUpdated),
+  ];
+}
@@ -0,0 +1,213 @@
+/**
+ * Background league sync scheduler.
+ *
+ * Each league has a SyncJob row holding its next run time and a lock, so overlapping
+ * scheduler runs (cron firing while a slow sync is still going, several hosts) never
+ * sync the same league twice. Jobs run as the league's first member with a linked Yahoo
+ * account - no browser session needed.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { normalizeLeagueKey } from "@/lib/leagues/resolve";
+import type { SyncStepResult } from "@/lib/sync/leagueSync";
+import { runTrackedLeagueSync, syncRunStatus } from "@/lib/sync/runs";
+import type { SyncRunStatus } from "@/lib/sync/types";
+
+// ===== CONSTANTS =====
+
+// Nightly run time - after the night's games are final and Yahoo stats have settled
+const DEFAULT_SYNC_HOUR_UTC = 9;
+
+// A lock this old belongs to a worker that crashed mid-sync
+const LOCK_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+// Failed runs are retried sooner than the next nightly run
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// ===== TYPES =====
+
+export type SyncJobStatus = Exclude<SyncRunStatus, "running">;
+
+export interface SyncJobSummary {
+  runId: string | null;  // SyncRun with the full step history
+  leagueId: string;
+  leagueKey: string;
+  leagueName: string;
+  status: SyncJobStatus;
+  durationMs: number;
+  steps: SyncStepResult[];
+  error?: string;
+}
+
+export interface RunSyncJobsOptions {
+  workerId: string;
+  force?: boolean;      // Run every job now, ignoring its schedule
+  leagueKey?: string;   // Only this league
+  now?: Date;
+}
+
+// ===== SCHEDULE =====
+
+/**
+ * Hour of day (UTC) for the nightly sync, from SYNC_HOUR_UTC
+ */
+export function getSyncHourUtc(): number {
+  const hour = parseInt(process.env.SYNC_HOUR_UTC || "", 10);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : DEFAULT_SYNC_HOUR_UTC;
+}
+
+/**
+ * The first nightly run time strictly after the given date
+ */
+export function nextNightlyRun(after: Date, hourUtc: number = getSyncHourUtc()): Date {
+  const next = new Date(after);
+  next.setUTCHours(hourUtc, 0, 0, 0);
+  if (next <= after) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+}
+
+/**
+ * Create jobs for leagues that don't have one yet
+ */
+export async function ensureSyncJobs(now: Date = new Date()): Promise<number> {
+  const leagues = await prisma.league.findMany({
+    where: { syncJob: { is: null } },
+    select: { id: true },
+  });
+
+  for (const league of leagues) {
+    await prisma.syncJob.create({ data: { leagueId: league.id, nextRunAt: now } });
+  }
+
+  return leagues.length;
+}
+
+// ===== RUNNER =====
+
+/**
+ * Take the job's lock. Fails if another worker holds a live lock, or (unless forced)
+ * the job isn't due yet.
+ */
+async function claimJob(jobId: string, workerId: string, now: Date, force: boolean): Promise<boolean> {
+  const { count } = await prisma.syncJob.updateMany({
+    where: {
+      id: jobId,
+      ...(force ? {} : { nextRunAt: { lte: now } }),
+      OR: [
+        { lockedAt: null },
+        { lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } },
+      ],
+    },
+    data: { lockedBy: workerId, lockedAt: now, lastStartedAt: now },
+  });
+  return count === 1;
+}
+
+// The job's league, with the member the sync runs as
+const JOB_LEAGUE_SELECT = {
+  id: true,
+  leagueKey: true,
+  name: true,
+  memberships: {
+    where: { user: { yahooAccount: { isNot: null } } },
+    select: { userId: true },
+    orderBy: { createdAt: 'asc' },
+    take: 1,
+  },
+} satisfies Prisma.LeagueSelect;
+
+async function runSyncJob(
+  job: { id: string; league: Prisma.LeagueGetPayload<{ select: typeof JOB_LEAGUE_SELECT }> },
+  workerId: string
+): Promise<SyncJobSummary> {
+  const startedAt = Date.now();
+  let status: SyncJobStatus = "failed";
+  let steps: SyncStepResult[] = [];
+  let runId: string | null = null;
+  let error: string | undefined;
+
+  try {
+    const userId = job.league.memberships[0]?.userId;
+    if (!userId) {
+      throw new Error("No league member has a linked Yahoo account");
+    }
+
+    const tracked = await runTrackedLeagueSync(userId, job.league, "scheduled");
+    runId = tracked.runId;
+    steps = tracked.result.steps;
+    status = syncRunStatus(tracked.result);
+
+    if (!tracked.result.ok) {
+      const failed = steps.find(s => s.step === tracked.result.failedStep);
+      error = failed?.error || "Sync failed";
+    }
+  } catch (err) {
+    console.error(`[Sync Scheduler] Job for ${job.league.leagueKey} crashed:`, err);
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const finishedAt = new Date();
+  const nightly = nextNightlyRun(finishedAt);
+  const retryAt = new Date(finishedAt.getTime() + RETRY_DELAY_MS);
+
+  // Release the lock only if we still hold it
+  await prisma.syncJob.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: {
+      lockedBy: null,
+      lockedAt: null,
+      lastFinishedAt: finishedAt,
+      lastStatus: status,
+      lastSteps: steps as unknown as Prisma.InputJsonValue,
+      lastError: error ?? null,
+      nextRunAt: status === "failed" && retryAt < nightly ? retryAt : nightly,
+    },
+  });
+
+  return {
+    runId,
+    leagueId: job.league.id,
+    leagueKey: job.league.leagueKey,
+    leagueName: job.league.name,
+    status,
+    durationMs: finishedAt.getTime() - startedAt,
+    steps,
+    error,
+  };
+}
+
+/**
+ * Run every due sync job, one league at a time. Jobs locked by another worker are skipped.
+ */
+export async function runDueSyncJobs(options: RunSyncJobsOptions): Promise<SyncJobSummary[]> {
+  const now = options.now ?? new Date();
+  const force = options.force ?? false;
+
+  const created = await ensureSyncJobs(now);
+  if (created > 0) {
+    console.log(`[Sync Scheduler] Scheduled ${created} new leagues`);
+  }
+
+  const jobs = await prisma.syncJob.findMany({
+    where: {
+      ...(force ? {} : { nextRunAt: { lte: now } }),
+      ...(options.leagueKey ? { league: { leagueKey: normalizeLeagueKey(options.leagueKey) } } : {}),
+    },
+    include: { league: { select: JOB_LEAGUE_SELECT } },
+    orderBy: { nextRunAt: 'asc' },
+  });
+
+  const summaries: SyncJobSummary[] = [];
+  for (const job of jobs) {
+    if (!(await claimJob(job.id, options.workerId, new Date(), force))) {
+      console.log(`[Sync Scheduler] ${job.league.leagueKey} is locked by another worker, skipping`);
+      continue;
+    }
+    summaries.push(await runSyncJob(job, options.workerId));
+  }
+
+  return summaries;
+}
@@ -0,0 +1,36 @@
+/**
+ * Sync run progress and history data structures
+ */
+
+import type { SyncStepName, SyncStepStatus } from "@/lib/sync/leagueSync";
+
+export type SyncRunTrigger = "manual" | "scheduled";
+
+export type SyncRunStatus = "running" | "success" | "partial" | "failed";
+
+export interface SyncStepState {
+  step: SyncStepName;
+  label: string;
+  status: SyncStepStatus | "pending" | "running";
+  durationMs: number | null;  // Null until the step finishes
+  error?: string;
+}
+
+export interface SyncRunSummary {
+  id: string;
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  currentStep: SyncStepName | null;
+  steps: SyncStepState[];
+  error: string | null;
+  startedAt: string;          // ISO timestamp
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface DatasetFreshness {
+  step: SyncStepName;         // Sync step that refreshes this dataset
+  label: string;              // "Rosters"
+  updatedAt: string | null;   // Last time the stored data changed (null if never synced)
+  ageHours: number | null;
+}
@@ -0,0 +1,321 @@
+/**
+ * Commissioner trade review
+ * Open trade proposals and completed Yahoo trades, each with the value, keeper surplus and
+ * draft pick capital moved, both teams' standings, their earlier trades together and a
+ * veto-risk score. Open proposals use today's values; completed trades use the values
+ * captured when they were synced, falling back to today's.
+ */
+
+import prisma from "@/lib/prisma";
+import { calculateKeeperBonus, calculateTradeBonus, getRoundCost, type KeeperRules } from "@/lib/keeper/types";
+import { getLeagueKeeperRules } from "@/lib/keeper/rules";
+import type { TradeProposalSide } from "@/lib/proposals/types";
+import type { TransactionPick } from "@/lib/transactions/types";
+import { YAHOO_TRADE_FINAL_STATUSES } from "@/lib/yahoo/trades";
+import { scoreVetoRisk } from "./vetoRisk";
+import type {
+  PairHistory,
+  ReviewAsset,
+  ReviewedTrade,
+  ReviewSide,
+  ReviewStage,
+  TradeReviewReport,
+} from "./types";
+
+// ===== CONSTANTS =====
+
+// Net value gaps smaller than this are treated as an even trade (as in the trade ledger)
+const EVEN_TRADE_MARGIN = 5;
+
+const MAX_COMPLETED_TRADES = 50;
+
+// ===== TYPES =====
+
+export type MovedAsset = ReviewAsset & {
+  sourceTeamKey: string;
+  destinationTeamKey: string;
+};
+
+export interface ReviewTeam {
+  name: string;
+  rank: number | null;
+  record: string | null;
+}
+
+export interface TradeToReview {
+  id: string;
+  stage: ReviewStage;
+  date: Date;
+  moves: MovedAsset[];
+}
+
+export interface PastTrade {
+  date: Date;
+  teamKeys: string[];
+  favoredTeamKey: string | null;
+}
+
+// ===== SIDES =====
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function sum(assets: MovedAsset[], value: (asset: MovedAsset) => number): number {
+  return assets.reduce((total, asset) => total + value(asset), 0);
+}
+
+/**
+ * One side per team in the trade: what it receives, and its net gain with keeper surplus
+ * at its trade weight (calculateTradeBonus)
+ */
+export function buildReviewSides(
+  moves: MovedAsset[],
+  teams: Map<string, ReviewTeam>,
+  rules: KeeperRules
+): ReviewSide[] {
+  const tradeValue = (asset: MovedAsset) => asset.value + calculateTradeBonus(asset.keeperSurplus, rules);
+  const teamKeys = Array.from(new Set(moves.flatMap(m => [m.sourceTeamKey, m.destinationTeamKey])));
+
+  return teamKeys.map(teamKey => {
+    const received = moves.filter(m => m.destinationTeamKey === teamKey);
+    const sent = moves.filter(m => m.sourceTeamKey === teamKey);
+    const team = teams.get(teamKey);
+
+    return {
+      teamKey,
+      teamName: team?.name ?? teamKey,
+      rank: team?.rank ?? null,
+      record: team?.record ?? null,
+      received: received.map(({ kind, name, value, keeperSurplus }) => ({ kind, name, value, keeperSurplus })),
+      valueReceived: round1(sum(received, a => a.value)),
+      keeperSurplusReceived: round1(sum(received, a => a.keeperSurplus)),
+      pickCapitalReceived: round1(sum(received.filter(a => a.kind === "pick"), a => a.value)),
+      netValue: round1(sum(received, tradeValue) - sum(sent, tradeValue)),
+    };
+  });
+}
+
+/**
+ * Earlier completed trades between two teams, and the team they all favored if they went one way
+ */
+export function summarizePairHistory(
+  past: PastTrade[],
+  teamKeyA: string,
+  teamKeyB: string,
+  before: Date
+): PairHistory {
+  const between = past
+    .filter(t => t.date < before && t.teamKeys.includes(teamKeyA) && t.teamKeys.includes(teamKeyB))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const favored = new Set(between.map(t => t.favoredTeamKey));
+  const [onlyFavored] = favored;
+
+  return {
+    trades: between.length,
+    lastTradeAt: between[0]?.date.toISOString() ?? null,
+    favoredTeamKey: favored.size === 1 ? onlyFavored ?? null : null,
+  };
+}
+
+/**
+ * Score one trade against the teams' standings and their earlier trades
+ */
+export function reviewTrade(
+  trade: TradeToReview,
+  teams: Map<string, ReviewTeam>,
+  past: PastTrade[],
+  rules: KeeperRules
+): ReviewedTrade {
+  const sides = buildReviewSides(trade.moves, teams, rules);
+  const byNet = [...sides].sort((a, b) => b.netValue - a.netValue);
+  const top = byNet[0];
+  const bottom = byNet[byNet.length - 1];
+  const favored = top && top !== bottom && top.netValue >= EVEN_TRADE_MARGIN ? top : null;
+
+  const keeperNet = (teamKey: string) =>
+    sum(trade.moves.filter(m => m.destinationTeamKey === teamKey), a => a.keeperSurplus) -
+    sum(trade.moves.filter(m => m.sourceTeamKey === teamKey), a => a.keeperSurplus);
+
+  const history: PairHistory = top && bottom && top !== bottom
+    ? summarizePairHistory(past, top.teamKey, bottom.teamKey, trade.date)
+    : { trades: 0, lastTradeAt: null, favoredTeamKey: null };
+  const valueGap = round1(Math.max(top?.netValue ?? 0, 0));
+
+  return {
+    id: trade.id,
+    stage: trade.stage,
+    date: trade.date.toISOString(),
+    sides,
+    favoredTeamKey: favored?.teamKey ?? null,
+    valueGap,
+    history,
+    risk: scoreVetoRisk({
+      valueGap,
+      keeperSurplusGap: favored ? round1(keeperNet(favored.teamKey)) : 0,
+      favoredRank: favored?.rank ?? null,
+      otherRank: favored ? bottom.rank : null,
+      teamCount: teams.size,
+      favoredTeamKey: favored?.teamKey ?? null,
+      history,
+    }),
+  };
+}
+
+// ===== REPORT =====
+
+/**
+ * Review every open proposal and completed trade in the league
+ */
+export async function buildTradeReviewReport(leagueId: string): Promise<TradeReviewReport> {
+  const now = new Date();
+
+  const [teamRows, playerValues, pickValues, keeperEntries, keeperRules, proposals, transactions] = await Promise.all([
+    prisma.team.findMany({
+      where: { leagueId },
+      select: { id: true, teamKey: true, name: true, standing: true },
+    }),
+    prisma.playerValue.findMany({
+      where: { leagueId },
+      include: { player: { select: { playerKey: true } } },
+    }),
+    prisma.draftPickValue.findMany({ where: { leagueId } }),
+    prisma.rosterEntry.findMany({
+      where: { leagueId, isKeeper: true },
+      select: { originalDraftRound: true, yearsRemaining: true, player: { select: { playerKey: true } } },
+    }),
+    getLeagueKeeperRules(leagueId),
+    prisma.tradeProposal.findMany({
+      where: {
+        leagueId,
+        OR: [
+          { status: "proposed", expiresAt: { gt: now } },
+          // Accepted but not yet processed - once Yahoo completes it, the Yahoo trade is reviewed instead
+          { status: "accepted", OR: [{ yahooStatus: null }, { yahooStatus: { notIn: YAHOO_TRADE_FINAL_STATUSES } }] },
+        ],
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.transaction.findMany({
+      where: { leagueId, type: "trade", status: "successful" },
+      include: { players: true },
+      orderBy: { timestamp: "desc" },
+      take: MAX_COMPLETED_TRADES,
+    }),
+  ]);
+
+  const teams = new Map<string, ReviewTeam>(teamRows.map(t => [t.teamKey, {
+    name: t.name,
+    rank: t.standing?.rank ?? null,
+    record: t.standing ? `${t.standing.wins}-${t.standing.losses}-${t.standing.ties}` : null,
+  }]));
+  const teamKeyById = new Map(teamRows.map(t => [t.id, t.teamKey]));
+
+  const valueByPlayerKey = new Map(playerValues.map(v => [v.player.playerKey, v.score]));
+  const valueByRound = new Map(pickValues.map(v => [v.round, v.score]));
+
+  // Keeper surplus at today's value, for players kept on a roster
+  const keeperSurplusByPlayerKey = new Map<string, number>();
+  for (const entry of keeperEntries) {
+    if (!entry.originalDraftRound || !entry.yearsRemaining) continue;
+    const baseValue = valueByPlayerKey.get(entry.player.playerKey) ?? 0;
+    const draftRoundAvg = valueByRound.get(entry.originalDraftRound) ?? getRoundCost(entry.originalDraftRound);
+    keeperSurplusByPlayerKey.set(
+      entry.player.playerKey,
+      calculateKeeperBonus(baseValue, entry.originalDraftRound, draftRoundAvg, entry.yearsRemaining, keeperRules)
+    );
+  }
+
+  const playerMove = (playerKey: string, name: string, value: number | null, sourceTeamKey: string, destinationTeamKey: string): MovedAsset => ({
+    kind: "player",
+    name,
+    value: value ?? valueByPlayerKey.get(playerKey) ?? 0,
+    keeperSurplus: keeperSurplusByPlayerKey.get(playerKey) ?? 0,
+    sourceTeamKey,
+    destinationTeamKey,
+  });
+  const pickMove = (round: number, value: number | null, sourceTeamKey: string, destinationTeamKey: string): MovedAsset => ({
+    kind: "pick",
+    name: `Round ${round} pick`,
+    value: value ?? valueByRound.get(round) ?? 0,
+    keeperSurplus: 0,
+    sourceTeamKey,
+    destinationTeamKey,
+  });
+
+  // Completed trades, oldest first so each one's history is the trades before it
+  const reviewedCompleted: ReviewedTrade[] = [];
+  const past: PastTrade[] = [];
+  for (const transaction of [...transactions].reverse()) {
+    const moves: MovedAsset[] = [
+      ...transaction.players
+        .filter(p => p.sourceTeamKey && p.destinationTeamKey)
+        .map(p => playerMove(p.playerKey, p.playerName, p.valueAtTrade, p.sourceTeamKey!, p.destinationTeamKey!)),
+      ...((transaction.picks as unknown as TransactionPick[] | null) ?? [])
+        .map(pick => pickMove(pick.round, pick.valueAtTrade, pick.sourceTeamKey, pick.destinationTeamKey)),
+    ];
+    if (moves.length === 0) continue;
+
+    const reviewed = reviewTrade(
+      { id: transaction.transactionKey, stage: "completed", date: transaction.timestamp, moves },
+      teams,
+      past,
+      keeperRules
+    );
+    reviewedCompleted.unshift(reviewed);
+    past.push({ date: transaction.timestamp, teamKeys: reviewed.sides.map(s => s.teamKey), favoredTeamKey: reviewed.favoredTeamKey });
+  }
+
+  // Open proposals use today's values
+  const proposalPlayers = await prisma.player.findMany({
+    where: {
+      id: {
+        in: proposals.flatMap(p => [
+          ...(p.fromSide as unknown as TradeProposalSide).playerIds,
+          ...(p.toSide as unknown as TradeProposalSide).playerIds,
+        ]),
+      },
+    },
+    select: { id: true, playerKey: true, name: true },
+  });
+  const playerById = new Map(proposalPlayers.map(p => [p.id, p]));
+
+  const reviewedProposals: ReviewedTrade[] = [];
+  for (const proposal of proposals) {
+    const fromTeamKey = teamKeyById.get(proposal.fromTeamId);
+    const toTeamKey = teamKeyById.get(proposal.toTeamId);
+    if (!fromTeamKey || !toTeamKey) continue;
+
+    const sideMoves = (side: TradeProposalSide, sourceTeamKey: string, destinationTeamKey: string): MovedAsset[] => [
+      ...side.playerIds.flatMap(playerId => {
+        const player = playerById.get(playerId);
+        return player ? [playerMove(player.playerKey, player.name, null, sourceTeamKey, destinationTeamKey)] : [];
+      }),
+      ...side.picks.map(round => pickMove(round, null, sourceTeamKey, destinationTeamKey)),
+    ];
+
+    reviewedProposals.push(reviewTrade(
+      {
+        id: proposal.id,
+        stage: proposal.status === "accepted" ? "accepted" : "proposed",
+        date: proposal.createdAt,
+        moves: [
+          ...sideMoves(proposal.fromSide as unknown as TradeProposalSide, fromTeamKey, toTeamKey),
+          ...sideMoves(proposal.toSide as unknown as TradeProposalSide, toTeamKey, fromTeamKey),
+        ],
+      },
+      teams,
+      past,
+      keeperRules
+    ));
+  }
+
+  const trades = [...reviewedProposals, ...reviewedCompleted];
+
+  return {
+    trades,
+    flaggedCount: trades.filter(t => t.risk.flagged).length,
+    teamCount: teams.size,
+  };
+}
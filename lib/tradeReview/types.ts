@@ -0,0 +1,58 @@
+/**
+ * Commissioner trade review data structures
+ * Open proposals and completed Yahoo trades with what each side gains, the teams' standings,
+ * their trade history together and a veto-risk score
+ */
+
+export type VetoRiskLevel = "Low" | "Medium" | "High";
+
+export type ReviewStage = "proposed" | "accepted" | "completed";
+
+export interface ReviewAsset {
+  kind: "player" | "pick";
+  name: string;                 // Player name or "Round 3 pick"
+  value: number;                // PlayerValue / DraftPickValue score (0 when it has none)
+  keeperSurplus: number;        // calculateKeeperBonus for a kept player, 0 otherwise
+}
+
+export interface ReviewSide {
+  teamKey: string;
+  teamName: string;
+  rank: number | null;          // Current standings position
+  record: string | null;        // "W-L-T"
+  received: ReviewAsset[];
+  valueReceived: number;        // Players and picks received
+  keeperSurplusReceived: number;
+  pickCapitalReceived: number;  // Draft pick value received
+  netValue: number;             // Received minus sent, keeper surplus at its trade weight
+}
+
+export interface PairHistory {
+  trades: number;               // Completed trades between the two teams before this one
+  lastTradeAt: string | null;   // ISO date
+  favoredTeamKey: string | null;  // Team every one of those trades favored, if they all went one way
+}
+
+export interface VetoRisk {
+  score: number;                // 0 to 1
+  level: VetoRiskLevel;
+  flagged: boolean;             // One-sided enough for the commissioner to look at
+  reasons: string[];
+}
+
+export interface ReviewedTrade {
+  id: string;                   // Proposal ID or Yahoo transaction key
+  stage: ReviewStage;           // Open proposal, accepted proposal, or processed on Yahoo
+  date: string;                 // ISO date sent or processed
+  sides: ReviewSide[];
+  favoredTeamKey: string | null;  // Side with the best net value, null when even
+  valueGap: number;             // Net value between the favored side and the other
+  history: PairHistory;
+  risk: VetoRisk;
+}
+
+export interface TradeReviewReport {
+  trades: ReviewedTrade[];      // Open proposals first, then completed trades, newest first
+  flaggedCount: number;
+  teamCount: number;
+}
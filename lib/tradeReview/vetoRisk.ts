@@ -0,0 +1,86 @@
+/**
+ * Veto-risk scoring for commissioner trade review
+ *
+ * The mirror image of computeConfidence (lib/ai/confidenceScoring.ts): the same value-gap
+ * tiers that make a suggestion unlikely to be accepted make a completed deal look one-sided.
+ * Keeper surplus, standings and repeat one-way trades between the same teams add to the risk.
+ */
+
+import type { PairHistory, VetoRisk, VetoRiskLevel } from "./types";
+
+export interface VetoRiskContext {
+  valueGap: number;             // Net value the favored side gains (0 when even)
+  keeperSurplusGap: number;     // Keeper surplus the favored side gains
+  favoredRank: number | null;   // Standings position of the favored side
+  otherRank: number | null;     // Standings position of the side giving up value
+  teamCount: number;
+  favoredTeamKey: string | null;
+  history: PairHistory;
+}
+
+// Keeper surplus above this moving one way is worth a look on its own
+const KEEPER_SURPLUS_GAP = 15;
+
+function toLevel(score: number): VetoRiskLevel {
+  if (score >= 0.55) return "High";
+  if (score >= 0.3) return "Medium";
+  return "Low";
+}
+
+/**
+ * Score how likely a trade is to draw a veto
+ *
+ * - Even trades (< 5 value gap) = Low
+ * - Moderate gaps (15-30) = Medium
+ * - Big gaps (> 30) = High (veto-bait)
+ * - Keeper surplus moving one way, a contender gaining from a team out of the race, and
+ *   repeat trades favoring the same team raise the score
+ */
+export function scoreVetoRisk(context: VetoRiskContext): VetoRisk {
+  const { valueGap, keeperSurplusGap, favoredRank, otherRank, teamCount, favoredTeamKey, history } = context;
+  const reasons: string[] = [];
+
+  let score = 0;
+
+  // Base risk from value fairness
+  const gap = Math.max(valueGap, 0);
+  if (gap <= 5) {
+    score = 0.05;  // Even, nothing to see
+  } else if (gap <= 15) {
+    score = 0.15;  // Slightly tilted but normal
+  } else if (gap <= 30) {
+    score = 0.35;  // Clear winner
+  } else if (gap <= 50) {
+    score = 0.6;   // Large advantage, very questionable
+  } else {
+    score = 0.8;   // Very lopsided, essentially veto-bait
+  }
+  if (gap > 15) {
+    reasons.push(`${gap.toFixed(1)} value gap`);
+  }
+
+  if (favoredTeamKey && keeperSurplusGap > KEEPER_SURPLUS_GAP) {
+    score += 0.1;
+    reasons.push(`${keeperSurplusGap.toFixed(1)} keeper surplus moves to one side`);
+  }
+
+  // Dumping value from a team out of the race to a contender
+  if (favoredTeamKey && favoredRank !== null && otherRank !== null && teamCount >= 3) {
+    const third = teamCount / 3;
+    if (favoredRank <= third && otherRank > teamCount - third) {
+      score += 0.1;
+      reasons.push(`#${favoredRank} in the standings gains from #${otherRank}`);
+    }
+  }
+
+  // Repeat trades between the same two teams that all went the same way
+  if (favoredTeamKey && history.favoredTeamKey === favoredTeamKey && history.trades > 0) {
+    score += history.trades >= 2 ? 0.15 : 0.05;
+    reasons.push(`${history.trades} earlier trade${history.trades === 1 ? "" : "s"} between these teams favored the same side`);
+  }
+
+  score = Math.min(Math.round(score * 100) / 100, 0.98);
+  const level = toLevel(score);
+
+  return { score, level, flagged: level === "High", reasons };
+}
@@ -0,0 +1,187 @@
+/**
+ * Trade history ledger
+ * Re-scores completed trades with the values at the time of the trade and today's values
+ */
+
+import prisma from "@/lib/prisma";
+import type {
+  LedgerAsset,
+  LedgerMove,
+  LedgerTrade,
+  LedgerTradeSide,
+  TeamTradeSummary,
+  TradeLedger,
+  TransactionPick,
+} from "./types";
+
+// Value gaps smaller than this are treated as an even trade
+const EVEN_TRADE_MARGIN = 5;
+
+type MovedAsset = LedgerAsset & {
+  sourceTeamKey: string;
+  destinationTeamKey: string;
+};
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function sumValues(assets: LedgerAsset[], field: "valueAtTrade" | "valueNow"): number {
+  return round1(assets.reduce((sum, asset) => sum + (asset[field] ?? 0), 0));
+}
+
+/**
+ * Team with the most received value, or null when no side clears the even-trade margin
+ */
+function pickWinner(sides: LedgerTradeSide[], field: "valueAtTrade" | "valueNow"): string | null {
+  if (sides.length < 2) return null;
+  const sorted = [...sides].sort((a, b) => b[field] - a[field]);
+  return sorted[0][field] - sorted[1][field] >= EVEN_TRADE_MARGIN ? sorted[0].teamKey : null;
+}
+
+/**
+ * Build the trade ledger for a league from stored transactions
+ */
+export async function buildTradeLedger(leagueId: string): Promise<TradeLedger> {
+  const transactions = await prisma.transaction.findMany({
+    where: { leagueId },
+    include: { players: true },
+    orderBy: { timestamp: "desc" },
+  });
+
+  const teams = await prisma.team.findMany({
+    where: { leagueId },
+    select: { teamKey: true, name: true },
+  });
+  const teamNames = new Map(teams.map(t => [t.teamKey, t.name]));
+
+  const playerValues = await prisma.playerValue.findMany({
+    where: { leagueId },
+    include: { player: { select: { playerKey: true } } },
+  });
+  const valueByPlayerKey = new Map(playerValues.map(v => [v.player.playerKey, v.score]));
+  const pickValues = await prisma.draftPickValue.findMany({ where: { leagueId } });
+  const valueByRound = new Map(pickValues.map(v => [v.round, v.score]));
+
+  const trades: LedgerTrade[] = [];
+  const moves: LedgerMove[] = [];
+  const summaries = new Map<string, TeamTradeSummary>();
+
+  const getSummary = (teamKey: string): TeamTradeSummary => {
+    let summary = summaries.get(teamKey);
+    if (!summary) {
+      summary = {
+        teamKey,
+        teamName: teamNames.get(teamKey) || teamKey,
+        trades: 0,
+        netValueAtTrade: 0,
+        netValueNow: 0,
+      };
+      summaries.set(teamKey, summary);
+    }
+    return summary;
+  };
+
+  for (const transaction of transactions) {
+    if (transaction.type !== "trade") {
+      moves.push({
+        transactionKey: transaction.transactionKey,
+        type: transaction.type,
+        timestamp: transaction.timestamp.toISOString(),
+        players: transaction.players.map(p => ({
+          playerName: p.playerName,
+          type: p.type,
+          teamName: p.type === "drop" ? p.sourceTeamName : p.destinationTeamName,
+        })),
+      });
+      continue;
+    }
+
+    // Only completed trades are scored
+    if (transaction.status !== "successful") continue;
+
+    for (const p of transaction.players) {
+      if (p.sourceTeamName && p.sourceTeamKey && !teamNames.has(p.sourceTeamKey)) {
+        teamNames.set(p.sourceTeamKey, p.sourceTeamName);
+      }
+      if (p.destinationTeamName && p.destinationTeamKey && !teamNames.has(p.destinationTeamKey)) {
+        teamNames.set(p.destinationTeamKey, p.destinationTeamName);
+      }
+    }
+
+    const assets: MovedAsset[] = [];
+    for (const p of transaction.players) {
+      if (!p.sourceTeamKey || !p.destinationTeamKey) continue;
+      assets.push({
+        kind: "player",
+        playerKey: p.playerKey,
+        name: p.playerName,
+        valueAtTrade: p.valueAtTrade,
+        valueNow: valueByPlayerKey.get(p.playerKey) ?? null,
+        sourceTeamKey: p.sourceTeamKey,
+        destinationTeamKey: p.destinationTeamKey,
+      });
+    }
+    const picks = (transaction.picks as unknown as TransactionPick[] | null) ?? [];
+    for (const pick of picks) {
+      assets.push({
+        kind: "pick",
+        playerKey: null,
+        name: `Round ${pick.round} pick`,
+        valueAtTrade: pick.valueAtTrade,
+        valueNow: valueByRound.get(pick.round) ?? null,
+        sourceTeamKey: pick.sourceTeamKey,
+        destinationTeamKey: pick.destinationTeamKey,
+      });
+    }
+
+    const teamKeys = Array.from(new Set(assets.flatMap(a => [a.sourceTeamKey, a.destinationTeamKey])));
+    const sides: LedgerTradeSide[] = teamKeys.map(teamKey => {
+      const received: LedgerAsset[] = assets
+        .filter(a => a.destinationTeamKey === teamKey)
+        .map(({ kind, playerKey, name, valueAtTrade, valueNow }) => ({ kind, playerKey, name, valueAtTrade, valueNow }));
+      return {
+        teamKey,
+        teamName: teamNames.get(teamKey) || teamKey,
+        received,
+        valueAtTrade: sumValues(received, "valueAtTrade"),
+        valueNow: sumValues(received, "valueNow"),
+      };
+    });
+
+    const hasTradeTimeValues = assets.every(a => a.valueAtTrade !== null);
+    const byNow = [...sides].sort((a, b) => b.valueNow - a.valueNow);
+
+    trades.push({
+      transactionKey: transaction.transactionKey,
+      status: transaction.status,
+      timestamp: transaction.timestamp.toISOString(),
+      sides,
+      winnerAtTrade: hasTradeTimeValues ? pickWinner(sides, "valueAtTrade") : null,
+      winnerNow: pickWinner(sides, "valueNow"),
+      margin: byNow.length >= 2 ? round1(byNow[0].valueNow - byNow[1].valueNow) : 0,
+      hasTradeTimeValues,
+    });
+
+    for (const side of sides) {
+      const sent = assets.filter(a => a.sourceTeamKey === side.teamKey);
+      const summary = getSummary(side.teamKey);
+      summary.teamName = side.teamName;
+      summary.trades++;
+      summary.netValueAtTrade = round1(summary.netValueAtTrade + side.valueAtTrade - sumValues(sent, "valueAtTrade"));
+      summary.netValueNow = round1(summary.netValueNow + side.valueNow - sumValues(sent, "valueNow"));
+    }
+  }
+
+  const lastSynced = transactions.reduce<Date | null>(
+    (latest, t) => (!latest || t.updatedAt > latest ? t.updatedAt : latest),
+    null
+  );
+
+  return {
+    trades,
+    moves,
+    teams: Array.from(summaries.values()).sort((a, b) => b.netValueNow - a.netValueNow),
+    lastSyncedAt: lastSynced ? lastSynced.toISOString() : null,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Trade history ledger data structures
+ * Completed Yahoo transactions re-scored with values at trade time and today
+ */
+
+export interface TransactionPick {
+  round: number;
+  sourceTeamKey: string;
+  destinationTeamKey: string;
+  valueAtTrade: number | null;  // Draft pick value when the trade was synced
+}
+
+export interface LedgerAsset {
+  kind: "player" | "pick";
+  playerKey: string | null;     // null for picks
+  name: string;                 // Player name or "Round 3 pick"
+  valueAtTrade: number | null;  // null when no value from around the trade is known
+  valueNow: number | null;      // null when the player has no current value
+}
+
+export interface LedgerTradeSide {
+  teamKey: string;
+  teamName: string;
+  received: LedgerAsset[];
+  valueAtTrade: number;         // Sum of received assets at trade time
+  valueNow: number;             // Sum of received assets today
+}
+
+export interface LedgerTrade {
+  transactionKey: string;
+  status: string;
+  timestamp: string;            // ISO date
+  sides: LedgerTradeSide[];
+  winnerAtTrade: string | null; // teamKey, null when even or values are missing
+  winnerNow: string | null;     // teamKey of the hindsight winner
+  margin: number;               // Hindsight value gap between the sides
+  hasTradeTimeValues: boolean;  // False when any asset's value at trade wasn't captured
+}
+
+export interface LedgerMove {
+  transactionKey: string;
+  type: string;                 // "add", "drop", "add/drop"
+  timestamp: string;            // ISO date
+  players: Array<{
+    playerName: string;
+    type: string;               // "add" or "drop"
+    teamName: string | null;
+  }>;
+}
+
+export interface TeamTradeSummary {
+  teamKey: string;
+  teamName: string;
+  trades: number;
+  netValueAtTrade: number;      // Received minus sent at trade time
+  netValueNow: number;          // Received minus sent today
+}
+
+export interface TradeLedger {
+  trades: LedgerTrade[];
+  moves: LedgerMove[];
+  teams: TeamTradeSummary[];
+  lastSyncedAt: string | null;
+}
@@ -3,6 +3,7 @@ export interface YahooStatusResponse {
   authenticated: boolean;
   yahooUserId?: string;
   expiresAt?: string | null;
+  autoRefresh?: boolean; // Access token is refreshed automatically when it expires
   linkedAt?: string;
   error?: string;
 }
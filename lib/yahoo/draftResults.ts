@@ -0,0 +1,212 @@
+import {
+  getYahooFantasyClientForUser,
+  type YahooFantasyClient,
+} from "@/lib/yahoo/fantasyClient";
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+import prisma from "@/lib/prisma";
+
+export interface YahooDraftPick {
+  pick: number;
+  round: number;
+  teamKey: string;
+  playerKey: string;
+  yahooPlayerId: string;
+  isKeeper: boolean | null; // null when Yahoo does not flag keepers in draft results
+}
+
+interface YahooLeagueMetadata {
+  season: string;
+  previousLeagueKey: string | null; // Last season's league if the league was renewed
+}
+
+/**
+ * Player ID portion of a player key ("427.p.6743" -> "6743"); stable across seasons
+ */
+export function getYahooPlayerId(playerKey: string): string {
+  const match = playerKey.match(/\.p\.(\d+)$/);
+  return match ? match[1] : playerKey;
+}
+
+/**
+ * Team number portion of a team key ("427.l.1234.t.5" -> "5"); stable across renewed seasons
+ */
+function getTeamNumber(teamKey: string): string {
+  const match = teamKey.match(/\.t\.(\d+)$/);
+  return match ? match[1] : teamKey;
+}
+
+/**
+ * Yahoo's keeper flag is either a plain "1"/"0" or an is_keeper node with a kept/status child
+ */
+function parseKeeperFlag(flag: unknown): boolean | null {
+  if (flag === undefined || flag === null || flag === "") return null;
+
+  if (typeof flag === "object") {
+    const node = flag as { kept?: unknown; status?: unknown };
+    const kept = node.kept ?? node.status;
+    return kept === undefined ? null : String(kept) === "1";
+  }
+  return String(flag) === "1";
+}
+
+function flattenDraftResultNode(node: unknown): YahooDraftPick | null {
+  const result = normalizeYahooNode(node);
+  if (!result) return null;
+
+  const playerKey = result.player_key?.toString() || "";
+  const teamKey = result.team_key?.toString() || "";
+  // Picks that haven't been made yet have no player
+  if (!playerKey || !teamKey) return null;
+
+  return {
+    pick: parseInt(result.pick?.toString() || "0", 10),
+    round: parseInt(result.round?.toString() || "0", 10),
+    teamKey,
+    playerKey,
+    yahooPlayerId: getYahooPlayerId(playerKey),
+    isKeeper: parseKeeperFlag(result.is_keeper ?? result.keeper),
+  };
+}
+
+async function fetchLeagueMetadata(
+  client: YahooFantasyClient,
+  leagueKey: string
+): Promise<YahooLeagueMetadata> {
+  const xmlResponse = await client.request(`league/${leagueKey}/metadata`);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const league = normalizeYahooNode(findFirstPath(parsed, [
+    "fantasy_content.league",
+    "fantasy_content.league.0",
+  ]));
+
+  if (!league) {
+    throw new Error(`No metadata found for league ${leagueKey}`);
+  }
+
+  // renew is "{game_id}_{league_id}" of the previous season
+  const renew = league.renew?.toString() || "";
+  const renewMatch = renew.match(/^(\d+)_(\d+)$/);
+
+  return {
+    season: league.season?.toString() || "",
+    previousLeagueKey: renewMatch ? `${renewMatch[1]}.l.${renewMatch[2]}` : null,
+  };
+}
+
+async function fetchDraftResults(
+  client: YahooFantasyClient,
+  leagueKey: string
+): Promise<YahooDraftPick[]> {
+  const xmlResponse = await client.request(`league/${leagueKey}/draftresults`);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const resultsArray = findFirstPath(parsed, [
+    "fantasy_content.league.draft_results.draft_result",
+    "fantasy_content.league.0.draft_results.0.draft_result",
+  ]);
+
+  if (!resultsArray) {
+    return [];
+  }
+
+  const resultsList = Array.isArray(resultsArray) ? resultsArray : [resultsArray];
+  const picks: YahooDraftPick[] = [];
+
+  for (const node of resultsList) {
+    const pick = flattenDraftResultNode(node);
+    if (pick) {
+      picks.push(pick);
+    }
+  }
+
+  return picks;
+}
+
+/**
+ * Fetch draft results for a league's Yahoo key
+ */
+export async function fetchLeagueDraftResults(
+  userId: string,
+  leagueKey: string
+): Promise<YahooDraftPick[]> {
+  const client = await getYahooFantasyClientForUser(userId);
+  return fetchDraftResults(client, leagueKey);
+}
+
+/**
+ * Store draft results for the current season and up to `seasonsBack` prior seasons,
+ * following Yahoo's renew chain. Returns the number of picks stored.
+ *
+ * Keeper picks use Yahoo's keeper flag when present. Otherwise a pick counts as a keeper
+ * when the same team slot drafted the player the season before, in the same or a later round.
+ */
+export async function syncLeagueDraftHistory(
+  userId: string,
+  leagueId: string,
+  seasonsBack: number
+): Promise<number> {
+  const league = await prisma.league.findUnique({ where: { id: leagueId } });
+  if (!league) {
+    throw new Error(`League not found: ${leagueId}`);
+  }
+
+  const client = await getYahooFantasyClientForUser(userId);
+  const seasons: Array<{ leagueKey: string; season: string; picks: YahooDraftPick[] }> = [];
+
+  let leagueKey: string | null = league.leagueKey;
+  for (let i = 0; i <= seasonsBack && leagueKey; i++) {
+    try {
+      const metadata = await fetchLeagueMetadata(client, leagueKey);
+      const picks = await fetchDraftResults(client, leagueKey);
+      seasons.push({ leagueKey, season: metadata.season || league.season, picks });
+      console.log(`[Draft History] ${leagueKey} (${metadata.season}): ${picks.length} picks`);
+      leagueKey = metadata.previousLeagueKey;
+    } catch (error) {
+      // Older seasons can be unavailable (e.g. the user wasn't in the league) - keep what we have
+      if (i === 0) throw error;
+      console.error(`[Draft History] Could not fetch prior season ${leagueKey}:`, error);
+      break;
+    }
+  }
+
+  // Detect keepers oldest season first so each season can look at the one before it
+  seasons.reverse();
+  let previousPicks = new Map<string, YahooDraftPick>();
+  let stored = 0;
+
+  for (const { leagueKey: seasonLeagueKey, season, picks } of seasons) {
+    const rows = picks.map(pick => {
+      const previous = previousPicks.get(pick.yahooPlayerId);
+      const isKeeper = pick.isKeeper ?? (
+        previous !== undefined &&
+        getTeamNumber(previous.teamKey) === getTeamNumber(pick.teamKey) &&
+        pick.round <= previous.round
+      );
+
+      return {
+        leagueId,
+        season,
+        yahooLeagueKey: seasonLeagueKey,
+        pick: pick.pick,
+        round: pick.round,
+        teamKey: pick.teamKey,
+        playerKey: pick.playerKey,
+        yahooPlayerId: pick.yahooPlayerId,
+        isKeeper,
+      };
+    });
+
+    // Replace the season's picks in one go, so a failed insert doesn't leave the season empty
+    await prisma.$transaction([
+      prisma.draftHistoryPick.deleteMany({ where: { leagueId, season } }),
+      ...(rows.length > 0 ? [prisma.draftHistoryPick.createMany({ data: rows })] : []),
+    ]);
+
+    stored += rows.length;
+    console.log(`[Draft History] Stored ${rows.length} picks for ${season} (${rows.filter(r => r.isKeeper).length} keepers)`);
+    previousPicks = new Map(picks.map(p => [p.yahooPlayerId, p]));
+  }
+
+  return stored;
+}
@@ -2,6 +2,13 @@ import { NextRequest } from "next/server";
 import { getSession } from "@/lib/auth/session";
 import prisma from "@/lib/prisma";
 import { getYahooGameKey } from "@/lib/yahoo/config";
+import { needsRefresh, refreshYahooAccessToken } from "@/lib/yahoo/tokenRefresh";
+import {
+  isOfflineTransport,
+  resolveYahooTransport,
+  YahooFixtureNotFoundError,
+  type YahooTransportRequest,
+} from "@/lib/yahoo/transport";
 import https from "https";
 
 export class YahooFantasyError extends Error {
@@ -40,17 +47,39 @@ interface UserWithYahooAccount {
   } | null;
 }
 
-async function getUserWithYahooAccount(
-  request: NextRequest
-): Promise<UserWithYahooAccount> {
-  const session = await getSession();
+type YahooAccountTokens = NonNullable<UserWithYahooAccount["yahooAccount"]>;
 
-  if (!session) {
-    throw new Error("Not authenticated");
+/**
+ * Refresh the account's access token if it is expired or about to expire.
+ * Only throws YahooTokenExpiredError when the token is dead and can't be refreshed
+ * (no refresh token, or Yahoo revoked it).
+ */
+async function withValidAccessToken(account: YahooAccountTokens): Promise<YahooAccountTokens> {
+  // Replayed fixtures don't need a live token
+  if (isOfflineTransport() || !needsRefresh(account.expiresAt)) {
+    return account;
   }
 
+  const refreshed = account.refreshToken
+    ? await refreshYahooAccessToken(account.id, account.accessToken)
+    : null;
+
+  if (refreshed) {
+    return { ...account, ...refreshed };
+  }
+
+  // Can't refresh, but the current token may still have a few minutes left
+  if (account.expiresAt && account.expiresAt < new Date()) {
+    throw new YahooTokenExpiredError();
+  }
+  return account;
+}
+
+async function getUserWithYahooAccount(
+  userId: string
+): Promise<UserWithYahooAccount> {
   const user = await prisma.user.findUnique({
-    where: { id: session.userId },
+    where: { id: userId },
     include: {
       yahooAccount: true,
     },
@@ -68,19 +97,9 @@ async function getUserWithYahooAccount(
     throw new YahooNotLinkedError();
   }
 
-  if (user.yahooAccount.expiresAt && user.yahooAccount.expiresAt < new Date()) {
-    throw new YahooTokenExpiredError();
-  }
-
   return {
     id: user.id,
-    yahooAccount: {
-      id: user.yahooAccount.id,
-      yahooUserId: user.yahooAccount.yahooUserId,
-      accessToken: user.yahooAccount.accessToken,
-      refreshToken: user.yahooAccount.refreshToken,
-      expiresAt: user.yahooAccount.expiresAt,
-    },
+    yahooAccount: await withValidAccessToken(user.yahooAccount),
   };
 }
 
@@ -100,7 +119,14 @@ async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
       
-      // Don't retry on auth errors or rate limiting
+      // Don't retry on auth errors, rate limiting or missing fixtures
+      if (
+        error instanceof YahooTokenExpiredError ||
+        error instanceof YahooNotLinkedError ||
+        error instanceof YahooFixtureNotFoundError
+      ) {
+        throw error;
+      }
       if (error instanceof YahooFantasyError) {
         if (error.status === 401 || error.status === 999) {
           throw error;
@@ -118,8 +144,16 @@ async function retryWithBackoff<T>(
   throw lastError;
 }
 
+/**
+ * Reads are retried; writes (e.g. trade submissions) aren't idempotent, so a timeout
+ * must not send them twice
+ */
+function sendWithRetries(fn: () => Promise<string>, method?: string): Promise<string> {
+  return !method || method.toUpperCase() === "GET" ? retryWithBackoff(fn) : fn();
+}
+
 async function yahooFantasyRequest(
-  userIdOrRequest: string | NextRequest,
+  userId: string,
   path: string,
   options?: {
     method?: string;
@@ -127,49 +161,63 @@ async function yahooFantasyRequest(
     body?: string;
   }
 ): Promise<string> {
-  let user: UserWithYahooAccount;
+  const user = await getUserWithYahooAccount(userId);
 
-  if (typeof userIdOrRequest === "string") {
-    const yahooAccount = await prisma.yahooAccount.findUnique({
-      where: { userId: userIdOrRequest },
-    });
+  if (!user.yahooAccount) {
+    throw new YahooNotLinkedError();
+  }
 
-    if (!yahooAccount || !yahooAccount.accessToken) {
-      throw new YahooNotLinkedError();
+  const account = user.yahooAccount;
+  try {
+    return await sendYahooRequest(account.accessToken, path, options);
+  } catch (error) {
+    if (!(error instanceof YahooFantasyError) || error.status !== 401) {
+      throw error;
     }
 
-    if (yahooAccount.expiresAt && yahooAccount.expiresAt < new Date()) {
+    // Yahoo rejected the token before its recorded expiry - refresh once and retry
+    console.warn(`[YahooFantasy] 401 for ${path}, refreshing access token`);
+    const refreshed = await refreshYahooAccessToken(account.id, account.accessToken);
+    if (!refreshed) {
       throw new YahooTokenExpiredError();
     }
-
-    user = {
-      id: userIdOrRequest,
-      yahooAccount: {
-        id: yahooAccount.id,
-        yahooUserId: yahooAccount.yahooUserId,
-        accessToken: yahooAccount.accessToken,
-        refreshToken: yahooAccount.refreshToken,
-        expiresAt: yahooAccount.expiresAt,
-      },
-    };
-  } else {
-    user = await getUserWithYahooAccount(userIdOrRequest);
+    return sendYahooRequest(refreshed.accessToken, path, options);
   }
+}
 
-  if (!user.yahooAccount) {
-    throw new YahooNotLinkedError();
+async function sendYahooRequest(
+  accessToken: string,
+  path: string,
+  options?: {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
   }
+): Promise<string> {
+  const transport = resolveYahooTransport(httpsTransport);
+
+  return transport({
+    path,
+    method: options?.method || "GET",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/xml",
+      "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      ...options?.headers,
+    },
+    body: options?.body,
+    accessToken,
+  });
+}
 
+/**
+ * Live transport: calls the Yahoo Fantasy API over HTTPS
+ */
+function httpsTransport(request: YahooTransportRequest): Promise<string> {
+  const { path, headers } = request;
   const baseUrl = "https://fantasysports.yahooapis.com/fantasy/v2";
   const url = `${baseUrl}/${path}`;
 
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${user.yahooAccount.accessToken}`,
-    Accept: "application/xml",
-    "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-    ...options?.headers,
-  };
-
   console.log(`[YahooFantasy] Fetching: ${path}`);
   console.log(`[YahooFantasy] Full URL: ${url}`);
 
@@ -181,7 +229,7 @@ async function yahooFantasyRequest(
       {
         hostname: urlObj.hostname,
         path: urlObj.pathname + urlObj.search,
-        method: options?.method || "GET",
+        method: request.method,
         headers,
         timeout: 30000, // 30 second timeout
       },
@@ -269,8 +317,8 @@ async function yahooFantasyRequest(
       );
     });
 
-    if (options?.body) {
-      req.write(options.body);
+    if (request.body) {
+      req.write(request.body);
     }
 
     req.end();
@@ -293,10 +341,29 @@ export interface YahooFantasyClient {
   }): Promise<string>;
 }
 
+/**
+ * Client for the logged-in user of the current request
+ */
 export async function getYahooFantasyClientForRequest(
   request: NextRequest
 ): Promise<YahooFantasyClient> {
-  const user = await getUserWithYahooAccount(request);
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Not authenticated");
+  }
+
+  return getYahooFantasyClientForUser(session.userId);
+}
+
+/**
+ * Client for any user with a linked Yahoo account - used by background jobs
+ * that run without a browser session
+ */
+export async function getYahooFantasyClientForUser(
+  userId: string
+): Promise<YahooFantasyClient> {
+  const user = await getUserWithYahooAccount(userId);
 
   if (!user.yahooAccount) {
     throw new YahooNotLinkedError();
@@ -308,7 +375,7 @@ export async function getYahooFantasyClientForRequest(
       method?: string;
       headers?: Record<string, string>;
       body?: string;
-    }) => retryWithBackoff(() => yahooFantasyRequest(user.id, path, options)),
+    }) => sendWithRetries(() => yahooFantasyRequest(user.id, path, options), options?.method),
   };
 }
 
@@ -321,6 +388,6 @@ export async function yahooFantasyRequestForUser(
     body?: string;
   }
 ): Promise<string> {
-  return retryWithBackoff(() => yahooFantasyRequest(userId, path, options));
+  return sendWithRetries(() => yahooFantasyRequest(userId, path, options), options?.method);
 }
 
@@ -0,0 +1,134 @@
+/**
+ * Free agent import from Yahoo Fantasy API.
+ *
+ * Pulls the league's top free agents (by Yahoo's actual rank) with their stats into the
+ * same Player / PlayerStat tables the rostered players use, so the value pipeline scores
+ * them on the same scale. A league's free agents are the players with stats in the league
+ * and no roster entry in it.
+ */
+
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+import { getStatDefinitionsForCurrentGame } from "@/lib/yahoo/statDefinitions";
+import { fetchGamesStats, GAMES_STAT_NAMES, type PlayerStatData } from "@/lib/yahoo/playerStats";
+import { flattenYahooPlayerNode } from "@/lib/yahoo/roster";
+import prisma from "@/lib/prisma";
+
+// ===== CONSTANTS =====
+
+const FREE_AGENT_PAGE_SIZE = 25;  // Yahoo's max players per request
+const FREE_AGENT_LIMIT = 100;     // Only the best free agents are worth valuing
+
+// ===== IMPORT =====
+
+/**
+ * Import the league's top free agents and their stats. Stats of players who are neither
+ * rostered nor still among the top free agents are removed, so they drop out of the
+ * value pool. Returns the number of free agents imported.
+ */
+export async function syncLeagueFreeAgents(
+  userId: string,
+  leagueKey: string,
+  leagueId: string
+): Promise<number> {
+  const client = await getYahooFantasyClientForUser(userId);
+  const statDefinitions = await getStatDefinitionsForCurrentGame(userId);
+  if (!statDefinitions || Object.keys(statDefinitions.byId).length === 0) {
+    throw new Error("Stat definitions not available");
+  }
+
+  const freeAgentIds = new Set<string>();
+  const missingGames = new Map<string, string>(); // playerKey -> playerId
+
+  for (let start = 0; start < FREE_AGENT_LIMIT; start += FREE_AGENT_PAGE_SIZE) {
+    const endpoint = `league/${leagueKey}/players;status=FA;sort=AR;start=${start};count=${FREE_AGENT_PAGE_SIZE}/stats`;
+    const parsed = await parseYahooXml(await client.request(endpoint));
+    const playersArray = findFirstPath(parsed, [
+      "fantasy_content.league.0.players.0.player",
+      "fantasy_content.league.players.player",
+    ]);
+    if (!playersArray) break;
+
+    const playersList = Array.isArray(playersArray) ? playersArray : [playersArray];
+    for (const playerNode of playersList) {
+      const player = flattenYahooPlayerNode(playerNode);
+      if (!player) continue;
+
+      const playerRecord = await prisma.player.upsert({
+        where: { playerKey: player.playerKey },
+        update: {
+          name: player.name,
+          teamAbbr: player.teamAbbr,
+          positions: player.positions ? JSON.stringify(player.positions) : null,
+          primaryPosition: player.primaryPosition,
+          status: player.status,
+          updatedAt: new Date(),
+        },
+        create: {
+          playerKey: player.playerKey,
+          name: player.name,
+          teamAbbr: player.teamAbbr,
+          positions: player.positions ? JSON.stringify(player.positions) : null,
+          primaryPosition: player.primaryPosition,
+          status: player.status,
+        },
+      });
+
+      const statsArray = findFirstPath(normalizeYahooNode(playerNode), [
+        "player_stats.0.stats.0.stat",
+        "player_stats.stats.stat",
+        "player_stats.stat",
+      ]);
+
+      const stats: PlayerStatData[] = [];
+      for (const statNode of statsArray ? (Array.isArray(statsArray) ? statsArray : [statsArray]) : []) {
+        const stat = normalizeYahooNode(statNode);
+        const statId = stat.stat_id?.toString() || stat["@_stat_id"]?.toString() || "";
+        const statDef = statDefinitions.byId[statId];
+        if (!statDef) continue;
+
+        const value = parseFloat(stat.value?.toString() || stat["#text"]?.toString() || "0") || 0;
+        stats.push({ statId, statName: statDef.name || statDef.display_name || `Stat ${statId}`, value });
+      }
+
+      await prisma.playerStat.deleteMany({ where: { playerId: playerRecord.id, leagueId } });
+      if (stats.length === 0) continue;
+
+      await prisma.playerStat.createMany({
+        data: stats.map(stat => ({ playerId: playerRecord.id, leagueId, ...stat })),
+        skipDuplicates: true,
+      });
+      freeAgentIds.add(playerRecord.id);
+
+      if (!stats.some(stat => GAMES_STAT_NAMES.includes(stat.statName))) {
+        missingGames.set(player.playerKey, playerRecord.id);
+      }
+    }
+
+    if (playersList.length < FREE_AGENT_PAGE_SIZE) break;
+  }
+
+  // Games played / started for per-game values, as for rostered players
+  if (missingGames.size > 0) {
+    const gamesByPlayer = await fetchGamesStats(client, Array.from(missingGames.keys()), statDefinitions.byId);
+    for (const [playerKey, games] of gamesByPlayer) {
+      const playerId = missingGames.get(playerKey);
+      if (!playerId) continue;
+      await prisma.playerStat.createMany({
+        data: games.map(stat => ({ playerId, leagueId, ...stat })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
+  // Dropped players and free agents who fell out of the top lose their stats (their last
+  // value is kept for the trade history)
+  const rostered = await prisma.rosterEntry.findMany({ where: { leagueId }, select: { playerId: true } });
+  const keepIds = [...rostered.map(entry => entry.playerId), ...freeAgentIds];
+  const removed = await prisma.playerStat.deleteMany({
+    where: { leagueId, playerId: { notIn: keepIds } },
+  });
+
+  console.log(`[FreeAgents] Imported stats for ${freeAgentIds.size} free agents in ${leagueKey} (${removed.count} stale stats removed)`);
+  return freeAgentIds.size;
+}
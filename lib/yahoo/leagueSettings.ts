@@ -0,0 +1,158 @@
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+import prisma from "@/lib/prisma";
+
+export interface YahooLeagueStatCategory {
+  statId: string;
+  name: string;
+  displayName: string;
+  positionType: "P" | "G";
+  sortOrder: number; // 1 = higher is better, 0 = lower is better
+  enabled: boolean;
+  isDisplayOnly: boolean; // Shown in Yahoo but not scored (e.g. games started)
+}
+
+function flattenStatCategoryNode(node: unknown): YahooLeagueStatCategory | null {
+  const stat = normalizeYahooNode(node);
+  if (!stat) return null;
+
+  const statId = stat.stat_id?.toString() || stat["@_stat_id"]?.toString() || "";
+  const name = stat.name?.toString() || "";
+  if (!statId || !name) return null;
+
+  return {
+    statId,
+    name,
+    displayName: stat.display_name?.toString() || name,
+    positionType: stat.position_type?.toString() === "G" ? "G" : "P",
+    sortOrder: stat.sort_order?.toString() === "0" ? 0 : 1,
+    enabled: stat.enabled === undefined || stat.enabled?.toString() === "1",
+    isDisplayOnly: stat.is_only_display_stat?.toString() === "1",
+  };
+}
+
+/**
+ * Fetch the scoring categories a league uses from Yahoo league settings
+ */
+export async function fetchLeagueStatCategories(
+  userId: string,
+  leagueKey: string
+): Promise<YahooLeagueStatCategory[]> {
+  const client = await getYahooFantasyClientForUser(userId);
+  const endpoint = `league/${leagueKey}/settings`;
+
+  const xmlResponse = await client.request(endpoint);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const statsArray = findFirstPath(parsed, [
+    "fantasy_content.league.settings.stat_categories.stats.stat",
+    "fantasy_content.league.settings.stat_categories.stat",
+    "fantasy_content.league.0.settings.0.stat_categories.0.stats.0.stat",
+  ]);
+
+  if (!statsArray) {
+    throw new Error(`No stat categories found in settings for league ${leagueKey}`);
+  }
+
+  const statsList = Array.isArray(statsArray) ? statsArray : [statsArray];
+  const categories: YahooLeagueStatCategory[] = [];
+
+  for (const node of statsList) {
+    const category = flattenStatCategoryNode(node);
+    if (category) {
+      categories.push(category);
+    }
+  }
+
+  console.log(`[League Settings] ${leagueKey}: ${categories.length} stat categories`);
+  return categories;
+}
+
+/**
+ * Store a league's scored categories, keeping any commissioner weight overrides.
+ * Categories the league no longer uses are removed.
+ */
+export async function syncLeagueStatCategories(
+  userId: string,
+  leagueKey: string,
+  leagueId: string
+): Promise<number> {
+  const categories = (await fetchLeagueStatCategories(userId, leagueKey))
+    .filter(c => c.enabled && !c.isDisplayOnly);
+
+  if (categories.length === 0) {
+    throw new Error(`League ${leagueKey} has no scored stat categories`);
+  }
+
+  for (const [index, category] of categories.entries()) {
+    await prisma.leagueStatCategory.upsert({
+      where: {
+        leagueId_statId: {
+          leagueId,
+          statId: category.statId,
+        },
+      },
+      update: {
+        name: category.name,
+        displayName: category.displayName,
+        positionType: category.positionType,
+        sortOrder: category.sortOrder,
+        displayOrder: index,
+      },
+      create: {
+        leagueId,
+        statId: category.statId,
+        name: category.name,
+        displayName: category.displayName,
+        positionType: category.positionType,
+        sortOrder: category.sortOrder,
+        displayOrder: index,
+      },
+    });
+  }
+
+  await prisma.leagueStatCategory.deleteMany({
+    where: {
+      leagueId,
+      statId: { notIn: categories.map(c => c.statId) },
+    },
+  });
+
+  console.log(`[League Settings] Stored ${categories.length} scored categories for ${leagueKey}`);
+  return categories.length;
+}
+
+/**
+ * Store how many injured-list (IR, IR+) roster slots a league has
+ */
+export async function syncLeagueRosterSlots(
+  userId: string,
+  leagueKey: string,
+  leagueId: string
+): Promise<number> {
+  const client = await getYahooFantasyClientForUser(userId);
+  const parsed = await parseYahooXml(await client.request(`league/${leagueKey}/settings`));
+
+  const positionsArray = findFirstPath(parsed, [
+    "fantasy_content.league.settings.roster_positions.roster_position",
+    "fantasy_content.league.0.settings.0.roster_positions.0.roster_position",
+  ]);
+
+  if (!positionsArray) {
+    throw new Error(`No roster positions found in settings for league ${leagueKey}`);
+  }
+
+  let irSlots = 0;
+  for (const node of Array.isArray(positionsArray) ? positionsArray : [positionsArray]) {
+    const rosterPosition = normalizeYahooNode(node);
+    const position = rosterPosition.position?.toString() || "";
+    if (position.startsWith("IR") || position.startsWith("IL")) {
+      irSlots += parseInt(rosterPosition.count?.toString() || "0", 10) || 0;
+    }
+  }
+
+  await prisma.league.update({ where: { id: leagueId }, data: { irSlots } });
+
+  console.log(`[League Settings] ${leagueKey}: ${irSlots} injured-list slots`);
+  return irSlots;
+}
@@ -1,8 +1,11 @@
-import { NextRequest } from "next/server";
-import { getSession } from "@/lib/auth/session";
-import { getYahooFantasyClientForRequest } from "@/lib/yahoo/fantasyClient";
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
 import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
 import prisma from "@/lib/prisma";
+import { getYahooGameKey } from "@/lib/yahoo/config";
+import { ensureLeagueMembership, normalizeLeagueKey } from "@/lib/leagues/resolve";
+
+// Yahoo game code for NHL fantasy (other sports' leagues are ignored)
+export const NHL_GAME_CODE = "nhl";
 
 export interface YahooLeague {
   leagueKey: string;
@@ -117,47 +120,42 @@ function extractLeaguesFromResponse(parsed: any): YahooLeague[] {
 }
 
 export async function fetchUserLeagues(
-  request: NextRequest
+  userId: string
 ): Promise<YahooLeague[]> {
-  const client = await getYahooFantasyClientForRequest(request);
+  const client = await getYahooFantasyClientForUser(userId);
   const endpoint = "users;use_login=1/games/leagues";
   const xmlResponse = await client.request(endpoint);
   const parsed = await parseYahooXml(xmlResponse);
 
   const leagues = extractLeaguesFromResponse(parsed);
   
-  // Also try to fetch leagues for game 465 (NHL 2025/26) specifically
+  // Also fetch the current NHL game's leagues specifically
   // Sometimes leagues don't show up in the general games/leagues endpoint
+  const currentGameKey = getYahooGameKey() || NHL_GAME_CODE;
   try {
-    const game465Endpoint = "users;use_login=1/games;game_keys=465/leagues";
-    console.log("[Yahoo Leagues] Also fetching leagues for game 465 (NHL 2025/26)");
-    const game465Response = await client.request(game465Endpoint);
-    const game465Parsed = await parseYahooXml(game465Response);
-    const game465Leagues = extractLeaguesFromResponse(game465Parsed);
+    const currentGameEndpoint = `users;use_login=1/games;game_keys=${currentGameKey}/leagues`;
+    console.log(`[Yahoo Leagues] Also fetching leagues for game ${currentGameKey}`);
+    const currentGameResponse = await client.request(currentGameEndpoint);
+    const currentGameParsed = await parseYahooXml(currentGameResponse);
+    const currentGameLeagues = extractLeaguesFromResponse(currentGameParsed);
     
     // Merge leagues, avoiding duplicates
     const existingKeys = new Set(leagues.map(l => l.leagueKey));
-    game465Leagues.forEach(league => {
+    currentGameLeagues.forEach(league => {
       if (!existingKeys.has(league.leagueKey)) {
         leagues.push(league);
-        console.log("[Yahoo Leagues] Found additional league from game 465:", league.leagueKey, league.name);
+        console.log(`[Yahoo Leagues] Found additional league from game ${currentGameKey}:`, league.leagueKey, league.name);
       }
     });
   } catch (error) {
-    console.log("[Yahoo Leagues] Could not fetch game 465 leagues:", error instanceof Error ? error.message : String(error));
+    console.log(`[Yahoo Leagues] Could not fetch game ${currentGameKey} leagues:`, error instanceof Error ? error.message : String(error));
   }
 
   return leagues;
 }
 
-export async function syncUserLeagues(request: NextRequest): Promise<YahooLeague[]> {
-  const session = await getSession();
-
-  if (!session) {
-    throw new Error("Not authenticated");
-  }
-
-  const leagues = await fetchUserLeagues(request);
+export async function syncUserLeagues(userId: string): Promise<YahooLeague[]> {
+  const leagues = await fetchUserLeagues(userId);
 
   // Log all leagues returned by Yahoo
   console.log("[Yahoo Leagues] All leagues returned by Yahoo:");
@@ -171,127 +169,50 @@ export async function syncUserLeagues(request: NextRequest): Promise<YahooLeague
     });
   });
 
+  // Leagues are shared by everyone in them: find or create the canonical league, then the membership.
+  // Only write leagues that changed - League.updatedAt doubles as the last full sync time
   for (const league of leagues) {
-    await prisma.league.upsert({
-      where: {
-        userId_leagueKey: {
-          userId: session.userId,
-          leagueKey: league.leagueKey,
+    const leagueKey = normalizeLeagueKey(league.leagueKey);
+    let stored = await prisma.league.findUnique({ where: { leagueKey } });
+    if (!stored) {
+      stored = await prisma.league.create({
+        data: {
+          leagueKey,
+          name: league.name,
+          season: league.season,
+          sport: league.sport,
+          teamCount: league.teamCount,
         },
-      },
-      update: {
-        name: league.name,
-        season: league.season,
-        sport: league.sport,
-        teamCount: league.teamCount,
-        updatedAt: new Date(),
-      },
-      create: {
-        userId: session.userId,
-        leagueKey: league.leagueKey,
-        name: league.name,
-        season: league.season,
-        sport: league.sport,
-        teamCount: league.teamCount,
-      },
-    });
+      });
+    } else if (
+      stored.name !== league.name ||
+      stored.season !== league.season ||
+      stored.sport !== league.sport ||
+      (league.teamCount !== undefined && stored.teamCount !== league.teamCount)
+    ) {
+      await prisma.league.update({
+        where: { id: stored.id },
+        data: {
+          name: league.name,
+          season: league.season,
+          sport: league.sport,
+          teamCount: league.teamCount,
+        },
+      });
+    }
+
+    await ensureLeagueMembership(userId, stored.id);
   }
 
+  // Every NHL league the user is in, newest season first
   const storedLeagues = await prisma.league.findMany({
-    where: { userId: session.userId },
-    select: {
-      leagueKey: true,
-      name: true,
-      season: true,
-      sport: true,
-      teamCount: true,
-    },
-  });
-
-  // Filter leagues by league name "ATFH2" OR season 2025/2026 OR league ID 9080
-  const targetLeagueName = "ATFH2";
-  const targetSeasons = ["2025", "2026"]; // Yahoo might use start year (2025) or end year (2026)
-  const targetLeagueId = "9080"; // League ID from Yahoo
-  const targetLeagueKey = process.env.TARGET_LEAGUE_KEY;
-  const showAllLeagues = process.env.SHOW_ALL_LEAGUES === "true"; // Temporary flag to show all leagues
-
-  console.log("[Yahoo Leagues] Filtering leagues:", {
-    targetLeagueName,
-    targetSeasons,
-    targetLeagueId,
-    targetLeagueKey: targetLeagueKey || "not set",
-    showAllLeagues,
-    totalStoredLeagues: storedLeagues.length,
-  });
-
-  // Log all available leagues for debugging
-  console.log("[Yahoo Leagues] All available leagues:");
-  storedLeagues.forEach((league, index) => {
-    console.log(`[Yahoo Leagues]   ${index + 1}. Key: ${league.leagueKey}, Name: ${league.name}, Season: ${league.season}, Sport: ${league.sport}`);
+    where: { memberships: { some: { userId } }, sport: NHL_GAME_CODE },
+    orderBy: [{ season: 'desc' }, { name: 'asc' }],
   });
 
-  let filteredLeagues = storedLeagues;
-
-  // If showAllLeagues is enabled, return all leagues (for debugging)
-  if (showAllLeagues) {
-    console.log("[Yahoo Leagues] SHOW_ALL_LEAGUES=true, returning all leagues");
-    return storedLeagues.map((league) => ({
-      leagueKey: league.leagueKey,
-      name: league.name,
-      season: league.season,
-      sport: league.sport,
-      teamCount: league.teamCount ?? undefined,
-    }));
-  }
-
-  // If TARGET_LEAGUE_KEY is set, filter to that specific league
-  if (targetLeagueKey) {
-    filteredLeagues = storedLeagues.filter((league) => league.leagueKey === targetLeagueKey);
-    console.log("[Yahoo Leagues] Filtered to target league key:", targetLeagueKey, "Found:", filteredLeagues.length);
-  } else {
-    // Filter by league name "ATFH2" OR season 2025/2026 OR league ID 9080
-    // League keys are in format: GAME_ID.l.LEAGUE_ID or GAME_ID.1.LEAGUE_ID
-    filteredLeagues = storedLeagues.filter((league) => {
-      const nameMatch = league.name === targetLeagueName || league.name.toLowerCase() === targetLeagueName.toLowerCase();
-      const seasonMatch = targetSeasons.includes(league.season);
-      // Check if league key ends with .9080 or contains .9080 (league ID 9080)
-      const leagueIdMatch = league.leagueKey.endsWith(`.${targetLeagueId}`) || league.leagueKey.includes(`.${targetLeagueId}`);
-      return nameMatch || seasonMatch || leagueIdMatch;
-    });
-    console.log("[Yahoo Leagues] Filtered by name/season/ID:", {
-      targetLeagueName,
-      targetSeasons,
-      targetLeagueId,
-      found: filteredLeagues.length,
-    });
+  console.log(`[Yahoo Leagues] ${storedLeagues.length} NHL leagues stored for user`);
 
-    // If multiple matches, prefer the one matching the name, then newest season
-    if (filteredLeagues.length > 1) {
-      filteredLeagues.sort((a, b) => {
-        // First priority: name match
-        const aNameMatch = a.name === targetLeagueName;
-        const bNameMatch = b.name === targetLeagueName;
-        if (aNameMatch && !bNameMatch) return -1;
-        if (!aNameMatch && bNameMatch) return 1;
-        // Second priority: newest season
-        const seasonA = parseInt(a.season) || 0;
-        const seasonB = parseInt(b.season) || 0;
-        return seasonB - seasonA;
-      });
-      console.log("[Yahoo Leagues] Sorted matches (name match first, then newest season)");
-    }
-  }
-
-  // If no league matches, log all returned leagues for debugging
-  if (filteredLeagues.length === 0) {
-    console.error("[Yahoo Leagues] No matching league found. All available leagues:");
-    storedLeagues.forEach((league) => {
-      console.error(`[Yahoo Leagues]   - Key: ${league.leagueKey}, Name: ${league.name}, Season: ${league.season}, GameCode: ${league.sport}`);
-    });
-    console.warn("[Yahoo Leagues] Consider setting SHOW_ALL_LEAGUES=true in .env to see all leagues");
-  }
-
-  return filteredLeagues.map((league) => ({
+  return storedLeagues.map((league) => ({
     leagueKey: league.leagueKey,
     name: league.name,
     season: league.season,
@@ -299,4 +220,3 @@ export async function syncUserLeagues(request: NextRequest): Promise<YahooLeague
     teamCount: league.teamCount ?? undefined,
   }));
 }
-
@@ -0,0 +1,154 @@
+import type { Prisma } from "@prisma/client";
+import {
+  getYahooFantasyClientForUser,
+  type YahooFantasyClient,
+} from "@/lib/yahoo/fantasyClient";
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+import prisma from "@/lib/prisma";
+import { findLeagueMembership } from "@/lib/leagues/resolve";
+
+export interface YahooMatchupTeam {
+  teamKey: string;
+  stats: Record<string, number>; // Week-to-date stats by stat ID (empty before the week starts)
+}
+
+export interface YahooMatchup {
+  week: number;
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string;   // YYYY-MM-DD
+  status: string;
+  teams: YahooMatchupTeam[];
+}
+
+function toList(node: unknown): unknown[] {
+  if (node === null || node === undefined) return [];
+  return Array.isArray(node) ? node : [node];
+}
+
+function flattenMatchupTeamNode(node: unknown): YahooMatchupTeam | null {
+  const team = normalizeYahooNode(node);
+  if (!team) return null;
+
+  const teamKey = team.team_key?.toString() || "";
+  if (!teamKey) return null;
+
+  const stats: Record<string, number> = {};
+  const statsArray = findFirstPath(team, [
+    "team_stats.stats.stat",
+    "team_stats.0.stats.0.stat",
+  ]);
+  for (const statNode of toList(statsArray)) {
+    const stat = normalizeYahooNode(statNode);
+    const statId = stat?.stat_id?.toString() || "";
+    // Stats not yet recorded this week come back as "-"
+    const value = parseFloat(stat?.value?.toString() ?? "");
+    if (statId && Number.isFinite(value)) {
+      stats[statId] = value;
+    }
+  }
+
+  return { teamKey, stats };
+}
+
+function flattenMatchupNode(node: unknown): YahooMatchup | null {
+  const matchup = normalizeYahooNode(node);
+  if (!matchup) return null;
+
+  const week = parseInt(matchup.week?.toString() || "0", 10);
+  const weekStart = matchup.week_start?.toString() || "";
+  const weekEnd = matchup.week_end?.toString() || "";
+  if (!week || !weekStart || !weekEnd) return null;
+
+  const teams = toList(findFirstPath(matchup, ["teams.team", "teams.0.team"]))
+    .map(flattenMatchupTeamNode)
+    .filter((t): t is YahooMatchupTeam => t !== null);
+
+  return {
+    week,
+    weekStart,
+    weekEnd,
+    status: matchup.status?.toString() || "",
+    teams,
+  };
+}
+
+/**
+ * Current week's matchups for every team in the league, with week-to-date stats
+ */
+async function fetchScoreboard(client: YahooFantasyClient, leagueKey: string): Promise<YahooMatchup[]> {
+  const xmlResponse = await client.request(`league/${leagueKey}/scoreboard`);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const matchupsArray = findFirstPath(parsed, [
+    "fantasy_content.league.scoreboard.matchups.matchup",
+    "fantasy_content.league.0.scoreboard.0.matchups.0.matchup",
+  ]);
+
+  return toList(matchupsArray)
+    .map(flattenMatchupNode)
+    .filter((m): m is YahooMatchup => m !== null);
+}
+
+/**
+ * A team's full season schedule of matchups
+ */
+async function fetchTeamMatchups(client: YahooFantasyClient, teamKey: string): Promise<YahooMatchup[]> {
+  const xmlResponse = await client.request(`team/${teamKey}/matchups`);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const matchupsArray = findFirstPath(parsed, [
+    "fantasy_content.team.matchups.matchup",
+    "fantasy_content.team.0.matchups.0.matchup",
+  ]);
+
+  return toList(matchupsArray)
+    .map(flattenMatchupNode)
+    .filter((m): m is YahooMatchup => m !== null);
+}
+
+/**
+ * Store the current week's scoreboard for every team, plus the full matchup schedule
+ * of the user's own team. Returns the current week number (null when the league has
+ * no head-to-head matchups).
+ */
+export async function syncLeagueMatchups(
+  userId: string,
+  leagueKey: string,
+  leagueId: string
+): Promise<number | null> {
+  const client = await getYahooFantasyClientForUser(userId);
+
+  const ownTeam = (await findLeagueMembership(userId, leagueId))?.team;
+
+  const scheduled = ownTeam ? await fetchTeamMatchups(client, ownTeam.teamKey) : [];
+  const scoreboard = await fetchScoreboard(client, leagueKey);
+
+  // Scoreboard last: it has week-to-date stats for both sides of every matchup
+  let stored = 0;
+  for (const matchup of [...scheduled, ...scoreboard]) {
+    for (const team of matchup.teams) {
+      const opponent = matchup.teams.find(t => t.teamKey !== team.teamKey);
+      const stats = Object.keys(team.stats).length > 0
+        ? (team.stats as Prisma.InputJsonValue)
+        : undefined;
+      const data = {
+        weekStart: new Date(`${matchup.weekStart}T00:00:00Z`),
+        weekEnd: new Date(`${matchup.weekEnd}T23:59:59Z`),
+        status: matchup.status,
+        opponentTeamKey: opponent?.teamKey ?? null,
+        stats,
+      };
+
+      await prisma.matchup.upsert({
+        where: { leagueId_week_teamKey: { leagueId, week: matchup.week, teamKey: team.teamKey } },
+        update: data,
+        create: { leagueId, week: matchup.week, teamKey: team.teamKey, ...data },
+      });
+      stored++;
+    }
+  }
+
+  const currentWeek = scoreboard[0]?.week ?? null;
+  console.log(`[Matchups] Stored ${stored} team matchups for ${leagueKey} (current week: ${currentWeek ?? "none"})`);
+  return currentWeek;
+}
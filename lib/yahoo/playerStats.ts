@@ -2,12 +2,11 @@
  * Player stats fetching and management from Yahoo Fantasy API
  */
 
-import { NextRequest } from "next/server";
-import { getSession } from "@/lib/auth/session";
-import { getYahooFantasyClientForRequest } from "@/lib/yahoo/fantasyClient";
+import { getYahooFantasyClientForUser, type YahooFantasyClient } from "@/lib/yahoo/fantasyClient";
 import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
 import prisma from "@/lib/prisma";
-import { getStatDefinitionsForCurrentGame } from "@/lib/yahoo/statDefinitions";
+import { getStatDefinitionsForCurrentGame, type YahooStatDefinition } from "@/lib/yahoo/statDefinitions";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export interface PlayerStatData {
   statId: string;
@@ -15,16 +14,76 @@ export interface PlayerStatData {
   value: number;
 }
 
+// Games stats the per-game values and projections divide by. The league stats endpoint
+// only returns the league's categories, so these are backfilled from the game's stats.
+export const GAMES_STAT_NAMES = ["Games Played", "Games Started"];
+
+/**
+ * Fetch games played / games started for players whose league stats didn't include them
+ */
+export async function fetchGamesStats(
+  client: YahooFantasyClient,
+  playerKeys: string[],
+  statDefinitionsById: Record<string, YahooStatDefinition>
+): Promise<Map<string, PlayerStatData[]>> {
+  const gamesByPlayer = new Map<string, PlayerStatData[]>();
+  const batchSize = 25;
+
+  for (let i = 0; i < playerKeys.length; i += batchSize) {
+    const batch = playerKeys.slice(i, i + batchSize);
+
+    try {
+      const parsed = await parseYahooXml(await client.request(`players;player_keys=${batch.join(',')}/stats`));
+      const playersArray = findFirstPath(parsed, [
+        "fantasy_content.players.0.player",
+        "fantasy_content.players.player",
+      ]);
+      if (!playersArray) continue;
+
+      const playersList = Array.isArray(playersArray) ? playersArray : [playersArray];
+      for (const playerNode of playersList) {
+        const player = normalizeYahooNode(playerNode);
+        const playerKey = player.player_key?.toString() || player["@_player_key"]?.toString() || "";
+        const statsArray = findFirstPath(player, [
+          "player_stats.0.stats.0.stat",
+          "player_stats.stats.stat",
+          "player_stats.stat",
+        ]);
+        if (!playerKey || !statsArray) continue;
+
+        const games: PlayerStatData[] = [];
+        for (const statNode of Array.isArray(statsArray) ? statsArray : [statsArray]) {
+          const stat = normalizeYahooNode(statNode);
+          const statId = stat.stat_id?.toString() || stat["@_stat_id"]?.toString() || "";
+          const statName = statDefinitionsById[statId]?.name;
+          if (!statName || !GAMES_STAT_NAMES.includes(statName)) continue;
+
+          const value = parseFloat(stat.value?.toString() || stat["#text"]?.toString() || "0") || 0;
+          games.push({ statId, statName, value });
+        }
+        if (games.length > 0) {
+          gamesByPlayer.set(playerKey, games);
+        }
+      }
+    } catch (error) {
+      console.error(`[PlayerStats] Error fetching games played batch:`, error);
+      // Continue with other batches
+    }
+  }
+
+  return gamesByPlayer;
+}
+
 /**
  * Fetch player stats from Yahoo Fantasy API
  * Tries multiple endpoints: league players with stats, then individual player stats
  */
 export async function fetchPlayerStats(
-  request: NextRequest,
+  userId: string,
   playerKey: string,
   leagueKey?: string
 ): Promise<PlayerStatData[]> {
-  const client = await getYahooFantasyClientForRequest(request);
+  const client = await getYahooFantasyClientForUser(userId);
   
   // First, try to get stats from league players endpoint if leagueKey is provided
   if (leagueKey) {
@@ -47,7 +106,7 @@ export async function fetchPlayerStats(
         const statsList = Array.isArray(statsArray) ? statsArray : [statsArray];
         
         // Load stat definitions
-        const statDefinitions = await getStatDefinitionsForCurrentGame(request);
+        const statDefinitions = await getStatDefinitionsForCurrentGame(userId);
         if (statDefinitions && Object.keys(statDefinitions.byId).length > 0) {
           const playerStats: PlayerStatData[] = [];
           for (const statNode of statsList) {
@@ -104,7 +163,7 @@ export async function fetchPlayerStats(
     // Load stat definitions - this is critical for getting stat names
     let statDefinitions;
     try {
-      statDefinitions = await getStatDefinitionsForCurrentGame(request);
+      statDefinitions = await getStatDefinitionsForCurrentGame(userId);
       if (!statDefinitions || Object.keys(statDefinitions.byId).length === 0) {
         console.error(`[PlayerStats] Stat definitions are empty for player ${playerKey}`);
         // Return empty array if we can't get stat definitions
@@ -178,29 +237,11 @@ export async function fetchPlayerStats(
  * This is the most reliable way to get Yahoo Fantasy stats
  */
 export async function syncLeaguePlayerStats(
-  request: NextRequest,
+  userId: string,
   leagueKey: string
 ): Promise<void> {
-  const session = await getSession();
-  if (!session) {
-    throw new Error("Not authenticated");
-  }
   
-  // Normalize league key
-  const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-  const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-  
-  // Find the league
-  const league = await prisma.league.findFirst({
-    where: {
-      userId: session.userId,
-      OR: [
-        { leagueKey: normalizedLeagueKey },
-        { leagueKey: reverseNormalizedKey },
-        { leagueKey: leagueKey },
-      ],
-    },
-  });
+  const league = await findLeagueByKey(leagueKey);
   
   if (!league) {
     throw new Error(`League not found: ${leagueKey}`);
@@ -213,7 +254,7 @@ export async function syncLeaguePlayerStats(
     const rosterEndpoint = `league/${leagueKey}/teams;out=roster`;
     console.log(`[PlayerStats] Fetching teams with rosters: ${rosterEndpoint}`);
     
-    const client = await getYahooFantasyClientForRequest(request);
+    const client = await getYahooFantasyClientForUser(userId);
     const rosterXmlResponse = await client.request(rosterEndpoint);
     const parsed = await parseYahooXml(rosterXmlResponse);
     
@@ -221,7 +262,7 @@ export async function syncLeaguePlayerStats(
     let statDefinitions;
     try {
       console.log(`[PlayerStats] Attempting to load stat definitions`);
-      statDefinitions = await getStatDefinitionsForCurrentGame(request);
+      statDefinitions = await getStatDefinitionsForCurrentGame(userId);
       if (!statDefinitions || Object.keys(statDefinitions.byId).length === 0) {
         console.error(`[PlayerStats] Stat definitions are empty or invalid`);
         throw new Error("Stat definitions not available");
@@ -285,6 +326,7 @@ export async function syncLeaguePlayerStats(
     // Fetch stats for all players in batches (Yahoo has a limit on URL length)
     const batchSize = 25;
     let totalStatsStored = 0;
+    const missingGames = new Map<string, string>(); // playerKey -> playerId
     
     for (let i = 0; i < allPlayerKeys.length; i += batchSize) {
       const batch = allPlayerKeys.slice(i, i + batchSize);
@@ -363,6 +405,7 @@ export async function syncLeaguePlayerStats(
           // Insert new stats
           let playerStatsStored = 0;
           let newGoals = 0, newAssists = 0, newPoints = 0;
+          let hasGames = false;
           
           for (const statNode of statsList) {
             const stat = normalizeYahooNode(statNode);
@@ -386,6 +429,7 @@ export async function syncLeaguePlayerStats(
             if (statName === 'Goals') newGoals = value;
             if (statName === 'Assists') newAssists = value;
             if (statName === 'Points') newPoints = value;
+            if (GAMES_STAT_NAMES.includes(statName)) hasGames = true;
             
             await prisma.playerStat.create({
               data: { playerId, leagueId: league.id, statId, statName, value },
@@ -394,6 +438,10 @@ export async function syncLeaguePlayerStats(
             playerStatsStored++;
           }
           
+          if (!hasGames) {
+            missingGames.set(playerKey, playerId);
+          }
+          
           if (playerStatsStored > 0) {
             console.log(`[PlayerStats] ${playerName} - NEW stats: G=${newGoals} A=${newAssists} P=${newPoints} (stored ${playerStatsStored} stats)`);
             if (oldStats.length > 0) {
@@ -417,6 +465,25 @@ export async function syncLeaguePlayerStats(
       }
     }
     
+    // Backfill games played / started so values can be compared per game
+    if (missingGames.size > 0) {
+      console.log(`[PlayerStats] Fetching games played for ${missingGames.size} players`);
+      const gamesByPlayer = await fetchGamesStats(client, Array.from(missingGames.keys()), statDefinitions.byId);
+      
+      for (const [playerKey, games] of gamesByPlayer) {
+        const playerId = missingGames.get(playerKey);
+        if (!playerId) continue;
+        
+        for (const { statId, statName, value } of games) {
+          await prisma.playerStat.create({
+            data: { playerId, leagueId: league.id, statId, statName, value },
+          });
+          totalStatsStored++;
+        }
+      }
+      console.log(`[PlayerStats] Stored games played for ${gamesByPlayer.size}/${missingGames.size} players`);
+    }
+    
     console.log(`[PlayerStats] Successfully stored ${totalStatsStored} stats for ${allPlayerKeys.length} players across ${teamsList.length} teams`);
     
     // Verify we actually stored stats
@@ -6,7 +6,21 @@
  */
 
 import prisma from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
 import { toFixedSafe } from "@/lib/utils/numberFormat";
+import {
+  getLeagueScoringConfig,
+  toCategoryStatName,
+  type LeagueScoringConfig,
+} from "@/lib/yahoo/scoringConfig";
+import {
+  getLeagueRestOfSeasonProjections,
+  isRateStat,
+  seasonEndDate,
+  toSeasonScale,
+} from "@/lib/projections/restOfSeason";
+import { getInjuryOutlook } from "@/lib/injuries/availability";
+import { getLeagueInjuryOverrides, withInjuryOverride, type InjuryOverride } from "@/lib/injuries/overrides";
 
 // ===== TUNABLE CONSTANTS =====
 
@@ -14,6 +28,10 @@ import { toFixedSafe } from "@/lib/utils/numberFormat";
 // Lower baseline recognizes early-season breakouts while still favoring volume
 const BASELINE_GS = 5;
 
+// Per-game values treat skaters with fewer games as having played this many, so a
+// hot week doesn't scale up into a season (goalies use BASELINE_GS the same way)
+const PER_GAME_MIN_GAMES = 10;
+
 // Optional scaling factor to balance goalies vs skaters
 const GOALIE_SCALING = 1.0; // Adjust if goalies still seem over/undervalued
 
@@ -35,60 +53,95 @@ const ROOKIE_REDRAFT_ADJUSTMENT = 0.96; // 4% reduction for rookies in redraft l
 
 // ===== TYPES =====
 
-interface StatData {
+export interface StatData {
   playerId: string;
   playerName: string;
   stats: Map<string, number>;
+  isFreeAgent?: boolean;        // Valued against the rostered pool, not part of it
 }
 
-interface ZScoreStats {
+export interface ZScoreStats {
   mean: number;
   stdDev: number;
 }
 
+/**
+ * What player values are built from: season-to-date stats ("season") or rest-of-season
+ * projections ("ros", see lib/projections/restOfSeason.ts). Set per league by the commissioner.
+ */
+export type ValueBasis = "season" | "ros";
+
+export const VALUE_BASES: readonly ValueBasis[] = ["season", "ros"];
+
+/**
+ * The tunable parts of the formula. DEFAULT_VALUE_FORMULA holds the production values;
+ * the backtest (scripts/backtest-player-values.ts) scores alternatives against Yahoo ranks.
+ */
+export interface ValueFormula {
+  historicalWeight: number;         // Share of the blended stat taken from past seasons
+  grindCap: number;                 // Max share of a skater's contribution from grind categories
+  positionMultipliers: Record<string, number>;
+  defenseMultiplier: number;
+  franchiseFloor: number;
+  rookieRedraftAdjustment: number;
+  baselineGamesStarted: number;
+  goalieScaling: number;
+}
+
+/**
+ * Everything the formula needs to value one player
+ */
+export interface PlayerValuationInput {
+  name: string;
+  position: string | null;          // Primary position
+  stats: Map<string, number>;       // Current season, by normalized stat name
+  historical: Map<string, number>;  // Weighted past-season averages (empty for rookies)
+}
+
+export interface CategoryContribution {
+  statId: string;
+  abbrev: string;
+  current: number;           // Current season stat
+  historical: number | null; // Last 2 seasons average, null when unavailable
+  blended: number;           // 70% current / 30% historical
+  z: number;                 // Raw z-score (sign flipped for negative categories)
+  weight: number;            // Category weight from the league scoring config
+  contribution: number;      // z * weight
+}
+
+export interface ValueAdjustment {
+  label: string;  // "Position multiplier (LW 1.08x)"
+  before: number;
+  after: number;
+}
+
+/**
+ * Why a player is worth what they're worth: category contributions, the base value
+ * they produce, and every market adjustment applied on top (in order).
+ * Stored on PlayerValue.breakdown and with each value snapshot.
+ */
+export interface PlayerValueBreakdown {
+  method: "z-score";
+  basis?: ValueBasis;        // Missing on values calculated before projections ("season")
+  position: string | null;
+  categories: CategoryContribution[];
+  baseValue: number;
+  adjustments: ValueAdjustment[];
+  value: number;
+}
+
+export interface PlayerValueResult {
+  value: number;
+  breakdown: PlayerValueBreakdown;
+}
+
 // ===== STAT CATEGORIES =====
 
-// Weighted categories - reflects fantasy trade reality AND Yahoo league format
-// MUST match Yahoo's stat names after normalization
-// Yahoo league counts G, A, and P as SEPARATE categories (12 total, not 11)
-
-const SKATER_CATEGORIES = [
-  "goals",
-  "assists",
-  "points",              // 12th category - Yahoo counts this separately
-  "plus/minus",
-  "penalty minutes",
-  "powerplay points",
-  "shorthanded points",
-  "game-winning goals",
-  "shots on goal",
-  "faceoffs won",
-  "hits",
-  "blocks"
-] as const;
-
-// Individual category weights - reflects fantasy market reality
-// FIX #1: Reduced grind category weights to prevent bangers from outranking scorers
-const CATEGORY_WEIGHTS_MAP: Record<string, number> = {
-  // Scoring categories (highest value)
-  "goals": 1.5,
-  "assists": 1.3,
-  "points": 0.7,           // Lower weight to avoid double-counting with G+A
-  "powerplay points": 1.2,
-  "shots on goal": 1.3,
-  
-  // Support categories (moderate value)
-  "plus/minus": 1.0,
-  "shorthanded points": 1.0,
-  "game-winning goals": 1.0,
-  
-  // Grind categories (capped at 25% max contribution)
-  // Reduced from 0.6-0.7 to prevent Tom Wilson > Cole Caufield scenarios
-  "penalty minutes": 0.5,  // Reduced from 0.7
-  "faceoffs won": 0.5,     // Reduced from 0.7
-  "hits": 0.4,             // Reduced from 0.6
-  "blocks": 0.4,           // Reduced from 0.6
-};
+// Scoring categories and their weights come from the league's scoring config
+// (see scoringConfig.ts). Default format: 12 skater + 5 goalie categories.
+
+// Grind categories - capped at 25% of a skater's total contribution
+const GRIND_CATEGORIES = ["penalty minutes", "faceoffs won", "hits", "blocks"];
 
 // Position scarcity multipliers - reflects roster construction reality
 const POSITION_MULTIPLIERS = {
@@ -99,16 +152,54 @@ const POSITION_MULTIPLIERS = {
   G: 1.00,   // Already balanced via reliability curve
 } as const;
 
-// Goalie categories (5 total)
-const GOALIE_CATEGORIES = [
-  "wins", "goals against average", "saves", "save percentage", "shutouts"
-] as const;
-
-// Negative categories (lower is better)
-const NEGATIVE_CATEGORIES = ["goals against average"];
+export const DEFAULT_VALUE_FORMULA: ValueFormula = {
+  historicalWeight: 0.3,
+  grindCap: 0.25,
+  positionMultipliers: POSITION_MULTIPLIERS,
+  defenseMultiplier: DEFENSE_MULTIPLIER,
+  franchiseFloor: FRANCHISE_FLOOR,
+  rookieRedraftAdjustment: ROOKIE_REDRAFT_ADJUSTMENT,
+  baselineGamesStarted: BASELINE_GS,
+  goalieScaling: GOALIE_SCALING,
+};
 
 // ===== UTILITY FUNCTIONS =====
 
+/**
+ * Record an adjustment step if it changed the value
+ */
+function recordAdjustment(adjustments: ValueAdjustment[], label: string, before: number, after: number): void {
+  if (Math.abs(after - before) >= 0.05) {
+    adjustments.push({ label, before, after });
+  }
+}
+
+/**
+ * Breakdown for players without stats in the league
+ */
+function defaultValueResult(position: string | null): PlayerValueResult {
+  return {
+    value: 40,
+    breakdown: { method: "z-score", position, categories: [], baseValue: 40, adjustments: [], value: 40 },
+  };
+}
+
+/**
+ * Parse a stored PlayerValue.breakdown. Returns null for values calculated before
+ * breakdowns were recorded.
+ */
+export function parseValueBreakdown(raw: string | null): PlayerValueBreakdown | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<PlayerValueBreakdown>;
+    return Array.isArray(parsed.categories) && Array.isArray(parsed.adjustments)
+      ? parsed as PlayerValueBreakdown
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Normalize stat names for consistent lookup
  */
@@ -185,6 +276,45 @@ function loadHistoricalStats(): Record<string, Record<string, Record<string, num
   }
 }
 
+/**
+ * Weighted average of a player's last 2 seasons (60% most recent, 40% older),
+ * keyed by normalized stat name
+ */
+export function weightHistoricalSeasons(
+  seasonData: Record<string, Record<string, number>>
+): Map<string, number> {
+  const historicalStats = new Map<string, number>();
+  
+  // Get seasons and sort (most recent first)
+  const seasons = Object.keys(seasonData).sort().reverse().slice(0, 2);
+  
+  // Group by stat name and calculate weighted average
+  // More recent season gets higher weight (60% current, 40% previous)
+  const statMap = new Map<string, Array<{ value: number; weight: number }>>();
+
+  for (const season of seasons) {
+    const weight = season === seasons[0] ? 0.6 : 0.4; // Most recent = 60%, older = 40%
+
+    for (const [statName, value] of Object.entries(seasonData[season] || {})) {
+      if (!statMap.has(statName)) {
+        statMap.set(statName, []);
+      }
+      statMap.get(statName)!.push({ value, weight });
+    }
+  }
+
+  // Calculate weighted average for each stat
+  for (const [statName, values] of statMap.entries()) {
+    const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+    const weightedSum = values.reduce((sum, v) => sum + (v.value * v.weight), 0);
+    const weightedAvg = totalWeight > 0 ? weightedSum / totalWeight : 0;
+    
+    historicalStats.set(toCategoryStatName(statName), weightedAvg);
+  }
+  
+  return historicalStats;
+}
+
 /**
  * Get historical stats for a player (last 2 seasons)
  * Returns a map of stat name to weighted average value
@@ -208,13 +338,6 @@ async function getHistoricalStats(playerId: string): Promise<Map<string, number>
       return historicalStats; // No historical data for this player
     }
 
-    // Get seasons and sort (most recent first)
-    const seasons = Object.keys(playerHistoricalData).sort().reverse().slice(0, 2);
-    
-    if (seasons.length === 0) {
-      return historicalStats;
-    }
-
     // Debug logging for specific players
     const isDebugPlayer = player.name === "Connor McDavid" || 
                           player.name === "Nathan MacKinnon" ||
@@ -222,58 +345,15 @@ async function getHistoricalStats(playerId: string): Promise<Map<string, number>
                           player.name === "Igor Shesterkin" ||
                           player.name === "Jake Oettinger";
     
+    const weighted = weightHistoricalSeasons(playerHistoricalData);
+    
     if (isDebugPlayer) {
       console.log(`\n[PlayerValues] ===== ${player.name} Historical Stats =====`);
-      console.log(`[PlayerValues] Seasons found: ${seasons.join(', ')}`);
-      console.log(`[PlayerValues] Sample stats from ${seasons[0]}:`, Object.keys(playerHistoricalData[seasons[0]]).slice(0, 5));
-    }
-
-    // Group by stat name and calculate weighted average
-    // More recent season gets higher weight (60% current, 40% previous)
-    const statMap = new Map<string, Array<{ value: number; weight: number; season: string }>>();
-
-    for (const season of seasons) {
-      const seasonData = playerHistoricalData[season];
-      if (!seasonData) continue;
-
-      const seasonIndex = seasons.indexOf(season);
-      const weight = seasonIndex === 0 ? 0.6 : 0.4; // Most recent = 60%, older = 40%
-
-      for (const [statName, value] of Object.entries(seasonData)) {
-        if (!statMap.has(statName)) {
-          statMap.set(statName, []);
-        }
-        statMap.get(statName)!.push({ value: value as number, weight, season });
-      }
-    }
-
-    // Calculate weighted average for each stat
-    for (const [statName, values] of statMap.entries()) {
-      const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
-      const weightedSum = values.reduce((sum, v) => sum + (v.value * v.weight), 0);
-      const weightedAvg = totalWeight > 0 ? weightedSum / totalWeight : 0;
-      
-      // Normalize stat name to match category format
-      let normalizedName = normalizeStatName(statName);
-      // Map NHL stat name variations to our internal format
-      const statNameMapping: Record<string, string> = {
-        // Skater stat mappings
-        "power play points": "powerplay points",
-        "short handed points": "shorthanded points",
-        "game winning goals": "game-winning goals",
-        "game-winning goals": "game-winning goals",
-        // Goalie stat mappings
-        "save percentage": "save percentage", // Keep as-is after normalization
-      };
-      normalizedName = statNameMapping[normalizedName] || normalizedName;
-      historicalStats.set(normalizedName, weightedAvg);
-      
-      // Debug logging
-      if (player.name === "Connor McDavid" || player.name === "Nathan MacKinnon") {
-        const seasonValues = values.map(v => `${v.season}:${v.value.toFixed(1)}(${v.weight})`).join(', ');
-        console.log(`[PlayerValues] ${player.name} - "${statName}" -> "${normalizedName}": ${seasonValues} = ${weightedAvg.toFixed(2)} avg`);
-      }
+      console.log(`[PlayerValues] Seasons found: ${Object.keys(playerHistoricalData).sort().reverse().slice(0, 2).join(', ')}`);
+      console.log(`[PlayerValues] Weighted averages:`, Object.fromEntries(Array.from(weighted.entries()).slice(0, 5)));
     }
+    
+    return weighted;
   } catch (error) {
     console.error(`[PlayerValues] Error fetching historical stats for player ${playerId}:`, error);
   }
@@ -289,63 +369,107 @@ async function getHistoricalStats(playerId: string): Promise<Map<string, number>
 export async function calculateSkaterValue(
   playerId: string,
   leagueId: string,
-  allSkaterStats?: Map<string, StatData>
-): Promise<number> {
-  // If stats not provided, fetch them
+  allSkaterStats?: Map<string, StatData>,
+  scoringConfig?: LeagueScoringConfig,
+  formula: ValueFormula = DEFAULT_VALUE_FORMULA
+): Promise<PlayerValueResult> {
+  // If stats or scoring config not provided, fetch them
   if (!allSkaterStats) {
     allSkaterStats = await fetchAllSkaterStats(leagueId);
   }
+  if (!scoringConfig) {
+    scoringConfig = await getLeagueScoringConfig(leagueId);
+  }
+  
+  // Get player info for position multiplier
+  const player = await prisma.player.findUnique({
+    where: { id: playerId },
+    select: { primaryPosition: true, name: true }
+  });
   
   const playerStats = allSkaterStats.get(playerId);
   if (!playerStats) {
-    return 40; // Default for players without stats
+    return defaultValueResult(player?.primaryPosition ?? null); // Default for players without stats
   }
   
   // Get historical stats (last 2 seasons)
   const historicalStats = await getHistoricalStats(playerId);
   
-  // Get player info for position multiplier
-  const player = await prisma.player.findUnique({
-    where: { id: playerId },
-    select: { primaryPosition: true, name: true }
-  });
+  const skaterCategories = scoringConfig.skaterCategories.filter(c => c.weight > 0);
+  const categoryStats = calculateCategoryStats(allSkaterStats, skaterCategories.map(c => c.name));
   
-  // Calculate z-scores for each category with individual weights
-  const categoryStats = calculateCategoryStats(allSkaterStats, SKATER_CATEGORIES);
+  return computeSkaterValue(
+    {
+      name: playerStats.playerName,
+      position: player?.primaryPosition ?? null,
+      stats: playerStats.stats,
+      historical: historicalStats,
+    },
+    categoryStats,
+    scoringConfig,
+    formula
+  );
+}
+
+/**
+ * The skater formula itself: z-scores against the league's category means, then
+ * market adjustments. No database access - the backtest calls this directly.
+ */
+export function computeSkaterValue(
+  input: PlayerValuationInput,
+  categoryStats: Map<string, ZScoreStats>,
+  scoringConfig: LeagueScoringConfig,
+  formula: ValueFormula = DEFAULT_VALUE_FORMULA
+): PlayerValueResult {
+  const playerStats = input.stats;
+  const historicalStats = input.historical;
+  const position = input.position;
+  
+  // Calculate z-scores for each of the league's skater categories with individual weights
+  const skaterCategories = scoringConfig.skaterCategories.filter(c => c.weight > 0);
   
   let totalWeightedZ = 0;
   let grindContribution = 0;
-  const grindCategories = ["penalty minutes", "faceoffs won", "hits", "blocks"];
+  const categories: CategoryContribution[] = [];
+  const adjustments: ValueAdjustment[] = [];
   
   // Debug logging header for specific players
-  const isDebugPlayer = playerStats.playerName === "Connor McDavid" || playerStats.playerName === "Nathan MacKinnon";
+  const isDebugPlayer = input.name === "Connor McDavid" || input.name === "Nathan MacKinnon";
   if (isDebugPlayer) {
-    console.log(`\n[PlayerValues] ===== ${playerStats.playerName} Value Calculation =====`);
+    console.log(`\n[PlayerValues] ===== ${input.name} Value Calculation =====`);
   }
   
-  for (const category of SKATER_CATEGORIES) {
+  for (const { statId, abbrev, name: category, isNegative, weight } of skaterCategories) {
     // Blend current season (70%) with historical average (30%) for more stable valuation
-    const currentValue = playerStats.stats.get(category) || 0;
+    const currentValue = playerStats.get(category) || 0;
     const historicalValue = historicalStats.get(category);
     
     // If we have historical data (even if it's 0), blend it; otherwise use current only
     // Use !== undefined to check if historical data exists (0 is a valid value)
     const blendedValue = historicalValue !== undefined
-      ? (currentValue * 0.7) + (historicalValue * 0.3)
+      ? (currentValue * (1 - formula.historicalWeight)) + (historicalValue * formula.historicalWeight)
       : currentValue;
     
     const catStats = categoryStats.get(category);
     
     if (!catStats) continue;
     
-    const isNegative = NEGATIVE_CATEGORIES.includes(category);
     const z = zScore(blendedValue, catStats.mean, catStats.stdDev, isNegative);
     
     // Apply individual category weight
-    const weight = CATEGORY_WEIGHTS_MAP[category] || 1.0;
     const weightedZ = z * weight;
     
     totalWeightedZ += weightedZ;
+    categories.push({
+      statId,
+      abbrev,
+      current: currentValue,
+      historical: historicalValue ?? null,
+      blended: blendedValue,
+      z,
+      weight,
+      contribution: weightedZ,
+    });
     
     // Debug logging for specific players
     if (isDebugPlayer) {
@@ -354,19 +478,20 @@ export async function calculateSkaterValue(
     }
     
     // Track grind stat contribution for capping
-    if (grindCategories.includes(category)) {
+    if (GRIND_CATEGORIES.includes(category)) {
       grindContribution += Math.abs(weightedZ);
     }
   }
   
   // FIX #1: Cap grind dominance at 25% (reduced from 40%)
   // Prevents bangers like Tom Wilson from outranking scorers like Cole Caufield
+  const uncappedBaseValue = totalWeightedZ * 8 + 100;
   const totalContribution = Math.abs(totalWeightedZ);
   if (totalContribution > 0) {
     const grindPercent = grindContribution / totalContribution;
-    if (grindPercent > 0.25) {
-      // Scale down total to enforce 25% cap
-      const excessGrind = grindContribution - (totalContribution * 0.25);
+    if (grindPercent > formula.grindCap) {
+      // Scale down total to enforce the cap
+      const excessGrind = grindContribution - (totalContribution * formula.grindCap);
       totalWeightedZ -= excessGrind * (totalWeightedZ > 0 ? 1 : -1);
     }
   }
@@ -375,41 +500,43 @@ export async function calculateSkaterValue(
   
   // Base value from weighted z-scores (scaled down to prevent runaway scores)
   let value = finalWeightedZ * 8 + 100;
+  recordAdjustment(adjustments, `Grind stat cap (${Math.round(formula.grindCap * 100)}% of total)`, uncappedBaseValue, value);
   
   if (isDebugPlayer) {
     console.log(`[PlayerValues] Base calculation: totalWeightedZ=${totalWeightedZ.toFixed(2)}, baseValue=${value.toFixed(1)}`);
   } // Reduced from 10 to 8 for tighter scaling
   
   // Get player stats for market correction rules
-  const goals = playerStats.stats.get("goals") || 0;
-  const assists = playerStats.stats.get("assists") || 0;
+  const goals = playerStats.get("goals") || 0;
+  const assists = playerStats.get("assists") || 0;
   const points = goals + assists;
-  const ppp = playerStats.stats.get("powerplay points") || 0;
+  const ppp = playerStats.get("powerplay points") || 0;
   
   if (isDebugPlayer) {
     console.log(`[PlayerValues] Player stats: G=${goals} A=${assists} P=${points} PPP=${ppp}`);
   }
   
   // Position scarcity multiplier (before defense dampening)
-  if (player?.primaryPosition) {
-    const pos = player.primaryPosition as keyof typeof POSITION_MULTIPLIERS;
-    const multiplier = POSITION_MULTIPLIERS[pos] || 1.0;
+  if (position) {
+    const multiplier = formula.positionMultipliers[position] || 1.0;
     const beforePos = value;
     value *= multiplier;
+    recordAdjustment(adjustments, `Position multiplier (${position} ${multiplier}x)`, beforePos, value);
     if (isDebugPlayer && multiplier !== 1.0) {
-      console.log(`[PlayerValues] Position multiplier (${player.primaryPosition}): ${multiplier}x -> ${beforePos.toFixed(1)} -> ${value.toFixed(1)}`);
+      console.log(`[PlayerValues] Position multiplier (${position}): ${multiplier}x -> ${beforePos.toFixed(1)} -> ${value.toFixed(1)}`);
     }
   }
   
   // Defense dampening: D positions don't trade like forwards
-  if (player?.primaryPosition === 'D') {
+  if (position === 'D') {
     // Only apply dampening to non-elite defensemen
     // Elite D (30+ points) maintain value
     if (points < 30) {
       const beforeDef = value;
-      value *= DEFENSE_MULTIPLIER;
+      value *= formula.defenseMultiplier;
+      recordAdjustment(adjustments, `Defense dampening (${formula.defenseMultiplier}x, under 30 points)`, beforeDef, value);
       if (isDebugPlayer) {
-        console.log(`[PlayerValues] Defense dampening: ${DEFENSE_MULTIPLIER}x -> ${beforeDef.toFixed(1)} -> ${value.toFixed(1)}`);
+        console.log(`[PlayerValues] Defense dampening: ${formula.defenseMultiplier}x -> ${beforeDef.toFixed(1)} -> ${value.toFixed(1)}`);
       }
     }
   }
@@ -427,6 +554,7 @@ export async function calculateSkaterValue(
   if (marketMultiplier !== 1.0) {
     const beforeMarket = value;
     value *= marketMultiplier;
+    recordAdjustment(adjustments, `Market gravity (${marketMultiplier}x for ${points}P/${goals}G)`, beforeMarket, value);
     if (isDebugPlayer) {
       console.log(`[PlayerValues] Market gravity (${points}P/${goals}G): ${marketMultiplier}x -> ${beforeMarket.toFixed(1)} -> ${value.toFixed(1)}`);
     }
@@ -437,6 +565,7 @@ export async function calculateSkaterValue(
   if (isEliteScorer) {
     const beforeFloor = value;
     value = Math.max(value, 145); // Raised from 135 to 145
+    recordAdjustment(adjustments, "Elite scorer floor (145)", beforeFloor, value);
     if (isDebugPlayer && beforeFloor < 145) {
       console.log(`[PlayerValues] Elite scorer floor (145): ${beforeFloor.toFixed(1)} -> ${value.toFixed(1)}`);
     }
@@ -447,6 +576,7 @@ export async function calculateSkaterValue(
   if (isScorer) {
     const beforeFloor = value;
     value = Math.max(value, 115);
+    recordAdjustment(adjustments, "Scorer floor (115)", beforeFloor, value);
     if (isDebugPlayer && beforeFloor < 115) {
       console.log(`[PlayerValues] Scorer floor (115): ${beforeFloor.toFixed(1)} -> ${value.toFixed(1)}`);
     }
@@ -455,6 +585,7 @@ export async function calculateSkaterValue(
   // CLAMP to prevent runaway values
   const beforeClamp = value;
   value = Math.max(SKATER_VALUE_MIN, Math.min(SKATER_VALUE_MAX, value));
+  recordAdjustment(adjustments, `Clamp (${SKATER_VALUE_MIN}-${SKATER_VALUE_MAX})`, beforeClamp, value);
   if (isDebugPlayer && beforeClamp !== value) {
     console.log(`[PlayerValues] Initial clamp (${SKATER_VALUE_MIN}-${SKATER_VALUE_MAX}): ${beforeClamp.toFixed(1)} -> ${value.toFixed(1)}`);
   }
@@ -462,6 +593,7 @@ export async function calculateSkaterValue(
   // Reintroduce spread after clamping to create elite tier separation
   // Uses raw z-score sum to preserve ordering within elite tier
   const spreadAdjustment = (finalWeightedZ * 0.4); // Increased from 0.35 to 0.4
+  recordAdjustment(adjustments, "Elite spread", value, value + spreadAdjustment);
   value += spreadAdjustment;
   if (isDebugPlayer) {
     console.log(`[PlayerValues] Spread adjustment (+${spreadAdjustment.toFixed(2)}): -> ${value.toFixed(1)}`);
@@ -471,6 +603,7 @@ export async function calculateSkaterValue(
   // This prevents identical values for different elite players
   const jitterSeed = (goals * 3.7 + assists * 2.3 + ppp * 1.1) % 3.0;
   const jitter = (jitterSeed - 1.5); // Range: -1.5 to +1.5
+  recordAdjustment(adjustments, "Tie-breaker", value, value + jitter);
   value += jitter;
   if (isDebugPlayer && Math.abs(jitter) > 0.1) {
     console.log(`[PlayerValues] Jitter adjustment (${jitter.toFixed(2)}): -> ${value.toFixed(1)}`);
@@ -479,6 +612,7 @@ export async function calculateSkaterValue(
   // Re-clamp after spread (but allow slight overflow for ordering)
   const beforeReclamp = value;
   value = Math.max(SKATER_VALUE_MIN, Math.min(SKATER_VALUE_MAX + 10, value));
+  recordAdjustment(adjustments, `Re-clamp (${SKATER_VALUE_MIN}-${SKATER_VALUE_MAX + 10})`, beforeReclamp, value);
   if (isDebugPlayer && beforeReclamp !== value) {
     console.log(`[PlayerValues] Re-clamp (${SKATER_VALUE_MIN}-${SKATER_VALUE_MAX + 10}): ${beforeReclamp.toFixed(1)} -> ${value.toFixed(1)}`);
   }
@@ -498,9 +632,10 @@ export async function calculateSkaterValue(
     
     if (isLikelyRookie) {
       const beforeRookie = value;
-      value *= ROOKIE_REDRAFT_ADJUSTMENT;
+      value *= formula.rookieRedraftAdjustment;
+      recordAdjustment(adjustments, `Rookie adjustment (${formula.rookieRedraftAdjustment}x)`, beforeRookie, value);
       if (isDebugPlayer) {
-        console.log(`[PlayerValues] Rookie adjustment (${ROOKIE_REDRAFT_ADJUSTMENT}x): ${beforeRookie.toFixed(1)} -> ${value.toFixed(1)}`);
+        console.log(`[PlayerValues] Rookie adjustment (${formula.rookieRedraftAdjustment}x): ${beforeRookie.toFixed(1)} -> ${value.toFixed(1)}`);
       }
     } else if (isDebugPlayer && matchesRookiePattern && hasHistoricalData) {
       console.log(`[PlayerValues] Rookie pattern detected but skipped (has ${historicalStats.size} historical stat categories)`);
@@ -517,6 +652,7 @@ export async function calculateSkaterValue(
     const suppression = 0.92; // 8% reduction
     const beforeSuppress = value;
     value *= suppression;
+    recordAdjustment(adjustments, `Franchise safeguard (${suppression}x, not a franchise star)`, beforeSuppress, value);
     if (isDebugPlayer) {
       console.log(`[PlayerValues] Franchise safeguard suppression (${suppression}x): ${beforeSuppress.toFixed(1)} -> ${value.toFixed(1)}`);
     }
@@ -528,9 +664,10 @@ export async function calculateSkaterValue(
   const isTrueElite = points >= 38 || assists >= 25 || (points >= 35 && assists >= 22);
   if (isTrueElite) {
     const beforeFranchise = value;
-    value = Math.max(value, FRANCHISE_FLOOR);
-    if (isDebugPlayer && beforeFranchise < FRANCHISE_FLOOR) {
-      console.log(`[PlayerValues] Franchise floor (${FRANCHISE_FLOOR}): ${beforeFranchise.toFixed(1)} -> ${value.toFixed(1)}`);
+    value = Math.max(value, formula.franchiseFloor);
+    recordAdjustment(adjustments, `Franchise floor (${formula.franchiseFloor})`, beforeFranchise, value);
+    if (isDebugPlayer && beforeFranchise < formula.franchiseFloor) {
+      console.log(`[PlayerValues] Franchise floor (${formula.franchiseFloor}): ${beforeFranchise.toFixed(1)} -> ${value.toFixed(1)}`);
     }
   }
   
@@ -540,6 +677,7 @@ export async function calculateSkaterValue(
   if (hasEliteReputation) {
     const beforeRep = value;
     value += 4; // +4 point boost for proven franchise players
+    recordAdjustment(adjustments, "Reputation bonus (+4)", beforeRep, value);
     if (isDebugPlayer) {
       console.log(`[PlayerValues] Reputation bonus (+4): ${beforeRep.toFixed(1)} -> ${value.toFixed(1)}`);
     }
@@ -549,7 +687,17 @@ export async function calculateSkaterValue(
     console.log(`[PlayerValues] ===== FINAL VALUE: ${value.toFixed(1)} =====\n`);
   }
   
-  return value;
+  return {
+    value,
+    breakdown: {
+      method: "z-score",
+      position,
+      categories,
+      baseValue: uncappedBaseValue,
+      adjustments,
+      value,
+    },
+  };
 }
 
 // ===== GOALIE VALUE CALCULATION =====
@@ -560,61 +708,96 @@ export async function calculateSkaterValue(
 export async function calculateGoalieValue(
   playerId: string,
   leagueId: string,
-  allGoalieStats?: Map<string, StatData>
-): Promise<number> {
-  // If stats not provided, fetch them
+  allGoalieStats?: Map<string, StatData>,
+  scoringConfig?: LeagueScoringConfig,
+  formula: ValueFormula = DEFAULT_VALUE_FORMULA
+): Promise<PlayerValueResult> {
+  // If stats or scoring config not provided, fetch them
   if (!allGoalieStats) {
     allGoalieStats = await fetchAllGoalieStats(leagueId);
   }
+  if (!scoringConfig) {
+    scoringConfig = await getLeagueScoringConfig(leagueId);
+  }
   
   const playerStats = allGoalieStats.get(playerId);
   if (!playerStats) {
-    return 40; // Default for players without stats
+    return defaultValueResult("G"); // Default for players without stats
   }
   
   // Get historical stats (last 2 seasons) - same as skaters
   const historicalStats = await getHistoricalStats(playerId);
   
-  // Get player info
-  const player = await prisma.player.findUnique({
-    where: { id: playerId },
-    select: { name: true }
-  });
+  const goalieCategories = scoringConfig.goalieCategories.filter(c => c.weight > 0);
+  const categoryStats = calculateCategoryStats(allGoalieStats, goalieCategories.map(c => c.name));
   
-  // Calculate z-scores for each category
-  const categoryStats = calculateCategoryStats(allGoalieStats, GOALIE_CATEGORIES);
+  return computeGoalieValue(
+    { name: playerStats.playerName, position: "G", stats: playerStats.stats, historical: historicalStats },
+    categoryStats,
+    scoringConfig,
+    formula
+  );
+}
+
+/**
+ * The goalie formula itself: z-scores scaled by games-started volume and workload.
+ * No database access - the backtest calls this directly.
+ */
+export function computeGoalieValue(
+  input: PlayerValuationInput,
+  categoryStats: Map<string, ZScoreStats>,
+  scoringConfig: LeagueScoringConfig,
+  formula: ValueFormula = DEFAULT_VALUE_FORMULA
+): PlayerValueResult {
+  const playerStats = input.stats;
+  const historicalStats = input.historical;
+  
+  // Calculate z-scores for each of the league's goalie categories
+  const goalieCategories = scoringConfig.goalieCategories.filter(c => c.weight > 0);
   
   let totalZScore = 0;
+  const categories: CategoryContribution[] = [];
+  const adjustments: ValueAdjustment[] = [];
   
   // Debug logging for specific goalies
-  const isDebugGoalie = playerStats.playerName === "Connor Hellebuyck" || 
-                        playerStats.playerName === "Igor Shesterkin" ||
-                        playerStats.playerName === "Jake Oettinger";
+  const isDebugGoalie = input.name === "Connor Hellebuyck" || 
+                        input.name === "Igor Shesterkin" ||
+                        input.name === "Jake Oettinger";
   
   if (isDebugGoalie) {
-    console.log(`\n[PlayerValues] ===== ${playerStats.playerName} (Goalie) Value Calculation =====`);
-    console.log(`[PlayerValues] Current season stats (sample):`, Array.from(playerStats.stats.entries()).slice(0, 3).map(([k, v]) => `${k}: ${v}`));
+    console.log(`\n[PlayerValues] ===== ${input.name} (Goalie) Value Calculation =====`);
+    console.log(`[PlayerValues] Current season stats (sample):`, Array.from(playerStats.entries()).slice(0, 3).map(([k, v]) => `${k}: ${v}`));
     console.log(`[PlayerValues] Historical stats (sample):`, Array.from(historicalStats.entries()).slice(0, 3).map(([k, v]) => `${k}: ${v}`));
   }
   
-  for (const category of GOALIE_CATEGORIES) {
+  for (const { statId, abbrev, name: category, isNegative, weight } of goalieCategories) {
     // Blend current season (70%) with historical average (30%) for more stable valuation
-    const currentValue = playerStats.stats.get(category) || 0;
+    const currentValue = playerStats.get(category) || 0;
     const historicalValue = historicalStats.get(category);
     
     // If we have historical data, blend it; otherwise use current only
     const blendedValue = historicalValue !== undefined
-      ? (currentValue * 0.7) + (historicalValue * 0.3)
+      ? (currentValue * (1 - formula.historicalWeight)) + (historicalValue * formula.historicalWeight)
       : currentValue;
     
     const catStats = categoryStats.get(category);
     
     if (!catStats) continue;
     
-    const isNegative = NEGATIVE_CATEGORIES.includes(category);
     const z = zScore(blendedValue, catStats.mean, catStats.stdDev, isNegative);
     
-    totalZScore += z;
+    // Goalie categories weigh 1.0 unless the commissioner overrides them
+    totalZScore += z * weight;
+    categories.push({
+      statId,
+      abbrev,
+      current: currentValue,
+      historical: historicalValue ?? null,
+      blended: blendedValue,
+      z,
+      weight,
+      contribution: z * weight,
+    });
     
     // Debug logging
     if (isDebugGoalie) {
@@ -625,19 +808,20 @@ export async function calculateGoalieValue(
   
   // Apply games-started volume adjustment with soft curve
   // sqrt(min(1, GS/BASELINE)) - smoother than linear, prevents crushing breakout goalies
-  const gamesStarted = playerStats.stats.get("games started") || 0;
-  const gsFactor = Math.sqrt(Math.min(1.0, gamesStarted / BASELINE_GS));
+  const gamesStarted = playerStats.get("games started") || 0;
+  const gsFactor = Math.sqrt(Math.min(1.0, gamesStarted / formula.baselineGamesStarted));
   
   // Scale to make values positive and easier to read (reduced scaling)
   const baseValue = totalZScore * 8 + 100; // Reduced from 10 to 8
   
   // Apply volume factor and optional scaling
-  let value = baseValue * gsFactor * GOALIE_SCALING;
+  let value = baseValue * gsFactor * formula.goalieScaling;
+  recordAdjustment(adjustments, `Games started volume (${gamesStarted} GS, ${gsFactor.toFixed(2)}x)`, baseValue, value);
   
   // Workload adjustment: starters > platoons
   // Reflects fantasy reality that workhorse goalies are more valuable than efficiency-only
-  const wins = playerStats.stats.get("wins") || 0;
-  const losses = playerStats.stats.get("losses") || 0;
+  const wins = playerStats.get("wins") || 0;
+  const losses = playerStats.get("losses") || 0;
   const totalDecisions = wins + losses;
   
   // Estimate team games played (typically ~30-35 games at this point in season)
@@ -646,24 +830,42 @@ export async function calculateGoalieValue(
   
   // Starter bonus: max 15% boost for true workhorses
   const starterBonus = Math.min(1.15, 1.0 + (workloadRatio * 0.25));
+  const beforeStarter = value;
   value *= starterBonus;
+  recordAdjustment(adjustments, `Starter workload (${starterBonus.toFixed(2)}x)`, beforeStarter, value);
   
   // CLAMP goalie values to prevent runaway scores
+  const beforeClamp = value;
   value = Math.max(GOALIE_VALUE_MIN, Math.min(GOALIE_VALUE_MAX, value));
+  recordAdjustment(adjustments, `Clamp (${GOALIE_VALUE_MIN}-${GOALIE_VALUE_MAX})`, beforeClamp, value);
   
   // Add small spread to prevent ties at the cap
   const spreadAdjustment = (totalZScore * 0.35);
+  recordAdjustment(adjustments, "Spread", value, value + spreadAdjustment);
   value += spreadAdjustment;
   
   // Tiny jitter based on wins/saves to break remaining ties
-  const saves = playerStats.stats.get("saves") || 0;
+  const saves = playerStats.get("saves") || 0;
   const jitterSeed = (wins * 2.7 + saves * 0.01) % 3.0;
+  recordAdjustment(adjustments, "Tie-breaker", value, value + jitterSeed - 1.5);
   value += (jitterSeed - 1.5);
   
   // Re-clamp after spread
+  const beforeReclamp = value;
   value = Math.max(GOALIE_VALUE_MIN, Math.min(GOALIE_VALUE_MAX + 5, value));
-  
-  return value;
+  recordAdjustment(adjustments, `Re-clamp (${GOALIE_VALUE_MIN}-${GOALIE_VALUE_MAX + 5})`, beforeReclamp, value);
+  
+  return {
+    value,
+    breakdown: {
+      method: "z-score",
+      position: "G",
+      categories,
+      baseValue,
+      adjustments,
+      value,
+    },
+  };
 }
 
 // ===== HELPER FUNCTIONS =====
@@ -683,6 +885,10 @@ async function fetchAllSkaterStats(leagueId: string): Promise<Map<string, StatDa
       playerStats: {
         where: { leagueId },
       },
+      rosterEntries: {
+        where: { leagueId },
+        select: { id: true },
+      },
     },
   });
   
@@ -700,6 +906,7 @@ async function fetchAllSkaterStats(leagueId: string): Promise<Map<string, StatDa
       playerId: player.id,
       playerName: player.name,
       stats: statMap,
+      isFreeAgent: player.rosterEntries.length === 0,
     });
   }
   
@@ -721,6 +928,10 @@ async function fetchAllGoalieStats(leagueId: string): Promise<Map<string, StatDa
       playerStats: {
         where: { leagueId },
       },
+      rosterEntries: {
+        where: { leagueId },
+        select: { id: true },
+      },
     },
   });
   
@@ -738,6 +949,7 @@ async function fetchAllGoalieStats(leagueId: string): Promise<Map<string, StatDa
       playerId: goalie.id,
       playerName: goalie.name,
       stats: statMap,
+      isFreeAgent: goalie.rosterEntries.length === 0,
     });
   }
   
@@ -745,18 +957,61 @@ async function fetchAllGoalieStats(leagueId: string): Promise<Map<string, StatDa
 }
 
 /**
- * Calculate mean and standard deviation for each category
+ * Per-game view of a player pool: counting stats rescaled to the pool's average games
+ * (games started for goalies), so missed games stop counting against a player. Rate
+ * stats and the games stats themselves are kept - the goalie games-started reliability
+ * curve still sees real starts. Players without games are left out.
+ */
+export function toPerGameStats(
+  allPlayerStats: Map<string, StatData>,
+  isGoalie: boolean,
+  minGames: number
+): Map<string, StatData> {
+  const gamesStat = isGoalie ? "games started" : "games played";
+  const games = new Map<string, number>();
+  for (const [playerId, data] of allPlayerStats) {
+    const count = data.stats.get(gamesStat) ?? 0;
+    if (count > 0) games.set(playerId, count);
+  }
+
+  const perGameStats = new Map<string, StatData>();
+  if (games.size === 0) return perGameStats;
+
+  const averageGames = mean(Array.from(games.values()));
+
+  for (const [playerId, count] of games) {
+    const data = allPlayerStats.get(playerId)!;
+    const scale = averageGames / Math.max(count, minGames);
+    const stats = new Map<string, number>();
+
+    for (const [stat, value] of data.stats) {
+      const keep = isRateStat(stat) || stat === "games played" || stat === "games started";
+      stats.set(stat, keep ? value : value * scale);
+    }
+
+    perGameStats.set(playerId, { ...data, stats });
+  }
+
+  return perGameStats;
+}
+
+/**
+ * Calculate mean and standard deviation for each category.
+ * Only rostered players set the baseline - imported free agents would drag every mean
+ * down and inflate the rostered players' z-scores.
  */
-function calculateCategoryStats(
+export function calculateCategoryStats(
   allPlayerStats: Map<string, StatData>,
   categories: readonly string[]
 ): Map<string, ZScoreStats> {
   const categoryStats = new Map<string, ZScoreStats>();
+  const rostered = Array.from(allPlayerStats.values()).filter(p => !p.isFreeAgent);
+  const pool = rostered.length > 0 ? rostered : Array.from(allPlayerStats.values());
   
   for (const category of categories) {
     const values: number[] = [];
     
-    for (const playerData of allPlayerStats.values()) {
+    for (const playerData of pool) {
       const value = playerData.stats.get(category);
       if (value !== undefined && value !== null) {
         values.push(value);
@@ -782,12 +1037,18 @@ function calculateCategoryStats(
 /**
  * Calculate and store player value for a league.
  * Automatically detects if player is a goalie or skater.
+ * Every calculation also records a value snapshot for value-over-time history.
  */
 export async function calculateAndStorePlayerValue(
   playerId: string,
   leagueId: string,
   allSkaterStats?: Map<string, StatData>,
-  allGoalieStats?: Map<string, StatData>
+  allGoalieStats?: Map<string, StatData>,
+  scoringConfig?: LeagueScoringConfig,
+  formula: ValueFormula = DEFAULT_VALUE_FORMULA,
+  basis: ValueBasis = "season",
+  seasonEnd?: string,
+  injuryOverrides?: Map<string, InjuryOverride>
 ): Promise<number> {
   const player = await prisma.player.findUnique({
     where: { id: playerId },
@@ -797,14 +1058,27 @@ export async function calculateAndStorePlayerValue(
     throw new Error(`Player not found: ${playerId}`);
   }
 
-  let score: number;
-  
-  if (player.primaryPosition === "G") {
-    score = await calculateGoalieValue(playerId, leagueId, allGoalieStats);
-  } else {
-    score = await calculateSkaterValue(playerId, leagueId, allSkaterStats);
+  const result = player.primaryPosition === "G"
+    ? await calculateGoalieValue(playerId, leagueId, allGoalieStats, scoringConfig, formula)
+    : await calculateSkaterValue(playerId, leagueId, allSkaterStats, scoringConfig, formula);
+  let score = result.value;
+  const adjustments = [...result.breakdown.adjustments];
+
+  // Discount injured players by the share of the season they're expected to miss
+  const injury = seasonEnd ? getInjuryOutlook(withInjuryOverride(player, injuryOverrides?.get(playerId)), seasonEnd) : null;
+  if (injury && injury.valueFactor < 1) {
+    const discounted = score * injury.valueFactor;
+    recordAdjustment(
+      adjustments,
+      `Injury (${player.status ?? "out"}, ~${toFixedSafe(injury.gamesMissed, 0)} games missed, ${injury.valueFactor.toFixed(2)}x)`,
+      score,
+      discounted
+    );
+    score = discounted;
   }
 
+  const breakdown: PlayerValueBreakdown = { ...result.breakdown, adjustments, value: score, basis };
+
   // Store value
   await prisma.playerValue.upsert({
     where: {
@@ -815,19 +1089,89 @@ export async function calculateAndStorePlayerValue(
     },
     update: {
       score,
-      breakdown: JSON.stringify({ method: "z-score", position: player.primaryPosition }),
+      breakdown: JSON.stringify(breakdown),
     },
     create: {
       playerId,
       leagueId,
       score,
-      breakdown: JSON.stringify({ method: "z-score", position: player.primaryPosition }),
+      breakdown: JSON.stringify(breakdown),
     },
   });
 
+  // One snapshot per player per day: the day's last value
+  const day = new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+  const snapshot = { score, breakdown: breakdown as unknown as Prisma.InputJsonValue };
+  await prisma.playerValueSnapshot.upsert({
+    where: { leagueId_playerId_day: { leagueId, playerId, day } },
+    update: snapshot,
+    create: { playerId, leagueId, day, ...snapshot },
+  });
+
   return score;
 }
 
+/**
+ * The league's value basis (commissioner setting)
+ */
+export async function getLeagueValueBasis(leagueId: string): Promise<ValueBasis> {
+  const league = await prisma.league.findUnique({ where: { id: leagueId }, select: { valueBasis: true } });
+  return league?.valueBasis === "ros" ? "ros" : "season";
+}
+
+/**
+ * Replace each player's season-to-date stats with their rest-of-season projection,
+ * on the to-date scale the formula expects
+ */
+async function applyRestOfSeasonProjections(
+  leagueId: string,
+  allSkaterStats: Map<string, StatData>,
+  allGoalieStats: Map<string, StatData>
+): Promise<boolean> {
+  const projections = await getLeagueRestOfSeasonProjections(leagueId);
+  if (projections.teamGamesRemaining <= 0) {
+    console.log(`[PlayerValues] No games left this season, valuing on season-to-date stats`);
+    return false;
+  }
+
+  console.log(`[PlayerValues] Valuing on rest-of-season projections (${toFixedSafe(projections.teamGamesRemaining, 1)} team games left, schedule: ${projections.scheduleSource})`);
+
+  for (const statsMap of [allSkaterStats, allGoalieStats]) {
+    for (const [playerId, data] of statsMap) {
+      const projection = projections.players.get(playerId);
+      if (projection) {
+        data.stats = toSeasonScale(projection, projections.teamGamesToDate, projections.teamGamesRemaining);
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Store each player's per-game value next to their total value. Always built from
+ * season-to-date stats; players without games played get no per-game value.
+ */
+async function storePerGameValues(
+  leagueId: string,
+  perGameSkaterStats: Map<string, StatData>,
+  perGameGoalieStats: Map<string, StatData>,
+  scoringConfig: LeagueScoringConfig
+): Promise<void> {
+  await prisma.playerValue.updateMany({ where: { leagueId }, data: { perGameScore: null } });
+
+  for (const playerId of perGameSkaterStats.keys()) {
+    const result = await calculateSkaterValue(playerId, leagueId, perGameSkaterStats, scoringConfig);
+    await prisma.playerValue.updateMany({ where: { playerId, leagueId }, data: { perGameScore: result.value } });
+  }
+
+  for (const playerId of perGameGoalieStats.keys()) {
+    const result = await calculateGoalieValue(playerId, leagueId, perGameGoalieStats, scoringConfig);
+    await prisma.playerValue.updateMany({ where: { playerId, leagueId }, data: { perGameScore: result.value } });
+  }
+
+  console.log(`[PlayerValues] Per-game values for ${perGameSkaterStats.size} skaters, ${perGameGoalieStats.size} goalies`);
+}
+
 /**
  * Ensure all players in a league have calculated values.
  * This is a batch operation that recalculates all values using z-scores.
@@ -835,22 +1179,42 @@ export async function calculateAndStorePlayerValue(
 export async function ensureLeaguePlayerValues(leagueId: string): Promise<void> {
   console.log(`[PlayerValues] Calculating z-score based values for league`);
   
-  // Fetch all stats once for efficiency
+  // Fetch all stats and the league's scoring config once for efficiency
+  const league = await prisma.league.findUnique({ where: { id: leagueId }, select: { season: true } });
+  const seasonEnd = league ? seasonEndDate(league.season) : undefined;
   const allSkaterStats = await fetchAllSkaterStats(leagueId);
   const allGoalieStats = await fetchAllGoalieStats(leagueId);
+  const scoringConfig = await getLeagueScoringConfig(leagueId);
+  const injuryOverrides = await getLeagueInjuryOverrides(leagueId);
   
   console.log(`[PlayerValues] Found ${allSkaterStats.size} skaters, ${allGoalieStats.size} goalies`);
+  console.log(`[PlayerValues] Scoring config (${scoringConfig.source}): ${scoringConfig.skaterCategories.length} skater, ${scoringConfig.goalieCategories.length} goalie categories`);
+
+  // Per-game pools come from season-to-date stats, before projections replace them
+  const perGameSkaterStats = toPerGameStats(allSkaterStats, false, PER_GAME_MIN_GAMES);
+  const perGameGoalieStats = toPerGameStats(allGoalieStats, true, BASELINE_GS);
+
+  // Projections already regress toward history, so they skip the historical blend
+  let basis: ValueBasis = "season";
+  let formula = DEFAULT_VALUE_FORMULA;
+  if (await getLeagueValueBasis(leagueId) === "ros" &&
+      await applyRestOfSeasonProjections(leagueId, allSkaterStats, allGoalieStats)) {
+    basis = "ros";
+    formula = { ...DEFAULT_VALUE_FORMULA, historicalWeight: 0 };
+  }
 
   // Calculate skater values
   for (const playerId of allSkaterStats.keys()) {
-    await calculateAndStorePlayerValue(playerId, leagueId, allSkaterStats, allGoalieStats);
+    await calculateAndStorePlayerValue(playerId, leagueId, allSkaterStats, allGoalieStats, scoringConfig, formula, basis, seasonEnd, injuryOverrides);
   }
   
   // Calculate goalie values
   for (const playerId of allGoalieStats.keys()) {
-    await calculateAndStorePlayerValue(playerId, leagueId, allSkaterStats, allGoalieStats);
+    await calculateAndStorePlayerValue(playerId, leagueId, allSkaterStats, allGoalieStats, scoringConfig, formula, basis, seasonEnd, injuryOverrides);
   }
   
+  await storePerGameValues(leagueId, perGameSkaterStats, perGameGoalieStats, scoringConfig);
+  
   console.log(`[PlayerValues] All player values calculated, now calculating draft pick values`);
   
   // Calculate draft pick values based on player values
@@ -887,8 +1251,9 @@ export async function getPlayerValue(
 export async function calculateDraftPickValues(leagueId: string): Promise<void> {
   console.log(`[DraftPicks] Calculating dynamic draft pick values for league`);
   
+  // Rostered players only - free agents would drag every round down
   const playerValues = await prisma.playerValue.findMany({
-    where: { leagueId },
+    where: { leagueId, player: { rosterEntries: { some: { leagueId } } } },
     orderBy: { score: 'desc' },
     select: { score: true },
   });
@@ -1,9 +1,8 @@
-import { NextRequest } from "next/server";
-import { getSession } from "@/lib/auth/session";
-import { getYahooFantasyClientForRequest } from "@/lib/yahoo/fantasyClient";
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
 import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
 import prisma from "@/lib/prisma";
 import { syncUserLeagues } from "@/lib/yahoo/leagues";
+import { findLeagueByKey, linkLeagueMembershipTeams } from "@/lib/leagues/resolve";
 import { syncLeagueStandings } from "@/lib/yahoo/standings";
 
 export interface YahooPlayer {
@@ -23,7 +22,7 @@ export interface YahooRosterEntry {
   isInjuredList: boolean;
 }
 
-function flattenYahooPlayerNode(node: any): YahooPlayer | null {
+export function flattenYahooPlayerNode(node: any): YahooPlayer | null {
   if (!node) return null;
 
   const normalized = normalizeYahooNode(node);
@@ -114,10 +113,10 @@ function flattenYahooRosterTeamNode(teamNode: any): { teamKey: string; entries:
 }
 
 export async function fetchLeagueRosters(
-  request: NextRequest,
+  userId: string,
   leagueKey: string
-): Promise<Array<{ teamKey: string; teamName: string; managerName?: string; managerGuid?: string; entries: YahooRosterEntry[]; players: YahooPlayer[] }>> {
-  const client = await getYahooFantasyClientForRequest(request);
+): Promise<Array<{ teamKey: string; teamName: string; managerName?: string; managerGuid?: string; isCommissioner: boolean; entries: YahooRosterEntry[]; players: YahooPlayer[] }>> {
+  const client = await getYahooFantasyClientForUser(userId);
   
   let endpoint = `league/${leagueKey}/teams;out=roster`;
   let xmlResponse: string;
@@ -144,7 +143,7 @@ export async function fetchLeagueRosters(
   }
 
   const teamsList = Array.isArray(teamsArray) ? teamsArray : [teamsArray];
-  const result: Array<{ teamKey: string; teamName: string; managerName?: string; managerGuid?: string; entries: YahooRosterEntry[]; players: YahooPlayer[] }> = [];
+  const result: Array<{ teamKey: string; teamName: string; managerName?: string; managerGuid?: string; isCommissioner: boolean; entries: YahooRosterEntry[]; players: YahooPlayer[] }> = [];
 
   for (const teamNode of teamsList) {
     const normalized = normalizeYahooNode(teamNode);
@@ -158,6 +157,10 @@ export async function fetchLeagueRosters(
     const managerGuid = normalized.manager?.guid?.toString() || 
                        normalized.managers?.manager?.guid?.toString() ||
                        normalized.manager_id?.toString();
+
+    // Commissioners can override league scoring weights in the app
+    const isCommissioner = normalized.manager?.is_commissioner?.toString() === "1" ||
+                          normalized.managers?.manager?.is_commissioner?.toString() === "1";
     
     // Debug: Log the full manager object to see what Yahoo returns
     if (!managerGuid) {
@@ -187,6 +190,7 @@ export async function fetchLeagueRosters(
         teamName,
         managerName,
         managerGuid,
+        isCommissioner,
         entries: teamData.entries,
         players,
       });
@@ -201,7 +205,7 @@ export async function fetchLeagueRosters(
 }
 
 export async function syncLeagueRosters(
-  request: NextRequest,
+  userId: string,
   leagueKey: string
 ): Promise<Array<{
   teamKey: string;
@@ -216,64 +220,26 @@ export async function syncLeagueRosters(
     isInjuredList: boolean;
   }>;
 }>> {
-  const session = await getSession();
-
-  if (!session) {
-    throw new Error("Not authenticated");
-  }
-
-  // Normalize league key - handle both 'l' and '1' formats
-  // Yahoo uses 'l' in API responses but URLs might have '1'
-  // Also handle case where database might have '1' instead of 'l'
-  const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-  const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-  
-  console.log("[Yahoo Roster] Looking for league:", { 
-    original: leagueKey, 
-    normalized: normalizedLeagueKey,
-    reverseNormalized: reverseNormalizedKey 
-  });
-
-  // Try multiple variations of the league key
-  let league = await prisma.league.findFirst({
-    where: {
-      userId: session.userId,
-      OR: [
-        { leagueKey: normalizedLeagueKey },
-        { leagueKey: reverseNormalizedKey },
-        { leagueKey: leagueKey },
-      ],
-    },
-  });
+  let league = await findLeagueByKey(leagueKey);
 
   if (!league) {
     console.log("[Yahoo Roster] League not in DB, syncing leagues...");
-    await syncUserLeagues(request);
-    league = await prisma.league.findFirst({
-      where: {
-        userId: session.userId,
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-    });
+    await syncUserLeagues(userId);
+    league = await findLeagueByKey(leagueKey);
   }
 
   if (!league) {
-    throw new Error(`League not found for user: ${leagueKey} (normalized: ${normalizedLeagueKey})`);
+    throw new Error(`League not found for user: ${leagueKey}`);
   }
 
   // Use the league key from database for API calls
   const apiLeagueKey = league.leagueKey;
   console.log("[Yahoo Roster] Using league key for API:", apiLeagueKey);
 
-  const rosters = await fetchLeagueRosters(request, apiLeagueKey);
+  const rosters = await fetchLeagueRosters(userId, apiLeagueKey);
 
   await prisma.rosterEntry.deleteMany({
     where: {
-      userId: session.userId,
       leagueId: league.id,
     },
   });
@@ -292,20 +258,8 @@ export async function syncLeagueRosters(
     }>;
   }> = [];
 
-  // Get user's Yahoo GUID for ownership matching
-  const yahooAccount = await prisma.yahooAccount.findUnique({
-    where: { userId: session.userId },
-    select: { yahooUserId: true },
-  });
-  
-  const userYahooGuid = yahooAccount?.yahooUserId;
-  console.log(`[Yahoo Roster] User's Yahoo GUID: ${userYahooGuid}`);
-
   for (const roster of rosters) {
-    // Check if this team belongs to the logged-in user
-    const isOwner = roster.managerGuid === userYahooGuid;
-    
-    console.log(`[Yahoo Roster] Team ${roster.teamName} - Manager GUID: ${roster.managerGuid}, Is Owner: ${isOwner}`);
+    console.log(`[Yahoo Roster] Team ${roster.teamName} - Manager GUID: ${roster.managerGuid}`);
     
     // Create or update the team
     const team = await prisma.team.upsert({
@@ -319,21 +273,20 @@ export async function syncLeagueRosters(
         name: roster.teamName,
         managerName: roster.managerName,
         yahooManagerId: roster.managerGuid,
-        isOwner: isOwner,
+        isCommissioner: roster.isCommissioner,
         updatedAt: new Date(),
       },
       create: {
-        userId: session.userId,
         leagueId: league.id,
         teamKey: roster.teamKey,
         name: roster.teamName,
         managerName: roster.managerName,
         yahooManagerId: roster.managerGuid,
-        isOwner: isOwner,
+        isCommissioner: roster.isCommissioner,
       },
     });
     
-    console.log(`[Yahoo Roster] Team upserted: ${team.name} (${team.teamKey}), Owner: ${team.isOwner}`);
+    console.log(`[Yahoo Roster] Team upserted: ${team.name} (${team.teamKey})`);
 
     const entries: Array<{
       playerKey: string;
@@ -381,7 +334,6 @@ export async function syncLeagueRosters(
             updatedAt: new Date(),
           },
           create: {
-            userId: session.userId,
             leagueId: league.id,
             teamId: team.id,
             playerId: playerRecord.id,
@@ -410,6 +362,9 @@ export async function syncLeagueRosters(
     });
   }
 
+  // Managers are known now - link every member of the league to their team
+  await linkLeagueMembershipTeams(league.id);
+
   return result;
 }
 
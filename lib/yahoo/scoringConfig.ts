@@ -0,0 +1,191 @@
+/**
+ * League scoring configuration.
+ *
+ * Each league stores the scoring categories it actually uses (imported from
+ * Yahoo league settings) plus optional commissioner weight overrides.
+ * Leagues that have not been imported yet fall back to the default 12+5
+ * category format the app was originally built for.
+ */
+
+import prisma from "@/lib/prisma";
+
+// ===== TYPES =====
+
+export interface ScoringCategory {
+  statId: string;          // Yahoo stat ID
+  name: string;            // Normalized stat name used for lookups ("powerplay points")
+  label: string;           // Yahoo stat name ("Powerplay Points")
+  abbrev: string;          // Yahoo display name ("PPP")
+  positionType: "P" | "G"; // Skater or goalie category
+  isNegative: boolean;     // Lower is better (e.g. GAA)
+  defaultWeight: number;   // Weight used when no override is set
+  weight: number;          // Effective weight (override ?? default)
+  isOverridden: boolean;   // True if a commissioner set the weight
+}
+
+export interface LeagueScoringConfig {
+  source: "yahoo" | "default";
+  skaterCategories: ScoringCategory[];
+  goalieCategories: ScoringCategory[];
+}
+
+// ===== DEFAULTS =====
+
+// Individual category weights - reflects fantasy market reality
+// FIX #1: Reduced grind category weights to prevent bangers from outranking scorers
+// Categories not listed here (goalie categories, stats from other league formats) weigh 1.0
+export const DEFAULT_CATEGORY_WEIGHTS: Record<string, number> = {
+  // Scoring categories (highest value)
+  "goals": 1.5,
+  "assists": 1.3,
+  "points": 0.7,           // Lower weight to avoid double-counting with G+A
+  "powerplay points": 1.2,
+  "shots on goal": 1.3,
+
+  // Support categories (moderate value)
+  "plus/minus": 1.0,
+  "shorthanded points": 1.0,
+  "game-winning goals": 1.0,
+
+  // Grind categories (capped at 25% max contribution)
+  // Reduced from 0.6-0.7 to prevent Tom Wilson > Cole Caufield scenarios
+  "penalty minutes": 0.5,  // Reduced from 0.7
+  "faceoffs won": 0.5,     // Reduced from 0.7
+  "hits": 0.4,             // Reduced from 0.6
+  "blocks": 0.4,           // Reduced from 0.6
+};
+
+// Default league format: 12 skater + 5 goalie categories (Yahoo counts G, A and P separately)
+// Stat IDs are Yahoo's NHL stat IDs
+const DEFAULT_CATEGORIES: Array<{ statId: string; label: string; abbrev: string; positionType: "P" | "G"; isNegative: boolean }> = [
+  { statId: "1", label: "Goals", abbrev: "G", positionType: "P", isNegative: false },
+  { statId: "2", label: "Assists", abbrev: "A", positionType: "P", isNegative: false },
+  { statId: "3", label: "Points", abbrev: "P", positionType: "P", isNegative: false },
+  { statId: "4", label: "Plus/Minus", abbrev: "+/-", positionType: "P", isNegative: false },
+  { statId: "5", label: "Penalty Minutes", abbrev: "PIM", positionType: "P", isNegative: false },
+  { statId: "8", label: "Powerplay Points", abbrev: "PPP", positionType: "P", isNegative: false },
+  { statId: "11", label: "Shorthanded Points", abbrev: "SHP", positionType: "P", isNegative: false },
+  { statId: "12", label: "Game-Winning Goals", abbrev: "GWG", positionType: "P", isNegative: false },
+  { statId: "14", label: "Shots on Goal", abbrev: "SOG", positionType: "P", isNegative: false },
+  { statId: "16", label: "Faceoffs Won", abbrev: "FW", positionType: "P", isNegative: false },
+  { statId: "31", label: "Hits", abbrev: "HIT", positionType: "P", isNegative: false },
+  { statId: "32", label: "Blocks", abbrev: "BLK", positionType: "P", isNegative: false },
+  { statId: "19", label: "Wins", abbrev: "W", positionType: "G", isNegative: false },
+  { statId: "23", label: "Goals Against Average", abbrev: "GAA", positionType: "G", isNegative: true },
+  { statId: "25", label: "Saves", abbrev: "SV", positionType: "G", isNegative: false },
+  { statId: "26", label: "Save Percentage", abbrev: "SV%", positionType: "G", isNegative: false },
+  { statId: "27", label: "Shutouts", abbrev: "SHO", positionType: "G", isNegative: false },
+];
+
+// ===== UTILITY FUNCTIONS =====
+
+/**
+ * Normalize stat names for consistent lookup (same as playerValues.ts)
+ */
+export function normalizeStatName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, " ").replace(/\./g, "");
+}
+
+// NHL stat name variations (historical-stats.json, NHL CSVs, NHL API) -> Yahoo category names
+const NHL_STAT_NAMES: Record<string, string> = {
+  // Skater stat mappings
+  "power play points": "powerplay points",
+  "short handed points": "shorthanded points",
+  "game winning goals": "game-winning goals",
+  "game-winning goals": "game-winning goals",
+  // Goalie stat mappings
+  "save percentage": "save percentage", // Keep as-is after normalization
+};
+
+/**
+ * Normalize an NHL stat name to the category name used in scoring configs
+ */
+export function toCategoryStatName(statName: string): string {
+  const normalizedName = normalizeStatName(statName);
+  return NHL_STAT_NAMES[normalizedName] || normalizedName;
+}
+
+/**
+ * Default weight for a category by normalized stat name
+ */
+export function getDefaultCategoryWeight(name: string): number {
+  return DEFAULT_CATEGORY_WEIGHTS[normalizeStatName(name)] ?? 1.0;
+}
+
+function buildCategory(
+  statId: string,
+  label: string,
+  abbrev: string,
+  positionType: "P" | "G",
+  isNegative: boolean,
+  weightOverride: number | null
+): ScoringCategory {
+  const name = normalizeStatName(label);
+  const defaultWeight = getDefaultCategoryWeight(name);
+
+  return {
+    statId,
+    name,
+    label,
+    abbrev,
+    positionType,
+    isNegative,
+    defaultWeight,
+    weight: weightOverride ?? defaultWeight,
+    isOverridden: weightOverride !== null,
+  };
+}
+
+/**
+ * Scoring config for leagues that have not imported Yahoo settings yet
+ */
+export function getDefaultScoringConfig(): LeagueScoringConfig {
+  const categories = DEFAULT_CATEGORIES.map(c =>
+    buildCategory(c.statId, c.label, c.abbrev, c.positionType, c.isNegative, null)
+  );
+
+  return {
+    source: "default",
+    skaterCategories: categories.filter(c => c.positionType === "P"),
+    goalieCategories: categories.filter(c => c.positionType === "G"),
+  };
+}
+
+/**
+ * Load a league's scoring categories and weight overrides.
+ * Falls back to the default format if the league has none stored.
+ */
+export async function getLeagueScoringConfig(leagueId: string): Promise<LeagueScoringConfig> {
+  const rows = await prisma.leagueStatCategory.findMany({
+    where: { leagueId },
+    orderBy: { displayOrder: 'asc' },
+  });
+
+  if (rows.length === 0) {
+    return getDefaultScoringConfig();
+  }
+
+  const categories = rows.map(row =>
+    buildCategory(
+      row.statId,
+      row.name,
+      row.displayName,
+      row.positionType === "G" ? "G" : "P",
+      row.sortOrder === 0,
+      row.weight
+    )
+  );
+
+  return {
+    source: "yahoo",
+    skaterCategories: categories.filter(c => c.positionType === "P"),
+    goalieCategories: categories.filter(c => c.positionType === "G"),
+  };
+}
+
+/**
+ * Categories that count toward value - a weight of 0 switches a category off
+ */
+export function getActiveCategories(config: LeagueScoringConfig): ScoringCategory[] {
+  return [...config.skaterCategories, ...config.goalieCategories].filter(c => c.weight > 0);
+}
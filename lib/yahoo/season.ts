@@ -1,5 +1,4 @@
-import { NextRequest } from "next/server";
-import { getYahooFantasyClientForRequest } from "@/lib/yahoo/fantasyClient";
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
 import { parseYahooXml, findFirstPath } from "@/lib/yahoo/normalize";
 
 const seasonCache = new Map<string, string>();
@@ -22,13 +21,13 @@ function extractYearFromSeason(seasonValue: any): string {
 
 export async function getSeasonForGame(
   gameKey: string,
-  request: NextRequest
+  userId: string
 ): Promise<string> {
   if (seasonCache.has(gameKey)) {
     return seasonCache.get(gameKey)!;
   }
 
-  const client = await getYahooFantasyClientForRequest(request);
+  const client = await getYahooFantasyClientForUser(userId);
   const endpoint = `game/${gameKey}`;
   const xmlResponse = await client.request(endpoint);
   const parsed = await parseYahooXml(xmlResponse);
@@ -50,7 +49,7 @@ export async function getSeasonForGame(
 }
 
 export async function getSeasonForCurrentGame(
-  request: NextRequest
+  userId: string
 ): Promise<string> {
   const { getYahooGameKey } = await import("@/lib/yahoo/config");
   const gameKey = getYahooGameKey();
@@ -59,6 +58,6 @@ export async function getSeasonForCurrentGame(
     throw new Error("YAHOO_GAME_KEY is not configured");
   }
 
-  return getSeasonForGame(gameKey, request);
+  return getSeasonForGame(gameKey, userId);
 }
 
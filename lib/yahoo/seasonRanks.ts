@@ -0,0 +1,108 @@
+/**
+ * Yahoo's actual end-of-season player ranks ("AR" sort) - the target the player value
+ * backtest measures the formula against. Saved as CSV so backtests run offline.
+ */
+
+import {
+  getYahooFantasyClientForUser,
+  type YahooFantasyClient,
+} from "@/lib/yahoo/fantasyClient";
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+
+export interface YahooSeasonRank {
+  rank: number;
+  name: string;
+  position: string | null;  // Yahoo display position, e.g. "C,LW"
+  season: string;           // Season start year, e.g. "2024"
+}
+
+// Yahoo returns at most 25 players per collection request
+const PAGE_SIZE = 25;
+
+const CSV_HEADER = "Rank,Player Name,Position,Season";
+
+async function fetchNhlGameKey(client: YahooFantasyClient, season: string): Promise<string> {
+  const xmlResponse = await client.request(`games;game_codes=nhl;seasons=${season}`);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const game = normalizeYahooNode(findFirstPath(parsed, [
+    "fantasy_content.games.game",
+    "fantasy_content.games.0.game",
+  ]));
+  const gameKey = game?.game_key?.toString();
+
+  if (!gameKey) {
+    throw new Error(`No Yahoo NHL game found for the ${season} season`);
+  }
+  return gameKey;
+}
+
+/**
+ * Fetch Yahoo's top players for a finished season, ranked by actual season performance
+ */
+export async function fetchYahooSeasonRanks(
+  userId: string,
+  season: string,
+  count: number = 300
+): Promise<YahooSeasonRank[]> {
+  const client = await getYahooFantasyClientForUser(userId);
+  const gameKey = await fetchNhlGameKey(client, season);
+
+  const ranks: YahooSeasonRank[] = [];
+  for (let start = 0; start < count; start += PAGE_SIZE) {
+    const endpoint = `game/${gameKey}/players;sort=AR;sort_type=season;sort_season=${season};start=${start};count=${PAGE_SIZE}`;
+    const parsed = await parseYahooXml(await client.request(endpoint));
+
+    const playersNode = findFirstPath(parsed, [
+      "fantasy_content.game.players.player",
+      "fantasy_content.game.0.players.0.player",
+    ]);
+    if (!playersNode) break;
+
+    const players = Array.isArray(playersNode) ? playersNode : [playersNode];
+    players.forEach((node, index) => {
+      const player = normalizeYahooNode(node);
+      const name = player.name?.full?.toString() || player.name?.toString() || "";
+      if (!name) return;
+
+      ranks.push({
+        rank: start + index + 1,
+        name,
+        position: player.display_position?.toString() || player.primary_position?.toString() || null,
+        season,
+      });
+    });
+
+    if (players.length < PAGE_SIZE) break;
+  }
+
+  return ranks.slice(0, count);
+}
+
+// ===== CSV =====
+
+export function formatYahooRanksCsv(ranks: YahooSeasonRank[]): string {
+  // Positions like "C,LW" are quoted; names never contain commas
+  const rows = ranks.map(r => `${r.rank},${r.name},"${r.position ?? ""}",${r.season}`);
+  return [CSV_HEADER, ...rows].join("\n") + "\n";
+}
+
+export function parseYahooRanksCsv(content: string): YahooSeasonRank[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines[0]?.trim() !== CSV_HEADER) {
+    throw new Error(`Unexpected ranks CSV header (expected "${CSV_HEADER}")`);
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const match = line.match(/^(\d+),([^,]+),"([^"]*)",(\d{4})$/);
+    if (!match) {
+      throw new Error(`Invalid ranks CSV row ${index + 2}: ${line}`);
+    }
+    return {
+      rank: parseInt(match[1], 10),
+      name: match[2].trim(),
+      position: match[3] || null,
+      season: match[4],
+    };
+  });
+}
@@ -1,9 +1,8 @@
-import { NextRequest } from "next/server";
-import { getSession } from "@/lib/auth/session";
-import { getYahooFantasyClientForRequest } from "@/lib/yahoo/fantasyClient";
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
 import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
 import prisma from "@/lib/prisma";
 import { syncUserLeagues } from "@/lib/yahoo/leagues";
+import { findLeagueByKey } from "@/lib/leagues/resolve";
 
 export interface YahooTeamStanding {
   teamKey: string;
@@ -93,10 +92,10 @@ function extractStandingsFromResponse(parsed: any, leagueKey: string): YahooTeam
 }
 
 export async function fetchLeagueStandings(
-  request: NextRequest,
+  userId: string,
   leagueKey: string
 ): Promise<YahooTeamStanding[]> {
-  const client = await getYahooFantasyClientForRequest(request);
+  const client = await getYahooFantasyClientForUser(userId);
   const endpoint = `league/${leagueKey}/standings`;
   const xmlResponse = await client.request(endpoint);
   const parsed = await parseYahooXml(xmlResponse);
@@ -105,7 +104,7 @@ export async function fetchLeagueStandings(
 }
 
 export async function syncLeagueStandings(
-  request: NextRequest,
+  userId: string,
   leagueKey: string
 ): Promise<Array<{
   teamKey: string;
@@ -118,60 +117,23 @@ export async function syncLeagueStandings(
   pointsFor?: number;
   pointsAgainst?: number;
 }>> {
-  const session = await getSession();
-
-  if (!session) {
-    throw new Error("Not authenticated");
-  }
-
-  // Normalize league key - handle both 'l' and '1' formats
-  // Yahoo uses 'l' in API responses but URLs might have '1'
-  // Also handle case where database might have '1' instead of 'l'
-  const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-  const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-  
-  console.log("[Yahoo Standings] Looking for league:", { 
-    original: leagueKey, 
-    normalized: normalizedLeagueKey,
-    reverseNormalized: reverseNormalizedKey 
-  });
-
-  // Try multiple variations of the league key
-  let league = await prisma.league.findFirst({
-    where: {
-      userId: session.userId,
-      OR: [
-        { leagueKey: normalizedLeagueKey },
-        { leagueKey: reverseNormalizedKey },
-        { leagueKey: leagueKey },
-      ],
-    },
-  });
+  let league = await findLeagueByKey(leagueKey);
 
   if (!league) {
     console.log("[Yahoo Standings] League not in DB, syncing leagues...");
-    await syncUserLeagues(request);
-    league = await prisma.league.findFirst({
-      where: {
-        userId: session.userId,
-        OR: [
-          { leagueKey: normalizedLeagueKey },
-          { leagueKey: reverseNormalizedKey },
-          { leagueKey: leagueKey },
-        ],
-      },
-    });
+    await syncUserLeagues(userId);
+    league = await findLeagueByKey(leagueKey);
   }
 
   if (!league) {
-    throw new Error(`League not found for user: ${leagueKey} (normalized: ${normalizedLeagueKey})`);
+    throw new Error(`League not found for user: ${leagueKey}`);
   }
 
   // Use the league key from database for API calls
   const apiLeagueKey = league.leagueKey;
   console.log("[Yahoo Standings] Using league key for API:", apiLeagueKey);
 
-  const standings = await fetchLeagueStandings(request, apiLeagueKey);
+  const standings = await fetchLeagueStandings(userId, apiLeagueKey);
 
   const result = [];
 
@@ -189,7 +151,6 @@ export async function syncLeagueStandings(
         updatedAt: new Date(),
       },
       create: {
-        userId: session.userId,
         leagueId: league.id,
         teamKey: standing.teamKey,
         name: standing.teamName,
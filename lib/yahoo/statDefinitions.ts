@@ -1,5 +1,4 @@
-import { NextRequest } from "next/server";
-import { getYahooFantasyClientForRequest } from "@/lib/yahoo/fantasyClient";
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
 import { parseYahooXml, findFirstPath } from "@/lib/yahoo/normalize";
 
 export interface YahooStatDefinition {
@@ -30,7 +29,7 @@ function normalizeStatName(name: string): string {
 
 export async function fetchStatDefinitionsForGame(
   gameKey: string,
-  request: NextRequest
+  userId: string
 ): Promise<StatDefinitionsCache> {
   console.log(`[StatDefinitions] Checking cache for game key: ${gameKey}`);
   
@@ -42,7 +41,7 @@ export async function fetchStatDefinitionsForGame(
 
   console.log(`[StatDefinitions] Fetching stat definitions for game ${gameKey}`);
   
-  const client = await getYahooFantasyClientForRequest(request);
+  const client = await getYahooFantasyClientForUser(userId);
   const endpoint = `game/${gameKey}/stat_categories`;
   
   console.log(`[StatDefinitions] Calling endpoint: ${endpoint}`);
@@ -114,7 +113,7 @@ export async function fetchStatDefinitionsForGame(
 }
 
 export async function getStatDefinitionsForCurrentGame(
-  request: NextRequest
+  userId: string
 ): Promise<StatDefinitionsCache> {
   const { getYahooGameKey } = await import("@/lib/yahoo/config");
   const gameKey = getYahooGameKey();
@@ -123,7 +122,7 @@ export async function getStatDefinitionsForCurrentGame(
     throw new Error("YAHOO_GAME_KEY is not configured");
   }
 
-  return fetchStatDefinitionsForGame(gameKey, request);
+  return fetchStatDefinitionsForGame(gameKey, userId);
 }
 
 export function getStatIdByNameCached(
@@ -0,0 +1,121 @@
+/**
+ * Yahoo OAuth access token refresh.
+ *
+ * Access tokens last about an hour; the refresh token stored at link time is
+ * exchanged for a new one shortly before expiry (or after Yahoo rejects a token).
+ * Concurrent requests for the same account share a single refresh.
+ */
+
+import prisma from "@/lib/prisma";
+import { getYahooClientId, getYahooClientSecret, getYahooRedirectUri } from "@/lib/yahoo/config";
+
+const TOKEN_URL = "https://api.login.yahoo.com/oauth2/get_token";
+
+// Refresh this long before expiry so in-flight requests never carry a dead token
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Yahoo's default access token lifetime
+const DEFAULT_EXPIRES_IN_SECONDS = 3600;
+
+// OAuth errors meaning the refresh token itself is no longer valid
+const REVOKED_ERRORS = new Set(["invalid_grant", "unauthorized_client"]);
+
+export interface YahooTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+}
+
+const inflightRefreshes = new Map<string, Promise<YahooTokens | null>>();
+
+/**
+ * True if the access token is expired or about to expire
+ */
+export function needsRefresh(expiresAt: Date | null, now: number = Date.now()): boolean {
+  return expiresAt !== null && expiresAt.getTime() - TOKEN_REFRESH_MARGIN_MS <= now;
+}
+
+async function exchangeRefreshToken(yahooAccountId: string, staleAccessToken: string): Promise<YahooTokens | null> {
+  const account = await prisma.yahooAccount.findUnique({ where: { id: yahooAccountId } });
+  if (!account?.refreshToken) {
+    return null;
+  }
+
+  // Another instance may already have refreshed this account
+  if (account.accessToken !== staleAccessToken && !needsRefresh(account.expiresAt)) {
+    return {
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+      expiresAt: account.expiresAt,
+    };
+  }
+
+  console.log(`[Yahoo Token] Refreshing access token for account ${yahooAccountId}`);
+
+  const response = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: getYahooClientId(),
+      client_secret: getYahooClientSecret(),
+      redirect_uri: getYahooRedirectUri(),
+      refresh_token: account.refreshToken,
+      grant_type: "refresh_token",
+    }).toString(),
+  });
+
+  const responseText = await response.text();
+  let tokenJson: Record<string, unknown> = {};
+  try {
+    tokenJson = JSON.parse(responseText);
+  } catch {
+    // Non-JSON error pages are handled below
+  }
+
+  if (!response.ok) {
+    const error = typeof tokenJson.error === "string" ? tokenJson.error : "";
+    if (REVOKED_ERRORS.has(error) || response.status === 401) {
+      console.warn(`[Yahoo Token] Refresh token rejected for account ${yahooAccountId}: ${error || response.status}`);
+      return null;
+    }
+    throw new Error(`Yahoo token refresh failed: ${response.status} - ${responseText.substring(0, 200)}`);
+  }
+
+  const accessToken = typeof tokenJson.access_token === "string" ? tokenJson.access_token : "";
+  if (!accessToken) {
+    throw new Error("Yahoo token refresh failed: missing access_token in response");
+  }
+
+  // Yahoo usually rotates the refresh token; keep the old one if it doesn't
+  const refreshToken = typeof tokenJson.refresh_token === "string" && tokenJson.refresh_token
+    ? tokenJson.refresh_token
+    : account.refreshToken;
+  const expiresIn = typeof tokenJson.expires_in === "number" ? tokenJson.expires_in : DEFAULT_EXPIRES_IN_SECONDS;
+  const expiresAt = new Date(Date.now() + expiresIn * 1000);
+
+  await prisma.yahooAccount.update({
+    where: { id: yahooAccountId },
+    data: { accessToken, refreshToken, expiresAt },
+  });
+
+  console.log(`[Yahoo Token] Access token refreshed, expires at ${expiresAt.toISOString()}`);
+  return { accessToken, refreshToken, expiresAt };
+}
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Returns null if the account has no refresh token or Yahoo has revoked it -
+ * the user has to re-link their Yahoo account.
+ */
+export function refreshYahooAccessToken(yahooAccountId: string, staleAccessToken: string): Promise<YahooTokens | null> {
+  const inflight = inflightRefreshes.get(yahooAccountId);
+  if (inflight) {
+    return inflight;
+  }
+
+  const refresh = exchangeRefreshToken(yahooAccountId, staleAccessToken).finally(() => {
+    inflightRefreshes.delete(yahooAccountId);
+  });
+  inflightRefreshes.set(yahooAccountId, refresh);
+  return refresh;
+}
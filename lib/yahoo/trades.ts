@@ -0,0 +1,170 @@
+/**
+ * Trades submitted to Yahoo.
+ * An agreed trade is posted to the league's transactions collection as a pending trade from
+ * the proposing manager's team. Yahoo then runs its own acceptance, review and veto process,
+ * which we follow through the pending transaction's status.
+ */
+
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+import type { YahooFantasyClient } from "@/lib/yahoo/fantasyClient";
+import type { YahooTransaction } from "@/lib/yahoo/transactions";
+
+// ===== TYPES =====
+
+export interface YahooTradeMove {
+  sourceTeamKey: string;
+  destinationTeamKey: string;
+}
+
+export interface YahooPendingTrade {
+  traderTeamKey: string;        // Proposing team - must be the submitting user's team
+  tradeeTeamKey: string;
+  note: string | null;
+  players: Array<YahooTradeMove & { playerKey: string }>;
+  picks: Array<YahooTradeMove & { round: number }>;
+}
+
+export interface YahooTradeState {
+  transactionKey: string;
+  status: string;               // Yahoo's status, e.g. "proposed", "accepted", "successful", "vetoed"
+}
+
+export type YahooRequester = Pick<YahooFantasyClient, "request">;
+
+// ===== CONSTANTS =====
+
+// Yahoo won't change a trade again once it reaches one of these
+export const YAHOO_TRADE_FINAL_STATUSES = ["successful", "vetoed", "rejected", "cancelled"];
+
+// The trade went through and rosters changed
+export const YAHOO_TRADE_COMPLETED_STATUS = "successful";
+
+// ===== XML =====
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Request body for a pending trade (POST league/{key}/transactions)
+ */
+export function buildPendingTradeXml(trade: YahooPendingTrade): string {
+  const players = trade.players.map(player => [
+    "      <player>",
+    `        <player_key>${escapeXml(player.playerKey)}</player_key>`,
+    "        <transaction_data>",
+    "          <type>pending_trade</type>",
+    `          <source_team_key>${escapeXml(player.sourceTeamKey)}</source_team_key>`,
+    `          <destination_team_key>${escapeXml(player.destinationTeamKey)}</destination_team_key>`,
+    "        </transaction_data>",
+    "      </player>",
+  ].join("\n"));
+
+  const picks = trade.picks.map(pick => [
+    "      <pick>",
+    `        <source_team_key>${escapeXml(pick.sourceTeamKey)}</source_team_key>`,
+    `        <destination_team_key>${escapeXml(pick.destinationTeamKey)}</destination_team_key>`,
+    `        <round>${pick.round}</round>`,
+    "      </pick>",
+  ].join("\n"));
+
+  return [
+    "<?xml version=\"1.0\"?>",
+    "<fantasy_content>",
+    "  <transaction>",
+    "    <type>pending_trade</type>",
+    `    <trader_team_key>${escapeXml(trade.traderTeamKey)}</trader_team_key>`,
+    `    <tradee_team_key>${escapeXml(trade.tradeeTeamKey)}</tradee_team_key>`,
+    ...(trade.note ? [`    <trade_note>${escapeXml(trade.note)}</trade_note>`] : []),
+    ...(players.length > 0 ? ["    <players>", ...players, "    </players>"] : []),
+    ...(picks.length > 0 ? ["    <picks>", ...picks, "    </picks>"] : []),
+    "  </transaction>",
+    "</fantasy_content>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Key and status of the transaction in a Yahoo transaction response
+ */
+export async function parseYahooTradeState(xml: string): Promise<YahooTradeState> {
+  const parsed = await parseYahooXml(xml);
+  const transaction = normalizeYahooNode(findFirstPath(parsed, [
+    "fantasy_content.transaction",
+    "fantasy_content.league.transactions.transaction",
+    "fantasy_content.0.transaction",
+  ]));
+
+  const transactionKey = transaction?.transaction_key?.toString() || "";
+  if (!transactionKey) {
+    throw new Error("Yahoo response did not include a transaction key");
+  }
+
+  return { transactionKey, status: transaction.status?.toString() || "" };
+}
+
+export function isFinalYahooTradeStatus(status: string): boolean {
+  return YAHOO_TRADE_FINAL_STATUSES.includes(status);
+}
+
+// ===== REQUESTS =====
+
+/**
+ * Propose the trade on Yahoo. Yahoo checks rosters and trade rules and answers with the
+ * new pending transaction.
+ */
+export async function postYahooPendingTrade(
+  client: YahooRequester,
+  leagueKey: string,
+  trade: YahooPendingTrade
+): Promise<YahooTradeState> {
+  const xmlResponse = await client.request(`league/${leagueKey}/transactions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/xml" },
+    body: buildPendingTradeXml(trade),
+  });
+
+  const state = await parseYahooTradeState(xmlResponse);
+  console.log(`[Yahoo Trades] Submitted ${trade.traderTeamKey} -> ${trade.tradeeTeamKey}: ${state.transactionKey} (${state.status})`);
+  return state;
+}
+
+export async function fetchYahooTradeState(
+  client: YahooRequester,
+  transactionKey: string
+): Promise<YahooTradeState> {
+  const xmlResponse = await client.request(`transaction/${transactionKey}`);
+  return parseYahooTradeState(xmlResponse);
+}
+
+/**
+ * The completed league trade that moved exactly these players and picks, if any.
+ * Yahoo processes a pending trade into a new "trade" transaction, so once the pending
+ * one is gone this is how we learn it went through.
+ */
+export function findCompletedTrade(
+  transactions: YahooTransaction[],
+  trade: YahooPendingTrade,
+  since: Date
+): YahooTransaction | null {
+  const expected = new Set([
+    ...trade.players.map(p => `player:${p.playerKey}:${p.destinationTeamKey}`),
+    ...trade.picks.map(p => `pick:${p.round}:${p.sourceTeamKey}:${p.destinationTeamKey}`),
+  ]);
+
+  return transactions.find(transaction => {
+    if (transaction.type !== "trade" || transaction.status !== YAHOO_TRADE_COMPLETED_STATUS || transaction.timestamp < since) {
+      return false;
+    }
+    const moved = new Set([
+      ...transaction.players.map(p => `player:${p.playerKey}:${p.destinationTeamKey}`),
+      ...transaction.picks.map(p => `pick:${p.round}:${p.sourceTeamKey}:${p.destinationTeamKey}`),
+    ]);
+    return moved.size === expected.size && [...expected].every(key => moved.has(key));
+  }) ?? null;
+}
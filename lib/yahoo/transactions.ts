@@ -0,0 +1,248 @@
+import { getYahooFantasyClientForUser } from "@/lib/yahoo/fantasyClient";
+import { parseYahooXml, normalizeYahooNode, findFirstPath } from "@/lib/yahoo/normalize";
+import { getPlayerValueTimelines, valueNearest } from "@/lib/yahoo/valueHistory";
+import prisma from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import type { TransactionPick } from "@/lib/transactions/types";
+
+// Without a value snapshot, current values only stand in for transactions this recent
+const VALUE_CAPTURE_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface YahooTransactionPlayer {
+  playerKey: string;
+  playerName: string;
+  type: string; // "add", "drop", "trade"
+  sourceType: string;
+  sourceTeamKey: string | null;
+  sourceTeamName: string | null;
+  destinationType: string;
+  destinationTeamKey: string | null;
+  destinationTeamName: string | null;
+}
+
+export interface YahooTransactionPick {
+  round: number;
+  sourceTeamKey: string;
+  destinationTeamKey: string;
+}
+
+export interface YahooTransaction {
+  transactionKey: string;
+  type: string;
+  status: string;
+  timestamp: Date;
+  players: YahooTransactionPlayer[];
+  picks: YahooTransactionPick[];
+}
+
+function toList(node: unknown): unknown[] {
+  if (node === null || node === undefined) return [];
+  return Array.isArray(node) ? node : [node];
+}
+
+function flattenTransactionPlayerNode(node: unknown): YahooTransactionPlayer | null {
+  const player = normalizeYahooNode(node);
+  if (!player) return null;
+
+  const playerKey = player.player_key?.toString() || "";
+  if (!playerKey) return null;
+
+  // transaction_data is an array when a player moves more than once in the same transaction
+  const data = normalizeYahooNode(player.transaction_data) || {};
+
+  return {
+    playerKey,
+    playerName: player.name?.full?.toString() || playerKey,
+    type: data.type?.toString() || "",
+    sourceType: data.source_type?.toString() || "",
+    sourceTeamKey: data.source_team_key?.toString() || null,
+    sourceTeamName: data.source_team_name?.toString() || null,
+    destinationType: data.destination_type?.toString() || "",
+    destinationTeamKey: data.destination_team_key?.toString() || null,
+    destinationTeamName: data.destination_team_name?.toString() || null,
+  };
+}
+
+function flattenTransactionPickNode(node: unknown): YahooTransactionPick | null {
+  const pick = normalizeYahooNode(node);
+  if (!pick) return null;
+
+  const sourceTeamKey = pick.source_team_key?.toString() || "";
+  const destinationTeamKey = pick.destination_team_key?.toString() || "";
+  const round = parseInt(pick.round?.toString() || "0", 10);
+  if (!sourceTeamKey || !destinationTeamKey || !round) return null;
+
+  return { round, sourceTeamKey, destinationTeamKey };
+}
+
+function flattenTransactionNode(node: unknown): YahooTransaction | null {
+  const transaction = normalizeYahooNode(node);
+  if (!transaction) return null;
+
+  const transactionKey = transaction.transaction_key?.toString() || "";
+  if (!transactionKey) return null;
+
+  const players = toList(transaction.players?.player)
+    .map(flattenTransactionPlayerNode)
+    .filter((p): p is YahooTransactionPlayer => p !== null);
+  const picks = toList(transaction.picks?.pick)
+    .map(flattenTransactionPickNode)
+    .filter((p): p is YahooTransactionPick => p !== null);
+
+  // Yahoo timestamps are unix seconds
+  const timestamp = parseInt(transaction.timestamp?.toString() || "0", 10);
+
+  return {
+    transactionKey,
+    type: transaction.type?.toString() || "",
+    status: transaction.status?.toString() || "",
+    timestamp: new Date(timestamp * 1000),
+    players,
+    picks,
+  };
+}
+
+/**
+ * Fetch completed trades, adds and drops for a league from Yahoo
+ */
+export async function fetchLeagueTransactions(
+  userId: string,
+  leagueKey: string
+): Promise<YahooTransaction[]> {
+  const client = await getYahooFantasyClientForUser(userId);
+  const xmlResponse = await client.request(`league/${leagueKey}/transactions;types=add,drop,trade`);
+  const parsed = await parseYahooXml(xmlResponse);
+
+  const transactionsArray = findFirstPath(parsed, [
+    "fantasy_content.league.transactions.transaction",
+    "fantasy_content.league.0.transactions.0.transaction",
+  ]);
+
+  const transactions: YahooTransaction[] = [];
+  for (const node of toList(transactionsArray)) {
+    const transaction = flattenTransactionNode(node);
+    if (transaction) {
+      transactions.push(transaction);
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Store a league's Yahoo transactions. Returns the number of new transactions.
+ *
+ * A player's value at trade is their league value snapshot nearest the transaction. Without
+ * snapshots (and for picks, which have none) a transaction synced right after it happened
+ * takes the current value. Values still missing are filled in on later syncs once known.
+ */
+export async function syncLeagueTransactions(
+  userId: string,
+  leagueKey: string,
+  leagueId: string
+): Promise<number> {
+  const transactions = await fetchLeagueTransactions(userId, leagueKey);
+
+  const existing = await prisma.transaction.findMany({
+    where: { leagueId },
+    select: {
+      transactionKey: true,
+      timestamp: true,
+      picks: true,
+      players: { where: { valueAtTrade: null }, select: { id: true, playerKey: true } },
+    },
+  });
+  const existingByKey = new Map(existing.map(t => [t.transactionKey, t]));
+
+  // Snapshots of everyone in a new transaction or missing a value in a stored one
+  const playerKeys = new Set([
+    ...transactions
+      .filter(t => !existingByKey.has(t.transactionKey))
+      .flatMap(t => t.players.map(p => p.playerKey)),
+    ...existing.flatMap(t => t.players.map(p => p.playerKey)),
+  ]);
+  const players = await prisma.player.findMany({
+    where: { playerKey: { in: Array.from(playerKeys) } },
+    select: { id: true, playerKey: true },
+  });
+  const timelines = await getPlayerValueTimelines(leagueId, players.map(p => p.id));
+  const timelineByPlayerKey = new Map(players.map(p => [p.playerKey, timelines.get(p.id) ?? []]));
+
+  const playerValues = await prisma.playerValue.findMany({
+    where: { leagueId },
+    include: { player: { select: { playerKey: true } } },
+  });
+  const valueByPlayerKey = new Map(playerValues.map(v => [v.player.playerKey, v.score]));
+  const pickValues = await prisma.draftPickValue.findMany({ where: { leagueId } });
+  const valueByRound = new Map(pickValues.map(v => [v.round, v.score]));
+
+  const capturedAt = new Date();
+  const isRecent = (timestamp: Date) => capturedAt.getTime() - timestamp.getTime() <= VALUE_CAPTURE_WINDOW_MS;
+  const playerValueAt = (playerKey: string, timestamp: Date): number | null => {
+    const fromSnapshot = valueNearest(timelineByPlayerKey.get(playerKey) ?? [], timestamp);
+    if (fromSnapshot !== null) return fromSnapshot;
+    return isRecent(timestamp) ? valueByPlayerKey.get(playerKey) ?? null : null;
+  };
+  const pickValueAt = (round: number, timestamp: Date): number | null =>
+    isRecent(timestamp) ? valueByRound.get(round) ?? null : null;
+
+  let created = 0;
+  let backfilled = 0;
+
+  for (const transaction of transactions) {
+    const stored = existingByKey.get(transaction.transactionKey);
+    if (stored) {
+      // Status can change (e.g. pending trades); values at trade only fill in where missing
+      const playerUpdates = stored.players
+        .map(p => ({ id: p.id, valueAtTrade: playerValueAt(p.playerKey, stored.timestamp) }))
+        .filter((p): p is { id: string; valueAtTrade: number } => p.valueAtTrade !== null);
+      const storedPicks = (stored.picks as unknown as TransactionPick[] | null) ?? [];
+      const picks = storedPicks.map(pick =>
+        pick.valueAtTrade !== null ? pick : { ...pick, valueAtTrade: pickValueAt(pick.round, stored.timestamp) }
+      );
+      const picksFilled = picks.some((pick, i) => pick.valueAtTrade !== storedPicks[i].valueAtTrade);
+      const filled = playerUpdates.length > 0 || picksFilled;
+
+      await prisma.transaction.update({
+        where: { leagueId_transactionKey: { leagueId, transactionKey: transaction.transactionKey } },
+        data: {
+          status: transaction.status,
+          ...(filled ? { valuesCapturedAt: capturedAt } : {}),
+          ...(picksFilled ? { picks: picks as unknown as Prisma.InputJsonValue } : {}),
+          ...(playerUpdates.length > 0
+            ? { players: { update: playerUpdates.map(({ id, valueAtTrade }) => ({ where: { id }, data: { valueAtTrade } })) } }
+            : {}),
+        },
+      });
+      if (filled) backfilled++;
+      continue;
+    }
+
+    const picks: TransactionPick[] = transaction.picks.map(pick => ({
+      ...pick,
+      valueAtTrade: pickValueAt(pick.round, transaction.timestamp),
+    }));
+    const transactionPlayers = transaction.players.map(player => ({
+      ...player,
+      valueAtTrade: playerValueAt(player.playerKey, transaction.timestamp),
+    }));
+    const hasValues = [...picks, ...transactionPlayers].some(asset => asset.valueAtTrade !== null);
+
+    await prisma.transaction.create({
+      data: {
+        leagueId,
+        transactionKey: transaction.transactionKey,
+        type: transaction.type,
+        status: transaction.status,
+        timestamp: transaction.timestamp,
+        picks: picks.length > 0 ? (picks as unknown as Prisma.InputJsonValue) : undefined,
+        valuesCapturedAt: hasValues ? capturedAt : null,
+        players: { create: transactionPlayers },
+      },
+    });
+    created++;
+  }
+
+  console.log(`[Transactions] Synced ${transactions.length} transactions for ${leagueKey} (${created} new, ${backfilled} given values at trade)`);
+  return created;
+}
@@ -0,0 +1,143 @@
+/**
+ * Pluggable transport for Yahoo Fantasy API calls.
+ *
+ * Every Yahoo request goes through a transport. "live" (the default) calls Yahoo;
+ * "record" calls Yahoo and saves each XML response under the fixture directory;
+ * "replay" serves saved responses without touching the network, so syncs and parsers
+ * run against a recorded fixture league with no Yahoo account.
+ *
+ *   YAHOO_TRANSPORT=live|record|replay
+ *   YAHOO_FIXTURE_DIR=data/yahoo-fixtures/<league>   (default data/yahoo-fixtures)
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// ===== TYPES =====
+
+export type YahooTransportMode = "live" | "record" | "replay";
+
+export interface YahooTransportRequest {
+  path: string;                     // Relative to /fantasy/v2, e.g. "league/465.l.9080/standings"
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  accessToken: string;
+}
+
+/**
+ * Sends a request and resolves with the XML response body
+ */
+export type YahooTransport = (request: YahooTransportRequest) => Promise<string>;
+
+export class YahooFixtureNotFoundError extends Error {
+  constructor(public endpoint: string, public fixtureFile: string) {
+    super(`No recorded Yahoo response for ${endpoint} (expected ${fixtureFile})`);
+    this.name = "YahooFixtureNotFoundError";
+  }
+}
+
+// ===== CONSTANTS =====
+
+const DEFAULT_FIXTURE_DIR = path.join("data", "yahoo-fixtures");
+
+// Keep fixture file names well under filesystem limits
+const MAX_FILE_NAME_LENGTH = 150;
+
+let transportOverride: YahooTransport | null = null;
+
+// ===== CONFIG =====
+
+export function getYahooTransportMode(): YahooTransportMode {
+  const mode = (process.env.YAHOO_TRANSPORT || "").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+export function getYahooFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.YAHOO_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+/**
+ * Fixture file for a request: <dir>/<method>/<path with unsafe characters replaced>.xml
+ */
+export function fixtureFilePath(fixtureDir: string, method: string, endpoint: string): string {
+  let name = endpoint.replace(/[^A-Za-z0-9._;,=-]/g, "_");
+  if (name.length > MAX_FILE_NAME_LENGTH) {
+    // Long player_keys lists - keep a readable prefix and disambiguate with a hash
+    const hash = crypto.createHash("sha1").update(endpoint).digest("hex").slice(0, 12);
+    name = `${name.slice(0, MAX_FILE_NAME_LENGTH - 13)}-${hash}`;
+  }
+  return path.join(fixtureDir, method.toLowerCase(), `${name}.xml`);
+}
+
+// ===== TRANSPORTS =====
+
+/**
+ * Calls the live transport and saves every successful response as a fixture
+ */
+export function createRecordingTransport(live: YahooTransport, fixtureDir: string): YahooTransport {
+  return async (request) => {
+    const body = await live(request);
+
+    const file = fixtureFilePath(fixtureDir, request.method, request.path);
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, body, "utf-8");
+      console.log(`[Yahoo Transport] Recorded ${request.path} -> ${path.relative(process.cwd(), file)}`);
+    } catch (error) {
+      // Recording is a side effect - never fail the request over it
+      console.error(`[Yahoo Transport] Failed to record ${request.path}:`, error);
+    }
+
+    return body;
+  };
+}
+
+/**
+ * Serves previously recorded responses; never touches the network
+ */
+export function createReplayTransport(fixtureDir: string): YahooTransport {
+  return async (request) => {
+    const file = fixtureFilePath(fixtureDir, request.method, request.path);
+    try {
+      const body = await fs.promises.readFile(file, "utf-8");
+      console.log(`[Yahoo Transport] Replaying ${request.path}`);
+      return body;
+    } catch {
+      throw new YahooFixtureNotFoundError(request.path, path.relative(process.cwd(), file));
+    }
+  };
+}
+
+/**
+ * Replace the transport for every Yahoo request (tests); pass null to restore the default
+ */
+export function setYahooTransport(transport: YahooTransport | null): void {
+  transportOverride = transport;
+}
+
+/**
+ * The transport to use for the configured mode, wrapping the live HTTPS transport
+ */
+export function resolveYahooTransport(live: YahooTransport): YahooTransport {
+  if (transportOverride) {
+    return transportOverride;
+  }
+
+  switch (getYahooTransportMode()) {
+    case "record":
+      return createRecordingTransport(live, getYahooFixtureDir());
+    case "replay":
+      return createReplayTransport(getYahooFixtureDir());
+    default:
+      return live;
+  }
+}
+
+/**
+ * True when Yahoo is never contacted, so tokens don't need to be valid or refreshed
+ */
+export function isOfflineTransport(): boolean {
+  return transportOverride !== null || getYahooTransportMode() === "replay";
+}
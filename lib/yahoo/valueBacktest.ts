@@ -0,0 +1,371 @@
+/**
+ * Backtest for the player value formula.
+ *
+ * Values the players Yahoo ranked for a finished season from that season's final stats
+ * (NHL CSVs or historical-stats.json), blending in earlier seasons the same way live
+ * valuation does, then measures how well the value order matches Yahoo's actual
+ * end-of-season ranks (Spearman rank correlation). Run via scripts/backtest-player-values.ts.
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  DEFAULT_VALUE_FORMULA,
+  calculateCategoryStats,
+  computeGoalieValue,
+  computeSkaterValue,
+  weightHistoricalSeasons,
+  type StatData,
+  type ValueFormula,
+} from "@/lib/yahoo/playerValues";
+import {
+  getDefaultScoringConfig,
+  normalizeStatName,
+  toCategoryStatName,
+  type LeagueScoringConfig,
+} from "@/lib/yahoo/scoringConfig";
+import type { YahooSeasonRank } from "@/lib/yahoo/seasonRanks";
+
+// ===== TYPES =====
+
+export type BacktestSource = "csv" | "json";
+
+type SeasonStats = Record<string, number>;         // NHL stat name -> season total
+type PlayerSeasons = Record<string, SeasonStats>;  // Season start year -> stats
+
+export interface SeasonDataset {
+  skaters: Map<string, PlayerSeasons>;  // Keyed by player name
+  goalies: Map<string, PlayerSeasons>;
+}
+
+/**
+ * Formula overrides passed to the backtest as JSON (--config)
+ */
+export interface BacktestConfigFile {
+  formula?: Partial<ValueFormula>;
+  categoryWeights?: Record<string, number>;  // Category name or abbreviation -> weight (0 drops it)
+}
+
+export interface BacktestConfig {
+  formula: ValueFormula;
+  scoringConfig: LeagueScoringConfig;
+}
+
+export interface BacktestPlayer {
+  name: string;
+  position: string | null;
+  isGoalie: boolean;
+  value: number;
+  valueRank: number;  // Rank by our value among matched players
+  yahooRank: number;  // Yahoo's rank among matched players
+}
+
+export interface BacktestReport {
+  season: string;
+  source: BacktestSource;
+  matchedPlayers: number;
+  unmatched: string[];           // Ranked by Yahoo but missing from the season's stats
+  spearman: number | null;       // All matched players
+  spearmanSkaters: number | null;
+  spearmanGoalies: number | null;
+  top: number;
+  spearmanTop: number | null;    // Yahoo's top N
+  meanRankErrorTop: number | null;
+  players: BacktestPlayer[];     // Sorted by Yahoo rank
+}
+
+// ===== DATA FILES =====
+
+const DATA_DIR = path.join(process.cwd(), "data");
+
+// The skater export has been uploaded under both names
+const SKATER_CSV_FILES = ["nhl_players_stats.csv", "nhl_players_stats copy.csv"];
+const GOALIE_CSV_FILE = "nhl_goalies_stats.csv";
+const HISTORICAL_JSON_FILE = "historical-stats.json";
+
+// CSV columns that aren't stats
+const CSV_META_COLUMNS = new Set(["Player Name", "Season", "Team"]);
+
+/**
+ * Parse the NHL stat exports (plain comma-separated, no quoted fields)
+ */
+function readCsv(file: string): Array<Record<string, string>> {
+  const lines = fs.readFileSync(file, "utf-8").split(/\r?\n/).filter(line => line.trim() !== "");
+  const header = lines[0].split(",").map(h => h.trim());
+
+  return lines.slice(1).map(line => {
+    const cells = line.split(",");
+    return Object.fromEntries(header.map((h, i) => [h, (cells[i] ?? "").trim()]));
+  });
+}
+
+// "2023/24" -> "2023" (seasons are keyed by start year, like historical-stats.json)
+function csvSeason(season: string): string {
+  return season.match(/^(\d{4})/)?.[1] ?? season;
+}
+
+/**
+ * Add one CSV row to a player's season. Traded players have a row per team, so
+ * counting stats are summed. Returns true if the season already had a row.
+ */
+function addSeasonRow(target: Map<string, PlayerSeasons>, row: Record<string, string>): boolean {
+  const name = row["Player Name"];
+  const season = csvSeason(row["Season"]);
+  const seasons = target.get(name) ?? {};
+  const merged = season in seasons;
+  const stats = seasons[season] ?? {};
+
+  for (const [column, raw] of Object.entries(row)) {
+    if (CSV_META_COLUMNS.has(column)) continue;
+    stats[column] = (stats[column] ?? 0) + (parseFloat(raw) || 0);
+  }
+
+  seasons[season] = stats;
+  target.set(name, seasons);
+  return merged;
+}
+
+function loadCsvDataset(): SeasonDataset {
+  const skaterFile = SKATER_CSV_FILES.map(f => path.join(DATA_DIR, f)).find(f => fs.existsSync(f));
+  if (!skaterFile) {
+    throw new Error(`No skater CSV found in data/ (expected ${SKATER_CSV_FILES[0]})`);
+  }
+
+  const skaters = new Map<string, PlayerSeasons>();
+  for (const row of readCsv(skaterFile)) {
+    addSeasonRow(skaters, row);
+  }
+
+  const goalies = new Map<string, PlayerSeasons>();
+  for (const row of readCsv(path.join(DATA_DIR, GOALIE_CSV_FILE))) {
+    if (addSeasonRow(goalies, row)) {
+      // Rate stats can't be summed - recompute them from the combined totals
+      const stats = goalies.get(row["Player Name"])![csvSeason(row["Season"])];
+      if (stats["Games Played"] > 0) {
+        stats["Goals Against Average"] = stats["Goals Against"] / stats["Games Played"];
+      }
+      if (stats["Shots Against"] > 0) {
+        stats["Save Percentage"] = stats["Saves"] / stats["Shots Against"];
+      }
+    }
+  }
+
+  return { skaters, goalies };
+}
+
+function loadJsonDataset(): SeasonDataset {
+  const raw = JSON.parse(fs.readFileSync(path.join(DATA_DIR, HISTORICAL_JSON_FILE), "utf-8"));
+  const skaters = new Map<string, PlayerSeasons>();
+  const goalies = new Map<string, PlayerSeasons>();
+
+  for (const [name, seasons] of Object.entries(raw as Record<string, PlayerSeasons>)) {
+    if (name.startsWith("_")) continue; // _comment, _format
+    const isGoalie = Object.values(seasons).some(s => (s["Saves"] ?? 0) > 0);
+    (isGoalie ? goalies : skaters).set(name, seasons);
+  }
+
+  return { skaters, goalies };
+}
+
+export function loadSeasonDataset(source: BacktestSource): SeasonDataset {
+  return source === "csv" ? loadCsvDataset() : loadJsonDataset();
+}
+
+// ===== CONFIG =====
+
+/**
+ * Apply formula and category weight overrides to the production defaults
+ */
+export function resolveBacktestConfig(file: BacktestConfigFile = {}): BacktestConfig {
+  const formula: ValueFormula = {
+    ...DEFAULT_VALUE_FORMULA,
+    ...file.formula,
+    positionMultipliers: { ...DEFAULT_VALUE_FORMULA.positionMultipliers, ...file.formula?.positionMultipliers },
+  };
+
+  const scoringConfig = getDefaultScoringConfig();
+  const categories = [...scoringConfig.skaterCategories, ...scoringConfig.goalieCategories];
+
+  for (const [key, weight] of Object.entries(file.categoryWeights ?? {})) {
+    const category = categories.find(c => c.name === normalizeStatName(key) || c.abbrev === key);
+    if (!category) {
+      throw new Error(`Unknown scoring category "${key}"`);
+    }
+    category.weight = weight;
+    category.isOverridden = true;
+  }
+
+  return { formula, scoringConfig };
+}
+
+// ===== STATISTICS =====
+
+/**
+ * 1-based ranks, ties sharing their average rank
+ */
+function averageRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = rank;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman rank correlation: 1 = identical order, 0 = unrelated, -1 = reversed.
+ * Null with fewer than 3 pairs.
+ */
+export function spearmanCorrelation(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 3) return null;
+
+  const ra = averageRanks(a);
+  const rb = averageRanks(b);
+  const mean = (ra.length + 1) / 2;
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < ra.length; i++) {
+    cov += (ra[i] - mean) * (rb[i] - mean);
+    varA += (ra[i] - mean) ** 2;
+    varB += (rb[i] - mean) ** 2;
+  }
+
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : null;
+}
+
+// ===== BACKTEST =====
+
+// Yahoo names carry accents the NHL exports sometimes drop ("Stützle" / "Stutzle")
+function matchName(name: string): string {
+  return name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[.']/g, "").replace(/\s+/g, " ").trim();
+}
+
+function toStatData(name: string, stats: SeasonStats): StatData {
+  const normalized = new Map<string, number>();
+  for (const [statName, value] of Object.entries(stats)) {
+    normalized.set(toCategoryStatName(statName), value);
+  }
+  return { playerId: name, playerName: name, stats: normalized };
+}
+
+/**
+ * Seasons strictly before the backtested one - what live valuation would have had as history
+ */
+function historyBefore(seasons: PlayerSeasons, season: string): Map<string, number> {
+  const earlier = Object.fromEntries(Object.entries(seasons).filter(([s]) => s < season));
+  return weightHistoricalSeasons(earlier);
+}
+
+/**
+ * Value the players Yahoo ranked for a season and compare the two orders.
+ * Only ranked players are valued, so z-scores are taken against a fantasy-relevant pool
+ * (like a league's rostered players) rather than every NHL regular.
+ */
+export function runBacktest(options: {
+  season: string;
+  source: BacktestSource;
+  ranks: YahooSeasonRank[];
+  dataset: SeasonDataset;
+  config?: BacktestConfig;
+  top?: number;
+}): BacktestReport {
+  const { season, source, dataset } = options;
+  const { formula, scoringConfig } = options.config ?? resolveBacktestConfig();
+  const top = options.top ?? 100;
+
+  const byName = (group: Map<string, PlayerSeasons>) =>
+    new Map(Array.from(group.entries()).map(([name, seasons]) => [matchName(name), { name, seasons }]));
+  const skaters = byName(dataset.skaters);
+  const goalies = byName(dataset.goalies);
+
+  // Match Yahoo's ranked players to their season stats
+  const matched: Array<{ rank: YahooSeasonRank; name: string; seasons: PlayerSeasons; isGoalie: boolean }> = [];
+  const unmatched: string[] = [];
+  for (const rank of [...options.ranks].sort((a, b) => a.rank - b.rank)) {
+    const key = matchName(rank.name);
+    const goalie = goalies.get(key);
+    const skater = skaters.get(key);
+    const entry = goalie?.seasons[season] ? goalie : skater?.seasons[season] ? skater : null;
+
+    if (!entry) {
+      unmatched.push(rank.name);
+      continue;
+    }
+    matched.push({ rank, name: entry.name, seasons: entry.seasons, isGoalie: entry === goalie });
+  }
+
+  // Category means and spreads over the ranked pool, per player type
+  const pool = (isGoalie: boolean) => new Map(
+    matched
+      .filter(m => m.isGoalie === isGoalie)
+      .map(m => {
+        const data = toStatData(m.name, m.seasons[season]);
+        // historical-stats.json has no games started - treat its goalies as full-time starters
+        if (isGoalie && !data.stats.has("games started")) {
+          data.stats.set("games started", formula.baselineGamesStarted);
+        }
+        return [m.name, data];
+      })
+  );
+  const skaterPool = pool(false);
+  const goaliePool = pool(true);
+  const skaterCategoryStats = calculateCategoryStats(
+    skaterPool,
+    scoringConfig.skaterCategories.filter(c => c.weight > 0).map(c => c.name)
+  );
+  const goalieCategoryStats = calculateCategoryStats(
+    goaliePool,
+    scoringConfig.goalieCategories.filter(c => c.weight > 0).map(c => c.name)
+  );
+
+  const valued = matched.map(m => {
+    const position = m.rank.position?.split(",")[0].trim() || (m.isGoalie ? "G" : null);
+    const input = {
+      name: m.name,
+      position,
+      stats: (m.isGoalie ? goaliePool : skaterPool).get(m.name)!.stats,
+      historical: historyBefore(m.seasons, season),
+    };
+    const result = m.isGoalie
+      ? computeGoalieValue(input, goalieCategoryStats, scoringConfig, formula)
+      : computeSkaterValue(input, skaterCategoryStats, scoringConfig, formula);
+
+    return { name: m.name, position, isGoalie: m.isGoalie, value: result.value, yahooRank: m.rank.rank };
+  });
+
+  // Re-rank both orders over the matched players so they're directly comparable
+  const byValue = [...valued].sort((a, b) => b.value - a.value);
+  const players: BacktestPlayer[] = valued.map((p, index) => ({
+    ...p,
+    valueRank: byValue.indexOf(p) + 1,
+    yahooRank: index + 1,
+  }));
+
+  const correlation = (subset: BacktestPlayer[]) =>
+    spearmanCorrelation(subset.map(p => -p.value), subset.map(p => p.yahooRank));
+  const topPlayers = players.slice(0, top);
+
+  return {
+    season,
+    source,
+    matchedPlayers: players.length,
+    unmatched,
+    spearman: correlation(players),
+    spearmanSkaters: correlation(players.filter(p => !p.isGoalie)),
+    spearmanGoalies: correlation(players.filter(p => p.isGoalie)),
+    top,
+    spearmanTop: correlation(topPlayers),
+    meanRankErrorTop: topPlayers.length > 0
+      ? topPlayers.reduce((sum, p) => sum + Math.abs(p.valueRank - p.yahooRank), 0) / topPlayers.length
+      : null,
+    players,
+  };
+}
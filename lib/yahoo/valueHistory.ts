@@ -0,0 +1,173 @@
+/**
+ * Player value history from value snapshots.
+ * Every value recalculation writes the player's snapshot for the day, so each player has
+ * at most one per day (see calculateAndStorePlayerValue).
+ */
+
+import prisma from "@/lib/prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ValuePoint {
+  date: string;  // YYYY-MM-DD
+  score: number; // Last value calculated that day
+}
+
+function windowStart(days: number): Date {
+  return new Date(`${new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10)}T00:00:00Z`);
+}
+
+// A player's snapshots, oldest first
+export type ValueTimeline = Array<{ day: Date; score: number }>;
+
+export interface ValueMover {
+  playerId: string;
+  name: string;
+  position: string | null;
+  teamName: string | null; // Fantasy team, null for free agents
+  from: number;
+  to: number;
+  change: number;
+}
+
+export interface ValueMovers {
+  days: number;
+  risers: ValueMover[];
+  fallers: ValueMover[];
+}
+
+/**
+ * Daily value history per player over the last `days` days.
+ * Pass no player IDs to get every player with snapshots in the league.
+ */
+export async function getPlayerValueHistory(
+  leagueId: string,
+  playerIds: string[] | null,
+  days: number
+): Promise<Record<string, ValuePoint[]>> {
+  const snapshots = await prisma.playerValueSnapshot.findMany({
+    where: {
+      leagueId,
+      day: { gte: windowStart(days) },
+      ...(playerIds ? { playerId: { in: playerIds } } : {}),
+    },
+    select: { playerId: true, score: true, day: true },
+    orderBy: { day: "asc" },
+  });
+
+  const history: Record<string, ValuePoint[]> = {};
+  for (const snapshot of snapshots) {
+    if (!history[snapshot.playerId]) {
+      history[snapshot.playerId] = [];
+    }
+    history[snapshot.playerId].push({ date: snapshot.day.toISOString().slice(0, 10), score: snapshot.score });
+  }
+  return history;
+}
+
+/**
+ * Every snapshot of the given players in the league, keyed by player ID
+ */
+export async function getPlayerValueTimelines(
+  leagueId: string,
+  playerIds: string[]
+): Promise<Map<string, ValueTimeline>> {
+  const timelines = new Map<string, ValueTimeline>();
+  if (playerIds.length === 0) {
+    return timelines;
+  }
+
+  const snapshots = await prisma.playerValueSnapshot.findMany({
+    where: { leagueId, playerId: { in: playerIds } },
+    select: { playerId: true, score: true, day: true },
+    orderBy: { day: "asc" },
+  });
+  for (const snapshot of snapshots) {
+    const timeline = timelines.get(snapshot.playerId) ?? [];
+    timeline.push({ day: snapshot.day, score: snapshot.score });
+    timelines.set(snapshot.playerId, timeline);
+  }
+  return timelines;
+}
+
+/**
+ * The value from the snapshot nearest the (UTC) day of a point in time, the earlier one on a tie
+ */
+export function valueNearest(timeline: ValueTimeline, at: Date): number | null {
+  const day = new Date(`${at.toISOString().slice(0, 10)}T00:00:00Z`).getTime();
+  let nearest: { distance: number; score: number } | null = null;
+  for (const point of timeline) {
+    const distance = Math.abs(point.day.getTime() - day);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { distance, score: point.score };
+    }
+  }
+  return nearest?.score ?? null;
+}
+
+/**
+ * Biggest value risers and fallers: current value vs the first snapshot in the window
+ */
+export async function getValueMovers(
+  leagueId: string,
+  days: number = 7,
+  limit: number = 5
+): Promise<ValueMovers> {
+  const snapshots = await prisma.playerValueSnapshot.findMany({
+    where: {
+      leagueId,
+      day: { gte: windowStart(days) },
+    },
+    select: { playerId: true, score: true },
+    orderBy: { day: "asc" },
+  });
+
+  const baseline = new Map<string, number>();
+  for (const snapshot of snapshots) {
+    if (!baseline.has(snapshot.playerId)) {
+      baseline.set(snapshot.playerId, snapshot.score);
+    }
+  }
+
+  const currentValues = await prisma.playerValue.findMany({
+    where: { leagueId, playerId: { in: Array.from(baseline.keys()) } },
+    include: {
+      player: {
+        select: {
+          name: true,
+          primaryPosition: true,
+          rosterEntries: {
+            where: { leagueId },
+            select: { team: { select: { name: true } } },
+            take: 1,
+          },
+        },
+      },
+    },
+  });
+
+  const movers: ValueMover[] = currentValues.map(value => {
+    const from = baseline.get(value.playerId)!;
+    return {
+      playerId: value.playerId,
+      name: value.player.name,
+      position: value.player.primaryPosition,
+      teamName: value.player.rosterEntries[0]?.team.name ?? null,
+      from,
+      to: value.score,
+      change: value.score - from,
+    };
+  });
+
+  return {
+    days,
+    risers: movers
+      .filter(m => m.change > 0)
+      .sort((a, b) => b.change - a.change)
+      .slice(0, limit),
+    fallers: movers
+      .filter(m => m.change < 0)
+      .sort((a, b) => a.change - b.change)
+      .slice(0, limit),
+  };
+}
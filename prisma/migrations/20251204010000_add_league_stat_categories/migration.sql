@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "teams" ADD COLUMN     "isCommissioner" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "league_stat_categories" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "statId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "positionType" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "displayOrder" INTEGER NOT NULL,
+    "weight" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "league_stat_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_stat_categories_leagueId_statId_key" ON "league_stat_categories"("leagueId", "statId");
+
+-- AddForeignKey
+ALTER TABLE "league_stat_categories" ADD CONSTRAINT "league_stat_categories_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
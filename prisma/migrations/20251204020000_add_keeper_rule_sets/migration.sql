@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "keeper_rule_sets" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "maxKeeperYears" INTEGER NOT NULL DEFAULT 3,
+    "minKeeperRound" INTEGER NOT NULL DEFAULT 2,
+    "maxKeeperRound" INTEGER NOT NULL DEFAULT 16,
+    "tierLocked" BOOLEAN NOT NULL DEFAULT true,
+    "tiers" JSONB NOT NULL,
+    "bonusRules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "keeper_rule_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "keeper_rule_sets_leagueId_key" ON "keeper_rule_sets"("leagueId");
+
+-- AddForeignKey
+ALTER TABLE "keeper_rule_sets" ADD CONSTRAINT "keeper_rule_sets_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
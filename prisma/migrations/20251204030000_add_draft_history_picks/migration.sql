@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "draft_history_picks" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "season" TEXT NOT NULL,
+    "yahooLeagueKey" TEXT NOT NULL,
+    "pick" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "teamKey" TEXT NOT NULL,
+    "playerKey" TEXT NOT NULL,
+    "yahooPlayerId" TEXT NOT NULL,
+    "isKeeper" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "draft_history_picks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "draft_history_picks_leagueId_season_pick_key" ON "draft_history_picks"("leagueId", "season", "pick");
+
+-- CreateIndex
+CREATE INDEX "draft_history_picks_leagueId_yahooPlayerId_idx" ON "draft_history_picks"("leagueId", "yahooPlayerId");
+
+-- AddForeignKey
+ALTER TABLE "draft_history_picks" ADD CONSTRAINT "draft_history_picks_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
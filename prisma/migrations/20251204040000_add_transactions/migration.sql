@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "transactions" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "transactionKey" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "picks" JSONB,
+    "valuesCapturedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "transaction_players" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "playerKey" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceTeamKey" TEXT,
+    "sourceTeamName" TEXT,
+    "destinationType" TEXT NOT NULL,
+    "destinationTeamKey" TEXT,
+    "destinationTeamName" TEXT,
+    "valueAtTrade" DOUBLE PRECISION,
+
+    CONSTRAINT "transaction_players_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_leagueId_transactionKey_key" ON "transactions"("leagueId", "transactionKey");
+
+-- CreateIndex
+CREATE INDEX "transactions_leagueId_timestamp_idx" ON "transactions"("leagueId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "transaction_players_transactionId_idx" ON "transaction_players"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_players" ADD CONSTRAINT "transaction_players_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "player_value_snapshots" (
+    "id" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "player_value_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_value_snapshots_leagueId_playerId_createdAt_idx" ON "player_value_snapshots"("leagueId", "playerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "player_value_snapshots_leagueId_createdAt_idx" ON "player_value_snapshots"("leagueId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "player_value_snapshots" ADD CONSTRAINT "player_value_snapshots_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_value_snapshots" ADD CONSTRAINT "player_value_snapshots_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
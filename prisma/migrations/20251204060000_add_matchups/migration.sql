@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "matchups" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "week" INTEGER NOT NULL,
+    "weekStart" TIMESTAMP(3) NOT NULL,
+    "weekEnd" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "teamKey" TEXT NOT NULL,
+    "opponentTeamKey" TEXT,
+    "stats" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "matchups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matchups_leagueId_week_teamKey_key" ON "matchups"("leagueId", "week", "teamKey");
+
+-- CreateIndex
+CREATE INDEX "matchups_leagueId_week_idx" ON "matchups"("leagueId", "week");
+
+-- AddForeignKey
+ALTER TABLE "matchups" ADD CONSTRAINT "matchups_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "sync_jobs" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "lastStartedAt" TIMESTAMP(3),
+    "lastFinishedAt" TIMESTAMP(3),
+    "lastStatus" TEXT,
+    "lastSteps" JSONB,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_jobs_leagueId_key" ON "sync_jobs"("leagueId");
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_nextRunAt_idx" ON "sync_jobs"("nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "sync_jobs" ADD CONSTRAINT "sync_jobs_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "sync_runs" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "userId" TEXT,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "currentStep" TEXT,
+    "steps" JSONB NOT NULL,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_runs_leagueId_startedAt_idx" ON "sync_runs"("leagueId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "sync_runs" ADD CONSTRAINT "sync_runs_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
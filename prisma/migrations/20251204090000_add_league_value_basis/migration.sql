@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "valueBasis" TEXT NOT NULL DEFAULT 'season';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "player_values" ADD COLUMN "perGameScore" DOUBLE PRECISION;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "players" ADD COLUMN "expectedReturn" TIMESTAMP(3),
+ADD COLUMN "injuryNote" TEXT,
+ADD COLUMN "injurySource" TEXT;
+
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "irSlots" INTEGER;
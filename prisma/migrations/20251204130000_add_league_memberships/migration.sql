@@ -0,0 +1,180 @@
+-- One canonical league per Yahoo league key, shared by every user in it through league_memberships.
+-- Per-user duplicates (including ".1." spellings of the key) are merged into the oldest league for
+-- the key - the record every route already read from. Rows the canonical league is missing are moved
+-- over from the duplicates; everything else is dropped along with the duplicate league.
+
+-- CreateTable
+CREATE TABLE "league_memberships" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "league_memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_memberships_userId_leagueId_key" ON "league_memberships"("userId", "leagueId");
+
+-- CreateIndex
+CREATE INDEX "league_memberships_leagueId_idx" ON "league_memberships"("leagueId");
+
+-- Map every duplicate league to the oldest league with the same normalized key
+CREATE TEMP TABLE "league_merge" AS
+SELECT l."id" AS "duplicateId", c."id" AS "canonicalId", l."createdAt"
+FROM "leagues" l
+JOIN LATERAL (
+    SELECT o."id"
+    FROM "leagues" o
+    WHERE REPLACE(o."leagueKey", '.1.', '.l.') = REPLACE(l."leagueKey", '.1.', '.l.')
+    ORDER BY o."createdAt" ASC, o."id" ASC
+    LIMIT 1
+) c ON TRUE
+WHERE l."id" <> c."id";
+
+-- Every user who had a copy of the league becomes a member of the canonical one
+INSERT INTO "league_memberships" ("id", "userId", "leagueId", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::TEXT, l."userId", COALESCE(m."canonicalId", l."id"), l."createdAt", CURRENT_TIMESTAMP
+FROM "leagues" l
+LEFT JOIN "league_merge" m ON m."duplicateId" = l."id"
+ON CONFLICT ("userId", "leagueId") DO NOTHING;
+
+-- Move rows the canonical league doesn't have yet, oldest duplicate first
+DO $$
+DECLARE
+    dup RECORD;
+BEGIN
+    FOR dup IN SELECT * FROM "league_merge" ORDER BY "createdAt" ASC, "duplicateId" ASC LOOP
+        -- Teams, with the rows that hang off them
+        UPDATE "teams" t SET "leagueId" = dup."canonicalId"
+        WHERE t."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "teams" c WHERE c."leagueId" = dup."canonicalId" AND c."teamKey" = t."teamKey");
+
+        UPDATE "roster_entries" r SET "leagueId" = dup."canonicalId"
+        FROM "teams" t
+        WHERE r."teamId" = t."id" AND t."leagueId" = dup."canonicalId" AND r."leagueId" = dup."duplicateId";
+
+        UPDATE "team_draft_picks" p SET "leagueId" = dup."canonicalId"
+        FROM "teams" t
+        WHERE p."teamId" = t."id" AND t."leagueId" = dup."canonicalId" AND p."leagueId" = dup."duplicateId";
+
+        UPDATE "team_profiles" p SET "leagueId" = dup."canonicalId"
+        FROM "teams" t
+        WHERE p."teamId" = t."id" AND t."leagueId" = dup."canonicalId" AND p."leagueId" = dup."duplicateId";
+
+        -- Saved trades point at teams by ID: use the canonical team with the same key
+        UPDATE "saved_trades" s SET "teamAId" = c."id"
+        FROM "teams" t, "teams" c
+        WHERE s."teamAId" = t."id" AND t."leagueId" = dup."duplicateId"
+          AND c."leagueId" = dup."canonicalId" AND c."teamKey" = t."teamKey";
+
+        UPDATE "saved_trades" s SET "teamBId" = c."id"
+        FROM "teams" t, "teams" c
+        WHERE s."teamBId" = t."id" AND t."leagueId" = dup."duplicateId"
+          AND c."leagueId" = dup."canonicalId" AND c."teamKey" = t."teamKey";
+
+        UPDATE "saved_trades" SET "leagueId" = dup."canonicalId" WHERE "leagueId" = dup."duplicateId";
+
+        -- League data
+        UPDATE "player_values" v SET "leagueId" = dup."canonicalId"
+        WHERE v."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "player_values" c WHERE c."leagueId" = dup."canonicalId" AND c."playerId" = v."playerId");
+
+        UPDATE "player_stats" s SET "leagueId" = dup."canonicalId"
+        WHERE s."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (
+              SELECT 1 FROM "player_stats" c
+              WHERE c."leagueId" = dup."canonicalId" AND c."playerId" = s."playerId" AND c."statId" = s."statId"
+          );
+
+        UPDATE "player_value_snapshots" s SET "leagueId" = dup."canonicalId"
+        WHERE s."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "player_value_snapshots" c WHERE c."leagueId" = dup."canonicalId" AND c."playerId" = s."playerId");
+
+        UPDATE "draft_pick_values" v SET "leagueId" = dup."canonicalId"
+        WHERE v."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "draft_pick_values" c WHERE c."leagueId" = dup."canonicalId" AND c."round" = v."round");
+
+        UPDATE "league_stat_categories" s SET "leagueId" = dup."canonicalId"
+        WHERE s."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "league_stat_categories" c WHERE c."leagueId" = dup."canonicalId" AND c."statId" = s."statId");
+
+        UPDATE "keeper_rule_sets" SET "leagueId" = dup."canonicalId"
+        WHERE "leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "keeper_rule_sets" c WHERE c."leagueId" = dup."canonicalId");
+
+        UPDATE "draft_history_picks" p SET "leagueId" = dup."canonicalId"
+        WHERE p."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (
+              SELECT 1 FROM "draft_history_picks" c
+              WHERE c."leagueId" = dup."canonicalId" AND c."season" = p."season" AND c."pick" = p."pick"
+          );
+
+        UPDATE "transactions" t SET "leagueId" = dup."canonicalId"
+        WHERE t."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "transactions" c WHERE c."leagueId" = dup."canonicalId" AND c."transactionKey" = t."transactionKey");
+
+        UPDATE "matchups" m SET "leagueId" = dup."canonicalId"
+        WHERE m."leagueId" = dup."duplicateId"
+          AND NOT EXISTS (
+              SELECT 1 FROM "matchups" c
+              WHERE c."leagueId" = dup."canonicalId" AND c."week" = m."week" AND c."teamKey" = m."teamKey"
+          );
+
+        UPDATE "sync_jobs" SET "leagueId" = dup."canonicalId"
+        WHERE "leagueId" = dup."duplicateId"
+          AND NOT EXISTS (SELECT 1 FROM "sync_jobs" c WHERE c."leagueId" = dup."canonicalId");
+
+        UPDATE "sync_runs" SET "leagueId" = dup."canonicalId" WHERE "leagueId" = dup."duplicateId";
+    END LOOP;
+END $$;
+
+-- Whatever is left on the duplicates is already on the canonical league
+DELETE FROM "leagues" WHERE "id" IN (SELECT "duplicateId" FROM "league_merge");
+
+DROP TABLE "league_merge";
+
+-- Link each membership to the user's team
+UPDATE "league_memberships" m SET "teamId" = t."id"
+FROM "yahoo_accounts" y, "teams" t
+WHERE y."userId" = m."userId" AND t."leagueId" = m."leagueId" AND t."yahooManagerId" = y."yahooUserId";
+
+-- DropForeignKey
+ALTER TABLE "leagues" DROP CONSTRAINT "leagues_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "teams" DROP CONSTRAINT "teams_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "roster_entries" DROP CONSTRAINT "roster_entries_userId_fkey";
+
+-- DropIndex
+DROP INDEX "leagues_userId_leagueKey_key";
+
+-- AlterTable
+ALTER TABLE "leagues" DROP COLUMN "userId";
+
+-- AlterTable
+ALTER TABLE "teams" DROP COLUMN "userId",
+DROP COLUMN "isOwner";
+
+-- AlterTable
+ALTER TABLE "roster_entries" DROP COLUMN "userId";
+
+-- Canonical ".l." key spelling
+UPDATE "leagues" SET "leagueKey" = REPLACE("leagueKey", '.1.', '.l.');
+UPDATE "users" SET "defaultLeagueKey" = REPLACE("defaultLeagueKey", '.1.', '.l.') WHERE "defaultLeagueKey" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leagues_leagueKey_key" ON "leagues"("leagueKey");
+
+-- AddForeignKey
+ALTER TABLE "league_memberships" ADD CONSTRAINT "league_memberships_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_memberships" ADD CONSTRAINT "league_memberships_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_memberships" ADD CONSTRAINT "league_memberships_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "trade_proposals" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "fromTeamId" TEXT NOT NULL,
+    "toTeamId" TEXT NOT NULL,
+    "proposedById" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "fromSide" JSONB NOT NULL,
+    "toSide" JSONB NOT NULL,
+    "message" TEXT,
+    "counterOfId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trade_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trade_proposals_leagueId_toTeamId_status_idx" ON "trade_proposals"("leagueId", "toTeamId", "status");
+
+-- CreateIndex
+CREATE INDEX "trade_proposals_leagueId_fromTeamId_status_idx" ON "trade_proposals"("leagueId", "fromTeamId", "status");
+
+-- AddForeignKey
+ALTER TABLE "trade_proposals" ADD CONSTRAINT "trade_proposals_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trade_proposals" ADD CONSTRAINT "trade_proposals_fromTeamId_fkey" FOREIGN KEY ("fromTeamId") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trade_proposals" ADD CONSTRAINT "trade_proposals_toTeamId_fkey" FOREIGN KEY ("toTeamId") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trade_proposals" ADD CONSTRAINT "trade_proposals_proposedById_fkey" FOREIGN KEY ("proposedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trade_proposals" ADD CONSTRAINT "trade_proposals_counterOfId_fkey" FOREIGN KEY ("counterOfId") REFERENCES "trade_proposals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "trade_proposals" ADD COLUMN     "yahooCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "yahooStatus" TEXT,
+ADD COLUMN     "yahooSubmittedAt" TIMESTAMP(3),
+ADD COLUMN     "yahooTransactionKey" TEXT;
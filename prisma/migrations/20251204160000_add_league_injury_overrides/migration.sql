@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "league_injury_overrides" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "expectedReturn" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "league_injury_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_injury_overrides_leagueId_playerId_key" ON "league_injury_overrides"("leagueId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "league_injury_overrides" ADD CONSTRAINT "league_injury_overrides_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_injury_overrides" ADD CONSTRAINT "league_injury_overrides_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Manual return dates were stored on the shared player row; keep them for every league that rosters the player
+INSERT INTO "league_injury_overrides" ("id", "leagueId", "playerId", "expectedReturn", "note", "updatedAt")
+SELECT DISTINCT ON (re."leagueId", p."id")
+    'lio_' || md5(re."leagueId" || p."id"),
+    re."leagueId",
+    p."id",
+    p."expectedReturn",
+    p."injuryNote",
+    CURRENT_TIMESTAMP
+FROM "players" p
+JOIN "roster_entries" re ON re."playerId" = p."id"
+WHERE p."injurySource" = 'manual' AND p."expectedReturn" IS NOT NULL;
+
+-- Hand those players back to the NHL injury report
+UPDATE "players"
+SET "expectedReturn" = NULL, "injuryNote" = NULL, "injurySource" = NULL
+WHERE "injurySource" = 'manual';
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "player_value_snapshots" ADD COLUMN "day" DATE;
+
+UPDATE "player_value_snapshots" SET "day" = ("createdAt" AT TIME ZONE 'UTC')::date;
+
+-- Keep the last snapshot of each day
+DELETE FROM "player_value_snapshots" s
+USING "player_value_snapshots" later
+WHERE s."leagueId" = later."leagueId"
+  AND s."playerId" = later."playerId"
+  AND s."day" = later."day"
+  AND (s."createdAt", s."id") < (later."createdAt", later."id");
+
+ALTER TABLE "player_value_snapshots" ALTER COLUMN "day" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "player_value_snapshots_leagueId_playerId_createdAt_idx";
+
+-- DropIndex
+DROP INDEX "player_value_snapshots_leagueId_createdAt_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_value_snapshots_leagueId_playerId_day_key" ON "player_value_snapshots"("leagueId", "playerId", "day");
+
+-- CreateIndex
+CREATE INDEX "player_value_snapshots_leagueId_day_idx" ON "player_value_snapshots"("leagueId", "day");
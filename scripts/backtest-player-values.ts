@@ -0,0 +1,136 @@
+/**
+ * Admin Script: Backtest Player Values
+ *
+ * Measures how well the player value formula reproduces Yahoo's actual end-of-season
+ * ranks. Values a finished season's players from their final stats, then reports the
+ * Spearman rank correlation with Yahoo's ranks (1.0 = identical order). With --config,
+ * a candidate formula is scored next to the current one, so tuning is repeatable.
+ *
+ * Usage:
+ *   npx tsx scripts/backtest-player-values.ts --season 2024 [options]
+ *
+ * Options:
+ *   --ranks <file>     Yahoo ranks CSV (default data/yahoo-ranks-<season>.csv,
+ *                      from scripts/fetch-yahoo-season-ranks.ts)
+ *   --source csv|json  Season stats: the NHL CSVs in data/ (default) or historical-stats.json
+ *   --config <file>    Candidate formula JSON: { "formula": { "defenseMultiplier": 0.9 },
+ *                      "categoryWeights": { "hits": 0.3 } }
+ *   --top <n>          Size of the "top players" comparison (default 100)
+ *   --show <n>         Biggest misses to list (default 10)
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseYahooRanksCsv } from "../lib/yahoo/seasonRanks";
+import {
+  loadSeasonDataset,
+  resolveBacktestConfig,
+  runBacktest,
+  type BacktestConfigFile,
+  type BacktestReport,
+  type BacktestSource,
+} from "../lib/yahoo/valueBacktest";
+
+function argValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatNumber(value: number | null, digits: number = 3): string {
+  return value === null ? "-" : value.toFixed(digits);
+}
+
+function formatDelta(candidate: number | null, baseline: number | null, digits: number = 3): string {
+  if (candidate === null || baseline === null) return "";
+  const delta = candidate - baseline;
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(digits)}`;
+}
+
+function printMetrics(baseline: BacktestReport, candidate: BacktestReport | null) {
+  const rows: Array<[string, (r: BacktestReport) => number | null, number]> = [
+    ["Spearman (all)", r => r.spearman, 3],
+    ["Spearman (skaters)", r => r.spearmanSkaters, 3],
+    ["Spearman (goalies)", r => r.spearmanGoalies, 3],
+    [`Spearman (top ${baseline.top})`, r => r.spearmanTop, 3],
+    [`Mean rank error (top ${baseline.top})`, r => r.meanRankErrorTop, 1],
+  ];
+
+  console.log(`\n${"".padEnd(28)}${"Current".padStart(10)}${candidate ? "Candidate".padStart(12) + "Change".padStart(10) : ""}`);
+  for (const [label, metric, digits] of rows) {
+    const current = formatNumber(metric(baseline), digits).padStart(10);
+    const next = candidate
+      ? formatNumber(metric(candidate), digits).padStart(12) + formatDelta(metric(candidate), metric(baseline), digits).padStart(10)
+      : "";
+    console.log(`${label.padEnd(28)}${current}${next}`);
+  }
+}
+
+function printMisses(report: BacktestReport, show: number) {
+  const top = report.players.slice(0, report.top);
+  const byMiss = [...top].sort((a, b) => (a.yahooRank - a.valueRank) - (b.yahooRank - b.valueRank));
+
+  const print = (title: string, players: typeof top) => {
+    console.log(`\n${title}`);
+    for (const p of players) {
+      console.log(`   Yahoo #${String(p.yahooRank).padEnd(4)} ours #${String(p.valueRank).padEnd(4)} ${p.value.toFixed(1).padStart(6)}  ${p.name} (${p.position ?? "?"})`);
+    }
+  };
+
+  print(`📉 Most undervalued (Yahoo top ${report.top}, ranked lower by us):`, byMiss.slice(0, show));
+  print(`📈 Most overvalued (Yahoo top ${report.top}, ranked higher by us):`, byMiss.slice(-show).reverse());
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const season = argValue(args, "--season");
+  const source = (argValue(args, "--source") || "csv") as BacktestSource;
+  const ranksFile = argValue(args, "--ranks") || path.join("data", `yahoo-ranks-${season}.csv`);
+  const configFile = argValue(args, "--config");
+  const top = parseInt(argValue(args, "--top") || "100", 10);
+  const show = parseInt(argValue(args, "--show") || "10", 10);
+
+  if (!season || !/^\d{4}$/.test(season) || (source !== "csv" && source !== "json")) {
+    console.error("❌ Usage: npx tsx scripts/backtest-player-values.ts --season <year> [--ranks <file>] [--source csv|json] [--config <file>] [--top 100] [--show 10]");
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(ranksFile)) {
+    console.error(`❌ Ranks file not found: ${ranksFile}`);
+    console.error(`   Fetch it with: npx tsx scripts/fetch-yahoo-season-ranks.ts --season ${season}`);
+    process.exit(1);
+  }
+
+  try {
+    const ranks = parseYahooRanksCsv(fs.readFileSync(ranksFile, "utf-8")).filter(r => r.season === season);
+    const dataset = loadSeasonDataset(source);
+
+    const baseline = runBacktest({ season, source, ranks, dataset, top });
+    const candidate = configFile
+      ? runBacktest({
+          season,
+          source,
+          ranks,
+          dataset,
+          top,
+          config: resolveBacktestConfig(JSON.parse(fs.readFileSync(configFile, "utf-8")) as BacktestConfigFile),
+        })
+      : null;
+
+    console.log(`📊 Backtest: ${season}-${String((parseInt(season, 10) + 1) % 100).padStart(2, "0")} season, ${source} stats vs ${path.basename(ranksFile)}`);
+    console.log(`   ${baseline.matchedPlayers} of ${ranks.length} Yahoo-ranked players matched`);
+    if (baseline.unmatched.length > 0) {
+      console.log(`   ⚠️  No ${season} stats for: ${baseline.unmatched.slice(0, 10).join(", ")}${baseline.unmatched.length > 10 ? ", ..." : ""}`);
+    }
+    if (configFile) {
+      console.log(`   Candidate formula: ${configFile}`);
+    }
+
+    printMetrics(baseline, candidate);
+    printMisses(candidate ?? baseline, show);
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
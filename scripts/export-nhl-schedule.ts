@@ -0,0 +1,38 @@
+/**
+ * Script to fetch the NHL schedule for a date range and export it to JSON
+ * The file is the offline fallback for the weekly matchup projector
+ * Run with: npx tsx scripts/export-nhl-schedule.ts <start YYYY-MM-DD> <end YYYY-MM-DD>
+ */
+
+import fs from "fs";
+import { fetchNhlSchedule, getScheduleFixturePath } from "../lib/nhl/schedule";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function exportNhlSchedule() {
+  const [start, end] = process.argv.slice(2);
+
+  if (!start || !end || !DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+    console.error("Usage: npx tsx scripts/export-nhl-schedule.ts <start YYYY-MM-DD> <end YYYY-MM-DD>");
+    process.exit(1);
+  }
+
+  console.log(`[Export NHL Schedule] Fetching games from ${start} to ${end}...`);
+  const games = await fetchNhlSchedule(start, end);
+  console.log(`[Export NHL Schedule] Found ${games.length} games`);
+
+  const output = {
+    _comment: "NHL schedule fixture used by the matchup projector when the NHL API is unreachable. Regenerate with: npx tsx scripts/export-nhl-schedule.ts <start> <end>",
+    coverage: { start, end },
+    games,
+  };
+
+  const outputPath = getScheduleFixturePath();
+  fs.writeFileSync(outputPath, JSON.stringify(output, null, 2) + "\n");
+  console.log(`[Export NHL Schedule] Wrote ${outputPath}`);
+}
+
+exportNhlSchedule().catch((error) => {
+  console.error("[Export NHL Schedule] Error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * Admin Script: Fetch Yahoo Season Ranks
+ *
+ * Saves Yahoo's actual end-of-season player ranks for a finished season as CSV - the
+ * target scripts/backtest-player-values.ts measures the value formula against.
+ *
+ * Usage:
+ *   npx tsx scripts/fetch-yahoo-season-ranks.ts --season 2024 [--count 300] [--email you@example.com]
+ *
+ * Writes data/yahoo-ranks-<season>.csv. Uses the given user's Yahoo account (default:
+ * the first user with one linked).
+ */
+
+import fs from "fs";
+import path from "path";
+import prisma from "../lib/prisma";
+import { fetchYahooSeasonRanks, formatYahooRanksCsv } from "../lib/yahoo/seasonRanks";
+
+function argValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const season = argValue(args, "--season");
+  const count = parseInt(argValue(args, "--count") || "300", 10);
+  const email = argValue(args, "--email");
+
+  if (!season || !/^\d{4}$/.test(season) || !Number.isInteger(count) || count <= 0) {
+    console.error("❌ Usage: npx tsx scripts/fetch-yahoo-season-ranks.ts --season <year> [--count 300] [--email <email>]");
+    process.exit(1);
+  }
+
+  try {
+    const user = await prisma.user.findFirst({
+      where: email ? { email } : { yahooAccount: { isNot: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!user) {
+      console.error(email ? `❌ User not found: ${email}` : "❌ No user has a linked Yahoo account");
+      process.exit(1);
+    }
+
+    console.log(`🏒 Fetching Yahoo's top ${count} players for ${season}-${String((parseInt(season, 10) + 1) % 100).padStart(2, "0")} as ${user.email}...`);
+    const ranks = await fetchYahooSeasonRanks(user.id, season, count);
+
+    if (ranks.length === 0) {
+      console.error("❌ Yahoo returned no ranked players - is the season finished?");
+      process.exit(1);
+    }
+
+    const file = path.join(process.cwd(), "data", `yahoo-ranks-${season}.csv`);
+    fs.writeFileSync(file, formatYahooRanksCsv(ranks), "utf-8");
+
+    console.log(`✅ Saved ${ranks.length} ranks to ${path.relative(process.cwd(), file)}`);
+    console.log(`   Top 5: ${ranks.slice(0, 5).map(r => r.name).join(", ")}`);
+    console.log(`\n✨ Done! Backtest with: npx tsx scripts/backtest-player-values.ts --season ${season}`);
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
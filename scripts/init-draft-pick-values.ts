@@ -7,6 +7,7 @@
 
 import { prisma } from "../lib/prisma";
 import { toFixedSafe } from "../lib/utils/numberFormat";
+import { findLeagueByKey } from "../lib/leagues/resolve";
 
 // Hard-coded draft pick values (descending scale from round 1 to 16)
 const DRAFT_PICK_VALUES: Record<number, number> = {
@@ -31,20 +32,8 @@ const DRAFT_PICK_VALUES: Record<number, number> = {
 async function initDraftPickValues(leagueKey: string) {
   console.log(`Initializing draft pick values for league: ${leagueKey}`);
 
-  // Normalize league key (handle both 'l' and '1' formats)
-  const normalizedLeagueKey = leagueKey.replace(/\.1\./g, '.l.');
-  const reverseNormalizedKey = leagueKey.replace(/\.l\./g, '.1.');
-
-  // Find the league
-  const league = await prisma.league.findFirst({
-    where: {
-      OR: [
-        { leagueKey: normalizedLeagueKey },
-        { leagueKey: reverseNormalizedKey },
-        { leagueKey: leagueKey },
-      ],
-    },
-  });
+  // Find the league (either key spelling)
+  const league = await findLeagueByKey(leagueKey);
 
   if (!league) {
     console.error(`League not found: ${leagueKey}`);
@@ -0,0 +1,96 @@
+/**
+ * Admin Script: Seed Fixture League
+ *
+ * Creates a local user whose Yahoo account replays recorded fixtures, then imports
+ * the fixture user's leagues. Afterwards the full sync runs offline against them.
+ *
+ * Usage:
+ *   YAHOO_TRANSPORT=replay npx tsx scripts/seed-fixture-league.ts [email]
+ *
+ * Then sync a league from the fixtures:
+ *   YAHOO_TRANSPORT=replay npx tsx scripts/sync-scheduler.ts --league <leagueKey>
+ */
+
+import fs from "fs";
+import prisma from "../lib/prisma";
+import { hashPassword } from "../lib/auth/password";
+import { parseYahooXml, findFirstPath } from "../lib/yahoo/normalize";
+import { syncUserLeagues } from "../lib/yahoo/leagues";
+import { fixtureFilePath, getYahooFixtureDir, getYahooTransportMode } from "../lib/yahoo/transport";
+
+const DEFAULT_EMAIL = "fixture@aitradr.local";
+const FIXTURE_PASSWORD = "fixture-league";
+
+// Recorded by every sync - it identifies the Yahoo user who recorded the fixtures
+const USER_LEAGUES_ENDPOINT = "users;use_login=1/games/leagues";
+
+async function readFixtureGuid(fixtureDir: string): Promise<string | null> {
+  const file = fixtureFilePath(fixtureDir, "GET", USER_LEAGUES_ENDPOINT);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  const parsed = await parseYahooXml(fs.readFileSync(file, "utf-8"));
+  const guid = findFirstPath(parsed, [
+    "fantasy_content.users.user.guid",
+    "fantasy_content.users.0.user.0.guid",
+  ]);
+  return guid ? guid.toString() : null;
+}
+
+async function main() {
+  const email = process.argv[2] || DEFAULT_EMAIL;
+
+  if (getYahooTransportMode() !== "replay") {
+    console.error("❌ Run with YAHOO_TRANSPORT=replay so no real Yahoo account is touched");
+    process.exit(1);
+  }
+
+  const fixtureDir = getYahooFixtureDir();
+  console.log("📁 Fixture directory:", fixtureDir);
+
+  try {
+    const guid = await readFixtureGuid(fixtureDir);
+    if (!guid) {
+      console.error(`❌ No recorded ${USER_LEAGUES_ENDPOINT} response found. Record a sync first (see data/yahoo-fixtures/README.md).`);
+      process.exit(1);
+    }
+    console.log("🔑 Fixture Yahoo GUID:", guid);
+
+    const user = await prisma.user.upsert({
+      where: { email },
+      update: {},
+      create: { email, passwordHash: await hashPassword(FIXTURE_PASSWORD) },
+    });
+
+    // Tokens are never sent in replay mode
+    await prisma.yahooAccount.upsert({
+      where: { userId: user.id },
+      update: { yahooUserId: guid },
+      create: {
+        userId: user.id,
+        yahooUserId: guid,
+        accessToken: "fixture-access-token",
+        refreshToken: null,
+        expiresAt: null,
+      },
+    });
+    console.log(`✅ Fixture user ready: ${email} (password: ${FIXTURE_PASSWORD})`);
+
+    const leagues = await syncUserLeagues(user.id);
+    console.log(`\n📊 Imported ${leagues.length} leagues:`);
+    for (const league of leagues) {
+      console.log(`   ${league.leagueKey}  ${league.name} (${league.season})`);
+    }
+
+    console.log("\n✨ Done! Sync a league from the fixtures with:");
+    console.log("   YAHOO_TRANSPORT=replay npx tsx scripts/sync-scheduler.ts --league <leagueKey>");
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
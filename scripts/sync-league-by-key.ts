@@ -4,30 +4,23 @@
 import prisma from "../lib/prisma";
 import { toFixedSafe } from "../lib/utils/numberFormat";
 import { buildAllTeamProfiles, storeTeamProfiles } from "../lib/ai/teamProfile";
+import { normalizeLeagueKey } from "../lib/leagues/resolve";
 
 async function syncLeague() {
   const leagueKey = process.argv[2] || "465.l.9080";
 
   console.log("🔍 Searching for league:", leagueKey);
 
-  // Try various normalizations
-  const normalizedKey = leagueKey.replace(/\.1\./g, '.l.');
-  const reverseKey = leagueKey.replace(/\.l\./g, '.1.');
+  const normalizedKey = normalizeLeagueKey(leagueKey);
 
   try {
-    const league = await prisma.league.findFirst({
-      where: {
-        OR: [
-          { leagueKey: leagueKey },
-          { leagueKey: normalizedKey },
-          { leagueKey: reverseKey },
-        ],
-      },
+    const league = await prisma.league.findUnique({
+      where: { leagueKey: normalizedKey },
       include: { teams: true }
     });
 
     if (!league) {
-      console.error("❌ League not found. Tried:", leagueKey, normalizedKey, reverseKey);
+      console.error("❌ League not found:", normalizedKey);
       process.exit(1);
     }
 
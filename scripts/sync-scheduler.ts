@@ -0,0 +1,75 @@
+/**
+ * Admin Script: Background Sync Scheduler
+ *
+ * Runs the full league sync (rosters, stats, values, profiles, ...) for every league
+ * whose nightly sync is due, as the league's owner - no browser session needed.
+ * Meant to be run from cron; overlapping runs skip leagues another run is syncing.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-scheduler.ts                  # Sync all due leagues
+ *   npx tsx scripts/sync-scheduler.ts --force          # Sync every league now
+ *   npx tsx scripts/sync-scheduler.ts --league <key>   # Sync one league now
+ *
+ * Crontab (every 15 minutes; leagues sync once a night at SYNC_HOUR_UTC, default 9):
+ *   *\/15 * * * * cd /path/to/aitradr && npx tsx scripts/sync-scheduler.ts >> sync.log 2>&1
+ */
+
+import os from "os";
+import prisma from "../lib/prisma";
+import { runDueSyncJobs } from "../lib/sync/scheduler";
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const leagueIndex = args.indexOf("--league");
+  const leagueKey = leagueIndex >= 0 ? args[leagueIndex + 1] : undefined;
+
+  if (leagueIndex >= 0 && !leagueKey) {
+    console.error("❌ Usage: npx tsx scripts/sync-scheduler.ts [--force] [--league <leagueKey>]");
+    process.exit(1);
+  }
+
+  const workerId = `${os.hostname()}:${process.pid}`;
+  const force = args.includes("--force") || !!leagueKey;
+
+  console.log(`🕒 Sync scheduler started (${workerId}) at ${new Date().toISOString()}`);
+
+  let failed = 0;
+  try {
+    const summaries = await runDueSyncJobs({ workerId, force, leagueKey });
+
+    if (summaries.length === 0) {
+      console.log("✅ No leagues due for sync");
+    }
+
+    for (const summary of summaries) {
+      const icon = summary.status === "success" ? "✅" : summary.status === "partial" ? "⚠️" : "❌";
+      console.log(`\n${icon} ${summary.leagueName} (${summary.leagueKey}) - ${summary.status} in ${formatDuration(summary.durationMs)}`);
+
+      for (const step of summary.steps) {
+        const stepIcon = step.status === "success" ? "✓" : step.status === "failed" ? "✗" : "-";
+        const detail = step.error ? ` - ${step.error}` : "";
+        console.log(`   ${stepIcon} ${step.label} (${formatDuration(step.durationMs)})${detail}`);
+      }
+
+      if (summary.status === "failed") {
+        failed++;
+        console.log(`   Error: ${summary.error}`);
+      }
+    }
+
+    console.log(`\n✨ Done: ${summaries.length} leagues synced, ${failed} failed`);
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -41,8 +41,8 @@ async function verifyPlayerValues() {
 
   try {
     // Calculate values - this will trigger debug logging
-    const mcdavidValue = await calculateSkaterValue(mcdavid.id, league.id);
-    const mackinnonValue = await calculateSkaterValue(mackinnon.id, league.id);
+    const { value: mcdavidValue } = await calculateSkaterValue(mcdavid.id, league.id);
+    const { value: mackinnonValue } = await calculateSkaterValue(mackinnon.id, league.id);
 
     console.log("\n[Verify] ===== RESULTS =====");
     console.log(`[Verify] McDavid calculated value: ${mcdavidValue.toFixed(1)}`);
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCategoryGain,
+  calculateTradeScore,
+  getStatValue,
+  type CategoryProfile,
+} from "@/lib/ai/categoryAnalyzer";
+import type { PlayerForAI } from "@/lib/ai/tradeAnalyzer";
+
+function player(name: string, rawStats: Record<string, number>): PlayerForAI {
+  return {
+    name,
+    position: "C",
+    nhlTeam: "TOR",
+    value: 100,
+    stats: {},
+    rawStats: Object.entries(rawStats).map(([statName, value]) => ({ statName, value })),
+  };
+}
+
+function profile(overrides: Partial<CategoryProfile> = {}): CategoryProfile {
+  return {
+    teamName: "My Team",
+    categories: ["goals", "hits", "shutouts"],
+    categoryScores: new Map(),
+    categoryZScores: new Map(),
+    categoryPriorities: new Map(),
+    strengths: ["goals"],
+    weaknesses: ["hits"],
+    ...overrides,
+  };
+}
+
+describe("getStatValue", () => {
+  it("matches stat names regardless of case, spacing and periods", () => {
+    const p = player("Skater", { "Powerplay  Points": 7, "Shots on Goal.": 40 });
+    expect(getStatValue(p, "powerplay points")).toBe(7);
+    expect(getStatValue(p, "shots on goal")).toBe(40);
+  });
+
+  it("returns 0 for missing stats", () => {
+    expect(getStatValue(player("Skater", {}), "hits")).toBe(0);
+    expect(getStatValue({ ...player("Skater", {}), rawStats: undefined }, "hits")).toBe(0);
+  });
+});
+
+describe("calculateCategoryGain", () => {
+  const out = [player("Sniper", { goals: 10, hits: 20 })];
+  const into = [player("Banger", { goals: 6, hits: 50 })];
+
+  it("reports the raw swing for every league category", () => {
+    const { categorySwings } = calculateCategoryGain(profile(), out, into);
+    expect(Object.fromEntries(categorySwings)).toEqual({ goals: -4, hits: 30, shutouts: 0 });
+  });
+
+  it("rewards weak-category gains by stability and penalizes lost strengths", () => {
+    const { gain, improvements } = calculateCategoryGain(profile(), out, into);
+
+    // Hits (volatility 0.8): 30 / 0.8 * 2 = 75; goals strength lost: -4 * 0.5 = -2
+    expect(gain).toBeCloseTo(73);
+    expect(Object.fromEntries(improvements)).toEqual({ hits: 30 });
+  });
+
+  it("ignores changes to categories that are neither weak nor strong", () => {
+    const { gain, improvements } = calculateCategoryGain(profile({ strengths: [], weaknesses: [] }), out, into);
+    expect(gain).toBe(0);
+    expect(improvements.size).toBe(0);
+  });
+
+  it("doesn't reward weak categories that get worse", () => {
+    const { gain } = calculateCategoryGain(profile({ strengths: [] }), into, out);
+    expect(gain).toBe(0);
+  });
+});
+
+describe("calculateTradeScore", () => {
+  it("adds value gain and double-weighted category gain", () => {
+    expect(calculateTradeScore(10, 5)).toBeCloseTo(20);
+  });
+
+  it("penalizes sidegrades without a strong category case", () => {
+    expect(calculateTradeScore(3, 5)).toBeCloseTo(-2);
+    expect(calculateTradeScore(3, 10)).toBeCloseTo(23);
+  });
+
+  it("clamps category gain to +/-12", () => {
+    expect(calculateTradeScore(0, 50)).toBeCloseTo(24);
+    expect(calculateTradeScore(20, -50)).toBeCloseTo(-4);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { calculateCategoryScore, computeConfidence } from "@/lib/ai/confidenceScoring";
+
+describe("computeConfidence", () => {
+  it("rates fair trades High", () => {
+    expect(computeConfidence({ netValue: 0 })).toBe("High");
+    expect(computeConfidence({ netValue: 5 })).toBe("High");
+    expect(computeConfidence({ netValue: -5 })).toBe("High");
+  });
+
+  it("rates moderate wins Medium and big wins Speculative", () => {
+    expect(computeConfidence({ netValue: 18 })).toBe("Medium");
+    expect(computeConfidence({ netValue: 22 })).toBe("Speculative");
+    expect(computeConfidence({ netValue: 60 })).toBe("Speculative");
+  });
+
+  it("caps losing trades no matter the category gain", () => {
+    expect(computeConfidence({ netValue: -8, categoryScore: 1 })).toBe("Medium");
+    expect(computeConfidence({ netValue: -15, categoryScore: 1 })).toBe("Speculative");
+  });
+
+  it("never lets category improvement outweigh the value caps", () => {
+    expect(computeConfidence({ netValue: 16, categoryScore: 1 })).toBe("Medium");
+    expect(computeConfidence({ netValue: 35, categoryScore: 1 })).toBe("Speculative");
+    expect(computeConfidence({ netValue: -45, categoryScore: 1 })).toBe("Speculative");
+  });
+});
+
+describe("calculateCategoryScore", () => {
+  it("averages the percentages and normalizes to 0-1", () => {
+    expect(calculateCategoryScore(["Hits +20%", "Blocks +30%"])).toBeCloseTo(0.5);
+    expect(calculateCategoryScore(["Goals +80%"])).toBe(1);
+  });
+
+  it("ignores entries without a percentage", () => {
+    expect(calculateCategoryScore(["Goals", "PIM +10%"])).toBeCloseTo(0.2);
+    expect(calculateCategoryScore([])).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { getNeedCategories, rankFreeAgents, suggestAddDrops } from "@/lib/freeAgents/analyzer";
+import type { CategorySummary } from "@/lib/dashboard/types";
+import type { DropCandidate, FreeAgentCandidate } from "@/lib/freeAgents/types";
+import type { ScoringCategory } from "@/lib/yahoo/scoringConfig";
+
+function category(abbrev: string, positionType: "P" | "G" = "P", isNegative = false): ScoringCategory {
+  return {
+    statId: abbrev,
+    name: abbrev.toLowerCase(),
+    label: abbrev,
+    abbrev,
+    positionType,
+    isNegative,
+    defaultWeight: 1,
+    weight: 1,
+    isOverridden: false,
+  };
+}
+
+function summary(abbrev: string, zScore: number, rank: number): CategorySummary {
+  return {
+    label: abbrev,
+    abbrev,
+    positionType: "P",
+    decimals: 0,
+    value: 0,
+    zScore,
+    rank,
+    teams: 10,
+    strength: "neutral",
+  };
+}
+
+function freeAgent(playerId: string, value: number, stats: Record<string, number>, positionType: "P" | "G" = "P"): FreeAgentCandidate {
+  return {
+    playerId,
+    name: playerId,
+    pos: positionType === "G" ? "G" : "C",
+    nhlTeam: "TOR",
+    positionType,
+    status: null,
+    expectedReturn: null,
+    value,
+    perGameValue: null,
+    stats,
+  };
+}
+
+function rostered(playerId: string, value: number, extra: Partial<DropCandidate> = {}): DropCandidate {
+  return {
+    playerId,
+    name: playerId,
+    pos: "C",
+    positionType: "P",
+    value,
+    isKeeper: false,
+    isInjuredList: false,
+    ...extra,
+  };
+}
+
+const CATEGORIES = [category("G"), category("HIT"), category("BLK"), category("GAA", "G", true)];
+
+describe("getNeedCategories", () => {
+  it("keeps weak categories weighted by z-score", () => {
+    const needs = getNeedCategories(
+      {
+        G: summary("G", 1.2, 1),
+        HIT: summary("HIT", -1.5, 10),
+        BLK: summary("BLK", -0.5, 6),
+      },
+      CATEGORIES
+    );
+
+    expect(needs.map(n => n.abbrev)).toEqual(["HIT", "BLK"]);
+    expect(needs[0].weight).toBeCloseTo(0.75);
+    expect(needs[1].weight).toBeCloseTo(0.25);
+  });
+
+  it("counts bottom-of-the-league ranks even with a small z-score", () => {
+    const needs = getNeedCategories({ HIT: summary("HIT", 0, 9) }, CATEGORIES);
+    expect(needs).toHaveLength(1);
+    expect(needs[0].weight).toBe(1);
+  });
+});
+
+describe("rankFreeAgents", () => {
+  const needs = getNeedCategories(
+    { HIT: summary("HIT", -1, 10), GAA: { ...summary("GAA", -1, 10), positionType: "G" } },
+    CATEGORIES
+  );
+
+  it("scores fit against free agents at the same position type", () => {
+    const ranked = rankFreeAgents(
+      [
+        freeAgent("scorer", 60, { G: 20, HIT: 10 }),
+        freeAgent("banger", 40, { G: 5, HIT: 150 }),
+        freeAgent("goalie", 50, { GAA: 2.4 }, "G"),
+      ],
+      needs
+    );
+
+    expect(ranked.map(fa => fa.playerId)).toEqual(["scorer", "goalie", "banger"]);
+    const banger = ranked.find(fa => fa.playerId === "banger")!;
+    const scorer = ranked.find(fa => fa.playerId === "scorer")!;
+    expect(banger.fitScore).toBeGreaterThan(scorer.fitScore);
+    expect(banger.helps).toEqual(["HIT"]);
+    expect(scorer.helps).toEqual([]);
+  });
+
+  it("ranks a goalie without games last in lower-is-better categories", () => {
+    const ranked = rankFreeAgents(
+      [freeAgent("starter", 30, { GAA: 2.8 }, "G"), freeAgent("unused", 10, { GAA: 0 }, "G")],
+      needs
+    );
+
+    expect(ranked.find(fa => fa.playerId === "starter")!.helps).toEqual(["GAA"]);
+    expect(ranked.find(fa => fa.playerId === "unused")!.fitScore).toBe(0);
+  });
+});
+
+describe("suggestAddDrops", () => {
+  const freeAgents = rankFreeAgents(
+    [freeAgent("fa1", 50, {}), freeAgent("fa2", 30, {}), freeAgent("fa3", 20, {}), freeAgent("faG", 40, {}, "G")],
+    []
+  );
+
+  it("pairs the best free agents with the weakest droppable players", () => {
+    const pairs = suggestAddDrops(freeAgents, [
+      rostered("star", 100),
+      rostered("weak", 10),
+      rostered("keeper", 5, { isKeeper: true }),
+      rostered("injured", 1, { isInjuredList: true }),
+      rostered("depth", 25),
+      rostered("goalie", 45, { positionType: "G" }),
+    ]);
+
+    expect(pairs.map(p => [p.add.playerId, p.drop.playerId, p.valueGain])).toEqual([
+      ["fa1", "weak", 40],
+      ["fa2", "depth", 5],
+    ]);
+  });
+
+  it("suggests nothing when the roster beats every free agent", () => {
+    expect(suggestAddDrops(freeAgents, [rostered("star", 100)])).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Golden tests over a full fixture league (tests/fixtures/golden-league.json).
+ *
+ * Player rankings and the owner's trade suggestions are written to tests/__golden__/.
+ * Any formula change shows up there as a ranking diff: review it, and if the new
+ * rankings are intended, accept them with `npm test -- -u`.
+ */
+
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { analyzeTrades, type TeamForAI } from "@/lib/ai/tradeAnalyzer";
+import { buildCategoryProfile, calculateLeagueAverages, getCategoryStats } from "@/lib/ai/categoryAnalyzer";
+import { getRoundCost } from "@/lib/keeper/types";
+import { toFixedSafe } from "@/lib/utils/numberFormat";
+import { loadFixtureLeague, toTeamsForAI, valueFixtureLeague, type ValuedPlayer } from "./helpers/league";
+
+let valued: ValuedPlayer[];
+let teams: TeamForAI[];
+
+beforeAll(async () => {
+  // The engine logs every step; keep test output readable
+  vi.spyOn(console, "log").mockImplementation(() => {});
+
+  const league = loadFixtureLeague();
+  valued = await valueFixtureLeague(league);
+  teams = toTeamsForAI(league, valued);
+});
+
+describe("golden league", () => {
+  it("player rankings", async () => {
+    const lines = [...valued]
+      .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name))
+      .map((p, index) =>
+        [
+          String(index + 1).padStart(3),
+          toFixedSafe(p.value, 1).padStart(6),
+          p.position.padEnd(5),
+          p.name.padEnd(20),
+          p.teamName,
+        ].join("  ")
+      );
+
+    await expect(lines.join("\n") + "\n").toMatchFileSnapshot("__golden__/player-rankings.txt");
+  });
+
+  it("team category profiles", async () => {
+    const averages = calculateLeagueAverages(teams, getCategoryStats());
+    const lines = [...teams]
+      .sort((a, b) => b.totalValue - a.totalValue)
+      .map(team => {
+        const profile = buildCategoryProfile(team, averages, teams);
+        return [
+          `${team.name} (total ${toFixedSafe(team.totalValue, 1)})`,
+          `  strengths:  ${profile.strengths.join(", ") || "-"}`,
+          `  weaknesses: ${profile.weaknesses.join(", ") || "-"}`,
+        ].join("\n");
+      });
+
+    await expect(lines.join("\n") + "\n").toMatchFileSnapshot("__golden__/team-profiles.txt");
+  });
+
+  it("trade suggestions for the owner", async () => {
+    const myTeam = teams.find(t => t.isOwner)!;
+    const pickValues = new Map(myTeam.draftPicks.map(round => [round, getRoundCost(round)]));
+    const suggestions = await analyzeTrades(myTeam, teams, pickValues);
+
+    const assets = (list: Array<{ name: string; value: number }>) =>
+      list.map(a => `${a.name} (${toFixedSafe(a.value, 1)})`).join(" + ");
+    const lines = suggestions.map((s, index) =>
+      [
+        `${index + 1}. ${s.tradeWithTeam}`,
+        `   give: ${assets(s.youGive)}`,
+        `   get:  ${assets(s.youGet)}`,
+        `   net ${toFixedSafe(s.netGain, 1)}, confidence ${s.confidence}, win probability ${s.winProbability !== undefined ? `${toFixedSafe(s.winProbability, 1)}%` : "-"}`,
+        `   swings: ${(s.categorySwings || []).map(c => `${c.category} ${c.change > 0 ? "+" : ""}${toFixedSafe(c.change, 1)}`).join(", ") || "-"}`,
+      ].join("\n")
+    );
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    await expect(lines.join("\n") + "\n").toMatchFileSnapshot("__golden__/trade-suggestions.txt");
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Loads the golden fixture league (tests/fixtures/golden-league.json) and shapes it for
+ * the valuation engine and the trade analyzer.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { PlayerForAI, TeamForAI } from "@/lib/ai/tradeAnalyzer";
+import { calculateGoalieValue, calculateSkaterValue } from "@/lib/yahoo/playerValues";
+import { getDefaultScoringConfig } from "@/lib/yahoo/scoringConfig";
+import { setMockLeagueData, setMockPlayers } from "./prismaMock";
+
+// ===== TYPES =====
+
+export interface FixturePlayer {
+  name: string;
+  position: string;     // "C", "LW/RW", "G"...
+  nhlTeam: string;
+  stats: Record<string, number>;  // Normalized stat name -> season total
+}
+
+export interface FixtureTeam {
+  name: string;
+  managerName: string;
+  isOwner: boolean;
+  draftPicks: number[];
+  roster: FixturePlayer[];
+}
+
+export interface ValuedPlayer extends FixturePlayer {
+  id: string;
+  teamName: string;
+  value: number;
+}
+
+interface StatData {
+  playerId: string;
+  playerName: string;
+  stats: Map<string, number>;
+}
+
+// ===== FIXTURE =====
+
+const FIXTURE_FILE = path.join(__dirname, "..", "fixtures", "golden-league.json");
+
+export function loadFixtureLeague(): FixtureTeam[] {
+  const raw = JSON.parse(fs.readFileSync(FIXTURE_FILE, "utf-8")) as { teams: FixtureTeam[] };
+  return raw.teams;
+}
+
+function primaryPosition(position: string): string {
+  return position.split("/")[0];
+}
+
+// ===== VALUATION =====
+
+/**
+ * Value every rostered player with the default scoring config, exactly as
+ * ensureLeaguePlayerValues does for a synced league
+ */
+export async function valueFixtureLeague(teams: FixtureTeam[]): Promise<ValuedPlayer[]> {
+  const players = teams.flatMap(team =>
+    team.roster.map((player, index) => ({
+      ...player,
+      id: `${team.name}#${index}`,
+      teamName: team.name,
+    }))
+  );
+
+  setMockPlayers(players.map(p => [p.id, { name: p.name, primaryPosition: primaryPosition(p.position) }]));
+
+  const toStatData = (p: (typeof players)[number]): [string, StatData] =>
+    [p.id, { playerId: p.id, playerName: p.name, stats: new Map(Object.entries(p.stats)) }];
+  const skaterStats = new Map(players.filter(p => p.position !== "G").map(toStatData));
+  const goalieStats = new Map(players.filter(p => p.position === "G").map(toStatData));
+  const scoringConfig = getDefaultScoringConfig();
+
+  const valued: ValuedPlayer[] = [];
+  for (const player of players) {
+    const result = player.position === "G"
+      ? await calculateGoalieValue(player.id, "golden-league", goalieStats, scoringConfig)
+      : await calculateSkaterValue(player.id, "golden-league", skaterStats, scoringConfig);
+    valued.push({ ...player, value: result.value });
+  }
+  return valued;
+}
+
+/**
+ * Teams in the shape the trade page sends to the trade analyzer
+ */
+export function toTeamsForAI(teams: FixtureTeam[], valued: ValuedPlayer[]): TeamForAI[] {
+  return teams.map(team => {
+    const roster: PlayerForAI[] = valued
+      .filter(p => p.teamName === team.name)
+      .map(p => ({
+        name: p.name,
+        position: p.position,
+        nhlTeam: p.nhlTeam,
+        value: p.value,
+        stats: {
+          goals: p.stats["goals"],
+          assists: p.stats["assists"],
+          points: p.stats["points"],
+          plusMinus: p.stats["plus/minus"],
+          pim: p.stats["penalty minutes"],
+          ppp: p.stats["powerplay points"],
+          wins: p.stats["wins"],
+          saves: p.stats["saves"],
+          savePct: p.stats["save percentage"],
+          shutouts: p.stats["shutouts"],
+        },
+        rawStats: Object.entries(p.stats).map(([statName, value]) => ({ statName, value })),
+      }));
+
+    return {
+      name: team.name,
+      managerName: team.managerName,
+      isOwner: team.isOwner,
+      roster,
+      draftPicks: team.draftPicks,
+      totalValue: roster.reduce((sum, p) => sum + p.value, 0),
+    };
+  });
+}
+
+// ===== ROSTERS =====
+
+/**
+ * Store the fixture league as synced rosters with season stats, for code that reads a
+ * league's rosters and stats from the database. Teams and players keep the IDs
+ * valueFixtureLeague uses (team name, "<team>#<index>").
+ */
+export function rosterFixtureLeague(teams: FixtureTeam[], leagueId: string): void {
+  const players = teams.flatMap(team => team.roster.map((player, index) => ({ ...player, id: `${team.name}#${index}`, teamName: team.name })));
+
+  setMockPlayers(players.map(p => [p.id, {
+    name: p.name,
+    primaryPosition: primaryPosition(p.position),
+    teamAbbr: p.nhlTeam,
+    status: null,
+    playerStats: Object.entries(p.stats).map(([statName, value]) => ({ statId: "", statName, value })),
+  }]));
+  setMockLeagueData({
+    teams: teams.map((team, index) => ({ leagueId, id: team.name, teamKey: `t.${index + 1}`, name: team.name })),
+    rosterEntries: players.map(p => ({ leagueId, teamId: p.teamName, playerId: p.id, isInjuredList: false })),
+  });
+}
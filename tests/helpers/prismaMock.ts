@@ -0,0 +1,347 @@
+/**
+ * In-memory stand-in for the Prisma client.
+ *
+ * Only the lookups the valuation engine, the Yahoo trade submission, the transaction
+ * sync and ledger and the trade simulator make are supported;
+ * any other model access throws so a test can't silently depend on the database.
+ */
+
+interface MockPlayer {
+  name: string;
+  primaryPosition: string | null;
+  playerKey?: string;
+  teamAbbr?: string;
+  status?: string | null;
+  playerStats?: Array<{ statId: string; statName: string; value: number }>;
+}
+
+export interface MockYahooUser {
+  id: string;
+  yahooAccount: {
+    id: string;
+    yahooUserId: string;
+    accessToken: string;
+    refreshToken: string | null;
+    expiresAt: Date | null;
+  };
+}
+
+export interface MockMembership {
+  userId: string;
+  leagueId: string;
+  teamId: string | null;
+}
+
+// Trade proposal rows with the team and league relations the code includes. Reads return
+// copies, so a row the code already loaded doesn't change under it.
+export type MockTradeProposal = Record<string, unknown> & { id: string };
+
+export interface MockTransactionPlayer {
+  id: string;
+  playerKey: string;
+  playerName: string;
+  type: string;
+  sourceType: string;
+  sourceTeamKey: string | null;
+  sourceTeamName: string | null;
+  destinationType: string;
+  destinationTeamKey: string | null;
+  destinationTeamName: string | null;
+  valueAtTrade: number | null;
+}
+
+export interface MockTransaction {
+  id: string;
+  leagueId: string;
+  transactionKey: string;
+  type: string;
+  status: string;
+  timestamp: Date;
+  picks: unknown;
+  valuesCapturedAt: Date | null;
+  updatedAt: Date;
+  players: MockTransactionPlayer[];
+}
+
+// A league's current player and pick values, daily player snapshots, teams and rosters
+export interface MockLeagueData {
+  playerValues?: Array<{ leagueId: string; playerId: string; score: number }>;
+  pickValues?: Array<{ leagueId: string; round: number; score: number }>;
+  snapshots?: Array<{ leagueId: string; playerId: string; day: Date; score: number }>;
+  teams?: Array<{ leagueId: string; id?: string; teamKey: string; name: string }>;
+  rosterEntries?: Array<{ leagueId: string; teamId: string; playerId: string; isInjuredList: boolean }>;
+}
+
+type Where = Record<string, unknown>;
+
+const players = new Map<string, MockPlayer>();
+const users = new Map<string, MockYahooUser>();
+const memberships: MockMembership[] = [];
+const tradeProposals = new Map<string, MockTradeProposal>();
+const transactions = new Map<string, MockTransaction>();
+const EMPTY_LEAGUE: Required<MockLeagueData> = { playerValues: [], pickValues: [], snapshots: [], teams: [], rosterEntries: [] };
+let leagueData = EMPTY_LEAGUE;
+let nextId = 1;
+
+/**
+ * Replace the players returned by prisma.player.findUnique (keyed by player id)
+ */
+export function setMockPlayers(entries: Iterable<[string, MockPlayer]>): void {
+  players.clear();
+  for (const [id, player] of entries) {
+    players.set(id, player);
+  }
+}
+
+/**
+ * Replace the users (with linked Yahoo accounts) returned by prisma.user.findUnique
+ */
+export function setMockUsers(entries: MockYahooUser[]): void {
+  users.clear();
+  for (const user of entries) {
+    users.set(user.id, user);
+  }
+}
+
+/**
+ * Replace the league memberships returned by prisma.leagueMembership.findUnique
+ */
+export function setMockMemberships(entries: MockMembership[]): void {
+  memberships.splice(0, memberships.length, ...entries);
+}
+
+/**
+ * Replace the trade proposals; updates are applied to the stored rows
+ */
+export function setMockTradeProposals(entries: MockTradeProposal[]): void {
+  tradeProposals.clear();
+  for (const proposal of entries) {
+    tradeProposals.set(proposal.id, { ...proposal });
+  }
+}
+
+export function getMockTradeProposal(id: string): MockTradeProposal | undefined {
+  return tradeProposals.get(id);
+}
+
+/**
+ * Replace the stored transactions (keyed by id); creates and updates are applied to them
+ */
+export function setMockTransactions(entries: MockTransaction[]): void {
+  transactions.clear();
+  for (const transaction of entries) {
+    transactions.set(transaction.id, copyTransaction(transaction));
+  }
+}
+
+export function getMockTransactions(): MockTransaction[] {
+  return [...transactions.values()].map(copyTransaction);
+}
+
+/**
+ * Replace the league data: values, snapshots, teams and rosters
+ */
+export function setMockLeagueData(data: MockLeagueData): void {
+  leagueData = { ...EMPTY_LEAGUE, ...data };
+}
+
+function copyTransaction(transaction: MockTransaction): MockTransaction {
+  return { ...transaction, players: transaction.players.map(p => ({ ...p })) };
+}
+
+/**
+ * Equality filters plus the few operators the queries use (OR, in, not, notIn)
+ */
+function matches(row: Record<string, unknown>, where: Where): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === "OR") {
+      return (condition as Where[]).some(option => matches(row, option));
+    }
+    const value = row[field] ?? null;
+    if (condition !== null && typeof condition === "object" && !(condition instanceof Date)) {
+      const ops = condition as { in?: unknown[]; not?: unknown; notIn?: unknown[] };
+      if (ops.in && !ops.in.includes(value)) return false;
+      if (ops.notIn && ops.notIn.includes(value)) return false;
+      if ("not" in ops && value === ops.not) return false;
+      return true;
+    }
+    return value === condition;
+  });
+}
+
+const playerModel = {
+  async findUnique({ where }: { where: { id: string } }) {
+    const player = players.get(where.id);
+    return player ? { id: where.id, ...player } : null;
+  },
+  async findMany({ where }: { where: Where }) {
+    // Stats aren't per league here: every league sees the player's stats
+    return [...players]
+      .map(([id, player]) => ({ id, ...player, playerStats: player.playerStats ?? [] }))
+      .filter(p => matches(p, where));
+  },
+};
+
+const playerValueModel = {
+  async findMany({ where }: { where: Where }) {
+    return leagueData.playerValues
+      .filter(v => matches(v, where))
+      .map(v => ({ ...v, player: { playerKey: players.get(v.playerId)?.playerKey ?? v.playerId } }));
+  },
+};
+
+const draftPickValueModel = {
+  async findMany({ where }: { where: Where }) {
+    return leagueData.pickValues.filter(v => matches(v, where)).map(v => ({ ...v }));
+  },
+};
+
+const playerValueSnapshotModel = {
+  async findMany({ where }: { where: Where }) {
+    return leagueData.snapshots
+      .filter(s => matches(s, where))
+      .sort((a, b) => a.day.getTime() - b.day.getTime())
+      .map(s => ({ ...s }));
+  },
+};
+
+const teamModel = {
+  async findMany({ where, orderBy }: { where: Where; orderBy?: { name: "asc" | "desc" } }) {
+    const teams = leagueData.teams.filter(t => matches(t, where)).map(t => ({ ...t }));
+    if (orderBy) {
+      teams.sort((a, b) => (orderBy.name === "asc" ? 1 : -1) * a.name.localeCompare(b.name));
+    }
+    return teams;
+  },
+};
+
+const rosterEntryModel = {
+  async findMany({ where }: { where: Where }) {
+    return leagueData.rosterEntries
+      .filter(e => matches(e, where))
+      .map(e => ({ ...e, player: { status: players.get(e.playerId)?.status ?? null } }));
+  },
+};
+
+// Every league uses the default scoring categories
+const leagueStatCategoryModel = {
+  async findMany() {
+    return [];
+  },
+};
+
+const userModel = {
+  async findUnique({ where }: { where: { id: string } }) {
+    return users.get(where.id) ?? null;
+  },
+};
+
+const leagueMembershipModel = {
+  async findUnique({ where }: { where: { userId_leagueId: { userId: string; leagueId: string } } }) {
+    const { userId, leagueId } = where.userId_leagueId;
+    const membership = memberships.find(m => m.userId === userId && m.leagueId === leagueId);
+    return membership ? { ...membership, team: null } : null;
+  },
+};
+
+const tradeProposalModel = {
+  async findFirst({ where }: { where: Where }) {
+    const proposal = [...tradeProposals.values()].find(p => matches(p, where));
+    return proposal ? { ...proposal } : null;
+  },
+  async findMany({ where }: { where: Where }) {
+    return [...tradeProposals.values()].filter(p => matches(p, where)).map(p => ({ ...p }));
+  },
+  async update({ where, data }: { where: { id: string }; data: Where }) {
+    const proposal = tradeProposals.get(where.id);
+    if (!proposal) {
+      throw new Error(`Trade proposal not found: ${where.id}`);
+    }
+    Object.assign(proposal, data);
+    return { ...proposal };
+  },
+  async updateMany({ where, data }: { where: Where; data: Where }) {
+    const matched = [...tradeProposals.values()].filter(p => matches(p, where));
+    for (const proposal of matched) {
+      Object.assign(proposal, data);
+    }
+    return { count: matched.length };
+  },
+};
+
+type TransactionPlayerData = Omit<MockTransactionPlayer, "id">;
+
+const transactionModel = {
+  async findMany({ where, select, orderBy }: {
+    where: Where;
+    select?: { players?: { where?: Where } };
+    orderBy?: { timestamp: "asc" | "desc" };
+  }) {
+    const rows = [...transactions.values()].filter(t => matches(t as unknown as Where, where)).map(copyTransaction);
+    const playerWhere = select?.players?.where;
+    if (playerWhere) {
+      rows.forEach(t => { t.players = t.players.filter(p => matches(p as unknown as Where, playerWhere)); });
+    }
+    if (orderBy) {
+      const direction = orderBy.timestamp === "asc" ? 1 : -1;
+      rows.sort((a, b) => direction * (a.timestamp.getTime() - b.timestamp.getTime()));
+    }
+    return rows;
+  },
+  async create({ data }: { data: Omit<MockTransaction, "id" | "updatedAt" | "players"> & { players: { create: TransactionPlayerData[] } } }) {
+    const { players: nested, ...fields } = data;
+    const transaction: MockTransaction = {
+      ...fields,
+      picks: fields.picks ?? null,
+      id: `tx${nextId++}`,
+      updatedAt: new Date(),
+      players: nested.create.map(p => ({ ...p, id: `txp${nextId++}` })),
+    };
+    transactions.set(transaction.id, transaction);
+    return copyTransaction(transaction);
+  },
+  async update({ where, data }: {
+    where: { leagueId_transactionKey: { leagueId: string; transactionKey: string } };
+    data: Where & { players?: { update: Array<{ where: { id: string }; data: Partial<TransactionPlayerData> }> } };
+  }) {
+    const { leagueId, transactionKey } = where.leagueId_transactionKey;
+    const transaction = [...transactions.values()].find(t => t.leagueId === leagueId && t.transactionKey === transactionKey);
+    if (!transaction) {
+      throw new Error(`Transaction not found: ${transactionKey}`);
+    }
+    const { players: nested, ...fields } = data;
+    Object.assign(transaction, fields, { updatedAt: new Date() });
+    for (const update of nested?.update ?? []) {
+      const player = transaction.players.find(p => p.id === update.where.id);
+      if (!player) {
+        throw new Error(`Transaction player not found: ${update.where.id}`);
+      }
+      Object.assign(player, update.data);
+    }
+    return copyTransaction(transaction);
+  },
+};
+
+export const prismaMock = new Proxy({
+  player: playerModel,
+  playerValue: playerValueModel,
+  draftPickValue: draftPickValueModel,
+  playerValueSnapshot: playerValueSnapshotModel,
+  team: teamModel,
+  rosterEntry: rosterEntryModel,
+  leagueStatCategory: leagueStatCategoryModel,
+  transaction: transactionModel,
+  user: userModel,
+  leagueMembership: leagueMembershipModel,
+  tradeProposal: tradeProposalModel,
+} as Record<string, unknown>, {
+  get(target, prop) {
+    if (typeof prop !== "string" || prop === "then") {
+      return undefined; // Not a thenable, not inspectable
+    }
+    if (prop in target) {
+      return target[prop];
+    }
+    throw new Error(`Unit tests don't use the database (accessed prisma.${String(prop)})`);
+  },
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  activeRosterSpotChange,
+  countOpenIrSlots,
+  getInjuryOutlook,
+} from "@/lib/injuries/availability";
+import { normalizePlayerName, parseNhlInjuryReport } from "@/lib/injuries/report";
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+const SEASON_END = "2026-04-16"; // 106 days left including today
+
+describe("getInjuryOutlook", () => {
+  it("ignores healthy players", () => {
+    expect(getInjuryOutlook({ status: null, expectedReturn: null }, SEASON_END, NOW)).toBeNull();
+    expect(getInjuryOutlook({ status: "NA", expectedReturn: null }, SEASON_END, NOW)).toBeNull();
+  });
+
+  it("discounts by the share of the season missed", () => {
+    const outlook = getInjuryOutlook(
+      { status: "IR", expectedReturn: new Date("2026-01-22T00:00:00Z") },
+      SEASON_END,
+      NOW
+    )!;
+    expect(outlook.estimated).toBe(false);
+    expect(outlook.seasonShare).toBeCloseTo(21 / 106);
+    expect(outlook.valueFactor).toBeCloseTo(1 - 21 / 106);
+    expect(outlook.gamesMissed).toBeGreaterThan(8);
+    expect(outlook.gamesMissed).toBeLessThan(10);
+  });
+
+  it("estimates from the status without a return date", () => {
+    const outlook = getInjuryOutlook({ status: "O", expectedReturn: null }, SEASON_END, NOW)!;
+    expect(outlook.estimated).toBe(true);
+    expect(outlook.returnDate).toBe("2026-01-08");
+  });
+
+  it("falls back to the status once the return date has passed", () => {
+    const outlook = getInjuryOutlook(
+      { status: "DTD", expectedReturn: new Date("2025-12-20T00:00:00Z") },
+      SEASON_END,
+      NOW
+    )!;
+    expect(outlook.estimated).toBe(true);
+    expect(outlook.returnDate).toBe("2026-01-03");
+  });
+
+  it("caps the discount for season-ending injuries", () => {
+    const outlook = getInjuryOutlook(
+      { status: "IR-LT", expectedReturn: new Date("2026-10-01T00:00:00Z") },
+      SEASON_END,
+      NOW
+    )!;
+    expect(outlook.seasonShare).toBe(1);
+    expect(outlook.valueFactor).toBeCloseTo(0.25);
+  });
+
+  it("does nothing after the season", () => {
+    expect(getInjuryOutlook({ status: "IR", expectedReturn: null }, "2025-04-16", NOW)).toBeNull();
+  });
+});
+
+describe("IR slots", () => {
+  const healthy = { status: null, isInjuredList: false };
+  const injured = { status: "IR", isInjuredList: false };
+  const onIr = { status: "IR", isInjuredList: true };
+
+  it("counts free slots, treating unknown settings as none", () => {
+    expect(countOpenIrSlots(2, [onIr, healthy])).toBe(1);
+    expect(countOpenIrSlots(null, [healthy])).toBe(0);
+  });
+
+  it("keeps the old roster spot count without IR slots", () => {
+    expect(activeRosterSpotChange([healthy, healthy], [healthy], 0)).toBe(1);
+    expect(activeRosterSpotChange([healthy], [healthy, injured], 0)).toBe(-1);
+  });
+
+  it("puts incoming injured players in open IR slots", () => {
+    expect(activeRosterSpotChange([healthy], [healthy, injured], 1)).toBe(0);
+  });
+
+  it("lets an outgoing IR player's slot take an incoming one, but frees no active spot", () => {
+    expect(activeRosterSpotChange([onIr], [injured], 0)).toBe(0);
+    expect(activeRosterSpotChange([onIr], [healthy], 0)).toBe(-1);
+  });
+});
+
+describe("NHL injury report", () => {
+  it("flattens team lists and keeps valid return dates", () => {
+    const entries = parseNhlInjuryReport({
+      injuries: [
+        {
+          displayName: "Toronto Maple Leafs",
+          injuries: [
+            {
+              status: "Out",
+              shortComment: "Expected to miss 3 weeks",
+              athlete: { displayName: "Auston Matthews" },
+              details: { type: "Upper Body", returnDate: "2026-01-22" },
+            },
+            { status: "Day-To-Day", athlete: { displayName: "John Tavares" }, details: { returnDate: "soon" } },
+            { status: "Out" },
+          ],
+        },
+      ],
+    });
+
+    expect(entries).toEqual([
+      { name: "Auston Matthews", status: "Out", returnDate: "2026-01-22", note: "Upper Body - Expected to miss 3 weeks" },
+      { name: "John Tavares", status: "Day-To-Day", returnDate: null, note: null },
+    ]);
+  });
+
+  it("matches names across accents and punctuation", () => {
+    expect(normalizePlayerName("Tim Stützle")).toBe(normalizePlayerName("Tim Stutzle"));
+    expect(normalizePlayerName("J.T. Miller")).toBe("jt miller");
+  });
+});
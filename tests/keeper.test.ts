@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_KEEPER_RULES,
+  calculateKeeperBonus,
+  calculateKeeperRound,
+  canMoveToRound,
+  type KeeperRules,
+} from "@/lib/keeper/types";
+
+const ALL_ROUNDS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+describe("canMoveToRound", () => {
+  it("never allows a keeper in Round 1", () => {
+    expect(canMoveToRound(2, 1)).toBe(false);
+    expect(canMoveToRound(1, 1)).toBe(false);
+  });
+
+  it("keeps keepers inside their original tier", () => {
+    expect(canMoveToRound(4, 2)).toBe(true);   // A -> A
+    expect(canMoveToRound(6, 4)).toBe(false);  // B -> A
+    expect(canMoveToRound(10, 5)).toBe(true);  // B -> B
+    expect(canMoveToRound(11, 10)).toBe(false); // C -> B
+  });
+
+  it("allows crossing tiers when the league isn't tier-locked", () => {
+    const rules: KeeperRules = { ...DEFAULT_KEEPER_RULES, tierLocked: false };
+    expect(canMoveToRound(11, 3, rules)).toBe(true);
+    expect(canMoveToRound(11, 1, rules)).toBe(false);
+  });
+});
+
+describe("calculateKeeperRound", () => {
+  it("uses the original round when the team owns it", () => {
+    expect(calculateKeeperRound(7, ALL_ROUNDS)).toBe(7);
+  });
+
+  it("moves up to the nearest earlier owned pick in the same tier", () => {
+    const owned = ALL_ROUNDS.filter(r => r !== 9 && r !== 8);
+    expect(calculateKeeperRound(9, owned)).toBe(7);
+  });
+
+  it("is unkeepable when the only earlier picks are in another tier", () => {
+    const owned = [1, 2, 3, 4, 12, 13];
+    expect(calculateKeeperRound(6, owned)).toBeNull();
+  });
+
+  it("never lands in Round 1", () => {
+    expect(calculateKeeperRound(2, [1, 5, 6])).toBeNull();
+  });
+
+  it("treats FA pickups (last round) like any other round", () => {
+    const owned = ALL_ROUNDS.filter(r => r !== 16);
+    expect(calculateKeeperRound(16, owned)).toBe(15);
+  });
+});
+
+describe("calculateKeeperBonus", () => {
+  it("gives Round 1 picks no keeper value", () => {
+    expect(calculateKeeperBonus(170, 1, 165, 2)).toBe(0);
+  });
+
+  it("gives no surplus to players drafted where they belong", () => {
+    // Normal tier, value below the round average
+    expect(calculateKeeperBonus(100, 8, 120, 2)).toBe(0);
+  });
+
+  it("weights surplus by years remaining and caps it per tier", () => {
+    // Normal tier (110): surplus 50 capped at 15, weight 0.75 at 2 years
+    expect(calculateKeeperBonus(110, 16, 60, 2)).toBeCloseTo(15 * 0.75);
+    // Same player in their final keeper year
+    expect(calculateKeeperBonus(110, 16, 60, 1)).toBeCloseTo(15 * 0.45);
+    expect(calculateKeeperBonus(110, 16, 60, 0)).toBe(0);
+  });
+
+  it("adds a control premium for elite players even without surplus", () => {
+    // Franchise tier (155) drafted in Round 2 (155 avg): no surplus, control premium for 3 years
+    expect(calculateKeeperBonus(155, 2, 155, 3)).toBe(32);
+  });
+
+  it("combines surplus and control premium for late-round stars", () => {
+    // Star tier (140) in Round 12 (80 avg): surplus 60 capped at 34, weight 1.0, control 22
+    expect(calculateKeeperBonus(140, 12, 80, 3)).toBeCloseTo(34 + 22);
+  });
+
+  it("falls back to the round cost table when no round average is known", () => {
+    // Round 10 costs 100; Normal tier surplus 10 at weight 0.75
+    expect(calculateKeeperBonus(110, 10, 0, 2)).toBeCloseTo(10 * 0.75);
+  });
+
+  it("treats rounds past the last round as FA pickups", () => {
+    expect(calculateKeeperBonus(110, 25, 0, 2)).toBe(calculateKeeperBonus(110, 16, 0, 2));
+  });
+
+  it("never decreases as years of control increase", () => {
+    for (const value of [90, 120, 140, 155, 170]) {
+      const bonuses = [0, 1, 2, 3].map(years => calculateKeeperBonus(value, 11, 90, years));
+      expect(bonuses).toEqual([...bonuses].sort((a, b) => a - b));
+    }
+  });
+});
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { normalizeLeagueKey } from "@/lib/leagues/resolve";
+
+describe("normalizeLeagueKey", () => {
+  it("turns the .1. spelling into the canonical .l. key", () => {
+    expect(normalizeLeagueKey("465.1.9080")).toBe("465.l.9080");
+  });
+
+  it("leaves canonical keys alone", () => {
+    expect(normalizeLeagueKey("465.l.9080")).toBe("465.l.9080");
+    expect(normalizeLeagueKey("465.l.1101")).toBe("465.l.1101");
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  categoryWinProbability,
+  estimateRosterCategory,
+  projectCategory,
+  type PlayerRates,
+} from "@/lib/matchup/projector";
+import type { ScheduleWindow } from "@/lib/nhl/schedule";
+import { getDefaultScoringConfig } from "@/lib/yahoo/scoringConfig";
+
+const config = getDefaultScoringConfig();
+const category = (abbrev: string) =>
+  [...config.skaterCategories, ...config.goalieCategories].find(c => c.abbrev === abbrev)!;
+
+// Rest of the week: Vancouver and Edmonton play twice, Toronto once, Boston is done
+const window: ScheduleWindow = {
+  from: "2025-01-16",
+  to: "2025-01-19",
+  source: "nhl-api",
+  gamesByTeam: { VAN: 2, EDM: 2, TOR: 1 },
+  defaultGames: 4 * 82 / 186,
+};
+
+function player(id: string, nhlTeam: string, rates: Partial<PlayerRates> = {}): PlayerRates {
+  return { playerId: id, name: id, nhlTeam, isGoalie: false, games: 40, startShare: 1, perGame: {}, ratios: {}, ...rates };
+}
+
+function goalie(id: string, nhlTeam: string, ratios: Record<string, number>, startShare = 1): PlayerRates {
+  return player(id, nhlTeam, { isGoalie: true, startShare, ratios, perGame: { [category("W").statId]: 0.5 } });
+}
+
+describe("estimateRosterCategory", () => {
+  it("adds up counting stats over each player's games left", () => {
+    const goals = category("G");
+    const roster = [
+      player("sniper", "EDM", { perGame: { [goals.statId]: 0.6 } }),
+      player("grinder", "TOR", { perGame: { [goals.statId]: 0.2 } }),
+      player("done", "BOS", { perGame: { [goals.statId]: 1 } }),
+    ];
+
+    const estimate = estimateRosterCategory(roster, window, goals);
+
+    expect(estimate.mean).toBeCloseTo(0.6 * 2 + 0.2);
+    // Poisson: the variance is the mean
+    expect(estimate.variance).toBeCloseTo(1.4);
+  });
+
+  it("averages a ratio category over the goalies' expected starts", () => {
+    const savePct = category("SV%");
+    const roster = [
+      goalie("starter", "VAN", { [savePct.statId]: 0.92 }),
+      goalie("tandem", "EDM", { [savePct.statId]: 0.9 }, 0.5),
+      player("skater", "VAN"),
+    ];
+
+    const estimate = estimateRosterCategory(roster, window, savePct);
+    const mean = (0.92 * 2 + 0.9 * 1) / 3;
+
+    expect(estimate.mean).toBeCloseTo(mean);
+    expect(estimate.variance).toBeCloseTo(mean * (1 - mean) / (28 * 3));
+  });
+
+  it("has no estimate for a team with no goalie starts left", () => {
+    const roster = [goalie("idle", "BOS", { [category("GAA").statId]: 2.4 }), player("skater", "VAN")];
+
+    expect(estimateRosterCategory(roster, window, category("GAA"))).toEqual({ mean: null, variance: 0 });
+    expect(estimateRosterCategory(roster, window, category("W"))).toEqual({ mean: 0, variance: 0 });
+  });
+});
+
+describe("projectCategory", () => {
+  it("blends a ratio category's week-to-date value with the rest of the week", () => {
+    const projected = projectCategory(0.88, { mean: 0.92, variance: 0.0004 }, category("SV%"), 0.75);
+
+    expect(projected.value).toBeCloseTo(0.88 * 0.75 + 0.92 * 0.25);
+    expect(projected.variance).toBeCloseTo(0.0004 * 0.25 * 0.25);
+  });
+
+  it("adds the rest of the week to counting stats", () => {
+    expect(projectCategory(7, { mean: 3.5, variance: 3.5 }, category("G"), 0.5)).toEqual({ value: 10.5, variance: 3.5 });
+  });
+
+  it("locks in the week-to-date value when no goalie has a start left", () => {
+    expect(projectCategory(2.1, { mean: null, variance: 0 }, category("GAA"), 0.6)).toEqual({ value: 2.1, variance: 0 });
+    expect(projectCategory(null, { mean: null, variance: 0 }, category("W"), 0)).toEqual({ value: 0, variance: 0 });
+  });
+});
+
+describe("categoryWinProbability", () => {
+  it("favors the lower value in a negative category", () => {
+    const lowerGaa = categoryWinProbability(2.5, 3.0, 0.1, true);
+
+    expect(lowerGaa).toBeGreaterThan(0.9);
+    expect(categoryWinProbability(3.0, 2.5, 0.1, true)).toBeCloseTo(1 - lowerGaa);
+    expect(categoryWinProbability(2.5, 3.0, 0.1, false)).toBeCloseTo(1 - lowerGaa);
+  });
+
+  it("settles a category nobody can change", () => {
+    expect(categoryWinProbability(3, 2, 0, false)).toBe(1);
+    expect(categoryWinProbability(2.1, 1.9, 0, true)).toBe(0);
+    expect(categoryWinProbability(4, 4, 0, false)).toBe(0.5);
+  });
+});
@@ -0,0 +1,34 @@
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { gamesForTeam, getScheduleWindow } from "@/lib/nhl/schedule";
+
+beforeAll(() => {
+  vi.stubEnv("NHL_SCHEDULE_FIXTURE", path.join(__dirname, "fixtures", "nhl-schedule.json"));
+  vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("getaddrinfo ENOTFOUND api-web.nhle.com")));
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("getScheduleWindow offline", () => {
+  it("counts each team's games from the fixture when the NHL API is unreachable", async () => {
+    const window = await getScheduleWindow("2025-10-13", "2025-10-16");
+
+    expect(window.source).toBe("fixture");
+    expect(window.gamesByTeam).toEqual({ TBL: 3, BOS: 1, NJD: 1, MTL: 1 });
+    expect(gamesForTeam(window, "TB")).toBe(3);
+    expect(gamesForTeam(window, "Mon")).toBe(1);
+    // Teams off the schedule have no games rather than an average week
+    expect(gamesForTeam(window, "EDM")).toBe(0);
+  });
+
+  it("estimates from the average schedule outside the fixture's coverage", async () => {
+    const window = await getScheduleWindow("2025-10-17", "2025-10-23");
+
+    expect(window.source).toBe("estimate");
+    expect(gamesForTeam(window, "TB")).toBeCloseTo(7 * 82 / 186);
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { calculateGoalieValue, calculateSkaterValue, toPerGameStats, type StatData } from "@/lib/yahoo/playerValues";
+import { getDefaultScoringConfig, type LeagueScoringConfig } from "@/lib/yahoo/scoringConfig";
+import { setMockPlayers } from "./helpers/prismaMock";
+
+// Population standard deviation of [10, 20, 30]
+const STD_10_20_30 = Math.sqrt(200 / 3);
+
+function statData(entries: Array<[string, Record<string, number>]>) {
+  return new Map(entries.map(([id, stats]) => [
+    id,
+    { playerId: id, playerName: `Test ${id}`, stats: new Map(Object.entries(stats)) },
+  ]));
+}
+
+function contribution(result: Awaited<ReturnType<typeof calculateSkaterValue>>, abbrev: string) {
+  return result.breakdown.categories.find(c => c.abbrev === abbrev);
+}
+
+describe("skater z-scores", () => {
+  const config = getDefaultScoringConfig();
+  // Identical except for goals, so every other category has zero spread
+  const skaters = statData([
+    ["low", { goals: 10, assists: 10, points: 20 }],
+    ["mid", { goals: 20, assists: 10, points: 20 }],
+    ["high", { goals: 30, assists: 10, points: 20 }],
+  ]);
+
+  beforeEach(() => {
+    setMockPlayers([
+      ["low", { name: "Test low", primaryPosition: "C" }],
+      ["mid", { name: "Test mid", primaryPosition: "C" }],
+      ["high", { name: "Test high", primaryPosition: "C" }],
+    ]);
+  });
+
+  it("standardizes each category against the league", async () => {
+    const high = await calculateSkaterValue("high", "league", skaters, config);
+    const goals = contribution(high, "G")!;
+
+    expect(goals.z).toBeCloseTo(10 / STD_10_20_30);
+    expect(goals.weight).toBe(1.5);
+    expect(goals.contribution).toBeCloseTo(goals.z * 1.5);
+    expect(contribution(high, "A")!.z).toBe(0);
+  });
+
+  it("builds the base value from the weighted z-score sum", async () => {
+    const low = await calculateSkaterValue("low", "league", skaters, config);
+    const totalZ = low.breakdown.categories.reduce((sum, c) => sum + c.contribution, 0);
+
+    expect(totalZ).toBeCloseTo(-1.5 * 10 / STD_10_20_30);
+    expect(low.breakdown.baseValue).toBeCloseTo(totalZ * 8 + 100);
+  });
+
+  it("ranks players by their category production", async () => {
+    const values = await Promise.all(
+      ["low", "mid", "high"].map(id => calculateSkaterValue(id, "league", skaters, config))
+    );
+    expect(values[0].value).toBeLessThan(values[1].value);
+    expect(values[1].value).toBeLessThan(values[2].value);
+  });
+
+  it("skips categories the league weighs at 0", async () => {
+    const noGoals: LeagueScoringConfig = {
+      ...config,
+      skaterCategories: config.skaterCategories.map(c => c.abbrev === "G" ? { ...c, weight: 0 } : c),
+    };
+    const high = await calculateSkaterValue("high", "league", skaters, noGoals);
+
+    expect(contribution(high, "G")).toBeUndefined();
+    expect(high.breakdown.baseValue).toBeCloseTo(100);
+  });
+
+  it("gives players without stats the default value", async () => {
+    const result = await calculateSkaterValue("unknown", "league", skaters, config);
+    expect(result.value).toBe(40);
+    expect(result.breakdown.categories).toEqual([]);
+  });
+
+  it("values free agents against the rostered players without moving their baseline", async () => {
+    const withFreeAgent = new Map<string, StatData>(skaters);
+    withFreeAgent.set("fa", {
+      playerId: "fa",
+      playerName: "Test fa",
+      stats: new Map([["goals", 0], ["assists", 10], ["points", 20]]),
+      isFreeAgent: true,
+    });
+    setMockPlayers([
+      ["high", { name: "Test high", primaryPosition: "C" }],
+      ["fa", { name: "Test fa", primaryPosition: "C" }],
+    ]);
+
+    const high = await calculateSkaterValue("high", "league", withFreeAgent, config);
+    const freeAgent = await calculateSkaterValue("fa", "league", withFreeAgent, config);
+
+    expect(contribution(high, "G")!.z).toBeCloseTo(10 / STD_10_20_30);
+    expect(contribution(freeAgent, "G")!.z).toBeCloseTo(-20 / STD_10_20_30);
+  });
+});
+
+describe("goalie z-scores", () => {
+  const config = getDefaultScoringConfig();
+  const goalies = statData([
+    ["best", { "goals against average": 2.0, "games started": 10 }],
+    ["avg", { "goals against average": 3.0, "games started": 10 }],
+    ["worst", { "goals against average": 4.0, "games started": 10 }],
+    ["backup", { "goals against average": 2.0, "games started": 1.25 }],
+  ]);
+
+  beforeEach(() => {
+    setMockPlayers([...goalies.keys()].map(id => [id, { name: `Test ${id}`, primaryPosition: "G" }]));
+  });
+
+  it("flips the sign for negative categories", async () => {
+    const best = await calculateGoalieValue("best", "league", goalies, config);
+    const worst = await calculateGoalieValue("worst", "league", goalies, config);
+
+    expect(contribution(best, "GAA")!.z).toBeGreaterThan(0);
+    expect(contribution(worst, "GAA")!.z).toBeLessThan(0);
+    expect(best.value).toBeGreaterThan(worst.value);
+  });
+
+  it("discounts goalies with few starts on a square-root curve", async () => {
+    const backup = await calculateGoalieValue("backup", "league", goalies, config);
+    const volume = backup.breakdown.adjustments.find(a => a.label.startsWith("Games started volume"))!;
+
+    // sqrt(1.25 / 5) = 0.5
+    expect(volume.after).toBeCloseTo(volume.before * 0.5);
+  });
+});
+
+describe("per-game stats", () => {
+  it("scales counting stats to the pool's average games", () => {
+    // Same scoring rate, one missed half the games (average 60 games)
+    const perGame = toPerGameStats(statData([
+      ["ironman", { "games played": 80, goals: 40, "faceoff percentage": 0.5 }],
+      ["injured", { "games played": 40, goals: 20, "faceoff percentage": 0.6 }],
+    ]), false, 10);
+
+    expect(perGame.get("ironman")!.stats.get("goals")).toBeCloseTo(30);
+    expect(perGame.get("injured")!.stats.get("goals")).toBeCloseTo(30);
+    expect(perGame.get("injured")!.stats.get("faceoff percentage")).toBe(0.6);
+    expect(perGame.get("injured")!.stats.get("games played")).toBe(40);
+  });
+
+  it("caps the scale-up for small samples and drops players without games", () => {
+    const perGame = toPerGameStats(statData([
+      ["regular", { "games played": 38, goals: 19 }],
+      ["callup", { "games played": 2, goals: 2 }],
+      ["unknown", { goals: 5 }],
+    ]), false, 10);
+
+    // 2 goals in 2 games counts as 2 in 10, scaled to the 20-game average
+    expect(perGame.get("callup")!.stats.get("goals")).toBeCloseTo(2 * 20 / 10);
+    expect(perGame.has("unknown")).toBe(false);
+  });
+
+  it("keeps goalies' real starts for the reliability curve", () => {
+    const perGame = toPerGameStats(statData([
+      ["starter", { "games started": 30, wins: 18, "save percentage": 0.91 }],
+      ["backup", { "games started": 10, wins: 6, "save percentage": 0.92 }],
+    ]), true, 5);
+
+    expect(perGame.get("backup")!.stats.get("wins")).toBeCloseTo(12);
+    expect(perGame.get("backup")!.stats.get("games started")).toBe(10);
+    expect(perGame.get("backup")!.stats.get("save percentage")).toBe(0.92);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildProposalSide, canTransition, effectiveStatus } from "@/lib/proposals/proposals";
+import { toYahooPendingTrade } from "@/lib/proposals/yahooSubmission";
+
+describe("buildProposalSide", () => {
+  const players = new Map([
+    ["p1", { name: "Connor McDavid", value: 98.26 }],
+    ["p2", { name: "Depth Winger", value: null }],
+  ]);
+  const pickValues = new Map([[3, 62]]);
+
+  it("values players and picks from the stored scores", () => {
+    const side = buildProposalSide(["p1"], [3], players, pickValues);
+    expect(side.assets).toEqual([
+      { kind: "player", playerId: "p1", round: null, name: "Connor McDavid", value: 98.3 },
+      { kind: "pick", playerId: null, round: 3, name: "Round 3 pick", value: 62 },
+    ]);
+    expect(side.totalValue).toBeCloseTo(160.3);
+  });
+
+  it("counts assets without a stored value as zero", () => {
+    const side = buildProposalSide(["p2", "missing"], [9], players, pickValues);
+    expect(side.assets.map(a => a.value)).toEqual([0, 0, 0]);
+    expect(side.assets[1].name).toBe("Unknown player");
+    expect(side.totalValue).toBe(0);
+  });
+});
+
+describe("proposal status", () => {
+  const now = new Date("2025-01-10T12:00:00Z");
+
+  it("only lets open proposals change status", () => {
+    expect(canTransition("proposed", "accepted")).toBe(true);
+    expect(canTransition("proposed", "countered")).toBe(true);
+    expect(canTransition("rejected", "accepted")).toBe(false);
+    expect(canTransition("expired", "accepted")).toBe(false);
+  });
+
+  it("treats unanswered proposals past their expiry as expired", () => {
+    expect(effectiveStatus("proposed", new Date("2025-01-10T11:59:59Z"), now)).toBe("expired");
+    expect(effectiveStatus("proposed", new Date("2025-01-11T00:00:00Z"), now)).toBe("proposed");
+    expect(effectiveStatus("accepted", new Date("2025-01-01T00:00:00Z"), now)).toBe("accepted");
+  });
+});
+
+describe("toYahooPendingTrade", () => {
+  const side = (playerIds: string[], picks: number[]) => ({ playerIds, picks, assets: [], totalValue: 0 });
+  const playerKeys = new Map([["p1", "465.p.6743"], ["p2", "465.p.8290"]]);
+
+  it("sends the proposing team's side to the other team and back", () => {
+    const trade = toYahooPendingTrade("465.l.9080.t.1", "465.l.9080.t.4", side(["p1"], []), side(["p2"], [3]), playerKeys, null);
+    expect(trade.traderTeamKey).toBe("465.l.9080.t.1");
+    expect(trade.players).toEqual([
+      { playerKey: "465.p.6743", sourceTeamKey: "465.l.9080.t.1", destinationTeamKey: "465.l.9080.t.4" },
+      { playerKey: "465.p.8290", sourceTeamKey: "465.l.9080.t.4", destinationTeamKey: "465.l.9080.t.1" },
+    ]);
+    expect(trade.picks).toEqual([{ round: 3, sourceTeamKey: "465.l.9080.t.4", destinationTeamKey: "465.l.9080.t.1" }]);
+  });
+
+  it("refuses players without a Yahoo key", () => {
+    expect(() => toYahooPendingTrade("t1", "t4", side(["missing"], []), side([], [1]), playerKeys, null)).toThrow(/player pool/);
+  });
+});
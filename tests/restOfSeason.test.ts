@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  historicalRates,
+  projectRestOfSeason,
+  toSeasonScale,
+  type SeasonLine,
+} from "@/lib/projections/restOfSeason";
+
+function season(name: string, gamesPlayed: number, stats: Record<string, number>): SeasonLine {
+  return { season: name, gamesPlayed, stats: new Map(Object.entries(stats)) };
+}
+
+describe("historicalRates", () => {
+  it("weights the most recent season 60/40 per game", () => {
+    const { perGame, games } = historicalRates([
+      season("20232024", 80, { goals: 40 }),  // 0.5 per game
+      season("20242025", 82, { goals: 82 }),  // 1.0 per game
+    ]);
+    expect(perGame.get("goals")).toBeCloseTo(0.6 * 1.0 + 0.4 * 0.5);
+    expect(games).toBe(162);
+  });
+
+  it("keeps rate stats as-is", () => {
+    const { perGame } = historicalRates([season("20242025", 50, { "save percentage": 0.915 })]);
+    expect(perGame.get("save percentage")).toBeCloseTo(0.915);
+  });
+});
+
+describe("projectRestOfSeason", () => {
+  const history = [season("20242025", 82, { goals: 41 })];  // 0.5 per game
+
+  it("regresses a small sample toward history", () => {
+    // 10 goals in 10 games: 1.0/game now, 0.5/game history, 20 games of prior
+    const projection = projectRestOfSeason(
+      { isGoalie: false, gamesPlayed: 10, current: new Map([["goals", 10]]), history },
+      50,
+      32
+    );
+    expect(projection.perGame.goals).toBeCloseTo((10 + 0.5 * 20) / 30);
+    expect(projection.totals.goals).toBeCloseTo(projection.perGame.goals * 50);
+    expect(projection.historyShare).toBeCloseTo(20 / 30);
+  });
+
+  it("trusts a large sample", () => {
+    const projection = projectRestOfSeason(
+      { isGoalie: false, gamesPlayed: 60, current: new Map([["goals", 60]]), history },
+      22,
+      60
+    );
+    expect(projection.perGame.goals).toBeGreaterThan(0.85);
+  });
+
+  it("uses the current rate for players without history", () => {
+    const projection = projectRestOfSeason(
+      { isGoalie: false, gamesPlayed: 5, current: new Map([["goals", 5]]), history: [] },
+      40,
+      30
+    );
+    expect(projection.perGame.goals).toBe(1);
+    expect(projection.historyShare).toBe(0);
+  });
+
+  it("rewards rate, not games already played", () => {
+    // Same scoring rate, one has played twice as many games
+    const ironman = projectRestOfSeason(
+      { isGoalie: false, gamesPlayed: 30, current: new Map([["goals", 15]]), history: [] }, 50, 30
+    );
+    const returning = projectRestOfSeason(
+      { isGoalie: false, gamesPlayed: 15, current: new Map([["goals", 7.5]]), history: [] }, 50, 30
+    );
+    expect(returning.totals.goals).toBeCloseTo(ironman.totals.goals);
+  });
+
+  it("projects goalies by their share of starts", () => {
+    const starter = projectRestOfSeason(
+      { isGoalie: true, gamesPlayed: 24, current: new Map([["wins", 12]]), history: [] }, 50, 32
+    );
+    expect(starter.remainingGames).toBeCloseTo(50 * 24 / 32);
+    expect(starter.totals.wins).toBeCloseTo(0.5 * 50 * 24 / 32);
+  });
+});
+
+describe("toSeasonScale", () => {
+  it("rescales counting totals to games played so far and keeps rates", () => {
+    const projection = projectRestOfSeason(
+      {
+        isGoalie: false,
+        gamesPlayed: 30,
+        current: new Map([["goals", 15], ["faceoff percentage", 0.55]]),
+        history: [],
+      },
+      50,
+      30
+    );
+    const stats = toSeasonScale(projection, 30, 50);
+    expect(stats.get("goals")).toBeCloseTo(15);
+    expect(stats.get("faceoff percentage")).toBeCloseTo(0.55);
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Unit tests never touch the database: every module importing @/lib/prisma gets the
+ * in-memory stand-in from helpers/prismaMock.ts.
+ */
+
+import { vi } from "vitest";
+
+vi.mock("@/lib/prisma", async () => {
+  const { prismaMock } = await import("./helpers/prismaMock");
+  return { default: prismaMock, prisma: prismaMock };
+});
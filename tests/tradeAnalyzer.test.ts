@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { isValidTradeSuggestion, type TradeSuggestion } from "@/lib/ai/tradeAnalyzer";
+
+function suggestion(overrides: Partial<TradeSuggestion> = {}): TradeSuggestion {
+  return {
+    tradeWithTeam: "Puck Dynasty",
+    youGive: [{ type: "player", name: "Sniper", value: 120 }],
+    youGet: [{ type: "player", name: "Banger", value: 118 }],
+    netGain: -2,
+    reasoning: "",
+    confidence: 80,
+    ...overrides,
+  };
+}
+
+describe("isValidTradeSuggestion", () => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+  it("accepts a normal player-for-player trade", () => {
+    expect(isValidTradeSuggestion(suggestion())).toBe(true);
+  });
+
+  it("accepts picks that carry a round", () => {
+    const youGet = [{ type: "pick" as const, name: "Round 3 Pick", value: 145, round: 3 }];
+    expect(isValidTradeSuggestion(suggestion({ youGet }))).toBe(true);
+  });
+
+  it("requires a partner team and assets on both sides", () => {
+    expect(isValidTradeSuggestion(suggestion({ tradeWithTeam: "  " }))).toBe(false);
+    expect(isValidTradeSuggestion(suggestion({ youGive: [] }))).toBe(false);
+    expect(isValidTradeSuggestion(suggestion({ youGet: [] }))).toBe(false);
+  });
+
+  it("rejects undefined names and non-finite values", () => {
+    const undefinedPick = [{ type: "pick" as const, name: "Round undefined Pick", value: 100, round: 2 }];
+    expect(isValidTradeSuggestion(suggestion({ youGet: undefinedPick }))).toBe(false);
+
+    const nanValue = [{ type: "player" as const, name: "Banger", value: NaN }];
+    expect(isValidTradeSuggestion(suggestion({ youGet: nanValue }))).toBe(false);
+  });
+
+  it("rejects trades where neither side has value", () => {
+    expect(isValidTradeSuggestion(suggestion({
+      youGive: [{ type: "player", name: "Depth A", value: 3 }],
+      youGet: [{ type: "player", name: "Depth B", value: 4 }],
+    }))).toBe(false);
+  });
+
+  it("rejects picks without a round", () => {
+    const youGet = [{ type: "pick" as const, name: "Future Pick", value: 100 }];
+    expect(isValidTradeSuggestion(suggestion({ youGet }))).toBe(false);
+  });
+});
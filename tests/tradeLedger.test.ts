@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  setMockLeagueData,
+  setMockPlayers,
+  setMockTransactions,
+  type MockTransaction,
+  type MockTransactionPlayer,
+} from "./helpers/prismaMock";
+import { buildTradeLedger } from "@/lib/transactions/ledger";
+
+const LEAGUE_ID = "league1";
+
+/**
+ * A player moving between teams, or added from free agency when `from` is null
+ */
+function moved(playerKey: string, from: string | null, to: string, valueAtTrade: number | null): MockTransactionPlayer {
+  return {
+    id: `${playerKey}-${to}`,
+    playerKey,
+    playerName: `Player ${playerKey}`,
+    type: from ? "trade" : "add",
+    sourceType: from ? "team" : "freeagents",
+    sourceTeamKey: from,
+    sourceTeamName: null,
+    destinationType: "team",
+    destinationTeamKey: to,
+    destinationTeamName: to === "t3" ? "Newcomers" : null,
+    valueAtTrade,
+  };
+}
+
+function transaction(
+  key: string,
+  players: MockTransactionPlayer[],
+  overrides: Partial<MockTransaction> = {}
+): MockTransaction {
+  return {
+    id: key,
+    leagueId: LEAGUE_ID,
+    transactionKey: key,
+    type: "trade",
+    status: "successful",
+    timestamp: new Date("2025-01-12T08:00:00Z"),
+    picks: null,
+    valuesCapturedAt: new Date("2025-01-12T09:00:00Z"),
+    updatedAt: new Date("2025-01-12T09:00:00Z"),
+    players,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  setMockPlayers(["a", "b", "c", "d", "e"].map(id => [id, { name: id, primaryPosition: "C", playerKey: `p.${id}` }]));
+  setMockLeagueData({
+    playerValues: [
+      { leagueId: LEAGUE_ID, playerId: "a", score: 60 },
+      { leagueId: LEAGUE_ID, playerId: "b", score: 85 },
+      { leagueId: LEAGUE_ID, playerId: "c", score: 50 },
+      { leagueId: LEAGUE_ID, playerId: "d", score: 48 },
+    ],
+    pickValues: [{ leagueId: LEAGUE_ID, round: 3, score: 12 }],
+    teams: [
+      { leagueId: LEAGUE_ID, teamKey: "t1", name: "Leaders" },
+      { leagueId: LEAGUE_ID, teamKey: "t2", name: "Cellar" },
+    ],
+  });
+});
+
+describe("buildTradeLedger", () => {
+  it("names a different winner at trade time and in hindsight", async () => {
+    // t1 sent a (95 then, 60 now) for b (70 then, 85 now) and a 3rd round pick (12)
+    setMockTransactions([transaction("tr.1", [moved("p.a", "t1", "t2", 95), moved("p.b", "t2", "t1", 70)], {
+      picks: [{ round: 3, sourceTeamKey: "t2", destinationTeamKey: "t1", valueAtTrade: 12 }],
+    })]);
+
+    const ledger = await buildTradeLedger(LEAGUE_ID);
+    const [trade] = ledger.trades;
+
+    expect(trade).toMatchObject({ winnerAtTrade: "t2", winnerNow: "t1", margin: 37, hasTradeTimeValues: true });
+    expect(trade.sides.find(s => s.teamKey === "t1")).toMatchObject({ teamName: "Leaders", valueAtTrade: 82, valueNow: 97 });
+    expect(ledger.teams.map(t => [t.teamKey, t.netValueAtTrade, t.netValueNow])).toEqual([
+      ["t1", -13, 37],
+      ["t2", 13, -37],
+    ]);
+  });
+
+  it("calls a trade inside the even-trade margin a draw", async () => {
+    setMockTransactions([transaction("tr.2", [moved("p.c", "t1", "t2", 50), moved("p.d", "t2", "t1", 48)])]);
+
+    const [trade] = (await buildTradeLedger(LEAGUE_ID)).trades;
+
+    expect(trade.winnerAtTrade).toBeNull();
+    expect(trade.winnerNow).toBeNull();
+  });
+
+  it("has no winner at trade time when an asset's value then is unknown", async () => {
+    setMockTransactions([transaction("tr.3", [moved("p.a", "t1", "t2", null), moved("p.b", "t2", "t1", 70)])]);
+
+    const [trade] = (await buildTradeLedger(LEAGUE_ID)).trades;
+
+    expect(trade.hasTradeTimeValues).toBe(false);
+    expect(trade.winnerAtTrade).toBeNull();
+    expect(trade.winnerNow).toBe("t1");
+  });
+
+  it("scores only completed trades and lists adds and drops as moves", async () => {
+    setMockTransactions([
+      transaction("tr.4", [moved("p.a", "t1", "t2", 95), moved("p.b", "t2", "t1", 70)], { status: "pending" }),
+      transaction("tr.5", [moved("p.e", null, "t3", null)], { type: "add" }),
+    ]);
+
+    const ledger = await buildTradeLedger(LEAGUE_ID);
+
+    expect(ledger.trades).toEqual([]);
+    expect(ledger.moves).toEqual([{
+      transactionKey: "tr.5",
+      type: "add",
+      timestamp: "2025-01-12T08:00:00.000Z",
+      players: [{ playerName: "Player p.e", type: "add", teamName: "Newcomers" }],
+    }]);
+    expect(ledger.lastSyncedAt).toBe("2025-01-12T09:00:00.000Z");
+  });
+});
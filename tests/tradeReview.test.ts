@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_KEEPER_RULES } from "@/lib/keeper/types";
+import { reviewTrade, summarizePairHistory, type MovedAsset, type ReviewTeam } from "@/lib/tradeReview/review";
+import { scoreVetoRisk } from "@/lib/tradeReview/vetoRisk";
+
+const noHistory = { trades: 0, lastTradeAt: null, favoredTeamKey: null };
+
+describe("scoreVetoRisk", () => {
+  const base = { keeperSurplusGap: 0, favoredRank: null, otherRank: null, teamCount: 12, history: noHistory };
+
+  it("uses the confidence value-gap tiers", () => {
+    expect(scoreVetoRisk({ ...base, valueGap: 3, favoredTeamKey: null }).level).toBe("Low");
+    expect(scoreVetoRisk({ ...base, valueGap: 20, favoredTeamKey: "t1" }).level).toBe("Medium");
+    expect(scoreVetoRisk({ ...base, valueGap: 45, favoredTeamKey: "t1" })).toMatchObject({ level: "High", flagged: true });
+  });
+
+  it("raises the risk for a contender gaining from the bottom of the standings and repeat one-way trades", () => {
+    const risk = scoreVetoRisk({
+      ...base,
+      valueGap: 20,
+      favoredTeamKey: "t1",
+      favoredRank: 1,
+      otherRank: 12,
+      history: { trades: 2, lastTradeAt: "2025-01-01T00:00:00.000Z", favoredTeamKey: "t1" },
+    });
+    expect(risk.score).toBeCloseTo(0.6);
+    expect(risk.flagged).toBe(true);
+    expect(risk.reasons).toHaveLength(3);
+  });
+});
+
+describe("reviewTrade", () => {
+  const teams = new Map<string, ReviewTeam>([
+    ["t1", { name: "Leaders", rank: 1, record: "12-2-0" }],
+    ["t2", { name: "Cellar", rank: 10, record: "3-11-0" }],
+    ["t3", { name: "Middle", rank: 5, record: "7-7-0" }],
+  ]);
+  const move = (name: string, value: number, from: string, to: string, extra: Partial<MovedAsset> = {}): MovedAsset => ({
+    kind: "player",
+    name,
+    value,
+    keeperSurplus: 0,
+    sourceTeamKey: from,
+    destinationTeamKey: to,
+    ...extra,
+  });
+
+  it("values each side's gain including picks and keeper surplus at its trade weight", () => {
+    const reviewed = reviewTrade(
+      {
+        id: "p1",
+        stage: "proposed",
+        date: new Date("2025-01-10T00:00:00Z"),
+        moves: [
+          move("Star Center", 90, "t2", "t1", { keeperSurplus: 20 }),
+          move("Depth Winger", 40, "t1", "t2"),
+          move("Round 3 pick", 10, "t1", "t2", { kind: "pick" }),
+        ],
+      },
+      teams,
+      [],
+      DEFAULT_KEEPER_RULES
+    );
+
+    const leaders = reviewed.sides.find(s => s.teamKey === "t1")!;
+    const cellar = reviewed.sides.find(s => s.teamKey === "t2")!;
+    const keeperWeight = DEFAULT_KEEPER_RULES.bonus.tradeBonusWeight;
+
+    expect(leaders.netValue).toBeCloseTo(40 + 20 * keeperWeight);
+    expect(cellar.pickCapitalReceived).toBe(10);
+    expect(cellar.valueReceived).toBe(50);
+    expect(reviewed.favoredTeamKey).toBe("t1");
+    expect(reviewed.risk.flagged).toBe(true);
+  });
+
+  it("treats a small gap as even", () => {
+    const reviewed = reviewTrade(
+      {
+        id: "tr1",
+        stage: "completed",
+        date: new Date("2025-01-10T00:00:00Z"),
+        moves: [move("A", 50, "t1", "t3"), move("B", 48, "t3", "t1")],
+      },
+      teams,
+      [],
+      DEFAULT_KEEPER_RULES
+    );
+    expect(reviewed.favoredTeamKey).toBeNull();
+    expect(reviewed.risk).toMatchObject({ level: "Low", flagged: false, reasons: [] });
+  });
+});
+
+describe("summarizePairHistory", () => {
+  const past = [
+    { date: new Date("2024-11-01T00:00:00Z"), teamKeys: ["t1", "t2"], favoredTeamKey: "t1" },
+    { date: new Date("2024-12-01T00:00:00Z"), teamKeys: ["t2", "t1"], favoredTeamKey: "t1" },
+    { date: new Date("2024-12-15T00:00:00Z"), teamKeys: ["t1", "t3"], favoredTeamKey: "t3" },
+    { date: new Date("2025-02-01T00:00:00Z"), teamKeys: ["t1", "t2"], favoredTeamKey: "t2" },
+  ];
+
+  it("counts earlier trades between the two teams and the side they all favored", () => {
+    expect(summarizePairHistory(past, "t1", "t2", new Date("2025-01-10T00:00:00Z"))).toEqual({
+      trades: 2,
+      lastTradeAt: "2024-12-01T00:00:00.000Z",
+      favoredTeamKey: "t1",
+    });
+  });
+
+  it("has no favored side when the trades went both ways", () => {
+    expect(summarizePairHistory(past, "t1", "t2", new Date("2025-03-01T00:00:00Z")).favoredTeamKey).toBeNull();
+  });
+});
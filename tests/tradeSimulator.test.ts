@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { simulateTradeImpact } from "@/lib/matchup/tradeSimulator";
+import { loadFixtureLeague, rosterFixtureLeague } from "./helpers/league";
+
+const LEAGUE_ID = "golden-league";
+const ITERATIONS = 400;
+
+const teams = loadFixtureLeague();
+const buyer = teams.find(t => t.name === "Zamboni Drivers")!;
+const seller = teams.find(t => t.name === "Ice Breakers")!;
+// The seller's top scorer
+const starIndex = seller.roster.reduce((best, p, i) =>
+  (p.stats["points"] ?? 0) > (seller.roster[best].stats["points"] ?? 0) ? i : best, 0);
+const star = `${seller.name}#${starIndex}`;
+
+beforeAll(() => {
+  // Skaters' rates assume every team game so far, so fix "today"
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-01-15T12:00:00Z"));
+  rosterFixtureLeague(teams, LEAGUE_ID);
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("simulateTradeImpact (golden league)", () => {
+  it("raises the expected category wins of the team that adds a player", async () => {
+    const impact = await simulateTradeImpact(
+      LEAGUE_ID,
+      { teamAId: buyer.name, teamBId: seller.name, teamAPlayerIds: [], teamBPlayerIds: [star] },
+      { iterations: ITERATIONS, seed: 7 }
+    );
+    const [gainer, loser] = impact.teams;
+
+    expect(impact).toMatchObject({ iterations: ITERATIONS, categoryCount: 17 });
+    expect(gainer.teamId).toBe(buyer.name);
+    expect(gainer.after).toBeGreaterThan(gainer.before);
+    expect(gainer.change).toBeCloseTo(gainer.after - gainer.before);
+    expect(loser.after).toBeLessThan(loser.before);
+    expect(gainer.opponents).toHaveLength(teams.length - 1);
+
+    // A skater moves the skater categories, not the goalie ones
+    const category = (abbrev: string) => gainer.categories.find(c => c.abbrev === abbrev)!;
+    expect(category("P").after).toBeGreaterThan(category("P").before);
+    expect(category("SV%").after).toBeCloseTo(category("SV%").before, 1);
+  });
+
+  it("simulates the same trade the same way for a seed", async () => {
+    const trade = { teamAId: buyer.name, teamBId: seller.name, teamAPlayerIds: [], teamBPlayerIds: [star] };
+
+    const first = await simulateTradeImpact(LEAGUE_ID, trade, { iterations: 50, seed: 3 });
+    const second = await simulateTradeImpact(LEAGUE_ID, trade, { iterations: 50, seed: 3 });
+
+    expect(second).toEqual(first);
+  });
+
+  it("rejects a trade with a team from outside the league", async () => {
+    await expect(simulateTradeImpact(
+      LEAGUE_ID,
+      { teamAId: buyer.name, teamBId: "elsewhere", teamAPlayerIds: [], teamBPlayerIds: [] },
+      { iterations: 1 }
+    )).rejects.toThrow("Both trade teams must belong to this league");
+  });
+});
@@ -0,0 +1,132 @@
+import path from "path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getMockTransactions,
+  setMockLeagueData,
+  setMockPlayers,
+  setMockTransactions,
+  setMockUsers,
+  type MockTransaction,
+} from "./helpers/prismaMock";
+import { syncLeagueTransactions } from "@/lib/yahoo/transactions";
+import { createReplayTransport, setYahooTransport } from "@/lib/yahoo/transport";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "yahoo");
+const LEAGUE_ID = "league1";
+const LEAGUE_KEY = "465.l.9080";
+const USER_ID = "user1";
+// tr.41 (McDavid for Hughes and a 3rd round pick) happened 2025-01-12 08:00 UTC
+const TRADE_KEY = "465.l.9080.tr.41";
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+function storedTrade(): MockTransaction {
+  const player = (playerKey: string, playerName: string, valueAtTrade: number | null) => ({
+    id: `txp-${playerKey}`,
+    playerKey,
+    playerName,
+    type: "trade",
+    sourceType: "team",
+    sourceTeamKey: null,
+    sourceTeamName: null,
+    destinationType: "team",
+    destinationTeamKey: null,
+    destinationTeamName: null,
+    valueAtTrade,
+  });
+  return {
+    id: "tx-stored",
+    leagueId: LEAGUE_ID,
+    transactionKey: TRADE_KEY,
+    type: "trade",
+    status: "pending",
+    timestamp: new Date(1736668800 * 1000),
+    picks: [{ round: 3, sourceTeamKey: "465.l.9080.t.4", destinationTeamKey: "465.l.9080.t.1", valueAtTrade: null }],
+    valuesCapturedAt: null,
+    updatedAt: day("2025-01-12"),
+    players: [player("465.p.6743", "Connor McDavid", 99), player("465.p.8290", "Quinn Hughes", null)],
+  };
+}
+
+function storedTradePlayers() {
+  const trade = getMockTransactions().find(t => t.transactionKey === TRADE_KEY)!;
+  return { trade, values: Object.fromEntries(trade.players.map(p => [p.playerName, p.valueAtTrade])) };
+}
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  setYahooTransport(createReplayTransport(FIXTURE_DIR));
+});
+
+afterAll(() => {
+  setYahooTransport(null);
+});
+
+beforeEach(() => {
+  setMockUsers([{
+    id: USER_ID,
+    yahooAccount: { id: "acct1", yahooUserId: "yahoo1", accessToken: "fixture", refreshToken: null, expiresAt: null },
+  }]);
+  setMockPlayers([
+    ["p1", { name: "Connor McDavid", primaryPosition: "C", playerKey: "465.p.6743" }],
+    ["p2", { name: "Quinn Hughes", primaryPosition: "D", playerKey: "465.p.8290" }],
+  ]);
+  setMockTransactions([]);
+  setMockLeagueData({
+    playerValues: [
+      { leagueId: LEAGUE_ID, playerId: "p1", score: 80 },
+      { leagueId: LEAGUE_ID, playerId: "p2", score: 70 },
+    ],
+    pickValues: [{ leagueId: LEAGUE_ID, round: 3, score: 12 }],
+    snapshots: [
+      { leagueId: LEAGUE_ID, playerId: "p1", day: day("2025-01-05"), score: 90 },
+      { leagueId: LEAGUE_ID, playerId: "p1", day: day("2025-01-11"), score: 95 },
+      { leagueId: LEAGUE_ID, playerId: "p1", day: day("2025-02-01"), score: 85 },
+      { leagueId: "league2", playerId: "p2", day: day("2025-01-12"), score: 50 },
+    ],
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("syncLeagueTransactions (replayed fixtures)", () => {
+  it("values a past trade from the league's snapshots nearest it", async () => {
+    expect(await syncLeagueTransactions(USER_ID, LEAGUE_KEY, LEAGUE_ID)).toBe(2);
+
+    const { trade, values } = storedTradePlayers();
+    expect(values).toEqual({ "Connor McDavid": 95, "Quinn Hughes": null });
+    // Today's values don't stand in for a trade synced long after it happened
+    expect(trade.picks).toEqual([expect.objectContaining({ round: 3, valueAtTrade: null })]);
+    expect(trade.valuesCapturedAt).toBeInstanceOf(Date);
+  });
+
+  it("falls back to current values for a trade synced right after it happened", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-13T12:00:00Z"));
+
+    await syncLeagueTransactions(USER_ID, LEAGUE_KEY, LEAGUE_ID);
+
+    const { trade, values } = storedTradePlayers();
+    expect(values).toEqual({ "Connor McDavid": 95, "Quinn Hughes": 70 });
+    expect(trade.picks).toEqual([expect.objectContaining({ round: 3, valueAtTrade: 12 })]);
+  });
+
+  it("fills in missing values on stored trades and keeps the ones already there", async () => {
+    setMockTransactions([storedTrade()]);
+    setMockLeagueData({
+      snapshots: [
+        { leagueId: LEAGUE_ID, playerId: "p1", day: day("2025-01-12"), score: 95 },
+        { leagueId: LEAGUE_ID, playerId: "p2", day: day("2025-01-14"), score: 72 },
+      ],
+    });
+
+    expect(await syncLeagueTransactions(USER_ID, LEAGUE_KEY, LEAGUE_ID)).toBe(1);
+
+    const { trade, values } = storedTradePlayers();
+    expect(values).toEqual({ "Connor McDavid": 99, "Quinn Hughes": 72 });
+    expect(trade.status).toBe("successful");
+    expect(trade.valuesCapturedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { formatYahooRanksCsv, parseYahooRanksCsv, type YahooSeasonRank } from "@/lib/yahoo/seasonRanks";
+import {
+  resolveBacktestConfig,
+  runBacktest,
+  spearmanCorrelation,
+  type SeasonDataset,
+} from "@/lib/yahoo/valueBacktest";
+
+describe("spearmanCorrelation", () => {
+  it("is 1 for the same order and -1 for the reverse", () => {
+    expect(spearmanCorrelation([1, 2, 3, 4], [10, 20, 30, 40])).toBeCloseTo(1);
+    expect(spearmanCorrelation([1, 2, 3, 4], [40, 30, 20, 10])).toBeCloseTo(-1);
+  });
+
+  it("only looks at order, not magnitude", () => {
+    expect(spearmanCorrelation([1, 2, 3, 4], [1, 2, 3, 1000])).toBeCloseTo(1);
+  });
+
+  it("gives ties their average rank", () => {
+    // Ranks [1, 2.5, 2.5, 4] vs [1, 2, 3, 4]
+    expect(spearmanCorrelation([1, 2, 2, 3], [1, 2, 3, 4])).toBeCloseTo(0.9487, 3);
+  });
+
+  it("needs at least 3 pairs", () => {
+    expect(spearmanCorrelation([1, 2], [1, 2])).toBeNull();
+  });
+});
+
+describe("resolveBacktestConfig", () => {
+  it("overrides formula constants and category weights", () => {
+    const { formula, scoringConfig } = resolveBacktestConfig({
+      formula: { defenseMultiplier: 0.85, positionMultipliers: { C: 1.0 } },
+      categoryWeights: { hits: 0.2, BLK: 0 },
+    });
+
+    expect(formula.defenseMultiplier).toBe(0.85);
+    expect(formula.positionMultipliers.C).toBe(1.0);
+    expect(formula.positionMultipliers.LW).toBe(1.08);
+    expect(scoringConfig.skaterCategories.find(c => c.name === "hits")!.weight).toBe(0.2);
+    expect(scoringConfig.skaterCategories.find(c => c.abbrev === "BLK")!.weight).toBe(0);
+  });
+
+  it("rejects unknown categories", () => {
+    expect(() => resolveBacktestConfig({ categoryWeights: { takeaways: 1 } })).toThrow(/takeaways/);
+  });
+});
+
+describe("runBacktest", () => {
+  const skater = (goals: number, assists: number) => ({
+    Goals: goals, Assists: assists, Points: goals + assists, "Shots on Goal": goals * 6,
+  });
+  const dataset: SeasonDataset = {
+    skaters: new Map([
+      ["Alpha Scorer", { "2024": skater(50, 60) }],
+      ["Beta Winger", { "2024": skater(30, 40) }],
+      ["Gamma Grinder", { "2024": skater(8, 12) }],
+      ["Delta Depth", { "2024": skater(4, 6) }],
+    ]),
+    goalies: new Map(),
+  };
+  const ranks = (names: string[]): YahooSeasonRank[] =>
+    names.map((name, index) => ({ rank: index + 1, name, position: "C", season: "2024" }));
+
+  it("matches Yahoo's order when values agree", () => {
+    const report = runBacktest({
+      season: "2024",
+      source: "csv",
+      dataset,
+      ranks: ranks(["Alpha Scorer", "Beta Winger", "Gamma Grinder", "Delta Depth"]),
+    });
+
+    expect(report.matchedPlayers).toBe(4);
+    expect(report.spearman).toBeCloseTo(1);
+    expect(report.players.map(p => p.valueRank)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("reports players without stats for the season", () => {
+    const report = runBacktest({
+      season: "2024",
+      source: "csv",
+      dataset,
+      ranks: ranks(["Alpha Scorer", "Rookie Unknown", "Beta Winger", "Gamma Grinder"]),
+    });
+
+    expect(report.unmatched).toEqual(["Rookie Unknown"]);
+    expect(report.players.map(p => p.yahooRank)).toEqual([1, 2, 3]);
+  });
+
+  it("matches names regardless of accents", () => {
+    const accented = { skaters: new Map([["Tim Stützle", { "2024": skater(20, 20) }]]), goalies: new Map() };
+    const report = runBacktest({ season: "2024", source: "csv", dataset: accented, ranks: ranks(["Tim Stutzle"]) });
+    expect(report.matchedPlayers).toBe(1);
+  });
+});
+
+describe("Yahoo ranks CSV", () => {
+  it("round-trips multi-position players", () => {
+    const ranks: YahooSeasonRank[] = [
+      { rank: 1, name: "Nikita Kucherov", position: "RW", season: "2024" },
+      { rank: 2, name: "Leon Draisaitl", position: "C,LW", season: "2024" },
+      { rank: 3, name: "Unknown Position", position: null, season: "2024" },
+    ];
+    expect(parseYahooRanksCsv(formatYahooRanksCsv(ranks))).toEqual(ranks);
+  });
+});
@@ -0,0 +1,184 @@
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getMockTradeProposal,
+  setMockMemberships,
+  setMockPlayers,
+  setMockTradeProposals,
+  setMockUsers,
+  type MockTradeProposal,
+} from "./helpers/prismaMock";
+import {
+  refreshLeagueYahooTrades,
+  refreshYahooTradeStatus,
+  submitTradeProposalToYahoo,
+} from "@/lib/proposals/yahooSubmission";
+import { YahooFantasyError } from "@/lib/yahoo/fantasyClient";
+import { syncLeagueRosters } from "@/lib/yahoo/roster";
+import { createReplayTransport, setYahooTransport, type YahooTransportRequest } from "@/lib/yahoo/transport";
+
+vi.mock("@/lib/yahoo/roster", () => ({ syncLeagueRosters: vi.fn() }));
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "yahoo");
+const LEAGUE_ID = "league1";
+const LEAGUE_KEY = "465.l.9080";
+const USER_ID = "user1";
+const SUBMITTED_AT = new Date("2025-01-10T12:00:00Z");
+
+const replay = createReplayTransport(FIXTURE_DIR);
+const sent: YahooTransportRequest[] = [];
+
+/**
+ * Serve the recorded fixtures, except for requests the test answers itself
+ */
+function useTransport(override?: (request: YahooTransportRequest) => Promise<string> | null) {
+  setYahooTransport(request => {
+    sent.push(request);
+    return override?.(request) ?? replay(request);
+  });
+}
+
+/**
+ * An accepted proposal from team 1 (the user's) to team 4: p1 for p2 and a 3rd round pick
+ */
+function proposal(overrides: Partial<MockTradeProposal> = {}): MockTradeProposal {
+  return {
+    id: "prop1",
+    leagueId: LEAGUE_ID,
+    fromTeamId: "team1",
+    toTeamId: "team4",
+    status: "accepted",
+    fromSide: { playerIds: ["p1"], picks: [], assets: [], totalValue: 0 },
+    toSide: { playerIds: ["p2"], picks: [3], assets: [], totalValue: 0 },
+    message: null,
+    yahooTransactionKey: null,
+    yahooStatus: null,
+    yahooSubmittedAt: null,
+    yahooCheckedAt: null,
+    fromTeam: { name: "Leaders", teamKey: "465.l.9080.t.1" },
+    toTeam: { name: "Cellar", teamKey: "465.l.9080.t.4" },
+    league: { leagueKey: LEAGUE_KEY },
+    ...overrides,
+  };
+}
+
+const submitted = (transactionKey: string | null, status: string | null = "proposed") =>
+  proposal({ yahooTransactionKey: transactionKey, yahooStatus: status, yahooSubmittedAt: SUBMITTED_AT });
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  setYahooTransport(null);
+});
+
+beforeEach(() => {
+  sent.length = 0;
+  vi.mocked(syncLeagueRosters).mockClear();
+  useTransport();
+
+  setMockUsers([{
+    id: USER_ID,
+    yahooAccount: { id: "acct1", yahooUserId: "yahoo1", accessToken: "fixture", refreshToken: null, expiresAt: null },
+  }]);
+  setMockMemberships([{ userId: USER_ID, leagueId: LEAGUE_ID, teamId: "team1" }]);
+  setMockPlayers([
+    ["p1", { name: "Connor McDavid", primaryPosition: "C", playerKey: "465.p.6743" }],
+    ["p2", { name: "Quinn Hughes", primaryPosition: "D", playerKey: "465.p.8290" }],
+  ]);
+});
+
+describe("submitTradeProposalToYahoo (replayed fixtures)", () => {
+  it("claims the proposal and stores Yahoo's pending trade", async () => {
+    setMockTradeProposals([proposal()]);
+
+    const yahoo = await submitTradeProposalToYahoo(LEAGUE_ID, USER_ID, "prop1");
+
+    expect(yahoo).toMatchObject({ transactionKey: "465.l.9080.pt.3", status: "proposed", final: false });
+    expect(sent.map(r => `${r.method} ${r.path}`)).toEqual(["POST league/465.l.9080/transactions"]);
+    expect(getMockTradeProposal("prop1")).toMatchObject({ yahooTransactionKey: "465.l.9080.pt.3", yahooStatus: "proposed" });
+    expect(getMockTradeProposal("prop1")?.yahooSubmittedAt).toBeInstanceOf(Date);
+
+    // The claim stops a second submission before it reaches Yahoo
+    await expect(submitTradeProposalToYahoo(LEAGUE_ID, USER_ID, "prop1")).rejects.toThrow(/already submitted/);
+    expect(sent).toHaveLength(1);
+  });
+
+  it("releases the claim when Yahoo refuses the trade", async () => {
+    setMockTradeProposals([proposal()]);
+    useTransport(request => request.method === "POST"
+      ? Promise.reject(new YahooFantasyError("Trade deadline has passed", 400, request.path))
+      : null);
+
+    await expect(submitTradeProposalToYahoo(LEAGUE_ID, USER_ID, "prop1")).rejects.toBeInstanceOf(YahooFantasyError);
+    expect(getMockTradeProposal("prop1")?.yahooSubmittedAt).toBeNull();
+  });
+
+  it("keeps the claim when the request failed without an answer", async () => {
+    setMockTradeProposals([proposal()]);
+    useTransport(request => request.method === "POST" ? Promise.reject(new Error("socket hang up")) : null);
+
+    await expect(submitTradeProposalToYahoo(LEAGUE_ID, USER_ID, "prop1")).rejects.toThrow("socket hang up");
+    expect(getMockTradeProposal("prop1")?.yahooSubmittedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe("refreshYahooTradeStatus (replayed fixtures)", () => {
+  it("stores the pending trade's new status", async () => {
+    setMockTradeProposals([submitted("465.l.9080.pt.3")]);
+
+    const yahoo = await refreshYahooTradeStatus(LEAGUE_ID, USER_ID, "prop1");
+
+    expect(yahoo).toMatchObject({ status: "accepted", final: false, completed: false });
+    expect(getMockTradeProposal("prop1")?.yahooStatus).toBe("accepted");
+    expect(syncLeagueRosters).not.toHaveBeenCalled();
+  });
+
+  it("re-syncs rosters once the trade goes through", async () => {
+    setMockTradeProposals([submitted("465.l.9080.pt.4", "accepted")]);
+
+    const yahoo = await refreshYahooTradeStatus(LEAGUE_ID, USER_ID, "prop1");
+
+    expect(yahoo).toMatchObject({ status: "successful", final: true, completed: true });
+    expect(syncLeagueRosters).toHaveBeenCalledWith(USER_ID, LEAGUE_KEY);
+
+    // Final trades aren't read from Yahoo again
+    await refreshYahooTradeStatus(LEAGUE_ID, USER_ID, "prop1");
+    expect(sent).toHaveLength(1);
+    expect(syncLeagueRosters).toHaveBeenCalledTimes(1);
+  });
+
+  it("finds the completed league trade for a submission Yahoo never confirmed", async () => {
+    setMockTradeProposals([submitted(null, null)]);
+
+    const yahoo = await refreshYahooTradeStatus(LEAGUE_ID, USER_ID, "prop1");
+
+    expect(sent.map(r => r.path)).toEqual(["league/465.l.9080/transactions;types=add,drop,trade"]);
+    expect(yahoo).toMatchObject({ transactionKey: "465.l.9080.tr.41", status: "successful", completed: true });
+    expect(getMockTradeProposal("prop1")).toMatchObject({ yahooTransactionKey: "465.l.9080.tr.41", yahooStatus: "successful" });
+    expect(syncLeagueRosters).toHaveBeenCalledWith(USER_ID, LEAGUE_KEY);
+  });
+
+  it("is limited to the managers in the trade", async () => {
+    setMockTradeProposals([submitted("465.l.9080.pt.3")]);
+    setMockMemberships([{ userId: USER_ID, leagueId: LEAGUE_ID, teamId: "team7" }]);
+
+    await expect(refreshYahooTradeStatus(LEAGUE_ID, USER_ID, "prop1")).rejects.toThrow("Proposal not found");
+  });
+});
+
+describe("refreshLeagueYahooTrades (replayed fixtures)", () => {
+  it("refreshes only the trades Yahoo hasn't finished with", async () => {
+    setMockTradeProposals([
+      submitted("465.l.9080.pt.3"),
+      { ...submitted("465.l.9080.pt.2", "vetoed"), id: "prop2" },
+      { ...proposal(), id: "prop3" },
+    ]);
+
+    expect(await refreshLeagueYahooTrades(USER_ID, LEAGUE_ID)).toBe(1);
+    expect(sent.map(r => r.path)).toEqual(["transaction/465.l.9080.pt.3"]);
+    expect(getMockTradeProposal("prop1")?.yahooStatus).toBe("accepted");
+  });
+});
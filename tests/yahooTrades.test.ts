@@ -0,0 +1,124 @@
+import path from "path";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { parseYahooXml } from "@/lib/yahoo/normalize";
+import { createReplayTransport, YahooFixtureNotFoundError, type YahooTransportRequest } from "@/lib/yahoo/transport";
+import type { YahooTransaction } from "@/lib/yahoo/transactions";
+import {
+  buildPendingTradeXml,
+  fetchYahooTradeState,
+  findCompletedTrade,
+  postYahooPendingTrade,
+  type YahooPendingTrade,
+  type YahooRequester,
+} from "@/lib/yahoo/trades";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "yahoo");
+
+const trade: YahooPendingTrade = {
+  traderTeamKey: "465.l.9080.t.1",
+  tradeeTeamKey: "465.l.9080.t.4",
+  note: "Pick swap <sweetener> & more",
+  players: [
+    { playerKey: "465.p.6743", sourceTeamKey: "465.l.9080.t.1", destinationTeamKey: "465.l.9080.t.4" },
+    { playerKey: "465.p.8290", sourceTeamKey: "465.l.9080.t.4", destinationTeamKey: "465.l.9080.t.1" },
+  ],
+  picks: [{ round: 3, sourceTeamKey: "465.l.9080.t.4", destinationTeamKey: "465.l.9080.t.1" }],
+};
+
+/**
+ * A Yahoo client served by the recorded fixtures, keeping every request it was sent
+ */
+function replayClient(): YahooRequester & { sent: YahooTransportRequest[] } {
+  const replay = createReplayTransport(FIXTURE_DIR);
+  const sent: YahooTransportRequest[] = [];
+
+  return {
+    sent,
+    request: (endpoint, options) => {
+      const request = {
+        path: endpoint,
+        method: options?.method || "GET",
+        headers: options?.headers || {},
+        body: options?.body,
+        accessToken: "fixture",
+      };
+      sent.push(request);
+      return replay(request);
+    },
+  };
+}
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("buildPendingTradeXml", () => {
+  it("lists every player and pick with its direction, escaping the note", async () => {
+    const xml = buildPendingTradeXml(trade);
+    expect(xml).toContain("<trade_note>Pick swap &lt;sweetener&gt; &amp; more</trade_note>");
+
+    const parsed = await parseYahooXml(xml);
+    const transaction = parsed.fantasy_content.transaction;
+    expect(transaction.type).toBe("pending_trade");
+    expect(transaction.players.player.map((p: { player_key: string }) => p.player_key)).toEqual(["465.p.6743", "465.p.8290"]);
+    expect(transaction.picks.pick.round).toBe(3);
+  });
+
+  it("leaves out empty sections and a missing note", () => {
+    const xml = buildPendingTradeXml({ ...trade, note: null, picks: [] });
+    expect(xml).not.toContain("<picks>");
+    expect(xml).not.toContain("<trade_note>");
+  });
+});
+
+describe("Yahoo trade requests (replayed fixtures)", () => {
+  it("posts the pending trade to the league's transactions", async () => {
+    const client = replayClient();
+    const state = await postYahooPendingTrade(client, "465.l.9080", trade);
+
+    expect(state).toEqual({ transactionKey: "465.l.9080.pt.3", status: "proposed" });
+    expect(client.sent[0].method).toBe("POST");
+    expect(client.sent[0].headers["Content-Type"]).toBe("application/xml");
+    expect(client.sent[0].body).toBe(buildPendingTradeXml(trade));
+  });
+
+  it("reads the pending trade's status", async () => {
+    const state = await fetchYahooTradeState(replayClient(), "465.l.9080.pt.3");
+    expect(state.status).toBe("accepted");
+  });
+
+  it("fails on a request with no recorded response", async () => {
+    await expect(fetchYahooTradeState(replayClient(), "465.l.9080.pt.99")).rejects.toBeInstanceOf(YahooFixtureNotFoundError);
+  });
+});
+
+describe("findCompletedTrade", () => {
+  const since = new Date("2025-01-10T12:00:00Z");
+  const completed: YahooTransaction = {
+    transactionKey: "465.l.9080.tr.41",
+    type: "trade",
+    status: "successful",
+    timestamp: new Date("2025-01-12T08:00:00Z"),
+    players: trade.players.map(p => ({
+      playerKey: p.playerKey,
+      playerName: p.playerKey,
+      type: "trade",
+      sourceType: "team",
+      sourceTeamKey: p.sourceTeamKey,
+      sourceTeamName: null,
+      destinationType: "team",
+      destinationTeamKey: p.destinationTeamKey,
+      destinationTeamName: null,
+    })),
+    picks: trade.picks,
+  };
+
+  it("matches the league trade that moved exactly the same players and picks", () => {
+    expect(findCompletedTrade([completed], trade, since)?.transactionKey).toBe("465.l.9080.tr.41");
+  });
+
+  it("ignores older trades and trades with different assets", () => {
+    expect(findCompletedTrade([{ ...completed, timestamp: new Date("2025-01-01T00:00:00Z") }], trade, since)).toBeNull();
+    expect(findCompletedTrade([{ ...completed, picks: [] }], trade, since)).toBeNull();
+  });
+});
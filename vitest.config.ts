@@ -0,0 +1,19 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    env: {
+      // Trade explanations come from the offline, deterministic provider
+      LLM_PROVIDER: "template",
+    },
+  },
+});